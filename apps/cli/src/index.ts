@@ -4,11 +4,39 @@
 
 import "source-map-support/register.js";
 
-import { Adb, AdbServerClient, Ref } from "@yume-chan/adb";
+import type { Stats } from "node:fs";
+import { stat } from "node:fs/promises";
+import { basename, join, posix } from "node:path";
+
+import type {
+    AdbSync,
+    AdbSyncDirectorySourceFile,
+    AdbSyncTransferProgress,
+} from "@yume-chan/adb";
+import {
+    Adb,
+    adbSyncIsUpToDate,
+    AdbServerClient,
+    joinPath,
+    LinuxFileType,
+    Ref,
+} from "@yume-chan/adb";
 import { AdbServerNodeTcpConnector } from "@yume-chan/adb-server-node-tcp";
+import { PackageManager } from "@yume-chan/android-bin";
 import { WritableStream } from "@yume-chan/stream-extra";
+import type { Command } from "commander";
 import { program } from "commander";
 
+import {
+    createFileSink,
+    createFileSource,
+    getCompressionCodecs,
+    isDirectory,
+    openFile,
+    restoreStat,
+    writeFile,
+} from "./sync.js";
+
 program
     .name("tango-cli")
     .option("-H <host>", "name of adb server host", "127.0.0.1")
@@ -100,27 +128,27 @@ function createDeviceCommand(nameAndArgs: string) {
         );
 }
 
+function getDeviceSelector(
+    options: DeviceCommandOptions,
+): AdbServerClient.DeviceSelector {
+    if (options.d) {
+        return { usb: true };
+    }
+    if (options.e) {
+        return { tcp: true };
+    }
+    if (options.s !== undefined) {
+        return { serial: options.s };
+    }
+    if (options.t !== undefined) {
+        return { transportId: options.t };
+    }
+    return undefined;
+}
+
 async function createAdb(options: DeviceCommandOptions) {
     const client = createClient();
-    const transport = await client.createTransport(
-        options.d
-            ? {
-                  usb: true,
-              }
-            : options.e
-              ? {
-                    tcp: true,
-                }
-              : options.s !== undefined
-                ? {
-                      serial: options.s,
-                  }
-                : options.t !== undefined
-                  ? {
-                        transportId: options.t,
-                    }
-                  : undefined,
-    );
+    const transport = await client.createTransport(getDeviceSelector(options));
     const adb = new Adb(transport);
     return adb;
 }
@@ -229,6 +257,433 @@ createDeviceCommand("tcpip port")
         process.stdout.write(output, "utf8");
     });
 
+interface CompressionCommandOptions {
+    z: string;
+    Z: true | undefined;
+}
+
+function addCompressionOptions(command: Command) {
+    return command
+        .option(
+            "-z <algorithm>",
+            "enable compression with a specified algorithm (any/none/brotli/zstd)",
+            "any",
+        )
+        .option("-Z", "disable compression");
+}
+
+function formatTransferSummary(
+    name: string,
+    verb: string,
+    {
+        files,
+        skipped,
+        bytes,
+    }: { files: number; skipped: number; bytes: number },
+    start: number,
+) {
+    const seconds = (performance.now() - start) / 1000;
+    const rate = bytes / 1024 / 1024 / Math.max(seconds, 0.001);
+    return `${name}: ${files} file${files === 1 ? "" : "s"} ${verb}, ${skipped} skipped. ${rate.toFixed(1)} MB/s (${bytes} byte${bytes === 1 ? "" : "s"} in ${seconds.toFixed(3)}s)`;
+}
+
+async function isUpToDate(
+    sync: AdbSync,
+    remote: string,
+    entry: AdbSyncDirectorySourceFile,
+) {
+    try {
+        const stat = await sync.lstat(remote);
+        return adbSyncIsUpToDate({ path: remote, entry }, stat);
+    } catch {
+        return false;
+    }
+}
+
+interface PushCommandOptions
+    extends DeviceCommandOptions,
+        CompressionCommandOptions {
+    sync: true | undefined;
+}
+
+addCompressionOptions(createDeviceCommand("push <paths...>"))
+    .usage("[--sync] [-z ALGORITHM] [-Z] LOCAL... REMOTE")
+    .description("copy local files/directories to device")
+    .option(
+        "--sync",
+        "only push files that are newer on the host than the device",
+    )
+    .configureHelp({ showGlobalOptions: true })
+    .action(async (paths: string[], options: PushCommandOptions) => {
+        const remote = paths.pop()!;
+        if (paths.length === 0) {
+            throw new Error("push requires an argument");
+        }
+
+        const compression = getCompressionCodecs(
+            options.Z ? "none" : options.z,
+        );
+
+        const adb = await createAdb(options);
+        const sync = await adb.sync();
+        try {
+            const remoteIsDirectory = await sync.isDirectory(remote);
+            if (paths.length > 1 && !remoteIsDirectory) {
+                throw new Error(`target '${remote}' is not a directory`);
+            }
+
+            for (const local of paths) {
+                let stats: Stats;
+                try {
+                    stats = await stat(local);
+                } catch {
+                    throw new Error(`cannot stat '${local}'`);
+                }
+
+                const target = remoteIsDirectory
+                    ? joinPath(remote, basename(local))
+                    : remote;
+                const result = { files: 0, skipped: 0, bytes: 0 };
+                const start = performance.now();
+
+                if (stats.isDirectory()) {
+                    const source = createFileSource(local);
+                    const onProgress = (progress: AdbSyncTransferProgress) => {
+                        result.files = progress.fileCount;
+                        result.bytes = progress.totalTransferred;
+                    };
+
+                    if (options.sync) {
+                        const { pushed, unchanged } = await sync.mirror({
+                            source,
+                            path: target,
+                            compression,
+                            onProgress,
+                        });
+                        result.files = pushed.length;
+                        result.skipped = unchanged.length;
+                    } else {
+                        await sync.pushDirectory({
+                            source,
+                            path: target,
+                            compression,
+                            onProgress,
+                        });
+                    }
+                } else {
+                    const entry: AdbSyncDirectorySourceFile = {
+                        type: LinuxFileType.File,
+                        name: basename(local),
+                        permission: stats.mode & 0o777,
+                        mtime: Math.floor(stats.mtimeMs / 1000),
+                        size: stats.size,
+                        open: () => openFile(local),
+                    };
+
+                    if (
+                        options.sync &&
+                        (await isUpToDate(sync, target, entry))
+                    ) {
+                        result.skipped = 1;
+                    } else {
+                        await sync.write({
+                            filename: target,
+                            file: openFile(local),
+                            permission: entry.permission,
+                            mtime: entry.mtime,
+                            compression,
+                        });
+                        result.files = 1;
+                        result.bytes = stats.size;
+                    }
+                }
+
+                console.log(
+                    formatTransferSummary(local, "pushed", result, start),
+                );
+            }
+        } finally {
+            await sync.dispose();
+            await adb.close();
+        }
+    });
+
+interface PullCommandOptions
+    extends DeviceCommandOptions,
+        CompressionCommandOptions {
+    a: true | undefined;
+}
+
+addCompressionOptions(createDeviceCommand("pull <paths...>"))
+    .usage("[-a] [-z ALGORITHM] [-Z] REMOTE... [LOCAL]")
+    .description("copy files/dirs from device")
+    .option("-a", "preserve file timestamp and mode")
+    .configureHelp({ showGlobalOptions: true })
+    .action(async (paths: string[], options: PullCommandOptions) => {
+        const local = paths.length > 1 ? paths.pop()! : ".";
+        const preserve = !!options.a;
+        const compression = getCompressionCodecs(
+            options.Z ? "none" : options.z,
+        );
+
+        const localIsDirectory = await isDirectory(local);
+        if (paths.length > 1 && !localIsDirectory) {
+            throw new Error(`target '${local}' is not a directory`);
+        }
+
+        const adb = await createAdb(options);
+        const sync = await adb.sync();
+        try {
+            for (const remote of paths) {
+                // `posix.basename` ignores trailing slashes
+                const target = localIsDirectory
+                    ? join(local, posix.basename(remote))
+                    : local;
+                const result = { files: 0, skipped: 0, bytes: 0 };
+                const start = performance.now();
+
+                if (await sync.isDirectory(remote)) {
+                    await sync.pullDirectory({
+                        path: remote,
+                        sink: createFileSink(target, preserve),
+                        compression,
+                        onProgress(progress) {
+                            result.files = progress.fileCount;
+                            result.bytes = progress.totalTransferred;
+                        },
+                    });
+                } else {
+                    const stat = await sync.lstat(remote);
+                    result.bytes = await writeFile(
+                        target,
+                        sync.read(remote, { compression }),
+                    );
+                    result.files = 1;
+                    if (preserve) {
+                        await restoreStat(target, stat);
+                    }
+                }
+
+                console.log(
+                    formatTransferSummary(remote, "pulled", result, start),
+                );
+            }
+        } finally {
+            await sync.dispose();
+            await adb.close();
+        }
+    });
+
+interface InstallCommandOptions {
+    e: true | undefined;
+    s: string | undefined;
+    r: true | undefined;
+    R: true | undefined;
+    t: true | undefined;
+    d: true | undefined;
+    g: true | undefined;
+    instant: true | undefined;
+}
+
+// `-d` and `-t` are install options like Google adb,
+// so only `-e` and `-s` can be used to select the device.
+program
+    .command("install <package>")
+    .usage("[-rRtdg] [--instant] PACKAGE")
+    .description("push a single package to the device and install it")
+    .option(
+        "-e",
+        "use TCP/IP device (error if multiple TCP/IP devices available)",
+    )
+    .option(
+        "-s <serial>",
+        "use device with given serial (overrides $ANDROID_SERIAL)",
+        process.env.ANDROID_SERIAL,
+    )
+    .option("-r", "replace existing application (default)")
+    .option("-R", "disallow replacing existing application")
+    .option("-t", "allow test packages")
+    .option("-d", "allow version code downgrade (debuggable packages only)")
+    .option("-g", "grant all runtime permissions")
+    .option(
+        "--instant",
+        "cause the app to be installed as an ephemeral install app",
+    )
+    .configureHelp({ showGlobalOptions: true })
+    .action(async (file: string, options: InstallCommandOptions) => {
+        if (options.r && options.R) {
+            throw new Error("-r and -R can't be used together");
+        }
+
+        const stats = await stat(file);
+
+        const adb = await createAdb({
+            d: undefined,
+            e: options.e,
+            s: options.s,
+            t: undefined,
+        });
+        try {
+            const pm = new PackageManager(adb);
+            console.log("Performing Streamed Install");
+            try {
+                await pm.installStream(stats.size, openFile(file), {
+                    skipExisting: !!options.R,
+                    allowTest: !!options.t,
+                    requestDowngrade: !!options.d,
+                    grantRuntimePermissions: !!options.g,
+                    instantApp: !!options.instant,
+                });
+            } catch (e) {
+                console.error(
+                    `adb: failed to install ${file}: ${(e as Error).message}`,
+                );
+                process.exitCode = 1;
+                return;
+            }
+            console.log("Success");
+        } finally {
+            await adb.close();
+        }
+    });
+
+createDeviceCommand("uninstall <package>")
+    .usage("[-k] PACKAGE")
+    .description("remove this app package from the device")
+    .option("-k", "keep the data and cache directories")
+    .configureHelp({ showGlobalOptions: true })
+    .action(
+        async (
+            packageName: string,
+            options: DeviceCommandOptions & { k: true | undefined },
+        ) => {
+            const adb = await createAdb(options);
+            try {
+                const pm = new PackageManager(adb);
+                try {
+                    await pm.uninstall(packageName, { keepData: !!options.k });
+                } catch (e) {
+                    console.error((e as Error).message);
+                    process.exitCode = 1;
+                    return;
+                }
+                console.log("Success");
+            } finally {
+                await adb.close();
+            }
+        },
+    );
+
+interface ForwardCommandOptions extends DeviceCommandOptions {
+    list: true | undefined;
+    remove: string | undefined;
+    removeAll: true | undefined;
+    rebind: boolean;
+}
+
+function createForwardCommand(
+    name: string,
+    [from, to]: [string, string],
+    description: string,
+) {
+    return createDeviceCommand(`${name} [addresses...]`)
+        .usage(
+            `--list | [--no-rebind] ${from} ${to} | --remove ${from} | --remove-all`,
+        )
+        .description(description)
+        .option("--list", `list all ${name} socket connections`)
+        .option("--no-rebind", `fail if ${from} is already in use`)
+        .option(
+            `--remove <${from.toLowerCase()}>`,
+            `remove specific ${name} socket connection`,
+        )
+        .option("--remove-all", `remove all ${name} socket connections`)
+        .configureHelp({ showGlobalOptions: true });
+}
+
+function getForwardAddresses(addresses: string[]): [string, string] {
+    if (addresses.length !== 2) {
+        throw new Error("expected exactly two arguments");
+    }
+    return addresses as [string, string];
+}
+
+function printForwardAddress(local: string, address: string) {
+    // Like Google adb, only print the port when it was allocated by the server/device
+    if (local === "tcp:0") {
+        console.log(address.substring("tcp:".length));
+    }
+}
+
+createForwardCommand(
+    "forward",
+    ["LOCAL", "REMOTE"],
+    "forward socket connection from host to device",
+).action(async (addresses: string[], options: ForwardCommandOptions) => {
+    const client = createClient();
+
+    if (options.list) {
+        for (const listener of await client.forward.list()) {
+            console.log(
+                `${listener.deviceSerial} ${listener.localName} ${listener.remoteName}`,
+            );
+        }
+    } else if (options.removeAll) {
+        await client.forward.removeAll();
+    } else if (options.remove !== undefined) {
+        await client.forward.remove(getDeviceSelector(options), options.remove);
+    } else {
+        const [local, remote] = getForwardAddresses(addresses);
+        printForwardAddress(
+            local,
+            await client.forward.add(
+                getDeviceSelector(options),
+                local,
+                remote,
+                options.rebind,
+            ),
+        );
+    }
+});
+
+createForwardCommand(
+    "reverse",
+    ["REMOTE", "LOCAL"],
+    "reverse socket connection from device to host",
+).action(async (addresses: string[], options: ForwardCommandOptions) => {
+    const adb = await createAdb(options);
+    try {
+        if (options.list) {
+            for (const listener of await adb.reverse.list()) {
+                console.log(
+                    `${listener.deviceSerial} ${listener.localName} ${listener.remoteName}`,
+                );
+            }
+        } else if (options.removeAll) {
+            await adb.reverse.removeAll();
+        } else if (options.remove !== undefined) {
+            await adb.reverse.remove(options.remove);
+        } else {
+            const [remote, local] = getForwardAddresses(addresses);
+            printForwardAddress(
+                remote,
+                await adb.reverse.addExternal(remote, local, options.rebind),
+            );
+        }
+    } finally {
+        await adb.close();
+    }
+});
+
+createDeviceCommand("get-state")
+    .usage(" ")
+    .description("print offline | bootloader | device")
+    .configureHelp({ showGlobalOptions: true })
+    .action(async (options: DeviceCommandOptions) => {
+        const client = createClient();
+        console.log(await client.getDeviceState(getDeviceSelector(options)));
+    });
+
 program
     .command("kill-server")
     .description("kill the server if it is running")
@@ -238,4 +693,7 @@ program
         await client.killServer();
     });
 
-program.parse();
+program.parseAsync().catch((e: unknown) => {
+    console.error(`adb: error: ${e instanceof Error ? e.message : String(e)}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,214 @@
+import type { FileHandle } from "node:fs/promises";
+import {
+    chmod,
+    lstat,
+    mkdir,
+    open,
+    readdir,
+    readlink,
+    symlink,
+    utimes,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { Duplex } from "node:stream";
+import * as zlib from "node:zlib";
+
+import type {
+    AdbSyncCompressionCodec,
+    AdbSyncDirectorySink,
+    AdbSyncDirectorySource,
+    AdbSyncDirectorySourceEntry,
+    AdbSyncStat,
+} from "@yume-chan/adb";
+import { AdbSyncCompressionType, LinuxFileType } from "@yume-chan/adb";
+import type { TransformStream } from "@yume-chan/stream-extra";
+import { ReadableStream } from "@yume-chan/stream-extra";
+
+const CHUNK_SIZE = 64 * 1024;
+
+function wrapTransform(
+    transform: Duplex,
+): TransformStream<Uint8Array, Uint8Array> {
+    return Duplex.toWeb(transform) as unknown as TransformStream<
+        Uint8Array,
+        Uint8Array
+    >;
+}
+
+/**
+ * Gets compression codecs implemented by Node.js `zlib` module.
+ *
+ * Brotli is always available, Zstandard requires Node.js 22.15 or later.
+ * LZ4 is not available.
+ *
+ * @param algorithm
+ * The value of `-z` option: `any`, `none`, or the name of an algorithm.
+ */
+export function getCompressionCodecs(
+    algorithm: string,
+): AdbSyncCompressionCodec[] {
+    const codecs: AdbSyncCompressionCodec[] = [
+        {
+            type: AdbSyncCompressionType.Brotli,
+            compress: () => wrapTransform(zlib.createBrotliCompress()),
+            decompress: () => wrapTransform(zlib.createBrotliDecompress()),
+        },
+    ];
+
+    // `@types/node` may be newer than the runtime
+    if ("createZstdCompress" in zlib) {
+        codecs.push({
+            type: AdbSyncCompressionType.Zstd,
+            compress: () => wrapTransform(zlib.createZstdCompress()),
+            decompress: () => wrapTransform(zlib.createZstdDecompress()),
+        });
+    }
+
+    switch (algorithm) {
+        case "any":
+            return codecs;
+        case "none":
+            return [];
+        case "lz4":
+            // Node.js doesn't have a built-in LZ4 implementation
+            throw new Error(
+                "lz4 compression is not supported, use brotli or zstd instead",
+            );
+        default: {
+            const codec = codecs.find((codec) => codec.type === algorithm);
+            if (!codec) {
+                throw new Error(
+                    `unsupported compression algorithm '${algorithm}'`,
+                );
+            }
+            return [codec];
+        }
+    }
+}
+
+export function openFile(path: string): ReadableStream<Uint8Array> {
+    let handle: FileHandle;
+    return new ReadableStream<Uint8Array>({
+        async start() {
+            handle = await open(path, "r");
+        },
+        async pull(controller) {
+            const buffer = new Uint8Array(CHUNK_SIZE);
+            const { bytesRead } = await handle.read(buffer, 0, CHUNK_SIZE);
+            if (bytesRead === 0) {
+                await handle.close();
+                controller.close();
+                return;
+            }
+            controller.enqueue(buffer.subarray(0, bytesRead));
+        },
+        async cancel() {
+            await handle.close();
+        },
+    });
+}
+
+export async function writeFile(
+    path: string,
+    content: ReadableStream<Uint8Array>,
+): Promise<number> {
+    let size = 0;
+    const handle = await open(path, "w");
+    try {
+        for await (const chunk of content) {
+            await handle.write(chunk);
+            size += chunk.length;
+        }
+    } finally {
+        await handle.close();
+    }
+    return size;
+}
+
+export async function isDirectory(path: string): Promise<boolean> {
+    try {
+        return (await lstat(path)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Creates an `AdbSyncDirectorySource` that reads from a local directory.
+ */
+export function createFileSource(root: string): AdbSyncDirectorySource {
+    return {
+        async *list(path): AsyncIterable<AdbSyncDirectorySourceEntry> {
+            const directory = join(root, path);
+            for (const name of await readdir(directory)) {
+                const fullPath = join(directory, name);
+                const stats = await lstat(fullPath);
+                const mtime = Math.floor(stats.mtimeMs / 1000);
+
+                if (stats.isDirectory()) {
+                    yield { type: LinuxFileType.Directory, name };
+                } else if (stats.isSymbolicLink()) {
+                    yield {
+                        type: LinuxFileType.Link,
+                        name,
+                        mtime,
+                        target: await readlink(fullPath),
+                    };
+                } else if (stats.isFile()) {
+                    yield {
+                        type: LinuxFileType.File,
+                        name,
+                        permission: stats.mode & 0o777,
+                        mtime,
+                        size: stats.size,
+                        open: () => openFile(fullPath),
+                    };
+                }
+                // Other types (sockets, devices, etc.) are skipped like `adb push`
+            }
+        },
+    };
+}
+
+/**
+ * Sets permission and last modified time of a local file to the ones on device.
+ */
+export async function restoreStat(path: string, stat: AdbSyncStat) {
+    await chmod(path, stat.permission);
+    const mtime = Number(stat.mtime);
+    await utimes(path, mtime, mtime);
+}
+
+/**
+ * Creates an `AdbSyncDirectorySink` that writes into a local directory.
+ *
+ * @param preserve
+ * Whether to restore permission and last modified time from device, like `adb pull -a`.
+ */
+export function createFileSink(
+    root: string,
+    preserve: boolean,
+): AdbSyncDirectorySink {
+    async function restore(path: string, stat: AdbSyncStat) {
+        if (preserve) {
+            await restoreStat(path, stat);
+        }
+    }
+
+    return {
+        async createDirectory(path) {
+            await mkdir(join(root, path), { recursive: true });
+        },
+        async finishDirectory(path, stat) {
+            await restore(join(root, path), stat);
+        },
+        async writeFile(path, stat, content) {
+            const fullPath = join(root, path);
+            await writeFile(fullPath, content);
+            await restore(fullPath, stat);
+        },
+        async createSymlink(path, target) {
+            await symlink(target, join(root, path));
+        },
+    };
+}
@@ -0,0 +1,221 @@
+import type { KeyObject } from "node:crypto";
+import { createPrivateKey, generateKeyPair } from "node:crypto";
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { homedir, hostname, userInfo } from "node:os";
+import { delimiter, dirname, join } from "node:path";
+
+import type { AdbCredentialStore, AdbPrivateKey } from "@yume-chan/adb";
+import { adbFormatPublicKey } from "@yume-chan/adb";
+
+export interface AdbNodeCredentialStoreOptions {
+    /**
+     * The directory containing `adbkey` and `adbkey.pub` files.
+     *
+     * Defaults to `$ANDROID_USER_HOME`, or `~/.android` if not set, same as Google ADB.
+     */
+    androidUserHome?: string | undefined;
+
+    /**
+     * A list of key files or directories containing `*.adbkey` files,
+     * separated by `path.delimiter` (`:` on Unix, `;` on Windows).
+     *
+     * Defaults to `$ADB_VENDOR_KEYS`.
+     */
+    vendorKeys?: string | undefined;
+
+    /**
+     * The name for generated keys.
+     *
+     * Defaults to `user@host`, same as Google ADB.
+     */
+    name?: string | undefined;
+}
+
+function isNotFoundError(e: unknown) {
+    return (
+        e instanceof Error &&
+        "code" in e &&
+        (e.code === "ENOENT" || e.code === "ENOTDIR")
+    );
+}
+
+async function readFileIfExists(path: string): Promise<string | undefined> {
+    try {
+        return await readFile(path, "utf8");
+    } catch (e) {
+        if (isNotFoundError(e)) {
+            return undefined;
+        }
+        throw e;
+    }
+}
+
+function generateRsaKey(): Promise<KeyObject> {
+    return new Promise((resolve, reject) => {
+        generateKeyPair(
+            "rsa",
+            { modulusLength: 2048, publicExponent: 65537 },
+            (err, _, privateKey) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(privateKey);
+                }
+            },
+        );
+    });
+}
+
+function getUserName() {
+    try {
+        return userInfo().username;
+    } catch {
+        // `userInfo` throws when the user doesn't have a passwd entry,
+        // which is common in containers.
+        return process.env.USER ?? "unknown";
+    }
+}
+
+/**
+ * An `AdbCredentialStore` implementation that reads and writes private keys
+ * in the same files as Google ADB.
+ *
+ * Devices already authorized for Google ADB on this computer will accept the same keys.
+ */
+export class AdbNodeCredentialStore implements AdbCredentialStore {
+    readonly #keyPath: string;
+    /**
+     * Path of the `adbkey` file.
+     *
+     * The public key is stored in the same path with `.pub` suffix.
+     */
+    get keyPath() {
+        return this.#keyPath;
+    }
+
+    readonly #vendorKeys: string[];
+    readonly #name: string;
+
+    constructor(options: AdbNodeCredentialStoreOptions = {}) {
+        const androidUserHome =
+            options.androidUserHome ??
+            process.env.ANDROID_USER_HOME ??
+            join(homedir(), ".android");
+        this.#keyPath = join(androidUserHome, "adbkey");
+
+        this.#vendorKeys =
+            (options.vendorKeys ?? process.env.ADB_VENDOR_KEYS)
+                ?.split(delimiter)
+                .filter(Boolean) ?? [];
+
+        this.#name = options.name ?? `${getUserName()}@${hostname()}`;
+    }
+
+    /**
+     * Generates a RSA private key and writes it to `adbkey` and `adbkey.pub` files.
+     *
+     * Calling this method multiple times will overwrite the previous key.
+     *
+     * @returns The private key in PKCS #8 format.
+     */
+    async generateKey(): Promise<AdbPrivateKey> {
+        const privateKey = await generateRsaKey();
+        const key: AdbPrivateKey = {
+            buffer: new Uint8Array(
+                privateKey.export({ format: "der", type: "pkcs8" }),
+            ),
+            name: this.#name,
+        };
+
+        const publicKey = adbFormatPublicKey(key);
+
+        // Google ADB creates both files with `umask(077)`
+        await mkdir(dirname(this.#keyPath), {
+            recursive: true,
+            mode: 0o700,
+        });
+        await writeFile(
+            this.#keyPath,
+            privateKey.export({ format: "pem", type: "pkcs8" }),
+            { mode: 0o600 },
+        );
+        await writeFile(
+            this.#keyPath + ".pub",
+            // Remove the null terminator
+            publicKey.subarray(0, -1),
+            { mode: 0o600 },
+        );
+
+        return key;
+    }
+
+    async #readKey(path: string): Promise<AdbPrivateKey | undefined> {
+        const pem = await readFileIfExists(path);
+        if (pem === undefined) {
+            return undefined;
+        }
+
+        // Both PKCS #1 (older Google ADB) and PKCS #8 formats are supported
+        const buffer = createPrivateKey(pem).export({
+            format: "der",
+            type: "pkcs8",
+        });
+
+        // The public key file is "<base64 key> <name>"
+        const publicKey = await readFileIfExists(path + ".pub");
+        const separator = publicKey?.indexOf(" ") ?? -1;
+        const name =
+            separator !== -1
+                ? publicKey!.substring(separator + 1).replace(/[\s\0]+$/, "")
+                : undefined;
+
+        return { buffer: new Uint8Array(buffer), name: name || this.#name };
+    }
+
+    async *#readVendorKeys(path: string): AsyncGenerator<AdbPrivateKey> {
+        let stats;
+        try {
+            stats = await stat(path);
+        } catch (e) {
+            if (isNotFoundError(e)) {
+                return;
+            }
+            throw e;
+        }
+
+        if (!stats.isDirectory()) {
+            const key = await this.#readKey(path);
+            if (key) {
+                yield key;
+            }
+            return;
+        }
+
+        const names = (await readdir(path))
+            .filter((name) => name.endsWith(".adbkey"))
+            .sort();
+        for (const name of names) {
+            const key = await this.#readKey(join(path, name));
+            if (key) {
+                yield key;
+            }
+        }
+    }
+
+    /**
+     * Yields the private key in `adbkey` file (if exists),
+     * then all keys in `vendorKeys`.
+     *
+     * This method returns a generator, so `for await...of...` loop should be used to read the key.
+     */
+    async *iterateKeys(): AsyncGenerator<AdbPrivateKey, void, void> {
+        const key = await this.#readKey(this.#keyPath);
+        if (key) {
+            yield key;
+        }
+
+        for (const path of this.#vendorKeys) {
+            yield* this.#readVendorKeys(path);
+        }
+    }
+}
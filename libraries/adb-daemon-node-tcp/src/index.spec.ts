@@ -0,0 +1,432 @@
+import * as assert from "node:assert";
+import { generateKeyPairSync } from "node:crypto";
+import type { AddressInfo, Socket } from "node:net";
+import { Server } from "node:net";
+import { Duplex, Readable } from "node:stream";
+import { after, before, describe, it } from "node:test";
+import { TLSSocket } from "node:tls";
+
+import type {
+    AdbCredentialStore,
+    AdbPacketData,
+    AdbPacketHeader,
+} from "@yume-chan/adb";
+import {
+    ADB_PAIRING_CLIENT_NAME,
+    ADB_PAIRING_EXPORTED_KEY_LABEL,
+    ADB_PAIRING_EXPORTED_KEY_SIZE,
+    ADB_PAIRING_PEER_INFO_SIZE,
+    ADB_PAIRING_SERVER_NAME,
+    AdbCommand,
+    AdbDaemonTransport,
+    AdbPacketHeader as AdbPacketHeaderStruct,
+    AdbPairingCipher,
+    AdbPairingPacketType,
+    AdbPeerInfoType,
+    adbGenerateCertificate,
+    adbReadPairingPacket,
+    adbSerializePairingPacket,
+    calculateChecksum,
+    Spake2,
+    Spake2Role,
+} from "@yume-chan/adb";
+import { PromiseResolver } from "@yume-chan/async";
+import type { ReadableStream } from "@yume-chan/stream-extra";
+import {
+    BufferedReadableStream,
+    Consumable,
+    WritableStream,
+} from "@yume-chan/stream-extra";
+import {
+    decodeUtf8,
+    encodeUtf8,
+    Uint8ArrayExactReadable,
+} from "@yume-chan/struct";
+
+import { AdbDaemonNodeTcpConnection, AdbDaemonNodeTcpDevice } from "./index.js";
+
+const EMPTY_CREDENTIAL_STORE: AdbCredentialStore = {
+    generateKey() {
+        throw new Error("not supported");
+    },
+    *iterateKeys() {},
+};
+
+function generateKey() {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+        modulusLength: 2048,
+        publicExponent: 65537,
+    });
+    const buffer = privateKey.export({ format: "der", type: "pkcs8" });
+    return {
+        publicKey,
+        buffer,
+        pem: privateKey.export({ format: "pem", type: "pkcs8" }),
+        certificate: adbGenerateCertificate(buffer),
+    };
+}
+
+function toPem(certificate: Uint8Array) {
+    return `-----BEGIN CERTIFICATE-----\n${Buffer.from(certificate).toString("base64")}\n-----END CERTIFICATE-----\n`;
+}
+
+function listen(server: Server) {
+    return new Promise<number>((resolve) => {
+        server.listen(0, "127.0.0.1", () => {
+            resolve((server.address() as AddressInfo).port);
+        });
+    });
+}
+
+/**
+ * Reads one packet from `socket`.
+ *
+ * Data after the packet (e.g. TLS handshake) is put back,
+ * and `socket` is left paused.
+ */
+function readPacket(socket: Socket) {
+    return new Promise<AdbPacketHeader>((resolve) => {
+        let buffer = Buffer.alloc(0);
+        const handleData = (data: Buffer) => {
+            buffer = Buffer.concat([buffer, data]);
+            if (buffer.length < AdbPacketHeaderStruct.size) {
+                return;
+            }
+
+            const header = AdbPacketHeaderStruct.deserialize(
+                new Uint8ArrayExactReadable(buffer),
+            );
+            const end = AdbPacketHeaderStruct.size + header.payloadLength;
+            if (buffer.length < end) {
+                return;
+            }
+
+            socket.off("data", handleData);
+            socket.pause();
+            if (buffer.length > end) {
+                socket.unshift(buffer.subarray(end));
+            }
+            resolve(header);
+        };
+        socket.on("data", handleData);
+        socket.resume();
+    });
+}
+
+function writePacket(
+    socket: Socket,
+    command: AdbCommand,
+    arg0: number,
+    payload: Uint8Array,
+) {
+    socket.write(
+        AdbPacketHeaderStruct.serialize({
+            command,
+            arg0,
+            arg1: 4096,
+            payloadLength: payload.length,
+            checksum: calculateChecksum(payload),
+            magic: command ^ 0xffffffff,
+        }),
+    );
+    socket.write(payload);
+}
+
+describe("AdbDaemonNodeTcpDevice", () => {
+    const received: AdbPacketData[] = [];
+    let server: Server;
+    let port: number;
+
+    before(async () => {
+        // A fake ADB daemon that accepts any `CNXN` without authentication
+        server = new Server((socket) => {
+            const connection = new AdbDaemonNodeTcpConnection(socket);
+            const writer = connection.writable.getWriter();
+            void connection.readable.pipeTo(
+                new WritableStream({
+                    async write(packet) {
+                        received.push(packet);
+                        if (packet.command !== AdbCommand.Connect) {
+                            return;
+                        }
+
+                        const payload = encodeUtf8(
+                            "device::ro.product.model=Pixel 7;features=shell_v2",
+                        );
+                        await Consumable.WritableStream.write(writer, {
+                            command: AdbCommand.Connect,
+                            arg0: 0x01000001,
+                            arg1: 4096,
+                            payload,
+                            payloadLength: payload.length,
+                            checksum: calculateChecksum(payload),
+                            magic: AdbCommand.Connect ^ 0xffffffff,
+                        });
+                    },
+                }),
+            );
+        });
+        await new Promise<void>((resolve) => {
+            server.listen(0, "127.0.0.1", resolve);
+        });
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    it("should format serial", () => {
+        assert.strictEqual(
+            new AdbDaemonNodeTcpDevice({ host: "192.168.1.100" }).serial,
+            "192.168.1.100:5555",
+        );
+        assert.strictEqual(
+            new AdbDaemonNodeTcpDevice({ host: "::1", port: 5037 }).serial,
+            "[::1]:5037",
+        );
+    });
+
+    it("should authenticate with daemon", async () => {
+        const device = new AdbDaemonNodeTcpDevice({
+            host: "127.0.0.1",
+            port,
+        });
+        const connection = await device.connect();
+        const transport = await AdbDaemonTransport.authenticate({
+            serial: device.serial,
+            connection,
+            credentialStore: EMPTY_CREDENTIAL_STORE,
+        });
+
+        assert.strictEqual(received[0]!.command, AdbCommand.Connect);
+        assert.ok(decodeUtf8(received[0]!.payload).startsWith("host::"));
+        assert.strictEqual(transport.serial, `127.0.0.1:${port}`);
+        assert.strictEqual(transport.maxPayloadSize, 4096);
+        assert.strictEqual(transport.banner.model, "Pixel 7");
+
+        await transport.close();
+        await connection.closed;
+    });
+
+    it("should reject when connection is refused", async () => {
+        const device = new AdbDaemonNodeTcpDevice({ host: "127.0.0.1", port });
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+        });
+        await assert.rejects(device.connect());
+    });
+});
+
+describe("AdbDaemonNodeTcpConnection", () => {
+    it("should start TLS when requested by device", async () => {
+        const serverKey = generateKey();
+        const clientKey = generateKey();
+        let clientCertificateMatches = false;
+
+        // A fake ADB daemon with Wireless Debugging enabled
+        const server = new Server((socket) => {
+            void (async () => {
+                const connect = await readPacket(socket);
+                assert.strictEqual(connect.command, AdbCommand.Connect);
+                writePacket(
+                    socket,
+                    AdbCommand.StartTls,
+                    0x01000000,
+                    new Uint8Array(0),
+                );
+
+                const startTls = await readPacket(socket);
+                assert.strictEqual(startTls.command, AdbCommand.StartTls);
+
+                // Client's TLS handshake might have been read with `STLS` packet,
+                // wrap `socket` in another stream to read it again
+                const tlsSocket = new TLSSocket(
+                    Duplex.from({ readable: socket, writable: socket }),
+                    {
+                        isServer: true,
+                        key: serverKey.pem,
+                        cert: toPem(serverKey.certificate),
+                        requestCert: true,
+                        rejectUnauthorized: false,
+                    },
+                );
+                tlsSocket.once("secure", () => {
+                    clientCertificateMatches = tlsSocket
+                        .getPeerX509Certificate()!
+                        .publicKey.equals(clientKey.publicKey);
+                    writePacket(
+                        tlsSocket,
+                        AdbCommand.Connect,
+                        0x01000001,
+                        encodeUtf8("device::ro.product.model=Pixel 7;"),
+                    );
+                });
+            })();
+        });
+        const port = await listen(server);
+
+        try {
+            const device = new AdbDaemonNodeTcpDevice({
+                host: "127.0.0.1",
+                port,
+            });
+            const connection = await device.connect();
+            const transport = await AdbDaemonTransport.authenticate({
+                serial: device.serial,
+                connection,
+                credentialStore: {
+                    generateKey() {
+                        throw new Error("not supported");
+                    },
+                    *iterateKeys() {
+                        yield { buffer: clientKey.buffer };
+                    },
+                },
+            });
+
+            assert.ok(clientCertificateMatches);
+            assert.strictEqual(transport.banner.model, "Pixel 7");
+
+            await transport.close();
+        } finally {
+            server.close();
+        }
+    });
+});
+
+describe("AdbDaemonNodeTcpDevice.pair", () => {
+    async function startPairingServer(password: string) {
+        const serverKey = generateKey();
+        const result = new PromiseResolver<string>();
+
+        // A fake pairing server
+        const server = new Server((socket) => {
+            const tlsSocket = new TLSSocket(socket, {
+                isServer: true,
+                key: serverKey.pem,
+                cert: toPem(serverKey.certificate),
+                requestCert: true,
+                rejectUnauthorized: false,
+            });
+            tlsSocket.once("secure", () => {
+                void (async () => {
+                    const stream = new BufferedReadableStream(
+                        Readable.toWeb(
+                            tlsSocket,
+                        ) as unknown as ReadableStream<Uint8Array>,
+                    );
+
+                    const keyMaterial = tlsSocket.exportKeyingMaterial(
+                        ADB_PAIRING_EXPORTED_KEY_SIZE,
+                        ADB_PAIRING_EXPORTED_KEY_LABEL,
+                        Buffer.alloc(0),
+                    );
+                    const spake2 = new Spake2(
+                        Spake2Role.Bob,
+                        encodeUtf8(ADB_PAIRING_SERVER_NAME),
+                        encodeUtf8(ADB_PAIRING_CLIENT_NAME),
+                    );
+                    tlsSocket.write(
+                        adbSerializePairingPacket(
+                            AdbPairingPacketType.Spake2Message,
+                            await spake2.generateMessage(
+                                Buffer.concat([
+                                    encodeUtf8(password),
+                                    keyMaterial,
+                                ]),
+                            ),
+                        ),
+                    );
+
+                    const cipher = await AdbPairingCipher.create(
+                        await spake2.processMessage(
+                            await adbReadPairingPacket(
+                                stream,
+                                AdbPairingPacketType.Spake2Message,
+                            ),
+                        ),
+                    );
+
+                    let peerInfo: Uint8Array;
+                    try {
+                        peerInfo = await cipher.decrypt(
+                            await adbReadPairingPacket(
+                                stream,
+                                AdbPairingPacketType.PeerInfo,
+                            ),
+                        );
+                    } catch (e) {
+                        tlsSocket.destroy();
+                        throw e;
+                    }
+
+                    const response = new Uint8Array(ADB_PAIRING_PEER_INFO_SIZE);
+                    response[0] = AdbPeerInfoType.DeviceGuid;
+                    response.set(encodeUtf8("adb-1234-abcd"), 1);
+                    tlsSocket.write(
+                        adbSerializePairingPacket(
+                            AdbPairingPacketType.PeerInfo,
+                            await cipher.encrypt(response),
+                        ),
+                    );
+
+                    const data = peerInfo.subarray(1);
+                    return decodeUtf8(data.subarray(0, data.indexOf(0)));
+                })().then(result.resolve, result.reject);
+            });
+        });
+
+        const port = await listen(server);
+        return { server, port, result: result.promise };
+    }
+
+    it("should pair with device", async () => {
+        const { server, port, result } = await startPairingServer("123456");
+        const key = generateKey();
+
+        try {
+            const guid = await AdbDaemonNodeTcpDevice.pair(
+                { host: "127.0.0.1", port },
+                "123456",
+                {
+                    generateKey() {
+                        throw new Error("not supported");
+                    },
+                    *iterateKeys() {
+                        yield { buffer: key.buffer, name: "user@host" };
+                    },
+                },
+            );
+
+            assert.strictEqual(guid, "adb-1234-abcd");
+            assert.match(await result, / user@host$/);
+        } finally {
+            server.close();
+        }
+    });
+
+    it("should reject with wrong pairing code", async () => {
+        const { server, port, result } = await startPairingServer("654321");
+        const key = generateKey();
+        // Server should also fail to decrypt client's peer info
+        const serverRejects = assert.rejects(result);
+
+        try {
+            await assert.rejects(
+                AdbDaemonNodeTcpDevice.pair(
+                    { host: "127.0.0.1", port },
+                    "123456",
+                    {
+                        generateKey: () => ({ buffer: key.buffer }),
+                        iterateKeys: () => [],
+                    },
+                ),
+                { message: "Wrong pairing code or connection closed" },
+            );
+            await serverRejects;
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,304 @@
+import type { TcpNetConnectOpts } from "net";
+import { Socket } from "net";
+import type { ConnectionOptions, TLSSocket } from "tls";
+import { connect as tlsConnect } from "tls";
+
+import type {
+    AdbCredentialStore,
+    AdbDaemonDevice,
+    AdbDaemonTlsConnection,
+    AdbPacketData,
+    AdbPacketInit,
+    AdbTlsCredential,
+} from "@yume-chan/adb";
+import {
+    AdbPacket,
+    AdbPacketSerializeStream,
+    adbCreateTlsCredential,
+    adbGetPrivateKey,
+    adbPair,
+} from "@yume-chan/adb";
+import type {
+    Consumable,
+    PushReadableStreamController,
+    ReadableStream,
+    WritableStream,
+} from "@yume-chan/stream-extra";
+import {
+    MaybeConsumable,
+    PushReadableStream,
+    StructDeserializeStream,
+    pipeFrom,
+    tryClose,
+} from "@yume-chan/stream-extra";
+
+function toPem(label: string, der: Uint8Array): string {
+    const base64 = Buffer.from(der).toString("base64");
+    const lines = base64.match(/.{1,64}/g)!.join("\n");
+    return `-----BEGIN ${label}-----\n${lines}\n-----END ${label}-----\n`;
+}
+
+function connectTls(
+    options: ConnectionOptions,
+    { privateKey, certificate }: AdbTlsCredential,
+): Promise<TLSSocket> {
+    const socket = tlsConnect({
+        ...options,
+        key: toPem("PRIVATE KEY", privateKey),
+        cert: toPem("CERTIFICATE", certificate),
+        // ADB daemon uses a self-signed certificate
+        rejectUnauthorized: false,
+    });
+    return new Promise<TLSSocket>((resolve, reject) => {
+        socket.once("secureConnect", () => {
+            socket.off("error", reject);
+            resolve(socket);
+        });
+        socket.once("error", reject);
+    });
+}
+
+/**
+ * Pushes data from `socket` into `controller`.
+ *
+ * @returns A function to stop pushing
+ */
+function pushSocket(
+    socket: Socket,
+    controller: PushReadableStreamController<Uint8Array>,
+): () => void {
+    const handleData = async (data: Uint8Array) => {
+        if (controller.abortSignal.aborted) {
+            return;
+        }
+
+        socket.pause();
+        await controller.enqueue(data);
+        socket.resume();
+    };
+    const handleEnd = () => {
+        tryClose(controller);
+    };
+    const handleError = (e: Error) => {
+        controller.error(e);
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    socket.on("data", handleData);
+    socket.on("end", handleEnd);
+    socket.on("error", handleError);
+
+    return () => {
+        // eslint-disable-next-line @typescript-eslint/no-misused-promises
+        socket.off("data", handleData);
+        socket.off("end", handleEnd);
+        socket.off("error", handleError);
+    };
+}
+
+function writeSocket(socket: Socket, chunk: Uint8Array): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        socket.write(chunk, (err) => {
+            if (err) {
+                reject(err);
+            } else {
+                resolve();
+            }
+        });
+    });
+}
+
+/**
+ * An `AdbDaemonConnection` that sends and receives `AdbPacket`s over a Node.js `Socket`.
+ *
+ * It also supports upgrading to TLS, which is required by Wireless Debugging.
+ */
+export class AdbDaemonNodeTcpConnection implements AdbDaemonTlsConnection {
+    #socket: Socket;
+    #controller!: PushReadableStreamController<Uint8Array>;
+    #stopPush!: () => void;
+
+    readonly #readable: ReadableStream<AdbPacketData>;
+    get readable() {
+        return this.#readable;
+    }
+
+    readonly #writable: WritableStream<Consumable<AdbPacketInit>>;
+    get writable() {
+        return this.#writable;
+    }
+
+    readonly #closed: Promise<undefined>;
+    /**
+     * A `Promise` that resolves when the underlying socket is closed.
+     */
+    get closed() {
+        return this.#closed;
+    }
+
+    /**
+     * @param socket A connected `Socket`
+     */
+    constructor(socket: Socket) {
+        this.#socket = socket;
+        socket.setNoDelay(true);
+
+        this.#closed = new Promise<undefined>((resolve) => {
+            socket.on("close", () => resolve(undefined));
+        });
+
+        this.#readable = new PushReadableStream<Uint8Array>((controller) => {
+            controller.abortSignal.addEventListener("abort", () => {
+                this.#socket.destroy();
+            });
+
+            this.#controller = controller;
+            this.#stopPush = pushSocket(socket, controller);
+        }).pipeThrough(new StructDeserializeStream(AdbPacket));
+
+        this.#writable = pipeFrom(
+            new MaybeConsumable.WritableStream<Uint8Array>({
+                write: (chunk) => writeSocket(this.#socket, chunk),
+                close: () => {
+                    this.#socket.end();
+                },
+            }),
+            new AdbPacketSerializeStream(),
+        );
+    }
+
+    /**
+     * Upgrades the connection to TLS.
+     *
+     * Called by `AdbDaemonTransport.authenticate` when the device requests it.
+     */
+    async startTls(credential: AdbTlsCredential): Promise<void> {
+        // Stop reading from the raw socket,
+        // all data after `STLS` packet is TLS handshake
+        this.#stopPush();
+
+        const socket = await connectTls({ socket: this.#socket }, credential);
+        this.#socket = socket;
+        this.#stopPush = pushSocket(socket, this.#controller);
+    }
+
+    /**
+     * Closes the underlying socket immediately.
+     *
+     * Usually `AdbDaemonTransport#close` should be used instead,
+     * which closes the connection after all sockets are closed.
+     */
+    close() {
+        this.#socket.destroy();
+    }
+}
+
+/**
+ * An `AdbDaemonDevice` for a device (or emulator) listening on a TCP port,
+ * for example after `adb tcpip 5555`.
+ *
+ * It connects directly to the ADB daemon on device, Google ADB server is not required.
+ */
+export class AdbDaemonNodeTcpDevice implements AdbDaemonDevice {
+    /**
+     * Pairs with a device using Wireless Debugging pairing code (Android 11 and above).
+     *
+     * After pairing, the device can be connected using its Wireless Debugging port
+     * (which is different from the pairing port),
+     * with the same `credentialStore` in `AdbDaemonTransport.authenticate`.
+     *
+     * @param address The IP address and port displayed in "Pair device with pairing code" dialog
+     * @param password The six-digit pairing code
+     * @param credentialStore
+     * The store to get the private key to authorize.
+     * Its first key will be used, or a new key will be generated if it's empty.
+     * @returns The GUID of the device
+     */
+    static async pair(
+        address: { host: string; port: number },
+        password: string,
+        credentialStore: AdbCredentialStore,
+    ): Promise<string> {
+        const privateKey = await adbGetPrivateKey(credentialStore);
+        const socket = await connectTls(
+            { host: address.host, port: address.port, minVersion: "TLSv1.3" },
+            adbCreateTlsCredential(privateKey),
+        );
+
+        try {
+            return await adbPair(
+                {
+                    readable: new PushReadableStream<Uint8Array>(
+                        (controller) => {
+                            pushSocket(socket, controller);
+                        },
+                    ),
+                    writable: new MaybeConsumable.WritableStream<Uint8Array>({
+                        write: (chunk) => writeSocket(socket, chunk),
+                    }),
+                    // In TLS 1.3, an empty context is the same as no context
+                    exportKeyingMaterial: (length, label) =>
+                        socket.exportKeyingMaterial(
+                            length,
+                            label,
+                            Buffer.alloc(0),
+                        ),
+                },
+                password,
+                privateKey,
+            );
+        } finally {
+            socket.destroy();
+        }
+    }
+
+    readonly spec: TcpNetConnectOpts;
+
+    readonly #serial: string;
+    /**
+     * The serial number in `host:port` format, same as Google ADB.
+     */
+    get serial(): string {
+        return this.#serial;
+    }
+
+    readonly #name: string | undefined;
+    get name(): string | undefined {
+        return this.#name;
+    }
+
+    /**
+     * @param spec
+     * The address of the device. `port` defaults to `5555`.
+     * Other options are passed to `Socket#connect`.
+     * @param name A human-readable name for the device
+     */
+    constructor(
+        spec: Omit<TcpNetConnectOpts, "port"> & { port?: number | undefined },
+        name?: string,
+    ) {
+        this.spec = { ...spec, port: spec.port ?? 5555 };
+
+        const host = spec.host ?? "localhost";
+        // IPv6 addresses are wrapped in brackets, like `[::1]:5555`
+        this.#serial = host.includes(":")
+            ? `[${host}]:${this.spec.port}`
+            : `${host}:${this.spec.port}`;
+        this.#name = name;
+    }
+
+    /**
+     * Connects to the device.
+     *
+     * The returned connection can be passed to `AdbDaemonTransport.authenticate`.
+     */
+    async connect(): Promise<AdbDaemonNodeTcpConnection> {
+        const socket = new Socket();
+        socket.connect(this.spec);
+        await new Promise<void>((resolve, reject) => {
+            socket.once("connect", resolve);
+            socket.once("error", reject);
+        });
+        return new AdbDaemonNodeTcpConnection(socket);
+    }
+}
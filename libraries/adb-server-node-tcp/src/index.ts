@@ -1,7 +1,14 @@
-import type { AddressInfo, SocketConnectOpts } from "net";
+import type { AddressInfo, ListenOptions, SocketConnectOpts } from "net";
 import { Server, Socket } from "net";
 
-import type { AdbIncomingSocketHandler, AdbServerClient } from "@yume-chan/adb";
+import type {
+    AdbForwardConnectionHandler,
+    AdbForwardConnector,
+    AdbForwardServer,
+    AdbIncomingSocketHandler,
+    AdbServerClient,
+    AdbServerHost,
+} from "@yume-chan/adb";
 import type { MaybePromiseLike } from "@yume-chan/async";
 import {
     MaybeConsumable,
@@ -56,11 +63,43 @@ function nodeSocketToConnection(
     };
 }
 
+function listen(server: Server, options: ListenOptions) {
+    return new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options, () => {
+            server.off("error", reject);
+            resolve();
+        });
+    });
+}
+
+/**
+ * Starts an ADB server in Node.js using `AdbServerHost`,
+ * so other ADB clients can use devices managed by it.
+ *
+ * @param serverHost The `AdbServerHost` to handle connections
+ * @param options Where to listen on. Defaults to `127.0.0.1:5037` like Google ADB server.
+ * @returns The Node.js `Server` that is listening. Call `close` to stop the ADB server.
+ */
+export async function listenAdbServerHost(
+    serverHost: AdbServerHost,
+    options: ListenOptions = { host: "127.0.0.1", port: 5037 },
+): Promise<Server> {
+    const server = new Server((socket) => {
+        void serverHost.handleConnection(nodeSocketToConnection(socket));
+    });
+    await listen(server, options);
+    return server;
+}
+
 /**
  * An `AdbServerClient.ServerConnector` implementation for Node.js.
+ *
+ * It also implements `AdbForwardConnector`,
+ * so it can be used with `AdbForwardService` to listen on local TCP ports.
  */
 export class AdbServerNodeTcpConnector
-    implements AdbServerClient.ServerConnector
+    implements AdbServerClient.ServerConnector, AdbForwardConnector
 {
     readonly spec: SocketConnectOpts;
 
@@ -151,4 +190,42 @@ export class AdbServerNodeTcpConnector
         }
         this.#listeners.clear();
     }
+
+    /**
+     * Listens on a local address for `AdbForwardService`.
+     *
+     * @param address
+     * `tcp:<port>` to listen on the loopback interface (`tcp:0` to allocate a port),
+     * or `localfilesystem:<path>` to listen on a Unix domain socket (or named pipe on Windows).
+     */
+    async listen(
+        address: string,
+        handler: AdbForwardConnectionHandler,
+    ): Promise<AdbForwardServer> {
+        const server = new Server((socket) => {
+            const connection = nodeSocketToConnection(socket);
+            void Promise.resolve()
+                .then(() => handler(connection))
+                .catch(() => socket.end());
+        });
+
+        if (address.startsWith("tcp:")) {
+            const port = Number.parseInt(address.substring(4), 10);
+            await listen(server, { port, host: "127.0.0.1" });
+            address = `tcp:${(server.address() as AddressInfo).port}`;
+        } else if (address.startsWith("localfilesystem:")) {
+            await listen(server, { path: address.substring(16) });
+        } else {
+            throw new TypeError(`Unsupported address ${address}`);
+        }
+
+        return {
+            address,
+            close() {
+                // Only stop accepting new connections,
+                // existing ones are kept open like `adb forward --remove`
+                server.close();
+            },
+        };
+    }
 }
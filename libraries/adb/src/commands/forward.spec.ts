@@ -0,0 +1,159 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { ReadableStream, WritableStream } from "@yume-chan/stream-extra";
+
+import type { Adb, AdbSocket } from "../adb.js";
+
+import type {
+    AdbForwardConnectionHandler,
+    AdbForwardConnector,
+} from "./forward.js";
+import { AdbForwardError, AdbForwardService } from "./forward.js";
+
+function createMocks() {
+    const handlers = new Map<string, AdbForwardConnectionHandler>();
+    const closed: string[] = [];
+    let nextPort = 10000;
+
+    const connector: AdbForwardConnector = {
+        listen(address, handler) {
+            if (address === "tcp:0") {
+                address = `tcp:${nextPort}`;
+                nextPort += 1;
+            }
+            handlers.set(address, handler);
+            return {
+                address,
+                close() {
+                    closed.push(address);
+                },
+            };
+        },
+    };
+
+    const connected: string[] = [];
+    const adb = {
+        serial: "device",
+        createSocket(service: string) {
+            connected.push(service);
+            const written: Uint8Array[] = [];
+            return Promise.resolve({
+                service,
+                readable: new ReadableStream<Uint8Array>({
+                    start(controller) {
+                        controller.enqueue(new Uint8Array([4, 5, 6]));
+                        controller.close();
+                    },
+                }),
+                writable: new WritableStream({
+                    write(chunk) {
+                        written.push(chunk as Uint8Array);
+                    },
+                }),
+                closed: Promise.resolve(undefined),
+                close() {},
+            } satisfies AdbSocket);
+        },
+    } as unknown as Adb;
+
+    return { adb, connector, handlers, closed, connected };
+}
+
+describe("AdbForwardService", () => {
+    it("should list added forwards with allocated address", async () => {
+        const { adb, connector } = createMocks();
+        const service = new AdbForwardService(adb, connector);
+
+        assert.strictEqual(await service.add("tcp:0", "tcp:80"), "tcp:10000");
+        assert.strictEqual(
+            await service.add("tcp:1234", "localabstract:foo"),
+            "tcp:1234",
+        );
+
+        assert.deepStrictEqual(service.list(), [
+            {
+                deviceSerial: "device",
+                localName: "tcp:10000",
+                remoteName: "tcp:80",
+            },
+            {
+                deviceSerial: "device",
+                localName: "tcp:1234",
+                remoteName: "localabstract:foo",
+            },
+        ]);
+    });
+
+    it("should rebind existing forward", async () => {
+        const { adb, connector, handlers } = createMocks();
+        const service = new AdbForwardService(adb, connector);
+
+        await service.add("tcp:1234", "tcp:80");
+        await service.add("tcp:1234", "tcp:81");
+
+        assert.strictEqual(handlers.size, 1);
+        assert.deepStrictEqual(
+            service.list().map((listener) => listener.remoteName),
+            ["tcp:81"],
+        );
+    });
+
+    it("should throw when `rebind` is `false`", async () => {
+        const { adb, connector } = createMocks();
+        const service = new AdbForwardService(adb, connector);
+
+        await service.add("tcp:1234", "tcp:80");
+        await assert.rejects(
+            service.add("tcp:1234", "tcp:81", false),
+            AdbForwardError,
+        );
+    });
+
+    it("should relay connections to device", async () => {
+        const { adb, connector, handlers, connected } = createMocks();
+        const service = new AdbForwardService(adb, connector);
+
+        await service.add("tcp:1234", "tcp:80");
+
+        const received: number[] = [];
+        let closed = false;
+        await handlers.get("tcp:1234")!({
+            readable: new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(new Uint8Array([1, 2, 3]));
+                    controller.close();
+                },
+            }),
+            writable: new WritableStream({
+                write(chunk) {
+                    received.push(...(chunk as Uint8Array));
+                },
+            }),
+            close() {
+                closed = true;
+            },
+        });
+
+        assert.deepStrictEqual(connected, ["tcp:80"]);
+        assert.deepStrictEqual(received, [4, 5, 6]);
+        assert.ok(closed);
+    });
+
+    it("should remove forwards", async () => {
+        const { adb, connector, closed } = createMocks();
+        const service = new AdbForwardService(adb, connector);
+
+        await service.add("tcp:1", "tcp:80");
+        await service.add("tcp:2", "tcp:80");
+        await service.add("tcp:3", "tcp:80");
+
+        await service.remove("tcp:2");
+        assert.deepStrictEqual(closed, ["tcp:2"]);
+        await assert.rejects(service.remove("tcp:2"), AdbForwardError);
+
+        await service.removeAll();
+        assert.deepStrictEqual(closed, ["tcp:2", "tcp:1", "tcp:3"]);
+        assert.deepStrictEqual(service.list(), []);
+    });
+});
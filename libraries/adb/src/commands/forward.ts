@@ -0,0 +1,188 @@
+import type { MaybePromiseLike } from "@yume-chan/async";
+import type {
+    MaybeConsumable,
+    ReadableWritablePair,
+} from "@yume-chan/stream-extra";
+
+import type { Adb, Closeable } from "../adb.js";
+
+import { AdbServiceBase } from "./base.js";
+import type { AdbForwardListener } from "./reverse.js";
+
+/**
+ * A connection accepted by an `AdbForwardConnector`.
+ */
+export interface AdbForwardConnection
+    extends ReadableWritablePair<Uint8Array, MaybeConsumable<Uint8Array>>,
+        Closeable {}
+
+export type AdbForwardConnectionHandler = (
+    connection: AdbForwardConnection,
+) => MaybePromiseLike<void>;
+
+/**
+ * A local server created by `AdbForwardConnector#listen`.
+ */
+export interface AdbForwardServer extends Closeable {
+    /**
+     * The actual address the server is listening on.
+     *
+     * For example, when listening on `tcp:0`, it contains the allocated port.
+     */
+    readonly address: string;
+}
+
+/**
+ * Listens on local addresses for `AdbForwardService`.
+ *
+ * Accepting connections is platform-specific,
+ * for example, `@yume-chan/adb-server-node-tcp` provides an implementation using Node.js `net` module.
+ */
+export interface AdbForwardConnector {
+    /**
+     * Starts listening on `address`.
+     *
+     * @param address The local address, for example `tcp:1234` or `tcp:0` to allocate a port.
+     * @param handler A function to be called with each accepted connection.
+     */
+    listen(
+        address: string,
+        handler: AdbForwardConnectionHandler,
+    ): MaybePromiseLike<AdbForwardServer>;
+}
+
+export class AdbForwardError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+interface ForwardListener {
+    server: AdbForwardServer;
+    remoteAddress: string;
+}
+
+/**
+ * Forwards connections to local addresses to sockets on device, like `adb forward`.
+ *
+ * Unlike `adb forward`, the listeners are owned by this instance instead of an ADB server,
+ * so it works with both `AdbDaemonTransport` and `AdbServerTransport`,
+ * and they are closed when this instance is disposed.
+ */
+export class AdbForwardService extends AdbServiceBase {
+    readonly #connector: AdbForwardConnector;
+    readonly #listeners = new Map<string, ForwardListener>();
+
+    constructor(adb: Adb, connector: AdbForwardConnector) {
+        super(adb);
+        this.#connector = connector;
+    }
+
+    async #handleConnection(
+        localAddress: string,
+        connection: AdbForwardConnection,
+    ) {
+        const listener = this.#listeners.get(localAddress);
+        if (!listener) {
+            await connection.close();
+            return;
+        }
+
+        let socket;
+        try {
+            socket = await this.adb.createSocket(listener.remoteAddress);
+        } catch {
+            await connection.close();
+            return;
+        }
+
+        await Promise.all([
+            connection.readable.pipeTo(socket.writable).catch(() => {}),
+            socket.readable.pipeTo(connection.writable).catch(() => {}),
+        ]);
+
+        await socket.close();
+        await connection.close();
+    }
+
+    /**
+     * Gets a list of all port forwarding added by this instance.
+     */
+    list(): AdbForwardListener[] {
+        return Array.from(
+            this.#listeners,
+            ([localName, { remoteAddress }]) => ({
+                deviceSerial: this.adb.serial,
+                localName,
+                remoteName: remoteAddress,
+            }),
+        );
+    }
+
+    /**
+     * Adds a port forwarding.
+     *
+     * @param localAddress The local address to listen on, for example `tcp:1234`.
+     * @param remoteAddress
+     * The socket address on device to connect to,
+     * for example `tcp:8080`, `localabstract:name` or `jdwp:1234`.
+     * @param rebind
+     * Whether to change the remote address if `localAddress` is already forwarded.
+     * When `false`, it throws an `AdbForwardError` instead.
+     * @returns
+     * `localAddress`, or the actual address if it was allocated by the connector, for example `tcp:0`.
+     */
+    async add(
+        localAddress: string,
+        remoteAddress: string,
+        rebind = true,
+    ): Promise<string> {
+        const existing = this.#listeners.get(localAddress);
+        if (existing) {
+            if (!rebind) {
+                throw new AdbForwardError(
+                    `cannot rebind existing socket ${localAddress}`,
+                );
+            }
+            // Existing connections are not affected, like `adb forward`
+            existing.remoteAddress = remoteAddress;
+            return localAddress;
+        }
+
+        const server = await this.#connector.listen(
+            localAddress,
+            (connection) => this.#handleConnection(server.address, connection),
+        );
+        this.#listeners.set(server.address, { server, remoteAddress });
+        return server.address;
+    }
+
+    /**
+     * Removes a port forwarding.
+     *
+     * Connections that have already been accepted are not closed.
+     */
+    async remove(localAddress: string): Promise<void> {
+        const listener = this.#listeners.get(localAddress);
+        if (!listener) {
+            throw new AdbForwardError(`listener '${localAddress}' not found`);
+        }
+
+        this.#listeners.delete(localAddress);
+        await listener.server.close();
+    }
+
+    /**
+     * Removes all port forwarding added by this instance.
+     */
+    async removeAll(): Promise<void> {
+        const listeners = Array.from(this.#listeners.values());
+        this.#listeners.clear();
+        await Promise.all(listeners.map(({ server }) => server.close()));
+    }
+
+    override dispose(): void {
+        void this.removeAll();
+        super.dispose();
+    }
+}
@@ -1,4 +1,5 @@
 export * from "./base.js";
+export * from "./forward.js";
 export * from "./framebuffer.js";
 export * from "./power.js";
 export * from "./reverse.js";
@@ -1,4 +1,5 @@
 // cspell: ignore killforward
+// cspell: ignore norebind
 
 import { BufferedReadableStream } from "@yume-chan/stream-extra";
 import {
@@ -125,10 +126,18 @@ export class AdbReverseService extends AdbServiceBase {
 
     /**
      * Add a reverse port forwarding for a program that already listens on a port.
+     *
+     * @param rebind
+     * Whether to replace an existing reverse port forwarding on `deviceAddress`.
+     * When `false`, it throws an `AdbReverseError` if `deviceAddress` is already in use.
      */
-    async addExternal(deviceAddress: string, localAddress: string) {
+    async addExternal(
+        deviceAddress: string,
+        localAddress: string,
+        rebind = true,
+    ) {
         const stream = await this.sendRequest(
-            `reverse:forward:${deviceAddress};${localAddress}`,
+            `reverse:forward:${rebind ? "" : "norebind:"}${deviceAddress};${localAddress}`,
         );
 
         // `tcp:0` tells the device to pick an available port.
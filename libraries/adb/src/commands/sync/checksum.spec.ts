@@ -0,0 +1,84 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { ReadableStream } from "@yume-chan/stream-extra";
+
+import type { Adb } from "../../adb.js";
+
+import {
+    AdbSyncChecksumError,
+    adbSyncDeviceSha256,
+    adbSyncVerifySha256,
+} from "./checksum.js";
+
+// SHA-256 of `abc`
+const ABC_SHA256 =
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+function createAdb(output: string, commands: string[][] = []) {
+    return {
+        subprocess: {
+            noneProtocol: {
+                spawnWaitText(command: string[]) {
+                    commands.push(command);
+                    return Promise.resolve(output);
+                },
+            },
+        },
+    } as unknown as Adb;
+}
+
+async function readThrough(expected: string) {
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(new TextEncoder().encode("ab"));
+            controller.enqueue(new TextEncoder().encode("c"));
+            controller.close();
+        },
+    }).pipeThrough(adbSyncVerifySha256("/a", () => Promise.resolve(expected)));
+
+    let length = 0;
+    for await (const chunk of stream) {
+        length += chunk.length;
+    }
+    return length;
+}
+
+describe("adbSyncDeviceSha256", () => {
+    it("should parse `sha256sum` output", async () => {
+        const commands: string[][] = [];
+        const adb = createAdb(`${ABC_SHA256}  /a\n`, commands);
+        assert.strictEqual(await adbSyncDeviceSha256(adb, "/a"), ABC_SHA256);
+        assert.deepStrictEqual(commands, [["sha256sum", "'/a'"]]);
+    });
+
+    it("should only hash the content after offset", async () => {
+        const commands: string[][] = [];
+        const adb = createAdb(`${ABC_SHA256}  -\n`, commands);
+        await adbSyncDeviceSha256(adb, "/a", 10);
+        assert.deepStrictEqual(commands, [
+            ["tail", "-c", "+11", "'/a'", "|", "sha256sum"],
+        ]);
+    });
+
+    it("should throw when the command failed", async () => {
+        const adb = createAdb("sha256sum: /a: No such file or directory\n");
+        await assert.rejects(adbSyncDeviceSha256(adb, "/a"));
+    });
+});
+
+describe("adbSyncVerifySha256", () => {
+    it("should pass through data when checksum matches", async () => {
+        assert.strictEqual(await readThrough(ABC_SHA256), 3);
+    });
+
+    it("should error with `AdbSyncChecksumError` on mismatch", async () => {
+        await assert.rejects(
+            readThrough("0".repeat(64)),
+            (e: unknown) =>
+                e instanceof AdbSyncChecksumError &&
+                e.expected === "0".repeat(64) &&
+                e.actual === ABC_SHA256,
+        );
+    });
+});
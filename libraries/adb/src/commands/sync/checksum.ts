@@ -0,0 +1,78 @@
+import { TransformStream } from "@yume-chan/stream-extra";
+
+import type { Adb } from "../../adb.js";
+import { encodeHexString, Sha256 } from "../../utils/index.js";
+import { escapeArg } from "../subprocess/index.js";
+
+export class AdbSyncChecksumError extends Error {
+    readonly path: string;
+    readonly expected: string;
+    readonly actual: string;
+
+    constructor(path: string, expected: string, actual: string) {
+        super(
+            `Checksum mismatch for '${path}': expected ${expected}, got ${actual}`,
+        );
+        this.path = path;
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/**
+ * Calculates the SHA-256 checksum of a file on device, using `sha256sum` command.
+ *
+ * @param offset Only hash the content starting from this byte offset
+ * @returns The checksum as a lowercase hex string
+ */
+export async function adbSyncDeviceSha256(
+    adb: Adb,
+    path: string,
+    offset = 0,
+): Promise<string> {
+    const command =
+        offset > 0
+            ? [
+                  "tail",
+                  "-c",
+                  `+${offset + 1}`,
+                  escapeArg(path),
+                  "|",
+                  "sha256sum",
+              ]
+            : ["sha256sum", escapeArg(path)];
+    const output = await adb.subprocess.noneProtocol.spawnWaitText(command);
+
+    // The output is `<checksum>  <path>`
+    const match = /^([0-9a-f]{64})\s/.exec(output);
+    if (!match) {
+        throw new Error(`Failed to calculate checksum: ${output.trim()}`);
+    }
+    return match[1]!;
+}
+
+/**
+ * Creates a pass-through stream that calculates the SHA-256 checksum of all data,
+ * then compares it with the result of `getExpected` before closing.
+ *
+ * The stream errors with an `AdbSyncChecksumError` when they don't match.
+ */
+export function adbSyncVerifySha256(
+    path: string,
+    getExpected: () => Promise<string>,
+): TransformStream<Uint8Array, Uint8Array> {
+    const hash = new Sha256();
+    return new TransformStream({
+        transform(chunk, controller) {
+            hash.update(chunk);
+            controller.enqueue(chunk);
+        },
+        async flush() {
+            const actual = encodeHexString(hash.digest());
+            const expected = await getExpected();
+            if (actual !== expected) {
+                throw new AdbSyncChecksumError(path, expected, actual);
+            }
+        },
+    });
+}
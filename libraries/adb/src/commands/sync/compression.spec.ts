@@ -0,0 +1,219 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { PromiseResolver } from "@yume-chan/async";
+import type { TransformStream as TransformStreamType } from "@yume-chan/stream-extra";
+import {
+    Consumable,
+    ReadableStream,
+    TransformStream,
+    WritableStream,
+} from "@yume-chan/stream-extra";
+
+import { AdbFeature } from "../../features.js";
+
+import type { AdbSyncCompressionCodec } from "./compression.js";
+import {
+    AdbSyncCompressionType,
+    adbSyncSelectCompression,
+} from "./compression.js";
+import { adbSyncPull } from "./pull.js";
+import { adbSyncPushV2 } from "./push.js";
+import { adbSyncEncodeId } from "./response.js";
+import { AdbSyncSocket } from "./socket.js";
+
+function identity(): TransformStreamType<Uint8Array, Uint8Array> {
+    return new TransformStream();
+}
+
+function createCodec(type: AdbSyncCompressionType): AdbSyncCompressionCodec {
+    return { type, compress: identity, decompress: identity };
+}
+
+/**
+ * Creates a fake sync socket that sends `response`
+ * after the client has written a `DONE` request (when `waitDone` is `true`)
+ * or immediately.
+ */
+function createSocket(response: Uint8Array[], waitDone = false) {
+    const written: Uint8Array[] = [];
+    const done = new PromiseResolver<void>();
+    if (!waitDone) {
+        done.resolve();
+    }
+    const socket = new AdbSyncSocket(
+        {
+            service: "sync:",
+            close() {},
+            closed: Promise.resolve(undefined),
+            readable: new ReadableStream({
+                async start(controller) {
+                    await done.promise;
+                    for (const chunk of response) {
+                        controller.enqueue(chunk);
+                    }
+                },
+            }),
+            writable: new WritableStream({
+                write(chunk) {
+                    const data =
+                        chunk instanceof Consumable ? chunk.value : chunk;
+                    written.push(data.slice());
+                    // `DONE` request is always the last one
+                    if (
+                        data.length >= 8 &&
+                        new DataView(
+                            data.buffer,
+                            data.byteOffset + data.length - 8,
+                        ).getUint32(0, true) === adbSyncEncodeId("DONE")
+                    ) {
+                        done.resolve();
+                    }
+                    if (chunk instanceof Consumable) {
+                        chunk.consume();
+                    }
+                },
+            }),
+        },
+        1024,
+    );
+    return { socket, written };
+}
+
+function concat(chunks: Uint8Array[]) {
+    const result = new Uint8Array(
+        chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+function u32(value: number) {
+    const result = new Uint8Array(4);
+    new DataView(result.buffer).setUint32(0, value, true);
+    return result;
+}
+
+describe("adbSyncSelectCompression", () => {
+    it("should return undefined when no codec is specified", () => {
+        assert.strictEqual(
+            adbSyncSelectCompression(undefined, () => true),
+            undefined,
+        );
+    });
+
+    it("should select the first supported codec", () => {
+        const zstd = createCodec(AdbSyncCompressionType.Zstd);
+        const brotli = createCodec(AdbSyncCompressionType.Brotli);
+        assert.strictEqual(
+            adbSyncSelectCompression(
+                [zstd, brotli],
+                (feature) => feature === AdbFeature.SendReceiveV2Brotli,
+            ),
+            brotli,
+        );
+    });
+
+    it("should return undefined when no codec is supported", () => {
+        const lz4 = createCodec(AdbSyncCompressionType.Lz4);
+        assert.strictEqual(
+            adbSyncSelectCompression(lz4, () => false),
+            undefined,
+        );
+    });
+});
+
+describe("adbSyncPushV2", () => {
+    it("should set compression flag and compress data", async () => {
+        const { socket, written } = createSocket(
+            [concat([u32(adbSyncEncodeId("OKAY")), u32(0)])],
+            true,
+        );
+
+        await adbSyncPushV2({
+            socket,
+            filename: "/a",
+            file: new ReadableStream({
+                start(controller) {
+                    controller.enqueue(new Uint8Array([1, 2, 3]));
+                    controller.close();
+                },
+            }),
+            mtime: 0,
+            compression: {
+                type: AdbSyncCompressionType.Lz4,
+                compress: () =>
+                    new TransformStream({
+                        transform(chunk, controller) {
+                            controller.enqueue(chunk.toReversed());
+                        },
+                    }),
+                decompress: identity,
+            },
+        });
+
+        assert.deepStrictEqual(
+            concat(written),
+            concat([
+                u32(adbSyncEncodeId("SND2")),
+                u32(2),
+                new Uint8Array([0x2f, 0x61]),
+                u32(adbSyncEncodeId("SND2")),
+                u32(0o100666),
+                u32(2),
+                u32(adbSyncEncodeId("DATA")),
+                u32(3),
+                new Uint8Array([3, 2, 1]),
+                u32(adbSyncEncodeId("DONE")),
+                u32(0),
+            ]),
+        );
+    });
+});
+
+describe("adbSyncPull", () => {
+    it("should send `RCV2` request and decompress data", async () => {
+        const { socket, written } = createSocket([
+            concat([
+                u32(adbSyncEncodeId("DATA")),
+                u32(2),
+                new Uint8Array([1, 2]),
+                u32(adbSyncEncodeId("DONE")),
+                u32(0),
+            ]),
+        ]);
+
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of adbSyncPull(socket, "/a", {
+            v2: true,
+            compression: {
+                type: AdbSyncCompressionType.Zstd,
+                compress: identity,
+                decompress: () =>
+                    new TransformStream({
+                        transform(chunk, controller) {
+                            controller.enqueue(chunk.map((x) => x * 2));
+                        },
+                    }),
+            },
+        })) {
+            chunks.push(chunk);
+        }
+
+        assert.deepStrictEqual(concat(chunks), new Uint8Array([2, 4]));
+        assert.deepStrictEqual(
+            concat(written),
+            concat([
+                u32(adbSyncEncodeId("RCV2")),
+                u32(2),
+                new Uint8Array([0x2f, 0x61]),
+                u32(adbSyncEncodeId("RCV2")),
+                u32(4),
+            ]),
+        );
+    });
+});
@@ -0,0 +1,108 @@
+import type { ReadableStream } from "@yume-chan/stream-extra";
+import { MaybeConsumable, TransformStream } from "@yume-chan/stream-extra";
+
+import { AdbFeature } from "../../features.js";
+
+export const AdbSyncCompressionType = {
+    Brotli: "brotli",
+    Lz4: "lz4",
+    Zstd: "zstd",
+} as const;
+
+export type AdbSyncCompressionType =
+    (typeof AdbSyncCompressionType)[keyof typeof AdbSyncCompressionType];
+
+/**
+ * The device feature that indicates support for each compression type.
+ */
+export const AdbSyncCompressionFeature: Record<
+    AdbSyncCompressionType,
+    AdbFeature
+> = {
+    [AdbSyncCompressionType.Brotli]: AdbFeature.SendReceiveV2Brotli,
+    [AdbSyncCompressionType.Lz4]: AdbFeature.SendReceiveV2Lz4,
+    [AdbSyncCompressionType.Zstd]: AdbFeature.SendReceiveV2Zstd,
+};
+
+/**
+ * Provides the compression and decompression streams of one algorithm.
+ *
+ * Web browsers don't have built-in implementations for any of the algorithms,
+ * so they need to be supplied by the caller
+ * (for example, `zlib.createBrotliCompress` in Node.js).
+ */
+export interface AdbSyncCompressionCodec {
+    readonly type: AdbSyncCompressionType;
+
+    /**
+     * Creates a stream that compresses the whole input as one frame.
+     *
+     * The output will be sent to the device as is.
+     */
+    compress(): TransformStream<Uint8Array, Uint8Array>;
+
+    /**
+     * Creates a stream that decompresses data received from the device.
+     */
+    decompress(): TransformStream<Uint8Array, Uint8Array>;
+}
+
+/**
+ * Compression codecs to use, in the order of preference.
+ *
+ * The first one supported by the device will be selected.
+ */
+export type AdbSyncCompressionOption =
+    | AdbSyncCompressionCodec
+    | readonly AdbSyncCompressionCodec[];
+
+/**
+ * Selects the first codec in `option` that the device supports.
+ *
+ * @param option Codecs in the order of preference
+ * @param isSupported A function to check whether a feature is supported by both client and device
+ * @returns The selected codec, or `undefined` if none of them is supported
+ */
+export function adbSyncSelectCompression(
+    option: AdbSyncCompressionOption | undefined,
+    isSupported: (feature: AdbFeature) => boolean,
+): AdbSyncCompressionCodec | undefined {
+    if (!option) {
+        return undefined;
+    }
+
+    const codecs: readonly AdbSyncCompressionCodec[] = Array.isArray(option)
+        ? option
+        : [option as AdbSyncCompressionCodec];
+
+    for (const codec of codecs) {
+        if (isSupported(AdbSyncCompressionFeature[codec.type])) {
+            return codec;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Compresses a file stream with `codec`.
+ *
+ * `Consumable` chunks are copied before being consumed,
+ * because compressors may keep references to their inputs.
+ */
+export function adbSyncCompress(
+    file: ReadableStream<MaybeConsumable<Uint8Array>>,
+    codec: AdbSyncCompressionCodec,
+): ReadableStream<Uint8Array> {
+    return file
+        .pipeThrough(
+            new TransformStream<MaybeConsumable<Uint8Array>, Uint8Array>({
+                transform(chunk, controller) {
+                    MaybeConsumable.tryConsume(chunk, (chunk) => {
+                        controller.enqueue(chunk.slice());
+                    });
+                },
+            }),
+        )
+        .pipeThrough(codec.compress());
+}
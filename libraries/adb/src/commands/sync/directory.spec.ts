@@ -0,0 +1,218 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type { ReadableStream } from "@yume-chan/stream-extra";
+import { MaybeConsumable, WritableStream } from "@yume-chan/stream-extra";
+
+import type { Adb } from "../../adb.js";
+
+import type {
+    AdbSyncDirectorySourceEntry,
+    AdbSyncTransferProgress,
+} from "./directory.js";
+import {
+    AdbSyncProgressTracker,
+    adbSyncPullDirectory,
+    adbSyncPushDirectory,
+    joinPath,
+} from "./directory.js";
+import type { AdbSyncEntry } from "./list.js";
+import { LinuxFileType } from "./stat.js";
+import type { AdbSync, AdbSyncWriteOptions } from "./sync.js";
+import { createEntry, createStat, createStream } from "./test-utils.spec.js";
+
+async function readAll(stream: ReadableStream<MaybeConsumable<Uint8Array>>) {
+    let result = "";
+    for await (const chunk of stream) {
+        result += new TextDecoder().decode(MaybeConsumable.getValue(chunk));
+    }
+    return result;
+}
+
+describe("joinPath", () => {
+    it("should join paths with `/`", () => {
+        assert.strictEqual(joinPath("/sdcard", "a/b"), "/sdcard/a/b");
+        assert.strictEqual(joinPath("/sdcard/", "a"), "/sdcard/a");
+        assert.strictEqual(joinPath("/sdcard", ""), "/sdcard");
+        assert.strictEqual(joinPath("", "a"), "a");
+    });
+});
+
+describe("AdbSyncProgressTracker", () => {
+    it("should report progress of all files", async () => {
+        const progress: AdbSyncTransferProgress[] = [];
+        const tracker = new AdbSyncProgressTracker(
+            (value) => progress.push(value),
+            2,
+            6,
+        );
+        for (const path of ["a", "b"]) {
+            await createStream(new Uint8Array(3))
+                .pipeThrough(tracker.track(path, 3))
+                .pipeTo(new WritableStream());
+        }
+
+        assert.deepStrictEqual(
+            progress.map((value) => [
+                value.path,
+                value.fileIndex,
+                value.fileTransferred,
+                value.totalTransferred,
+            ]),
+            [
+                ["a", 0, 0, 0],
+                ["a", 0, 3, 3],
+                ["b", 1, 0, 3],
+                ["b", 1, 3, 6],
+            ],
+        );
+    });
+});
+
+describe("adbSyncPushDirectory", () => {
+    it("should push files, links and create directories", async () => {
+        const tree: Record<string, AdbSyncDirectorySourceEntry[]> = {
+            "": [
+                { type: LinuxFileType.Directory, name: "a" },
+                { type: LinuxFileType.Directory, name: "empty" },
+                {
+                    type: LinuxFileType.Link,
+                    name: "link",
+                    target: "a/file",
+                    mtime: 5,
+                },
+            ],
+            a: [
+                {
+                    type: LinuxFileType.File,
+                    name: "file",
+                    size: 5,
+                    permission: 0o644,
+                    mtime: 10,
+                    open: () => createStream("hello"),
+                },
+            ],
+            empty: [],
+        };
+
+        const mkdir: string[] = [];
+        const written: Record<string, unknown> = {};
+        const sync = {
+            async write(options: AdbSyncWriteOptions) {
+                written[options.filename] = {
+                    content: await readAll(options.file),
+                    type: options.type,
+                    permission: options.permission,
+                    mtime: options.mtime,
+                };
+            },
+        } as unknown as AdbSync;
+
+        const adb = {
+            subprocess: {
+                noneProtocol: {
+                    spawnWait(command: string[]) {
+                        assert.deepStrictEqual(command.slice(0, 2), [
+                            "mkdir",
+                            "-p",
+                        ]);
+                        mkdir.push(...command.slice(2));
+                        return Promise.resolve(0);
+                    },
+                },
+            },
+        } as unknown as Adb;
+
+        const progress: AdbSyncTransferProgress[] = [];
+        await adbSyncPushDirectory(adb, sync, {
+            source: { list: (path) => tree[path]! },
+            path: "/data/local/tmp/dir",
+            onProgress: (value) => progress.push(value),
+        });
+
+        assert.deepStrictEqual(mkdir, [
+            "'/data/local/tmp/dir'",
+            "'/data/local/tmp/dir/a'",
+            "'/data/local/tmp/dir/empty'",
+        ]);
+        assert.deepStrictEqual(written, {
+            "/data/local/tmp/dir/a/file": {
+                content: "hello",
+                type: undefined,
+                permission: 0o644,
+                mtime: 10,
+            },
+            "/data/local/tmp/dir/link": {
+                content: "a/file",
+                type: LinuxFileType.Link,
+                permission: undefined,
+                mtime: 5,
+            },
+        });
+        assert.deepStrictEqual(progress.at(-1), {
+            path: "link",
+            fileTransferred: 0,
+            fileSize: 0,
+            fileIndex: 1,
+            fileCount: 2,
+            totalTransferred: 5,
+            totalSize: 5,
+        });
+    });
+});
+
+describe("adbSyncPullDirectory", () => {
+    it("should pull files, links and directories", async () => {
+        const tree: Record<string, AdbSyncEntry[]> = {
+            "/sdcard/dir": [
+                createEntry(".", LinuxFileType.Directory),
+                createEntry("..", LinuxFileType.Directory),
+                createEntry("sub", LinuxFileType.Directory),
+                createEntry("link", LinuxFileType.Link),
+            ],
+            "/sdcard/dir/sub": [createEntry("file", LinuxFileType.File, 3)],
+        };
+
+        const sync = {
+            lstat: () => Promise.resolve(createStat(LinuxFileType.Directory)),
+            readdir: (path: string) => Promise.resolve(tree[path]!),
+            read: () => createStream("abc"),
+            readlink: (path: string) => Promise.resolve(`target of ${path}`),
+        } as unknown as AdbSync;
+
+        const calls: string[] = [];
+        let total = 0;
+        await adbSyncPullDirectory(sync, {
+            path: "/sdcard/dir",
+            sink: {
+                createDirectory(path) {
+                    calls.push(`mkdir '${path}'`);
+                },
+                finishDirectory(path, stat) {
+                    calls.push(`finish '${path}' ${stat.mtime}`);
+                },
+                async writeFile(path, stat, content) {
+                    calls.push(
+                        `write '${path}' ${stat.permission.toString(8)} ${await readAll(content)}`,
+                    );
+                },
+                createSymlink(path, target) {
+                    calls.push(`link '${path}' -> '${target}'`);
+                },
+            },
+            onProgress(progress) {
+                total = progress.totalTransferred;
+            },
+        });
+
+        assert.deepStrictEqual(calls, [
+            "mkdir ''",
+            "mkdir 'sub'",
+            "write 'sub/file' 755 abc",
+            "link 'link' -> 'target of /sdcard/dir/link'",
+            "finish 'sub' 1000",
+            "finish '' 1000",
+        ]);
+        assert.strictEqual(total, 3);
+    });
+});
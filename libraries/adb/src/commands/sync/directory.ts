@@ -0,0 +1,553 @@
+import type { MaybePromiseLike } from "@yume-chan/async";
+import {
+    MaybeConsumable,
+    ReadableStream,
+    TransformStream,
+} from "@yume-chan/stream-extra";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import type { Adb } from "../../adb.js";
+import { escapeArg } from "../subprocess/index.js";
+
+import type { AdbSyncCompressionOption } from "./compression.js";
+import type { AdbSyncStat } from "./stat.js";
+import { LinuxFileType } from "./stat.js";
+import type { AdbSync } from "./sync.js";
+
+/**
+ * Joins a base path with a relative path, both using `/` as separator.
+ */
+export function joinPath(base: string, relative: string): string {
+    if (!relative) {
+        return base;
+    }
+    if (!base) {
+        return relative;
+    }
+    if (base.endsWith("/")) {
+        return base + relative;
+    }
+    return base + "/" + relative;
+}
+
+/**
+ * A directory in `AdbSyncDirectorySource`.
+ *
+ * Directories don't have `permission` or `mtime`,
+ * because they are created by `mkdir -p` on device
+ * and always get the default permission and the current time.
+ */
+export interface AdbSyncDirectorySourceDirectory {
+    type: typeof LinuxFileType.Directory;
+    name: string;
+}
+
+export interface AdbSyncDirectorySourceFile {
+    type: typeof LinuxFileType.File;
+    name: string;
+    /**
+     * @default 0o666
+     */
+    permission?: number;
+    /**
+     * Last modified time in seconds since Unix epoch.
+     *
+     * @default The current time
+     */
+    mtime?: number;
+    /**
+     * The size of the file in bytes. Only used for reporting progress.
+     */
+    size: number;
+    open(): MaybePromiseLike<ReadableStream<MaybeConsumable<Uint8Array>>>;
+}
+
+export interface AdbSyncDirectorySourceLink {
+    type: typeof LinuxFileType.Link;
+    name: string;
+    /**
+     * Last modified time in seconds since Unix epoch.
+     *
+     * @default The current time
+     */
+    mtime?: number;
+    /**
+     * The path the link points to. It will be written as is.
+     */
+    target: string;
+}
+
+export type AdbSyncDirectorySourceEntry =
+    | AdbSyncDirectorySourceDirectory
+    | AdbSyncDirectorySourceFile
+    | AdbSyncDirectorySourceLink;
+
+/**
+ * A virtual directory tree to push from.
+ */
+export interface AdbSyncDirectorySource {
+    /**
+     * Lists direct children of a directory.
+     *
+     * @param path
+     * The path of the directory relative to the source root, using `/` as separator.
+     * It's an empty string for the root directory.
+     */
+    list(
+        path: string,
+    ):
+        | AsyncIterable<AdbSyncDirectorySourceEntry>
+        | Iterable<AdbSyncDirectorySourceEntry>;
+}
+
+/**
+ * A virtual directory tree to pull into.
+ *
+ * All `path` parameters are relative to the sink root, using `/` as separator.
+ * The root directory itself has an empty string as `path`.
+ */
+export interface AdbSyncDirectorySink {
+    /**
+     * Creates a directory. It will be called before any of its children.
+     */
+    createDirectory(path: string, stat: AdbSyncStat): MaybePromiseLike<void>;
+
+    /**
+     * Called after all children of a directory have been written.
+     *
+     * Writing children usually modifies the directory's last modified time,
+     * so this is the place to restore `stat.mtime`.
+     */
+    finishDirectory?(path: string, stat: AdbSyncStat): MaybePromiseLike<void>;
+
+    /**
+     * Writes a file.
+     *
+     * `content` must be fully consumed (or cancelled) before the returned `Promise` resolves,
+     * because the sync connection can't be used by others until the file has been read.
+     */
+    writeFile(
+        path: string,
+        stat: AdbSyncStat,
+        content: ReadableStream<Uint8Array>,
+    ): MaybePromiseLike<void>;
+
+    /**
+     * Creates a symbolic link.
+     */
+    createSymlink(
+        path: string,
+        target: string,
+        stat: AdbSyncStat,
+    ): MaybePromiseLike<void>;
+}
+
+export interface AdbSyncTransferProgress {
+    /**
+     * Path of the current file, relative to the root.
+     */
+    path: string;
+    /**
+     * Number of bytes transferred for the current file.
+     */
+    fileTransferred: number;
+    /**
+     * Size of the current file in bytes.
+     */
+    fileSize: number;
+    /**
+     * Index of the current file in all files to be transferred.
+     */
+    fileIndex: number;
+    /**
+     * Number of all files (including symbolic links) to be transferred.
+     */
+    fileCount: number;
+    /**
+     * Number of bytes transferred for all files.
+     */
+    totalTransferred: number;
+    /**
+     * Size of all files in bytes.
+     */
+    totalSize: number;
+}
+
+export interface AdbSyncPushDirectoryOptions {
+    source: AdbSyncDirectorySource;
+    /**
+     * The full path of the directory on device to push into.
+     *
+     * It will be created if not exist.
+     * Existing files will be overwritten.
+     */
+    path: string;
+    compression?: AdbSyncCompressionOption | undefined;
+    onProgress?: ((progress: AdbSyncTransferProgress) => void) | undefined;
+}
+
+export interface AdbSyncPullDirectoryOptions {
+    /**
+     * The full path of the directory on device to pull from.
+     */
+    path: string;
+    sink: AdbSyncDirectorySink;
+    compression?: AdbSyncCompressionOption | undefined;
+    onProgress?: ((progress: AdbSyncTransferProgress) => void) | undefined;
+}
+
+/**
+ * Reports byte-level progress of transferring multiple files
+ * as `AdbSyncTransferProgress`.
+ */
+export class AdbSyncProgressTracker {
+    readonly #callback:
+        | ((progress: AdbSyncTransferProgress) => void)
+        | undefined;
+    readonly #fileCount: number;
+    readonly #totalSize: number;
+
+    #fileIndex = -1;
+    #totalTransferred = 0;
+
+    constructor(
+        callback: ((progress: AdbSyncTransferProgress) => void) | undefined,
+        fileCount: number,
+        totalSize: number,
+    ) {
+        this.#callback = callback;
+        this.#fileCount = fileCount;
+        this.#totalSize = totalSize;
+    }
+
+    /**
+     * Starts tracking a new file.
+     * @returns A function to report bytes transferred for the file
+     */
+    start(path: string, fileSize: number): (length: number) => void {
+        this.#fileIndex += 1;
+
+        let fileTransferred = 0;
+        const report = () => {
+            this.#callback?.({
+                path,
+                fileTransferred,
+                fileSize,
+                fileIndex: this.#fileIndex,
+                fileCount: this.#fileCount,
+                totalTransferred: this.#totalTransferred,
+                totalSize: this.#totalSize,
+            });
+        };
+
+        report();
+        return (length) => {
+            fileTransferred += length;
+            this.#totalTransferred += length;
+            report();
+        };
+    }
+
+    /**
+     * Starts tracking a new file.
+     * @returns A stream to pipe the file content through
+     */
+    track<T extends MaybeConsumable<Uint8Array>>(
+        path: string,
+        fileSize: number,
+    ): TransformStream<T, T> {
+        const report = this.start(path, fileSize);
+        return new TransformStream<T, T>({
+            transform(chunk, controller) {
+                report(MaybeConsumable.getValue(chunk).length);
+                controller.enqueue(chunk);
+            },
+        });
+    }
+}
+
+export interface AdbSyncSourceItem {
+    /**
+     * Path relative to the source root.
+     */
+    path: string;
+    entry: AdbSyncDirectorySourceFile | AdbSyncDirectorySourceLink;
+}
+
+export interface AdbSyncSourceList {
+    /**
+     * Relative paths of all directories, in pre-order.
+     * The first one is always the root directory (an empty string).
+     */
+    directories: string[];
+    items: AdbSyncSourceItem[];
+}
+
+async function collectSource(
+    source: AdbSyncDirectorySource,
+    path: string,
+    list: AdbSyncSourceList,
+) {
+    // Collect the whole level first, in case `source` doesn't like re-entrance.
+    const children: AdbSyncDirectorySourceEntry[] = [];
+    for await (const entry of source.list(path)) {
+        children.push(entry);
+    }
+
+    for (const entry of children) {
+        const childPath = joinPath(path, entry.name);
+        switch (entry.type) {
+            case LinuxFileType.Directory:
+                list.directories.push(childPath);
+                await collectSource(source, childPath, list);
+                break;
+            case LinuxFileType.File:
+            case LinuxFileType.Link:
+                list.items.push({ path: childPath, entry });
+                break;
+        }
+    }
+}
+
+/**
+ * Recursively lists all directories, files and symbolic links in `source`.
+ */
+export async function adbSyncListSource(
+    source: AdbSyncDirectorySource,
+): Promise<AdbSyncSourceList> {
+    const list: AdbSyncSourceList = { directories: [""], items: [] };
+    await collectSource(source, "", list);
+    return list;
+}
+
+/**
+ * Maximum number of paths in one `mkdir` or `rm` command,
+ * to avoid hitting the command line length limit.
+ */
+const COMMAND_BATCH_SIZE = 64;
+
+/**
+ * Runs a command with `paths` as arguments, in batches.
+ */
+export async function adbSyncBatchPaths(
+    paths: readonly string[],
+    run: (batch: readonly string[]) => Promise<unknown>,
+): Promise<void> {
+    for (let i = 0; i < paths.length; i += COMMAND_BATCH_SIZE) {
+        await run(paths.slice(i, i + COMMAND_BATCH_SIZE));
+    }
+}
+
+/**
+ * Creates directories on device, including their parents.
+ *
+ * @param paths Full paths of the directories
+ */
+export async function adbSyncMakeDirectories(
+    adb: Adb,
+    paths: readonly string[],
+): Promise<void> {
+    await adbSyncBatchPaths(paths, (batch) =>
+        adb.subprocess.noneProtocol.spawnWait([
+            "mkdir",
+            "-p",
+            ...batch.map(escapeArg),
+        ]),
+    );
+}
+
+/**
+ * Pushes files and symbolic links into `path` on device.
+ *
+ * Their parent directories must already exist
+ * (or the device supports the `fixed_push_mkdir` feature).
+ */
+export async function adbSyncPushItems(
+    sync: AdbSync,
+    path: string,
+    items: readonly AdbSyncSourceItem[],
+    {
+        compression,
+        onProgress,
+    }: Pick<AdbSyncPushDirectoryOptions, "compression" | "onProgress">,
+): Promise<void> {
+    let totalSize = 0;
+    for (const { entry } of items) {
+        if (entry.type === LinuxFileType.File) {
+            totalSize += entry.size;
+        }
+    }
+    const tracker = new AdbSyncProgressTracker(
+        onProgress,
+        items.length,
+        totalSize,
+    );
+
+    for (const { path: relative, entry } of items) {
+        const filename = joinPath(path, relative);
+
+        if (entry.type === LinuxFileType.Link) {
+            tracker.start(relative, 0);
+            const target = encodeUtf8(entry.target);
+            await sync.write({
+                filename,
+                file: new ReadableStream({
+                    start(controller) {
+                        controller.enqueue(target);
+                        controller.close();
+                    },
+                }),
+                type: LinuxFileType.Link,
+                mtime: entry.mtime,
+            });
+            continue;
+        }
+
+        const file = await entry.open();
+        await sync.write({
+            filename,
+            file: file.pipeThrough(tracker.track(relative, entry.size)),
+            permission: entry.permission,
+            mtime: entry.mtime,
+            compression,
+        });
+    }
+}
+
+/**
+ * Recursively pushes `source` into `path` on device.
+ *
+ * Permissions and last modified times of files and symbolic links are preserved,
+ * but not the ones of directories.
+ */
+export async function adbSyncPushDirectory(
+    adb: Adb,
+    sync: AdbSync,
+    { source, path, ...options }: AdbSyncPushDirectoryOptions,
+): Promise<void> {
+    const { directories, items } = await adbSyncListSource(source);
+
+    // Empty directories won't be created by pushing files,
+    // and older devices can't create parent directories when pushing.
+    await adbSyncMakeDirectories(
+        adb,
+        directories.map((directory) => joinPath(path, directory)),
+    );
+
+    await adbSyncPushItems(sync, path, items, options);
+}
+
+export interface AdbSyncDeviceItem {
+    /**
+     * Path relative to the root directory.
+     */
+    path: string;
+    stat: AdbSyncStat;
+}
+
+export interface AdbSyncDeviceList {
+    /**
+     * All directories, in pre-order.
+     * The first one is always the root directory (with an empty string as `path`).
+     */
+    directories: AdbSyncDeviceItem[];
+    items: AdbSyncDeviceItem[];
+}
+
+async function collectDevice(
+    sync: AdbSync,
+    root: string,
+    path: string,
+    list: AdbSyncDeviceList,
+) {
+    const entries = await sync.readdir(joinPath(root, path));
+    for (const entry of entries) {
+        if (entry.name === "." || entry.name === "..") {
+            continue;
+        }
+
+        const childPath = joinPath(path, entry.name);
+        switch (entry.type) {
+            case LinuxFileType.Directory:
+                list.directories.push({ path: childPath, stat: entry });
+                await collectDevice(sync, root, childPath, list);
+                break;
+            case LinuxFileType.File:
+            case LinuxFileType.Link:
+                list.items.push({ path: childPath, stat: entry });
+                break;
+            // Other types (device files, FIFOs and sockets) can't be pulled.
+        }
+    }
+}
+
+/**
+ * Recursively lists all directories, files and symbolic links in `path` on device.
+ */
+export async function adbSyncListDevice(
+    sync: AdbSync,
+    path: string,
+): Promise<AdbSyncDeviceList> {
+    const rootStat = await sync.lstat(path);
+    if (rootStat.type !== LinuxFileType.Directory) {
+        throw new Error(`'${path}' is not a directory`);
+    }
+
+    const list: AdbSyncDeviceList = {
+        directories: [{ path: "", stat: rootStat }],
+        items: [],
+    };
+    await collectDevice(sync, path, "", list);
+    return list;
+}
+
+export async function adbSyncPullDirectory(
+    sync: AdbSync,
+    { path, sink, compression, onProgress }: AdbSyncPullDirectoryOptions,
+): Promise<void> {
+    const { directories, items } = await adbSyncListDevice(sync, path);
+
+    for (const directory of directories) {
+        await sink.createDirectory(directory.path, directory.stat);
+    }
+
+    let totalSize = 0;
+    for (const { stat } of items) {
+        if (stat.type === LinuxFileType.File) {
+            totalSize += Number(stat.size);
+        }
+    }
+    const tracker = new AdbSyncProgressTracker(
+        onProgress,
+        items.length,
+        totalSize,
+    );
+
+    for (const { path: relative, stat } of items) {
+        const filename = joinPath(path, relative);
+
+        if (stat.type === LinuxFileType.Link) {
+            tracker.start(relative, 0);
+            const target = await sync.readlink(filename);
+            await sink.createSymlink(relative, target, stat);
+            continue;
+        }
+
+        await sink.writeFile(
+            relative,
+            stat,
+            sync
+                .read(filename, { compression })
+                .pipeThrough(tracker.track(relative, Number(stat.size))),
+        );
+    }
+
+    if (sink.finishDirectory) {
+        // Deepest directories first, so restoring a parent's `mtime`
+        // won't be undone by finishing its children.
+        for (let i = directories.length - 1; i >= 0; i -= 1) {
+            const directory = directories[i]!;
+            await sink.finishDirectory(directory.path, directory.stat);
+        }
+    }
+}
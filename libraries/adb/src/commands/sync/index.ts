@@ -1,7 +1,12 @@
+export * from "./checksum.js";
+export * from "./compression.js";
+export * from "./directory.js";
 export * from "./list.js";
+export * from "./mirror.js";
 export * from "./pull.js";
 export * from "./push.js";
 export * from "./request.js";
+export * from "./resume.js";
 export * from "./response.js";
 export * from "./socket.js";
 export * from "./stat.js";
@@ -0,0 +1,147 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { WritableStream } from "@yume-chan/stream-extra";
+
+import type { Adb } from "../../adb.js";
+
+import type { AdbSyncDirectorySourceEntry } from "./directory.js";
+import type { AdbSyncEntry } from "./list.js";
+import { adbSyncIsUpToDate, adbSyncMirror } from "./mirror.js";
+import { LinuxFileType } from "./stat.js";
+import type { AdbSync, AdbSyncWriteOptions } from "./sync.js";
+import {
+    createEntry,
+    createSourceFile,
+    createStat,
+} from "./test-utils.spec.js";
+
+const SOURCE: Record<string, AdbSyncDirectorySourceEntry[]> = {
+    "": [
+        createSourceFile("same", 10, 100),
+        createSourceFile("size", 20, 100),
+        createSourceFile("time", 10, 200),
+        createSourceFile("new", 10, 100),
+        { type: LinuxFileType.Directory, name: "dir" },
+    ],
+    dir: [createSourceFile("file", 1, 1)],
+};
+
+const DEVICE: Record<string, AdbSyncEntry[]> = {
+    "/data/local/tmp": [
+        createEntry(".", LinuxFileType.Directory),
+        createEntry("..", LinuxFileType.Directory),
+        createEntry("same", LinuxFileType.File, 10, 100),
+        createEntry("size", LinuxFileType.File, 10, 100),
+        createEntry("time", LinuxFileType.File, 10, 100),
+        createEntry("extra", LinuxFileType.File, 1, 1),
+        createEntry("extra-dir", LinuxFileType.Directory),
+        createEntry("dir", LinuxFileType.File, 1, 1),
+    ],
+    "/data/local/tmp/extra-dir": [createEntry("child", LinuxFileType.File)],
+};
+
+function createMocks() {
+    const commands: string[][] = [];
+    const written: string[] = [];
+
+    const adb = {
+        subprocess: {
+            noneProtocol: {
+                spawnWait(command: string[]) {
+                    commands.push(command);
+                    return Promise.resolve(0);
+                },
+            },
+        },
+        rm(filenames: string[], options: unknown) {
+            assert.deepStrictEqual(options, { recursive: true, force: true });
+            commands.push(["rm", ...filenames]);
+            return Promise.resolve("");
+        },
+    } as unknown as Adb;
+
+    const sync = {
+        isDirectory: () => Promise.resolve(true),
+        lstat: () => Promise.resolve(createStat(LinuxFileType.Directory)),
+        readdir: (path: string) => Promise.resolve(DEVICE[path]!),
+        async write(options: AdbSyncWriteOptions) {
+            written.push(options.filename);
+            await options.file.pipeTo(new WritableStream());
+        },
+    } as unknown as AdbSync;
+
+    return { adb, sync, commands, written };
+}
+
+describe("adbSyncMirror", () => {
+    it("should only push changed files", async () => {
+        const { adb, sync, commands, written } = createMocks();
+
+        const result = await adbSyncMirror(adb, sync, {
+            source: { list: (path) => SOURCE[path]! },
+            path: "/data/local/tmp",
+        });
+
+        assert.deepStrictEqual(result, {
+            pushed: ["size", "time", "new", "dir/file"],
+            deleted: ["dir"],
+            unchanged: ["same"],
+        });
+        assert.deepStrictEqual(commands, [
+            ["rm", "/data/local/tmp/dir"],
+            ["mkdir", "-p", "'/data/local/tmp/dir'"],
+        ]);
+        assert.deepStrictEqual(written, [
+            "/data/local/tmp/size",
+            "/data/local/tmp/time",
+            "/data/local/tmp/new",
+            "/data/local/tmp/dir/file",
+        ]);
+    });
+
+    it("should delete extra files when `delete` is `true`", async () => {
+        const { adb, sync } = createMocks();
+
+        const result = await adbSyncMirror(adb, sync, {
+            source: { list: (path) => SOURCE[path]! },
+            path: "/data/local/tmp",
+            delete: true,
+            dryRun: true,
+        });
+
+        assert.deepStrictEqual(result.deleted, ["dir", "extra-dir", "extra"]);
+    });
+
+    it("should not modify device in dry run", async () => {
+        const { adb, sync, commands, written } = createMocks();
+
+        await adbSyncMirror(adb, sync, {
+            source: { list: (path) => SOURCE[path]! },
+            path: "/data/local/tmp",
+            delete: true,
+            dryRun: true,
+        });
+
+        assert.deepStrictEqual(commands, []);
+        assert.deepStrictEqual(written, []);
+    });
+});
+
+describe("adbSyncIsUpToDate", () => {
+    it("should truncate fractional timestamps", () => {
+        const item = {
+            path: "file",
+            entry: createSourceFile("file", 10, 100.75),
+        };
+
+        assert.strictEqual(
+            adbSyncIsUpToDate(item, createStat(LinuxFileType.File, 10, 100)),
+            true,
+        );
+        assert.strictEqual(
+            adbSyncIsUpToDate(item, createStat(LinuxFileType.File, 10, 101)),
+            false,
+        );
+    });
+});
@@ -0,0 +1,237 @@
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import type { Adb } from "../../adb.js";
+
+import type {
+    AdbSyncDeviceItem,
+    AdbSyncDeviceList,
+    AdbSyncPushDirectoryOptions,
+    AdbSyncSourceItem,
+} from "./directory.js";
+import {
+    adbSyncBatchPaths,
+    adbSyncListDevice,
+    adbSyncListSource,
+    adbSyncMakeDirectories,
+    adbSyncPushItems,
+    joinPath,
+} from "./directory.js";
+import type { AdbSyncStat } from "./stat.js";
+import { LinuxFileType } from "./stat.js";
+import type { AdbSync } from "./sync.js";
+
+export interface AdbSyncMirrorOptions extends AdbSyncPushDirectoryOptions {
+    /**
+     * Whether to delete files and directories on device
+     * that don't exist in `source`.
+     *
+     * @default false
+     */
+    delete?: boolean | undefined;
+
+    /**
+     * Only compare the two trees and return the changes,
+     * without modifying anything on device.
+     *
+     * @default false
+     */
+    dryRun?: boolean | undefined;
+}
+
+export interface AdbSyncMirrorResult {
+    /**
+     * Relative paths of files and symbolic links that were
+     * (or would be, in dry run) pushed.
+     */
+    pushed: string[];
+    /**
+     * Relative paths of files, symbolic links and directories that were
+     * (or would be, in dry run) deleted from device.
+     *
+     * When a directory is deleted, its children are not listed.
+     */
+    deleted: string[];
+    /**
+     * Relative paths of files and symbolic links that are already up to date.
+     */
+    unchanged: string[];
+}
+
+/**
+ * Checks whether an entry on device is the same as the one in source.
+ *
+ * Like `adb push --sync`, files are compared by size and last modified time.
+ * Contents are not compared.
+ */
+export function adbSyncIsUpToDate(
+    { entry }: AdbSyncSourceItem,
+    stat: AdbSyncStat,
+): boolean {
+    if (entry.type !== stat.type) {
+        return false;
+    }
+
+    // Without a timestamp, the file will be pushed with current time,
+    // so it's always considered out of date.
+    // Sync protocol only has second precision, so fractional timestamps
+    // (e.g. from `fs.Stats#mtimeMs`) are truncated when pushing.
+    if (
+        entry.mtime === undefined ||
+        BigInt(Math.trunc(entry.mtime)) !== stat.mtime
+    ) {
+        return false;
+    }
+
+    if (entry.type === LinuxFileType.File) {
+        return BigInt(Math.trunc(entry.size)) === stat.size;
+    }
+
+    // `lstat` returns the length of link target as size.
+    // Use it as a cheap check so changing link target
+    // without changing timestamp will also be detected.
+    return BigInt(encodeUtf8(entry.target).length) === stat.size;
+}
+
+interface MirrorPlan {
+    directories: string[];
+    pushed: AdbSyncSourceItem[];
+    deleted: string[];
+    unchanged: string[];
+}
+
+function isInside(path: string, directories: readonly string[]) {
+    return directories.some((directory) => path.startsWith(directory + "/"));
+}
+
+function plan(
+    directories: readonly string[],
+    items: readonly AdbSyncSourceItem[],
+    device: AdbSyncDeviceList | undefined,
+    deleteExtra: boolean,
+): MirrorPlan {
+    const result: MirrorPlan = {
+        directories: [],
+        pushed: [],
+        deleted: [],
+        unchanged: [],
+    };
+
+    const deviceDirectories = new Set<string>();
+    const deviceItems = new Map<string, AdbSyncDeviceItem>();
+    if (device) {
+        for (const { path } of device.directories) {
+            deviceDirectories.add(path);
+        }
+        for (const item of device.items) {
+            deviceItems.set(item.path, item);
+        }
+    }
+
+    const sourcePaths = new Set<string>(directories);
+    // Device directories that will be deleted, their children don't need to be listed
+    const deletedDirectories: string[] = [];
+
+    for (const directory of directories) {
+        if (deviceDirectories.has(directory)) {
+            continue;
+        }
+
+        // A file or link is in the way
+        if (deviceItems.has(directory)) {
+            result.deleted.push(directory);
+        }
+        result.directories.push(directory);
+    }
+
+    for (const item of items) {
+        sourcePaths.add(item.path);
+
+        if (deviceDirectories.has(item.path)) {
+            // A directory is in the way
+            deletedDirectories.push(item.path);
+            result.deleted.push(item.path);
+            result.pushed.push(item);
+            continue;
+        }
+
+        const existing = deviceItems.get(item.path);
+        if (!existing) {
+            result.pushed.push(item);
+            continue;
+        }
+
+        if (adbSyncIsUpToDate(item, existing.stat)) {
+            result.unchanged.push(item.path);
+            continue;
+        }
+
+        if (existing.stat.type !== item.entry.type) {
+            // Pushing a file onto a symbolic link will write to its target,
+            // so delete it first.
+            result.deleted.push(item.path);
+        }
+        result.pushed.push(item);
+    }
+
+    if (deleteExtra && device) {
+        // Only delete the top-most extra directories
+        for (const { path } of device.directories) {
+            if (sourcePaths.has(path) || isInside(path, deletedDirectories)) {
+                continue;
+            }
+            deletedDirectories.push(path);
+            result.deleted.push(path);
+        }
+
+        for (const { path } of device.items) {
+            if (sourcePaths.has(path) || isInside(path, deletedDirectories)) {
+                continue;
+            }
+            result.deleted.push(path);
+        }
+    }
+
+    return result;
+}
+
+export async function adbSyncMirror(
+    adb: Adb,
+    sync: AdbSync,
+    {
+        source,
+        path,
+        delete: deleteExtra = false,
+        dryRun = false,
+        ...options
+    }: AdbSyncMirrorOptions,
+): Promise<AdbSyncMirrorResult> {
+    const { directories, items } = await adbSyncListSource(source);
+
+    const device = (await sync.isDirectory(path))
+        ? await adbSyncListDevice(sync, path)
+        : undefined;
+
+    const result = plan(directories, items, device, deleteExtra);
+
+    if (!dryRun) {
+        await adbSyncBatchPaths(result.deleted, (batch) =>
+            adb.rm(
+                batch.map((relative) => joinPath(path, relative)),
+                { recursive: true, force: true },
+            ),
+        );
+
+        await adbSyncMakeDirectories(
+            adb,
+            result.directories.map((directory) => joinPath(path, directory)),
+        );
+
+        await adbSyncPushItems(sync, path, result.pushed, options);
+    }
+
+    return {
+        pushed: result.pushed.map((item) => item.path),
+        deleted: result.deleted,
+        unchanged: result.unchanged,
+    };
+}
@@ -2,9 +2,11 @@ import { ReadableStream } from "@yume-chan/stream-extra";
 import type { StructValue } from "@yume-chan/struct";
 import { buffer, struct, u32 } from "@yume-chan/struct";
 
+import type { AdbSyncCompressionCodec } from "./compression.js";
+import { AdbSyncCompressionFlag, AdbSyncSendV2Flags } from "./push.js";
 import { AdbSyncRequestId, adbSyncWriteRequest } from "./request.js";
 import { adbSyncReadResponses, AdbSyncResponseId } from "./response.js";
-import type { AdbSyncSocket } from "./socket.js";
+import type { AdbSyncSocket, AdbSyncSocketLocked } from "./socket.js";
 
 export const AdbSyncDataResponse = struct(
     { data: buffer(u32) },
@@ -13,14 +15,16 @@ export const AdbSyncDataResponse = struct(
 
 export type AdbSyncDataResponse = StructValue<typeof AdbSyncDataResponse>;
 
-export async function* adbSyncPullGenerator(
-    socket: AdbSyncSocket,
-    path: string,
+export const AdbSyncReceiveV2Request = struct(
+    { id: u32, flags: u32<AdbSyncSendV2Flags>() },
+    { littleEndian: true },
+);
+
+async function* readFileData(
+    locked: AdbSyncSocketLocked,
 ): AsyncGenerator<Uint8Array, void, void> {
-    const locked = await socket.lock();
     let done = false;
     try {
-        await adbSyncWriteRequest(locked, AdbSyncRequestId.Receive, path);
         for await (const packet of adbSyncReadResponses(
             locked,
             AdbSyncResponseId.Data,
@@ -43,13 +47,88 @@ export async function* adbSyncPullGenerator(
                 void packet;
             }
         }
+    }
+}
+
+export async function* adbSyncPullGenerator(
+    socket: AdbSyncSocket,
+    path: string,
+): AsyncGenerator<Uint8Array, void, void> {
+    const locked = await socket.lock();
+    try {
+        await adbSyncWriteRequest(locked, AdbSyncRequestId.Receive, path);
+        yield* readFileData(locked);
+    } finally {
         locked.release();
     }
 }
 
+/**
+ * Pulls a file using the `RCV2` request.
+ *
+ * @param compression
+ * If specified, the device will compress the file content using this codec.
+ * The yielded data is still compressed.
+ */
+export async function* adbSyncPullV2Generator(
+    socket: AdbSyncSocket,
+    path: string,
+    compression?: AdbSyncCompressionCodec,
+): AsyncGenerator<Uint8Array, void, void> {
+    const locked = await socket.lock();
+    try {
+        await adbSyncWriteRequest(locked, AdbSyncRequestId.ReceiveV2, path);
+
+        let flags: AdbSyncSendV2Flags = AdbSyncSendV2Flags.None;
+        if (compression) {
+            flags |= AdbSyncCompressionFlag[compression.type];
+        }
+        await locked.write(
+            AdbSyncReceiveV2Request.serialize({
+                id: AdbSyncRequestId.ReceiveV2,
+                flags,
+            }),
+        );
+
+        yield* readFileData(locked);
+    } finally {
+        locked.release();
+    }
+}
+
+export interface AdbSyncPullOptions {
+    /**
+     * Whether to use the v2 protocol. Requires the `sendrecv_v2` feature.
+     */
+    v2?: boolean;
+
+    /**
+     * Let the device compress the file content using this codec.
+     * Requires the `sendrecv_v2` feature and the corresponding
+     * `sendrecv_v2_<type>` feature.
+     *
+     * This function doesn't check for device support,
+     * use `AdbSync#read` to negotiate the compression automatically.
+     */
+    compression?: AdbSyncCompressionCodec | undefined;
+}
+
 export function adbSyncPull(
     socket: AdbSyncSocket,
     path: string,
+    options?: AdbSyncPullOptions,
 ): ReadableStream<Uint8Array> {
-    return ReadableStream.from(adbSyncPullGenerator(socket, path));
+    if (!options?.v2) {
+        if (options?.compression) {
+            throw new Error("compression is not supported in v1");
+        }
+
+        return ReadableStream.from(adbSyncPullGenerator(socket, path));
+    }
+
+    const { compression } = options;
+    const stream = ReadableStream.from(
+        adbSyncPullV2Generator(socket, path, compression),
+    );
+    return compression ? stream.pipeThrough(compression.decompress()) : stream;
 }
@@ -8,6 +8,8 @@ import { struct, u32 } from "@yume-chan/struct";
 
 import { NOOP } from "../../utils/index.js";
 
+import type { AdbSyncCompressionCodec } from "./compression.js";
+import { AdbSyncCompressionType, adbSyncCompress } from "./compression.js";
 import { AdbSyncRequestId, adbSyncWriteRequest } from "./request.js";
 import { AdbSyncResponseId, adbSyncReadResponse } from "./response.js";
 import type { AdbSyncSocket, AdbSyncSocketLocked } from "./socket.js";
@@ -19,9 +21,9 @@ export interface AdbSyncPushV1Options {
     socket: AdbSyncSocket;
     filename: string;
     file: ReadableStream<MaybeConsumable<Uint8Array>>;
-    type?: LinuxFileType;
-    permission?: number;
-    mtime?: number;
+    type?: LinuxFileType | undefined;
+    permission?: number | undefined;
+    mtime?: number | undefined;
     packetSize?: number;
 }
 
@@ -104,6 +106,20 @@ export const AdbSyncSendV2Flags = {
 export type AdbSyncSendV2Flags =
     (typeof AdbSyncSendV2Flags)[keyof typeof AdbSyncSendV2Flags];
 
+/**
+ * The `sendrecv_v2` flag for each compression type.
+ *
+ * `RCV2` requests use the same flag values as `SND2` requests.
+ */
+export const AdbSyncCompressionFlag: Record<
+    AdbSyncCompressionType,
+    AdbSyncSendV2Flags
+> = {
+    [AdbSyncCompressionType.Brotli]: AdbSyncSendV2Flags.Brotli,
+    [AdbSyncCompressionType.Lz4]: AdbSyncSendV2Flags.Lz4,
+    [AdbSyncCompressionType.Zstd]: AdbSyncSendV2Flags.Zstd,
+};
+
 export interface AdbSyncPushV2Options extends AdbSyncPushV1Options {
     /**
      * Don't write the file to disk. Requires the `sendrecv_v2` feature.
@@ -112,6 +128,16 @@ export interface AdbSyncPushV2Options extends AdbSyncPushV1Options {
      * compression algorithms.
      */
     dryRun?: boolean;
+
+    /**
+     * Compress the file content using this codec before sending.
+     * Requires the `sendrecv_v2` feature and the corresponding
+     * `sendrecv_v2_<type>` feature.
+     *
+     * This function doesn't check for device support,
+     * use `AdbSync#write` to negotiate the compression automatically.
+     */
+    compression?: AdbSyncCompressionCodec | undefined;
 }
 
 export const AdbSyncSendV2Request = struct(
@@ -128,6 +154,7 @@ export async function adbSyncPushV2({
     mtime = (Date.now() / 1000) | 0,
     packetSize = ADB_SYNC_MAX_PACKET_SIZE,
     dryRun = false,
+    compression,
 }: AdbSyncPushV2Options) {
     const locked = await socket.lock();
     try {
@@ -138,6 +165,12 @@ export async function adbSyncPushV2({
         if (dryRun) {
             flags |= AdbSyncSendV2Flags.DryRun;
         }
+        if (compression) {
+            flags |= AdbSyncCompressionFlag[compression.type];
+            // The device decompresses all `DATA` packets as one continuous stream,
+            // so packet boundaries don't need to align with compression frames.
+            file = adbSyncCompress(file, compression);
+        }
         await locked.write(
             AdbSyncSendV2Request.serialize({
                 id: AdbSyncRequestId.SendV2,
@@ -168,5 +201,9 @@ export function adbSyncPush(options: AdbSyncPushOptions) {
         throw new Error("dryRun is not supported in v1");
     }
 
+    if (options.compression) {
+        throw new Error("compression is not supported in v1");
+    }
+
     return adbSyncPushV1(options);
 }
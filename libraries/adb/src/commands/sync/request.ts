@@ -13,6 +13,7 @@ export const AdbSyncRequestId = {
     Data: adbSyncEncodeId("DATA"),
     Done: adbSyncEncodeId("DONE"),
     Receive: adbSyncEncodeId("RECV"),
+    ReceiveV2: adbSyncEncodeId("RCV2"),
 } as const;
 
 export const AdbSyncNumberRequest = struct(
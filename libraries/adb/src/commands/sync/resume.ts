@@ -0,0 +1,51 @@
+import type { ReadableStream } from "@yume-chan/stream-extra";
+import { WrapReadableStream } from "@yume-chan/stream-extra";
+
+import type { Adb } from "../../adb.js";
+import type { AdbNoneProtocolProcess } from "../subprocess/index.js";
+import { escapeArg } from "../subprocess/index.js";
+
+import { LinuxFileType } from "./stat.js";
+import type { AdbSync } from "./sync.js";
+
+/**
+ * Reads a file on device starting from a byte offset.
+ *
+ * The sync protocol can't seek, so it runs `tail -c` command instead.
+ *
+ * Because the output of `tail` also contains its error messages,
+ * the file is checked using `lstat` before starting.
+ */
+export function adbSyncReadFromOffset(
+    adb: Adb,
+    sync: AdbSync,
+    path: string,
+    offset: number,
+): ReadableStream<Uint8Array> {
+    let process: AdbNoneProtocolProcess | undefined;
+    return new WrapReadableStream({
+        async start() {
+            const stat = await sync.lstat(path);
+            if (stat.type !== LinuxFileType.File) {
+                throw new Error(`'${path}' is not a file`);
+            }
+            if (BigInt(offset) > stat.size) {
+                throw new RangeError(
+                    `Offset ${offset} is larger than the file size ${stat.size}`,
+                );
+            }
+
+            process = await adb.subprocess.noneProtocol.spawn([
+                "tail",
+                "-c",
+                // `tail -c +N` starts at the N-th byte (1-based)
+                `+${offset + 1}`,
+                escapeArg(path),
+            ]);
+            return process.output;
+        },
+        async cancel() {
+            await process?.kill();
+        },
+    });
+}
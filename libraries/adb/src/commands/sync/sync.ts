@@ -4,10 +4,28 @@ import type { Adb, AdbSocket } from "../../adb.js";
 import { AdbFeature } from "../../features.js";
 import { escapeArg } from "../subprocess/index.js";
 
+import { adbSyncDeviceSha256, adbSyncVerifySha256 } from "./checksum.js";
+import type {
+    AdbSyncCompressionCodec,
+    AdbSyncCompressionOption,
+    AdbSyncCompressionType,
+} from "./compression.js";
+import {
+    AdbSyncCompressionFeature,
+    adbSyncSelectCompression,
+} from "./compression.js";
+import type {
+    AdbSyncPullDirectoryOptions,
+    AdbSyncPushDirectoryOptions,
+} from "./directory.js";
+import { adbSyncPullDirectory, adbSyncPushDirectory } from "./directory.js";
 import type { AdbSyncEntry } from "./list.js";
 import { adbSyncOpenDir } from "./list.js";
+import type { AdbSyncMirrorOptions, AdbSyncMirrorResult } from "./mirror.js";
+import { adbSyncMirror } from "./mirror.js";
 import { adbSyncPull } from "./pull.js";
 import { adbSyncPush } from "./push.js";
+import { adbSyncReadFromOffset } from "./resume.js";
 import type { AdbSyncSocketLocked } from "./socket.js";
 import { AdbSyncSocket } from "./socket.js";
 import type { AdbSyncStat, LinuxFileType } from "./stat.js";
@@ -32,10 +50,52 @@ export function dirname(path: string): string {
 export interface AdbSyncWriteOptions {
     filename: string;
     file: ReadableStream<MaybeConsumable<Uint8Array>>;
-    type?: LinuxFileType;
-    permission?: number;
-    mtime?: number;
+    type?: LinuxFileType | undefined;
+    permission?: number | undefined;
+    mtime?: number | undefined;
     dryRun?: boolean;
+    /**
+     * Codecs to compress the file content with, in the order of preference.
+     *
+     * The first one supported by the device will be used.
+     * If none of them is supported, the file will be sent uncompressed.
+     */
+    compression?: AdbSyncCompressionOption | undefined;
+}
+
+export interface AdbSyncReadOptions {
+    /**
+     * Codecs to let the device compress the file content with, in the order of preference.
+     *
+     * The first one supported by the device will be used.
+     * If none of them is supported, the file will be received uncompressed.
+     *
+     * The returned stream always contains the decompressed content.
+     *
+     * Ignored when `offset` is set.
+     */
+    compression?: AdbSyncCompressionOption | undefined;
+
+    /**
+     * Start reading from this byte offset, for example to resume an interrupted transfer.
+     *
+     * The sync protocol can't seek, so when it's larger than 0,
+     * the file will be read using `tail` command instead.
+     *
+     * @default 0
+     */
+    offset?: number | undefined;
+
+    /**
+     * Calculate the SHA-256 checksum of the received content,
+     * and compare it with the output of `sha256sum` command on device.
+     *
+     * When `offset` is set, only the received part is compared.
+     * The returned stream errors with an `AdbSyncChecksumError` on mismatch.
+     *
+     * @default false
+     */
+    verify?: boolean | undefined;
 }
 
 export class AdbSync {
@@ -83,6 +143,28 @@ export class AdbSync {
             this._adb.canUseFeature(AdbFeature.ShellV2) && !this.fixedPushMkdir;
     }
 
+    /**
+     * Checks whether the device can compress and decompress file content
+     * using the specified algorithm in `read` and `write`.
+     */
+    supportsCompression(type: AdbSyncCompressionType): boolean {
+        return (
+            this.#supportsSendReceiveV2 &&
+            this._adb.canUseFeature(AdbSyncCompressionFeature[type])
+        );
+    }
+
+    #selectCompression(
+        option: AdbSyncCompressionOption | undefined,
+    ): AdbSyncCompressionCodec | undefined {
+        if (!this.#supportsSendReceiveV2) {
+            return undefined;
+        }
+        return adbSyncSelectCompression(option, (feature) =>
+            this._adb.canUseFeature(feature),
+        );
+    }
+
     /**
      * Gets information of a file or folder.
      *
@@ -135,10 +217,37 @@ export class AdbSync {
      * Reads the content of a file on device.
      *
      * @param filename The full path of the file on device to read.
+     * @param options Options for the transfer.
      * @returns A `ReadableStream` that contains the file content.
      */
-    read(filename: string): ReadableStream<Uint8Array> {
-        return adbSyncPull(this._socket, filename);
+    read(
+        filename: string,
+        options?: AdbSyncReadOptions,
+    ): ReadableStream<Uint8Array> {
+        const offset = options?.offset ?? 0;
+
+        let stream: ReadableStream<Uint8Array>;
+        if (offset > 0) {
+            stream = adbSyncReadFromOffset(this._adb, this, filename, offset);
+        } else {
+            const compression = this.#selectCompression(options?.compression);
+            stream = adbSyncPull(this._socket, filename, {
+                // Only use `RCV2` when necessary,
+                // as it's not different from `RECV` when not compressing.
+                v2: !!compression,
+                compression,
+            });
+        }
+
+        if (options?.verify) {
+            stream = stream.pipeThrough(
+                adbSyncVerifySha256(filename, () =>
+                    adbSyncDeviceSha256(this._adb, filename, offset),
+                ),
+            );
+        }
+
+        return stream;
     }
 
     /**
@@ -162,9 +271,63 @@ export class AdbSync {
             v2: this.supportsSendReceiveV2,
             socket: this._socket,
             ...options,
+            compression: this.#selectCompression(options.compression),
         });
     }
 
+    /**
+     * Gets the target of a symbolic link on device.
+     *
+     * The sync protocol doesn't support this, so it runs `readlink` command.
+     */
+    async readlink(path: string): Promise<string> {
+        const output = await this._adb.subprocess.noneProtocol.spawnWaitText([
+            "readlink",
+            escapeArg(path),
+        ]);
+        // Only remove the trailing new line, link targets can contain spaces.
+        return output.replace(/\r?\n$/, "");
+    }
+
+    /**
+     * Recursively pushes a directory to device, like `adb push` with a directory.
+     *
+     * File permissions, last modified times and symbolic links are preserved.
+     * Like `adb push`, directories are created by `mkdir -p`,
+     * so they always get the default permission and the current time on device.
+     *
+     * @param options The source directory and options of the transfer.
+     */
+    async pushDirectory(options: AdbSyncPushDirectoryOptions): Promise<void> {
+        await adbSyncPushDirectory(this._adb, this, options);
+    }
+
+    /**
+     * Recursively pulls a directory from device, like `adb pull` with a directory.
+     *
+     * The sink receives the `AdbSyncStat` of every entry
+     * to preserve permissions and last modified times.
+     *
+     * @param options The sink directory and options of the transfer.
+     */
+    async pullDirectory(options: AdbSyncPullDirectoryOptions): Promise<void> {
+        await adbSyncPullDirectory(this, options);
+    }
+
+    /**
+     * Incrementally pushes a directory to device, like `adb sync`.
+     *
+     * Files with the same size and last modified time on device are skipped.
+     * Set `delete` to also remove files that don't exist in source,
+     * and `dryRun` to only compute the changes.
+     *
+     * @param options The source directory and options of the transfer.
+     * @returns The changes that were (or would be) made on device.
+     */
+    async mirror(options: AdbSyncMirrorOptions): Promise<AdbSyncMirrorResult> {
+        return await adbSyncMirror(this._adb, this, options);
+    }
+
     lockSocket(): Promise<AdbSyncSocketLocked> {
         return this._socket.lock();
     }
@@ -0,0 +1,67 @@
+// Fixtures shared by sync command tests.
+// Named `.spec.ts` so it's excluded from the build output.
+
+import { ReadableStream } from "@yume-chan/stream-extra";
+
+import type { AdbSyncDirectorySourceFile } from "./directory.js";
+import type { AdbSyncEntry } from "./list.js";
+import type { AdbSyncStat } from "./stat.js";
+import { LinuxFileType } from "./stat.js";
+
+export function createStat(
+    type: LinuxFileType,
+    size = 0,
+    mtime = 1000,
+    permission = 0o755,
+): AdbSyncStat {
+    return {
+        mode: (type << 12) | permission,
+        size: BigInt(size),
+        mtime: BigInt(mtime),
+        get type() {
+            return type;
+        },
+        get permission() {
+            return permission;
+        },
+    };
+}
+
+export function createEntry(
+    name: string,
+    type: LinuxFileType,
+    size = 0,
+    mtime = 1000,
+): AdbSyncEntry {
+    return Object.assign(createStat(type, size, mtime), { name });
+}
+
+export function createStream(content: string | Uint8Array) {
+    const data =
+        typeof content === "string"
+            ? new TextEncoder().encode(content)
+            : content;
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(data);
+            controller.close();
+        },
+    });
+}
+
+/**
+ * Creates a source file filled with `size` zeros.
+ */
+export function createSourceFile(
+    name: string,
+    size: number,
+    mtime: number,
+): AdbSyncDirectorySourceFile {
+    return {
+        type: LinuxFileType.File,
+        name,
+        size,
+        mtime,
+        open: () => createStream(new Uint8Array(size)),
+    };
+}
@@ -90,26 +90,23 @@ export const AdbSignatureAuthenticator: AdbAuthenticator = async function* (
     }
 };
 
-export const AdbPublicKeyAuthenticator: AdbAuthenticator = async function* (
+/**
+ * Gets the first key in `credentialStore`, or generates a new one if it's empty.
+ */
+export async function adbGetPrivateKey(
     credentialStore: AdbCredentialStore,
-    getNextRequest: () => Promise<AdbPacketData>,
-): AsyncIterable<AdbPacketData> {
-    const packet = await getNextRequest();
-
-    if (packet.arg0 !== AdbAuthType.Token) {
-        return;
-    }
-
-    let privateKey: AdbPrivateKey | undefined;
+): Promise<AdbPrivateKey> {
     for await (const key of credentialStore.iterateKeys()) {
-        privateKey = key;
-        break;
-    }
-
-    if (!privateKey) {
-        privateKey = await credentialStore.generateKey();
+        return key;
     }
+    return await credentialStore.generateKey();
+}
 
+/**
+ * Formats the public key of `privateKey` like `adbkey.pub` file,
+ * as a null-terminated string of the Base64 encoded public key and the key name.
+ */
+export function adbFormatPublicKey(privateKey: AdbPrivateKey): Uint8Array {
     const publicKeyLength = adbGetPublicKeySize();
     const [publicKeyBase64Length] =
         calculateBase64EncodedLength(publicKeyLength);
@@ -131,6 +128,22 @@ export const AdbPublicKeyAuthenticator: AdbAuthenticator = async function* (
         publicKeyBuffer.set(nameBuffer, publicKeyBase64Length + 1);
     }
 
+    return publicKeyBuffer;
+}
+
+export const AdbPublicKeyAuthenticator: AdbAuthenticator = async function* (
+    credentialStore: AdbCredentialStore,
+    getNextRequest: () => Promise<AdbPacketData>,
+): AsyncIterable<AdbPacketData> {
+    const packet = await getNextRequest();
+
+    if (packet.arg0 !== AdbAuthType.Token) {
+        return;
+    }
+
+    const privateKey = await adbGetPrivateKey(credentialStore);
+    const publicKeyBuffer = adbFormatPublicKey(privateKey);
+
     yield {
         command: AdbCommand.Auth,
         arg0: AdbAuthType.PublicKey,
@@ -257,11 +257,18 @@ export function powMod(
 }
 
 export const SHA1_DIGEST_LENGTH = 20;
+export const SHA256_DIGEST_LENGTH = 32;
 
-export const ASN1_SEQUENCE = 0x30;
+export const ASN1_INTEGER = 0x02;
+export const ASN1_BIT_STRING = 0x03;
 export const ASN1_OCTET_STRING = 0x04;
 export const ASN1_NULL = 0x05;
 export const ASN1_OID = 0x06;
+export const ASN1_UTF8_STRING = 0x0c;
+export const ASN1_PRINTABLE_STRING = 0x13;
+export const ASN1_UTC_TIME = 0x17;
+export const ASN1_SEQUENCE = 0x30;
+export const ASN1_SET = 0x31;
 
 // PKCS#1 SHA-1 hash digest info
 export const SHA1_DIGEST_INFO = new Uint8Array([
@@ -283,15 +290,47 @@ export const SHA1_DIGEST_INFO = new Uint8Array([
     SHA1_DIGEST_LENGTH,
 ]);
 
+// PKCS#1 SHA-256 hash digest info
+export const SHA256_DIGEST_INFO = new Uint8Array([
+    ASN1_SEQUENCE,
+    0x11 + SHA256_DIGEST_LENGTH,
+    ASN1_SEQUENCE,
+    0x0d,
+    // SHA-256 (2 16 840 1 101 3 4 2 1)
+    ASN1_OID,
+    0x09,
+    0x60,
+    0x86,
+    0x48,
+    0x01,
+    0x65,
+    0x03,
+    0x04,
+    0x02,
+    0x01,
+    ASN1_NULL,
+    0x00,
+    ASN1_OCTET_STRING,
+    SHA256_DIGEST_LENGTH,
+]);
+
 // SubtleCrypto.sign() will hash the given data and sign the hash
 // But we don't need the hashing step
 // (In another word, ADB just requires the client to
 // encrypt the given data with its private key)
 // However SubtileCrypto.encrypt() doesn't accept 'RSASSA-PKCS1-v1_5' algorithm
 // So we need to implement the encryption by ourself
+/**
+ * Signs a hash using RSASSA-PKCS1-v1_5.
+ *
+ * @param privateKey The private key in PKCS #8 format
+ * @param data The hash to sign
+ * @param digestInfo The DigestInfo prefix of the hash algorithm used to create `data`
+ */
 export function rsaSign(
     privateKey: Uint8Array,
     data: Uint8Array,
+    digestInfo: Uint8Array = SHA1_DIGEST_INFO,
 ): Uint8Array<ArrayBuffer> {
     const [n, d] = rsaParsePrivateKey(privateKey);
 
@@ -305,8 +344,7 @@ export function rsaSign(
     padded[index] = 1;
     index += 1;
 
-    const fillLength =
-        padded.length - SHA1_DIGEST_INFO.length - data.length - 1;
+    const fillLength = padded.length - digestInfo.length - data.length - 1;
     while (index < fillLength) {
         padded[index] = 0xff;
         index += 1;
@@ -315,8 +353,8 @@ export function rsaSign(
     padded[index] = 0;
     index += 1;
 
-    padded.set(SHA1_DIGEST_INFO, index);
-    index += SHA1_DIGEST_INFO.length;
+    padded.set(digestInfo, index);
+    index += digestInfo.length;
 
     padded.set(data, index);
 
@@ -3,5 +3,8 @@ export * from "./crypto.js";
 export * from "./device.js";
 export * from "./dispatcher.js";
 export * from "./packet.js";
+export * from "./pairing.js";
 export * from "./socket.js";
+export * from "./spake2.js";
+export * from "./tls.js";
 export * from "./transport.js";
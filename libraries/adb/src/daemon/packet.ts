@@ -8,6 +8,7 @@ export const AdbCommand = {
     Connect: 0x4e584e43, // 'CNXN'
     Okay: 0x59414b4f, // 'OKAY'
     Open: 0x4e45504f, // 'OPEN'
+    StartTls: 0x534c5453, // 'STLS'
     Write: 0x45545257, // 'WRTE'
 } as const;
 
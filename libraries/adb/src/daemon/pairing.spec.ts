@@ -0,0 +1,182 @@
+import * as assert from "node:assert";
+import { generateKeyPairSync } from "node:crypto";
+import { describe, it } from "node:test";
+
+import type { ReadableStreamDefaultController } from "@yume-chan/stream-extra";
+import {
+    BufferedReadableStream,
+    MaybeConsumable,
+    ReadableStream,
+} from "@yume-chan/stream-extra";
+import { decodeUtf8, encodeUtf8 } from "@yume-chan/struct";
+
+import type { AdbPairingConnection } from "./pairing.js";
+import {
+    ADB_PAIRING_CLIENT_NAME,
+    ADB_PAIRING_PEER_INFO_SIZE,
+    ADB_PAIRING_SERVER_NAME,
+    AdbPairingCipher,
+    AdbPairingError,
+    AdbPairingPacketType,
+    AdbPeerInfoType,
+    adbPair,
+    adbReadPairingPacket,
+    adbSerializePairingPacket,
+} from "./pairing.js";
+import { Spake2, Spake2Role } from "./spake2.js";
+
+function createPipe() {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const readable = new ReadableStream<Uint8Array>({
+        start(value) {
+            controller = value;
+        },
+    });
+    const writable = new MaybeConsumable.WritableStream<Uint8Array>({
+        write(chunk) {
+            controller.enqueue(chunk);
+        },
+        close() {
+            controller.close();
+        },
+    });
+    return { readable, writable };
+}
+
+const KEY_MATERIAL = new Uint8Array(64).fill(42);
+
+/**
+ * Simulates the pairing server on device.
+ */
+async function runDevice(
+    connection: AdbPairingConnection,
+    password: string,
+    response?: Uint8Array,
+): Promise<string> {
+    const stream = new BufferedReadableStream(connection.readable);
+    const writer = connection.writable.getWriter();
+
+    const passwordBuffer = encodeUtf8(password);
+    const combinedPassword = new Uint8Array(passwordBuffer.length + 64);
+    combinedPassword.set(passwordBuffer);
+    combinedPassword.set(KEY_MATERIAL, passwordBuffer.length);
+
+    const spake2 = new Spake2(
+        Spake2Role.Bob,
+        encodeUtf8(ADB_PAIRING_SERVER_NAME),
+        encodeUtf8(ADB_PAIRING_CLIENT_NAME),
+    );
+    await writer.write(
+        adbSerializePairingPacket(
+            AdbPairingPacketType.Spake2Message,
+            await spake2.generateMessage(combinedPassword),
+        ),
+    );
+
+    const cipher = await AdbPairingCipher.create(
+        await spake2.processMessage(
+            await adbReadPairingPacket(
+                stream,
+                AdbPairingPacketType.Spake2Message,
+            ),
+        ),
+    );
+
+    let peerInfo: Uint8Array;
+    try {
+        peerInfo = await cipher.decrypt(
+            await adbReadPairingPacket(stream, AdbPairingPacketType.PeerInfo),
+        );
+    } catch (e) {
+        // Like the real device, close the connection on failure
+        await writer.close();
+        throw e;
+    }
+
+    if (!response) {
+        response = new Uint8Array(ADB_PAIRING_PEER_INFO_SIZE);
+        response[0] = AdbPeerInfoType.DeviceGuid;
+        response.set(encodeUtf8("adb-1234-abcd"), 1);
+    }
+    await writer.write(
+        adbSerializePairingPacket(
+            AdbPairingPacketType.PeerInfo,
+            await cipher.encrypt(response),
+        ),
+    );
+
+    assert.strictEqual(peerInfo[0], AdbPeerInfoType.RsaPublicKey);
+    const data = peerInfo.subarray(1);
+    return decodeUtf8(data.subarray(0, data.indexOf(0)));
+}
+
+function createConnections(): [
+    client: AdbPairingConnection,
+    device: AdbPairingConnection,
+] {
+    const toDevice = createPipe();
+    const toClient = createPipe();
+    return [
+        {
+            readable: toClient.readable,
+            writable: toDevice.writable,
+            exportKeyingMaterial: () => KEY_MATERIAL,
+        },
+        {
+            readable: toDevice.readable,
+            writable: toClient.writable,
+            exportKeyingMaterial: () => KEY_MATERIAL,
+        },
+    ];
+}
+
+const PRIVATE_KEY = {
+    buffer: generateKeyPairSync("rsa", {
+        modulusLength: 2048,
+        publicExponent: 65537,
+    }).privateKey.export({ format: "der", type: "pkcs8" }),
+    name: "user@host",
+};
+
+describe("adbPair", () => {
+    it("should exchange public key and GUID", async () => {
+        const [client, device] = createConnections();
+        const [guid, publicKey] = await Promise.all([
+            adbPair(client, "123456", PRIVATE_KEY),
+            runDevice(device, "123456"),
+        ]);
+
+        assert.strictEqual(guid, "adb-1234-abcd");
+        assert.match(publicKey, /^[A-Za-z0-9+/]+=* user@host$/);
+    });
+
+    it("should accept peer info in the format sent by adbd", async () => {
+        // Decrypted peer info from `adbd`: `ADB_DEVICE_GUID` (which is 0),
+        // followed by the null-terminated GUID, padded to `MAX_PEER_INFO_SIZE`.
+        const response = new Uint8Array(ADB_PAIRING_PEER_INFO_SIZE);
+        response.set([
+            0x00, 0x61, 0x64, 0x62, 0x2d, 0x32, 0x41, 0x32, 0x31, 0x31, 0x46,
+            0x44, 0x48, 0x32, 0x30, 0x30, 0x30, 0x41, 0x48, 0x2d, 0x6b, 0x56,
+            0x71, 0x33, 0x57, 0x6d,
+        ]);
+
+        const [client, device] = createConnections();
+        const [guid] = await Promise.all([
+            adbPair(client, "123456", PRIVATE_KEY),
+            runDevice(device, "123456", response),
+        ]);
+
+        assert.strictEqual(guid, "adb-2A211FDH2000AH-kVq3Wm");
+    });
+
+    it("should throw `AdbPairingError` with wrong pairing code", async () => {
+        const [client, device] = createConnections();
+        const deviceResult = runDevice(device, "654321");
+        await assert.rejects(
+            adbPair(client, "123456", PRIVATE_KEY),
+            AdbPairingError,
+        );
+        // Device should also fail to decrypt client's peer info
+        await assert.rejects(deviceResult);
+    });
+});
@@ -0,0 +1,279 @@
+import type { MaybePromiseLike } from "@yume-chan/async";
+import { setUint32LittleEndian } from "@yume-chan/no-data-view";
+import type {
+    MaybeConsumable,
+    ReadableWritablePair,
+} from "@yume-chan/stream-extra";
+import { BufferedReadableStream } from "@yume-chan/stream-extra";
+import type { StructValue } from "@yume-chan/struct";
+import { decodeUtf8, encodeUtf8, struct, u32, u8 } from "@yume-chan/struct";
+
+import type { AdbPrivateKey } from "./auth.js";
+import { adbFormatPublicKey } from "./auth.js";
+import { Spake2, Spake2Role } from "./spake2.js";
+import type { CryptoKey } from "./web-crypto.js";
+import { getCrypto } from "./web-crypto.js";
+
+// https://android.googlesource.com/platform/packages/modules/adb/+/refs/heads/main/pairing_connection/pairing_connection.cpp
+// https://android.googlesource.com/platform/packages/modules/adb/+/refs/heads/main/pairing_auth/pairing_auth.cpp
+
+/**
+ * A TLS connection to the pairing port of an ADB daemon.
+ *
+ * The connection must be a TLS 1.3 client,
+ * using a certificate from `adbCreateTlsCredential`.
+ */
+export interface AdbPairingConnection
+    extends ReadableWritablePair<Uint8Array, MaybeConsumable<Uint8Array>> {
+    /**
+     * Exports keying material from the TLS session, as defined in RFC 5705.
+     *
+     * @param length The number of bytes to export
+     * @param label The label, including the terminating null character
+     */
+    exportKeyingMaterial(
+        length: number,
+        label: string,
+    ): MaybePromiseLike<Uint8Array>;
+}
+
+export class AdbPairingError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+export const AdbPairingPacketType = {
+    Spake2Message: 0,
+    PeerInfo: 1,
+} as const;
+
+export type AdbPairingPacketType =
+    (typeof AdbPairingPacketType)[keyof typeof AdbPairingPacketType];
+
+export const AdbPairingPacketHeader = struct(
+    { version: u8, type: u8, payloadLength: u32 },
+    { littleEndian: false },
+);
+
+export type AdbPairingPacketHeader = StructValue<typeof AdbPairingPacketHeader>;
+
+// Both types have the same value in `pairing_connection.h`,
+// the direction of the packet tells which one it is.
+export const AdbPeerInfoType = {
+    RsaPublicKey: 0,
+    DeviceGuid: 0,
+} as const;
+
+export type AdbPeerInfoType =
+    (typeof AdbPeerInfoType)[keyof typeof AdbPeerInfoType];
+
+export const ADB_PAIRING_VERSION = 1;
+export const ADB_PAIRING_PEER_INFO_SIZE = 8192;
+export const ADB_PAIRING_MAX_PAYLOAD_SIZE = ADB_PAIRING_PEER_INFO_SIZE * 2;
+
+// Both names include the terminating null character
+export const ADB_PAIRING_CLIENT_NAME = "adb pair client\0";
+export const ADB_PAIRING_SERVER_NAME = "adb pair server\0";
+export const ADB_PAIRING_EXPORTED_KEY_LABEL = "adb-label\0";
+export const ADB_PAIRING_EXPORTED_KEY_SIZE = 64;
+
+/**
+ * AES-128-GCM cipher for encrypting peer info, keyed by the SPAKE2 shared key.
+ */
+export class AdbPairingCipher {
+    static async create(keyMaterial: Uint8Array): Promise<AdbPairingCipher> {
+        const { subtle } = getCrypto();
+        const hkdf = await subtle.importKey("raw", keyMaterial, "HKDF", false, [
+            "deriveKey",
+        ]);
+        const key = await subtle.deriveKey(
+            {
+                name: "HKDF",
+                hash: "SHA-256",
+                salt: new Uint8Array(0),
+                info: encodeUtf8("adb pairing_auth aes-128-gcm key"),
+            },
+            hkdf,
+            { name: "AES-GCM", length: 128 },
+            false,
+            ["encrypt", "decrypt"],
+        );
+        return new AdbPairingCipher(key);
+    }
+
+    readonly #key: CryptoKey;
+    #encryptSequence = 0;
+    #decryptSequence = 0;
+
+    constructor(key: CryptoKey) {
+        this.#key = key;
+    }
+
+    #createIv(sequence: number) {
+        // The sequence number is a 64-bit little-endian integer
+        // at the beginning of the 12-byte nonce
+        const iv = new Uint8Array(12);
+        setUint32LittleEndian(iv, 0, sequence);
+        return iv;
+    }
+
+    async encrypt(data: Uint8Array): Promise<Uint8Array> {
+        const iv = this.#createIv(this.#encryptSequence);
+        this.#encryptSequence += 1;
+        return new Uint8Array(
+            await getCrypto().subtle.encrypt(
+                { name: "AES-GCM", iv },
+                this.#key,
+                data,
+            ),
+        );
+    }
+
+    async decrypt(data: Uint8Array): Promise<Uint8Array> {
+        const iv = this.#createIv(this.#decryptSequence);
+        this.#decryptSequence += 1;
+        return new Uint8Array(
+            await getCrypto().subtle.decrypt(
+                { name: "AES-GCM", iv },
+                this.#key,
+                data,
+            ),
+        );
+    }
+}
+
+export async function adbReadPairingPacket(
+    stream: BufferedReadableStream,
+    type: AdbPairingPacketType,
+): Promise<Uint8Array> {
+    const header = await AdbPairingPacketHeader.deserialize(stream);
+    if (header.version !== ADB_PAIRING_VERSION) {
+        throw new AdbPairingError(
+            `Unsupported pairing version ${header.version}`,
+        );
+    }
+    if (header.type !== type) {
+        throw new AdbPairingError(
+            `Unexpected pairing packet type ${header.type}`,
+        );
+    }
+    if (
+        header.payloadLength === 0 ||
+        header.payloadLength > ADB_PAIRING_MAX_PAYLOAD_SIZE
+    ) {
+        throw new AdbPairingError(
+            `Invalid pairing packet size ${header.payloadLength}`,
+        );
+    }
+    return await stream.readExactly(header.payloadLength);
+}
+
+export function adbSerializePairingPacket(
+    type: AdbPairingPacketType,
+    payload: Uint8Array,
+): Uint8Array {
+    const header = AdbPairingPacketHeader.serialize({
+        version: ADB_PAIRING_VERSION,
+        type,
+        payloadLength: payload.length,
+    });
+    const result = new Uint8Array(header.length + payload.length);
+    result.set(header);
+    result.set(payload, header.length);
+    return result;
+}
+
+/**
+ * Pairs with an ADB daemon using Wireless Debugging pairing code (Android 11 and above),
+ * without Google ADB server.
+ *
+ * After pairing, the public key of `privateKey` is authorized by the device,
+ * and connections to its Wireless Debugging port can use the same key to start TLS.
+ *
+ * @param connection A TLS connection to the pairing port
+ * @param password The six-digit pairing code displayed on device
+ * @param privateKey The key to authorize
+ * @returns The GUID of the device, which is also the service name in mDNS.
+ */
+export async function adbPair(
+    connection: AdbPairingConnection,
+    password: string,
+    privateKey: AdbPrivateKey,
+): Promise<string> {
+    const keyMaterial = await connection.exportKeyingMaterial(
+        ADB_PAIRING_EXPORTED_KEY_SIZE,
+        ADB_PAIRING_EXPORTED_KEY_LABEL,
+    );
+    const passwordBuffer = encodeUtf8(password);
+    const combinedPassword = new Uint8Array(
+        passwordBuffer.length + keyMaterial.length,
+    );
+    combinedPassword.set(passwordBuffer);
+    combinedPassword.set(keyMaterial, passwordBuffer.length);
+
+    const stream = new BufferedReadableStream(connection.readable);
+    const writer = connection.writable.getWriter();
+    try {
+        const spake2 = new Spake2(
+            Spake2Role.Alice,
+            encodeUtf8(ADB_PAIRING_CLIENT_NAME),
+            encodeUtf8(ADB_PAIRING_SERVER_NAME),
+        );
+        await writer.write(
+            adbSerializePairingPacket(
+                AdbPairingPacketType.Spake2Message,
+                await spake2.generateMessage(combinedPassword),
+            ),
+        );
+
+        const theirMessage = await adbReadPairingPacket(
+            stream,
+            AdbPairingPacketType.Spake2Message,
+        );
+        const cipher = await AdbPairingCipher.create(
+            await spake2.processMessage(theirMessage),
+        );
+
+        const peerInfo = new Uint8Array(ADB_PAIRING_PEER_INFO_SIZE);
+        peerInfo[0] = AdbPeerInfoType.RsaPublicKey;
+        peerInfo.set(adbFormatPublicKey(privateKey), 1);
+        await writer.write(
+            adbSerializePairingPacket(
+                AdbPairingPacketType.PeerInfo,
+                await cipher.encrypt(peerInfo),
+            ),
+        );
+
+        let theirPeerInfo: Uint8Array;
+        try {
+            theirPeerInfo = await cipher.decrypt(
+                await adbReadPairingPacket(
+                    stream,
+                    AdbPairingPacketType.PeerInfo,
+                ),
+            );
+        } catch (e) {
+            if (e instanceof AdbPairingError) {
+                throw e;
+            }
+            // Different passwords result in different keys
+            throw new AdbPairingError(
+                "Wrong pairing code or connection closed",
+            );
+        }
+
+        if (theirPeerInfo[0] !== AdbPeerInfoType.DeviceGuid) {
+            throw new AdbPairingError(
+                `Unexpected peer info type ${theirPeerInfo[0]}`,
+            );
+        }
+
+        const data = theirPeerInfo.subarray(1);
+        const end = data.indexOf(0);
+        return decodeUtf8(end === -1 ? data : data.subarray(0, end));
+    } finally {
+        writer.releaseLock();
+        stream.release();
+    }
+}
@@ -0,0 +1,64 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import { Spake2, Spake2Error, Spake2Role } from "./spake2.js";
+
+async function exchange(alicePassword: string, bobPassword: string) {
+    const aliceName = encodeUtf8("alice");
+    const bobName = encodeUtf8("bob");
+    const alice = new Spake2(Spake2Role.Alice, aliceName, bobName);
+    const bob = new Spake2(Spake2Role.Bob, bobName, aliceName);
+
+    const aliceMessage = await alice.generateMessage(encodeUtf8(alicePassword));
+    const bobMessage = await bob.generateMessage(encodeUtf8(bobPassword));
+
+    return [
+        await alice.processMessage(bobMessage),
+        await bob.processMessage(aliceMessage),
+    ] as const;
+}
+
+describe("Spake2", () => {
+    it("should derive same key with same password", async () => {
+        const [aliceKey, bobKey] = await exchange("123456", "123456");
+        assert.strictEqual(aliceKey.length, 64);
+        assert.deepStrictEqual(aliceKey, bobKey);
+    });
+
+    it("should derive different keys with different passwords", async () => {
+        const [aliceKey, bobKey] = await exchange("123456", "654321");
+        assert.notDeepStrictEqual(aliceKey, bobKey);
+    });
+
+    it("should generate deterministic message from random input", async () => {
+        const random = new Uint8Array(64).fill(1);
+        const password = encodeUtf8("123456");
+        const first = await new Spake2(
+            Spake2Role.Alice,
+            encodeUtf8("alice"),
+            encodeUtf8("bob"),
+        ).generateMessage(password, random);
+        const second = await new Spake2(
+            Spake2Role.Alice,
+            encodeUtf8("alice"),
+            encodeUtf8("bob"),
+        ).generateMessage(password, random);
+        assert.strictEqual(first.length, 32);
+        assert.deepStrictEqual(first, second);
+    });
+
+    it("should reject invalid message", async () => {
+        const spake2 = new Spake2(
+            Spake2Role.Alice,
+            encodeUtf8("alice"),
+            encodeUtf8("bob"),
+        );
+        await spake2.generateMessage(encodeUtf8("123456"));
+        // y = 2 is not on the curve
+        const message = new Uint8Array(32);
+        message[0] = 2;
+        await assert.rejects(spake2.processMessage(message), Spake2Error);
+    });
+});
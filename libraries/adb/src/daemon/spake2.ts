@@ -0,0 +1,317 @@
+import { getBigUint, setBigUint } from "./crypto.js";
+import { getCrypto } from "./web-crypto.js";
+
+// SPAKE2 over Ed25519, compatible with BoringSSL's implementation,
+// which is used by Wireless Debugging pairing.
+// https://boringssl.googlesource.com/boringssl/+/refs/heads/master/crypto/curve25519/spake25519.c
+//
+// Uses `BigInt` so it's not constant-time,
+// but the pairing code is only valid for a single pairing attempt.
+
+const P = 2n ** 255n - 19n;
+// -121665 / 121666
+const D =
+    37095705934669439343138083508754565189542113879843219016388785533085940283555n;
+// sqrt(-1)
+const SQRT_M1 =
+    19681161376707505956807079304988542015446066515923890162744021073123829784752n;
+// The order of the prime-order subgroup
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+function mod(value: bigint): bigint {
+    const result = value % P;
+    return result >= 0n ? result : result + P;
+}
+
+function powMod(base: bigint, exponent: bigint): bigint {
+    let result = 1n;
+    base = mod(base);
+    while (exponent > 0n) {
+        if (exponent & 1n) {
+            result = (result * base) % P;
+        }
+        base = (base * base) % P;
+        exponent >>= 1n;
+    }
+    return result;
+}
+
+function invert(value: bigint): bigint {
+    return powMod(value, P - 2n);
+}
+
+/**
+ * A point in extended twisted Edwards coordinates (X : Y : Z : T).
+ */
+interface Point {
+    x: bigint;
+    y: bigint;
+    z: bigint;
+    t: bigint;
+}
+
+const IDENTITY: Point = { x: 0n, y: 1n, z: 1n, t: 0n };
+
+// https://www.hyperelliptic.org/EFD/g1p/auto-twisted-extended-1.html#addition-add-2008-hwcd-3
+// Works for all points, including doubling and points of small order.
+function add(a: Point, b: Point): Point {
+    const A = mod((a.y - a.x) * (b.y - b.x));
+    const B = mod((a.y + a.x) * (b.y + b.x));
+    const C = mod(a.t * 2n * D * b.t);
+    const D_ = mod(a.z * 2n * b.z);
+    const E = B - A;
+    const F = D_ - C;
+    const G = D_ + C;
+    const H = B + A;
+    return {
+        x: mod(E * F),
+        y: mod(G * H),
+        z: mod(F * G),
+        t: mod(E * H),
+    };
+}
+
+function negate(point: Point): Point {
+    return { x: mod(-point.x), y: point.y, z: point.z, t: mod(-point.t) };
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+    let result = IDENTITY;
+    while (scalar > 0n) {
+        if (scalar & 1n) {
+            result = add(result, point);
+        }
+        point = add(point, point);
+        scalar >>= 1n;
+    }
+    return result;
+}
+
+function encodePoint(point: Point): Uint8Array {
+    const zInv = invert(point.z);
+    const x = mod(point.x * zInv);
+    const y = mod(point.y * zInv);
+
+    const result = new Uint8Array(32);
+    setBigUint(result, 0, 32, y, true);
+    result[31]! |= Number(x & 1n) << 7;
+    return result;
+}
+
+function decodePoint(bytes: Uint8Array): Point | undefined {
+    if (bytes.length !== 32) {
+        return undefined;
+    }
+
+    const sign = bytes[31]! >> 7;
+    const y = mod(readLittleEndian(bytes) & ((1n << 255n) - 1n));
+
+    // x^2 = (y^2 - 1) / (d * y^2 + 1)
+    const y2 = mod(y * y);
+    const u = mod(y2 - 1n);
+    const v = mod(D * y2 + 1n);
+    const x2 = mod(u * invert(v));
+
+    let x = powMod(x2, (P + 3n) / 8n);
+    if (mod(x * x) !== x2) {
+        x = mod(x * SQRT_M1);
+    }
+    if (mod(x * x) !== x2) {
+        return undefined;
+    }
+    if (Number(x & 1n) !== sign) {
+        x = mod(-x);
+    }
+
+    return { x, y, z: 1n, t: mod(x * y) };
+}
+
+function readLittleEndian(bytes: Uint8Array): bigint {
+    // `getBigUint` only supports big-endian.
+    // Copy first, because `Buffer#slice` doesn't copy.
+    return getBigUint(new Uint8Array(bytes).reverse(), 0, bytes.length);
+}
+
+const BASE = /* #__PURE__ */ (() =>
+    decodePoint(
+        // y = 4/5
+        new Uint8Array([
+            0x58, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66,
+            0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66,
+            0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66, 0x66,
+        ]),
+    )!)();
+
+// M and N are generated by BoringSSL from these seeds:
+// `SHA256("edwards25519 point generation seed (M)")`
+// `SHA256("edwards25519 point generation seed (N)")`
+// (repeatedly hashed until it's a valid point encoding)
+const M = /* #__PURE__ */ (() =>
+    decodePoint(
+        new Uint8Array([
+            0x5a, 0xda, 0x7e, 0x4b, 0xf6, 0xdd, 0xd9, 0xad, 0xb6, 0x62, 0x6d,
+            0x32, 0x13, 0x1c, 0x6b, 0x5c, 0x51, 0xa1, 0xe3, 0x47, 0xa3, 0x47,
+            0x8f, 0x53, 0xcf, 0xcf, 0x44, 0x1b, 0x88, 0xee, 0xd1, 0x2e,
+        ]),
+    )!)();
+
+const N = /* #__PURE__ */ (() =>
+    decodePoint(
+        new Uint8Array([
+            0x10, 0xe3, 0xdf, 0x0a, 0xe3, 0x7d, 0x8e, 0x7a, 0x99, 0xb5, 0xfe,
+            0x74, 0xb4, 0x46, 0x72, 0x10, 0x3d, 0xbd, 0xdc, 0xbd, 0x06, 0xaf,
+            0x68, 0x0d, 0x71, 0x32, 0x9a, 0x11, 0x69, 0x3b, 0xc7, 0x78,
+        ]),
+    )!)();
+
+async function sha512(data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await getCrypto().subtle.digest("SHA-512", data));
+}
+
+function withLengthPrefix(data: Uint8Array): Uint8Array[] {
+    const length = new Uint8Array(8);
+    setBigUint(length, 0, 8, BigInt(data.length), true);
+    return [length, data];
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(
+        chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+export const Spake2Role = {
+    Alice: 0,
+    Bob: 1,
+} as const;
+
+export type Spake2Role = (typeof Spake2Role)[keyof typeof Spake2Role];
+
+export class Spake2Error extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/**
+ * A SPAKE2 context for one key exchange.
+ */
+export class Spake2 {
+    readonly #role: Spake2Role;
+    readonly #myName: Uint8Array;
+    readonly #theirName: Uint8Array;
+
+    #privateKey: bigint | undefined;
+    #passwordScalar = 0n;
+    #passwordHash: Uint8Array | undefined;
+    #myMessage: Uint8Array | undefined;
+
+    constructor(role: Spake2Role, myName: Uint8Array, theirName: Uint8Array) {
+        this.#role = role;
+        this.#myName = myName;
+        this.#theirName = theirName;
+    }
+
+    /**
+     * Generates the message to send to the other party.
+     *
+     * @param password The shared password
+     * @param random 64 bytes of random data. Only for testing.
+     */
+    async generateMessage(
+        password: Uint8Array,
+        random?: Uint8Array,
+    ): Promise<Uint8Array> {
+        if (this.#myMessage) {
+            throw new Spake2Error("Message has already been generated");
+        }
+
+        if (!random) {
+            random = new Uint8Array(64);
+            getCrypto().getRandomValues(random);
+        }
+
+        // Multiply by the cofactor (eight),
+        // so the small order components in peer's point will be cleared.
+        this.#privateKey = (readLittleEndian(random) % L) * 8n;
+        const publicKey = multiply(BASE, this.#privateKey);
+
+        this.#passwordHash = await sha512(password);
+
+        // BoringSSL adds multiples of L to make the scalar a multiple of eight,
+        // which doesn't change the result of multiplying a point in the prime-order subgroup,
+        // but M and N may not be in that subgroup, so it must be replicated exactly.
+        let passwordScalar = readLittleEndian(this.#passwordHash) % L;
+        if (passwordScalar & 1n) {
+            passwordScalar += L;
+        }
+        if (passwordScalar & 2n) {
+            passwordScalar += L * 2n;
+        }
+        if (passwordScalar & 4n) {
+            passwordScalar += L * 4n;
+        }
+        this.#passwordScalar = passwordScalar;
+
+        const mask = multiply(
+            this.#role === Spake2Role.Alice ? M : N,
+            passwordScalar,
+        );
+        this.#myMessage = encodePoint(add(publicKey, mask));
+        return this.#myMessage;
+    }
+
+    /**
+     * Processes the message from the other party and derives the shared key.
+     *
+     * If the passwords don't match, both parties will get different keys,
+     * which should be detected by later communication.
+     *
+     * @returns The 64-byte shared key
+     */
+    async processMessage(theirMessage: Uint8Array): Promise<Uint8Array> {
+        if (!this.#myMessage) {
+            throw new Spake2Error("Message has not been generated");
+        }
+
+        const theirPoint = decodePoint(theirMessage);
+        if (!theirPoint) {
+            throw new Spake2Error("Invalid message");
+        }
+
+        const theirMask = multiply(
+            this.#role === Spake2Role.Alice ? N : M,
+            this.#passwordScalar,
+        );
+        const shared = encodePoint(
+            multiply(add(theirPoint, negate(theirMask)), this.#privateKey!),
+        );
+
+        const [aliceName, bobName, aliceMessage, bobMessage] =
+            this.#role === Spake2Role.Alice
+                ? [this.#myName, this.#theirName, this.#myMessage, theirMessage]
+                : [
+                      this.#theirName,
+                      this.#myName,
+                      theirMessage,
+                      this.#myMessage,
+                  ];
+
+        return await sha512(
+            concat([
+                ...withLengthPrefix(aliceName),
+                ...withLengthPrefix(bobName),
+                ...withLengthPrefix(aliceMessage),
+                ...withLengthPrefix(bobMessage),
+                ...withLengthPrefix(shared),
+                ...withLengthPrefix(this.#passwordHash!),
+            ]),
+        );
+    }
+}
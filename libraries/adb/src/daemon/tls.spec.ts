@@ -0,0 +1,26 @@
+import * as assert from "node:assert";
+import { generateKeyPairSync, X509Certificate } from "node:crypto";
+import { describe, it } from "node:test";
+
+import { adbGenerateCertificate } from "./tls.js";
+
+describe("adbGenerateCertificate", () => {
+    it("should generate a valid self-signed certificate", () => {
+        const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+            publicExponent: 65537,
+        });
+
+        const certificate = new X509Certificate(
+            adbGenerateCertificate(
+                privateKey.export({ format: "der", type: "pkcs8" }),
+            ),
+        );
+
+        assert.strictEqual(certificate.subject, "C=US\nO=Android\nCN=Adb");
+        assert.strictEqual(certificate.issuer, certificate.subject);
+        assert.ok(certificate.publicKey.equals(publicKey));
+        assert.ok(certificate.verify(publicKey));
+        assert.ok(new Date(certificate.validTo) > new Date());
+    });
+});
@@ -0,0 +1,208 @@
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import { Sha256 } from "../utils/index.js";
+
+import type { AdbPrivateKey } from "./auth.js";
+import {
+    ASN1_BIT_STRING,
+    ASN1_INTEGER,
+    ASN1_NULL,
+    ASN1_OID,
+    ASN1_PRINTABLE_STRING,
+    ASN1_SEQUENCE,
+    ASN1_SET,
+    ASN1_UTC_TIME,
+    ASN1_UTF8_STRING,
+    SHA256_DIGEST_INFO,
+    rsaParsePrivateKey,
+    rsaSign,
+} from "./crypto.js";
+
+/**
+ * The private key and certificate to use as a TLS client.
+ */
+export interface AdbTlsCredential {
+    /**
+     * The private key in PKCS #8 format, DER encoded.
+     */
+    privateKey: Uint8Array;
+
+    /**
+     * A self-signed X.509 certificate of `privateKey`, DER encoded.
+     */
+    certificate: Uint8Array;
+}
+
+// References:
+//
+//   https://datatracker.ietf.org/doc/html/rfc5280#section-4.1
+//   Internet X.509 Public Key Infrastructure Certificate and CRL Profile
+//     4.1.  Basic Certificate Fields
+//
+//   https://android.googlesource.com/platform/packages/modules/adb/+/refs/heads/main/crypto/x509_generator.cpp
+//   How Google ADB generates its certificate
+
+function encodeLength(length: number): number[] {
+    if (length < 0x80) {
+        return [length];
+    }
+
+    const bytes: number[] = [];
+    while (length > 0) {
+        bytes.unshift(length & 0xff);
+        length >>>= 8;
+    }
+    return [0x80 | bytes.length, ...bytes];
+}
+
+function encode(tag: number, ...contents: Uint8Array[]): Uint8Array {
+    const length = contents.reduce((sum, item) => sum + item.length, 0);
+    const header = [tag, ...encodeLength(length)];
+
+    const result = new Uint8Array(header.length + length);
+    result.set(header);
+    let offset = header.length;
+    for (const item of contents) {
+        result.set(item, offset);
+        offset += item.length;
+    }
+    return result;
+}
+
+function encodeInteger(value: bigint): Uint8Array {
+    const bytes: number[] = [];
+    do {
+        bytes.unshift(Number(value & 0xffn));
+        value >>= 8n;
+    } while (value > 0n);
+
+    // Positive values can't have the sign bit set
+    if (bytes[0]! & 0x80) {
+        bytes.unshift(0);
+    }
+
+    return encode(ASN1_INTEGER, new Uint8Array(bytes));
+}
+
+function encodeOid(...components: number[]): Uint8Array {
+    const bytes = [components[0]! * 40 + components[1]!];
+    for (let component of components.slice(2)) {
+        const encoded = [component & 0x7f];
+        component >>>= 7;
+        while (component > 0) {
+            encoded.unshift(0x80 | (component & 0x7f));
+            component >>>= 7;
+        }
+        bytes.push(...encoded);
+    }
+    return encode(ASN1_OID, new Uint8Array(bytes));
+}
+
+function encodeBitString(value: Uint8Array): Uint8Array {
+    // The first byte is the number of unused bits in the last byte
+    return encode(ASN1_BIT_STRING, new Uint8Array([0]), value);
+}
+
+function encodeUtcTime(date: Date): Uint8Array {
+    const value =
+        date.toISOString().substring(2, 19).replace(/[-:T]/g, "") + "Z";
+    return encode(ASN1_UTC_TIME, encodeUtf8(value));
+}
+
+const NULL = /* #__PURE__ */ (() => encode(ASN1_NULL))();
+
+const RSA_ENCRYPTION = /* #__PURE__ */ (() =>
+    encode(ASN1_SEQUENCE, encodeOid(1, 2, 840, 113549, 1, 1, 1), NULL))();
+
+const SHA256_WITH_RSA_ENCRYPTION = /* #__PURE__ */ (() =>
+    encode(ASN1_SEQUENCE, encodeOid(1, 2, 840, 113549, 1, 1, 11), NULL))();
+
+function encodeName(
+    country: string,
+    organization: string,
+    commonName: string,
+): Uint8Array {
+    const attribute = (oid: Uint8Array, tag: number, value: string) =>
+        encode(
+            ASN1_SET,
+            encode(ASN1_SEQUENCE, oid, encode(tag, encodeUtf8(value))),
+        );
+
+    return encode(
+        ASN1_SEQUENCE,
+        attribute(encodeOid(2, 5, 4, 6), ASN1_PRINTABLE_STRING, country),
+        attribute(encodeOid(2, 5, 4, 10), ASN1_UTF8_STRING, organization),
+        attribute(encodeOid(2, 5, 4, 3), ASN1_UTF8_STRING, commonName),
+    );
+}
+
+/**
+ * Generates a self-signed X.509 certificate for `privateKey`, like Google ADB.
+ *
+ * ADB daemon uses the public key in the certificate to find the authorized key,
+ * so the certificate itself doesn't need to be persisted.
+ *
+ * @param privateKey The private key in PKCS #8 format
+ * @returns The certificate in DER format
+ */
+export function adbGenerateCertificate(privateKey: Uint8Array): Uint8Array {
+    const [n] = rsaParsePrivateKey(privateKey);
+
+    const publicKey = encode(
+        ASN1_SEQUENCE,
+        RSA_ENCRYPTION,
+        encodeBitString(
+            encode(ASN1_SEQUENCE, encodeInteger(n), encodeInteger(65537n)),
+        ),
+    );
+
+    const name = encodeName("US", "Android", "Adb");
+
+    const notBefore = new Date();
+    // Google ADB uses 10 years
+    const notAfter = new Date(notBefore);
+    notAfter.setUTCFullYear(notAfter.getUTCFullYear() + 10);
+
+    const tbsCertificate = encode(
+        ASN1_SEQUENCE,
+        // Version 3
+        encode(0xa0, encodeInteger(2n)),
+        // Serial number
+        encodeInteger(1n),
+        SHA256_WITH_RSA_ENCRYPTION,
+        // Issuer
+        name,
+        encode(
+            ASN1_SEQUENCE,
+            encodeUtcTime(notBefore),
+            encodeUtcTime(notAfter),
+        ),
+        // Subject
+        name,
+        publicKey,
+    );
+
+    const sha256 = new Sha256();
+    sha256.update(tbsCertificate);
+    const signature = rsaSign(privateKey, sha256.digest(), SHA256_DIGEST_INFO);
+
+    return encode(
+        ASN1_SEQUENCE,
+        tbsCertificate,
+        SHA256_WITH_RSA_ENCRYPTION,
+        encodeBitString(signature),
+    );
+}
+
+/**
+ * Creates an `AdbTlsCredential` for `privateKey`,
+ * to be used in Wireless Debugging pairing and connection.
+ */
+export function adbCreateTlsCredential(
+    privateKey: AdbPrivateKey,
+): AdbTlsCredential {
+    return {
+        privateKey: privateKey.buffer,
+        certificate: adbGenerateCertificate(privateKey.buffer),
+    };
+}
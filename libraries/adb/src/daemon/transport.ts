@@ -6,7 +6,7 @@ import {
     Consumable,
     WritableStream,
 } from "@yume-chan/stream-extra";
-import { decodeUtf8, encodeUtf8 } from "@yume-chan/struct";
+import { decodeUtf8, EmptyUint8Array, encodeUtf8 } from "@yume-chan/struct";
 
 import type {
     AdbIncomingSocketHandler,
@@ -20,10 +20,13 @@ import type { AdbAuthenticator, AdbCredentialStore } from "./auth.js";
 import {
     ADB_DEFAULT_AUTHENTICATORS,
     AdbAuthenticationProcessor,
+    adbGetPrivateKey,
 } from "./auth.js";
 import { AdbPacketDispatcher } from "./dispatcher.js";
 import type { AdbPacketData, AdbPacketInit } from "./packet.js";
 import { AdbCommand, calculateChecksum } from "./packet.js";
+import type { AdbTlsCredential } from "./tls.js";
+import { adbCreateTlsCredential } from "./tls.js";
 
 export const ADB_DAEMON_VERSION_OMIT_CHECKSUM = 0x01000001;
 // https://android.googlesource.com/platform/packages/modules/adb/+/79010dc6d5ca7490c493df800d4421730f5466ca/transport.cpp#1252
@@ -44,19 +47,38 @@ export const ADB_DAEMON_DEFAULT_FEATURES = /* #__PURE__ */ (() =>
         "remount_shell",
         "track_app",
         AdbFeature.SendReceiveV2,
-        "sendrecv_v2_brotli",
-        "sendrecv_v2_lz4",
-        "sendrecv_v2_zstd",
-        "sendrecv_v2_dry_run_send",
+        AdbFeature.SendReceiveV2Brotli,
+        AdbFeature.SendReceiveV2Lz4,
+        AdbFeature.SendReceiveV2Zstd,
+        AdbFeature.SendReceiveV2DryRunSend,
         AdbFeature.DelayedAck,
     ] as readonly AdbFeature[])();
 export const ADB_DAEMON_DEFAULT_INITIAL_PAYLOAD_SIZE = 32 * 1024 * 1024;
+export const ADB_DAEMON_STLS_VERSION = 0x01000000;
 
 export type AdbDaemonConnection = ReadableWritablePair<
     AdbPacketData,
     Consumable<AdbPacketInit>
 >;
 
+/**
+ * An `AdbDaemonConnection` that can be upgraded to TLS.
+ *
+ * Wireless Debugging in Android 11 and above requires the connection to be upgraded to TLS,
+ * after `AdbDaemonTransport.authenticate` receives an `STLS` packet.
+ */
+export interface AdbDaemonTlsConnection extends AdbDaemonConnection {
+    /**
+     * Starts TLS handshake as client, using `credential` as client certificate.
+     *
+     * The server certificate should not be verified, as ADB daemon uses a self-signed certificate.
+     *
+     * After the returned `Promise` resolves,
+     * `readable` and `writable` should send and receive packets over TLS.
+     */
+    startTls(credential: AdbTlsCredential): MaybePromiseLike<void>;
+}
+
 export interface AdbDaemonAuthenticationOptions {
     serial: string;
     connection: AdbDaemonConnection;
@@ -198,6 +220,29 @@ export class AdbDaemonTransport implements AdbTransport {
                                 await sendPacket(response);
                                 break;
                             }
+                            case AdbCommand.StartTls: {
+                                // Wireless Debugging requires TLS instead of `AUTH`.
+                                // The device authorizes the public key in client certificate.
+                                if (!("startTls" in connection)) {
+                                    throw new Error(
+                                        "The device requires TLS, but `connection` doesn't support it",
+                                    );
+                                }
+
+                                await sendPacket({
+                                    command: AdbCommand.StartTls,
+                                    arg0: ADB_DAEMON_STLS_VERSION,
+                                    arg1: 0,
+                                    payload: EmptyUint8Array,
+                                });
+
+                                const privateKey =
+                                    await adbGetPrivateKey(credentialStore);
+                                await (
+                                    connection as AdbDaemonTlsConnection
+                                ).startTls(adbCreateTlsCredential(privateKey));
+                                break;
+                            }
                             default:
                                 // Maybe the previous ADB client exited without reading all packets,
                                 // so they are still waiting in OS internal buffer.
@@ -0,0 +1,60 @@
+// This library can't use `@types/node` or `lib: dom`
+// because they will pollute the global scope.
+// So only declare the subset of Web Crypto API used by this library.
+
+export interface CryptoKey {
+    readonly type: string;
+}
+
+export interface SubtleCrypto {
+    digest(algorithm: "SHA-512", data: Uint8Array): Promise<ArrayBuffer>;
+
+    importKey(
+        format: "raw",
+        keyData: Uint8Array,
+        algorithm: "HKDF",
+        extractable: boolean,
+        keyUsages: string[],
+    ): Promise<CryptoKey>;
+
+    deriveKey(
+        algorithm: {
+            name: "HKDF";
+            hash: "SHA-256";
+            salt: Uint8Array;
+            info: Uint8Array;
+        },
+        baseKey: CryptoKey,
+        derivedKeyType: { name: "AES-GCM"; length: number },
+        extractable: boolean,
+        keyUsages: string[],
+    ): Promise<CryptoKey>;
+
+    encrypt(
+        algorithm: { name: "AES-GCM"; iv: Uint8Array },
+        key: CryptoKey,
+        data: Uint8Array,
+    ): Promise<ArrayBuffer>;
+
+    decrypt(
+        algorithm: { name: "AES-GCM"; iv: Uint8Array },
+        key: CryptoKey,
+        data: Uint8Array,
+    ): Promise<ArrayBuffer>;
+}
+
+export interface Crypto {
+    readonly subtle: SubtleCrypto;
+
+    getRandomValues<T extends Uint8Array>(array: T): T;
+}
+
+interface GlobalExtension {
+    crypto: Crypto;
+}
+
+// Web Crypto API is only available in secure contexts (HTTPS or localhost) in Web browsers,
+// so access it lazily
+export function getCrypto(): Crypto {
+    return (globalThis as unknown as GlobalExtension).crypto;
+}
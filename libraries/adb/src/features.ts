@@ -9,6 +9,10 @@ export const AdbFeature = {
     Abb: "abb",
     AbbExec: "abb_exec",
     SendReceiveV2: "sendrecv_v2",
+    SendReceiveV2Brotli: "sendrecv_v2_brotli",
+    SendReceiveV2Lz4: "sendrecv_v2_lz4",
+    SendReceiveV2Zstd: "sendrecv_v2_zstd",
+    SendReceiveV2DryRunSend: "sendrecv_v2_dry_run_send",
     DelayedAck: "delayed_ack",
 } as const;
 
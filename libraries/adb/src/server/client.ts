@@ -19,6 +19,7 @@ import type { AdbFeature } from "../features.js";
 import { hexToNumber } from "../utils/index.js";
 
 import {
+    ForwardCommands,
     MDnsCommands,
     WirelessCommands,
     AlreadyConnectedError as _AlreadyConnectedError,
@@ -120,6 +121,7 @@ export class AdbServerClient {
 
     readonly wireless = new WirelessCommands(this);
     readonly mDns = new MDnsCommands(this);
+    readonly forward = new ForwardCommands(this);
     readonly #observerOwner = new AdbServerDeviceObserverOwner(this);
 
     constructor(connector: AdbServerClient.ServerConnector) {
@@ -240,6 +242,27 @@ export class AdbServerClient {
         }
     }
 
+    /**
+     * `adb get-state`
+     *
+     * @param device The device selector
+     * @returns
+     * The connection state of the device,
+     * e.g. `device`, `offline`, `unauthorized`, `bootloader`, `recovery` or `sideload`.
+     */
+    async getDeviceState(
+        device: AdbServerClient.DeviceSelector,
+    ): Promise<string> {
+        const connection = await this.createConnection(
+            AdbServerClient.formatDeviceService(device, "get-state"),
+        );
+        try {
+            return await connection.readString();
+        } finally {
+            await connection.dispose();
+        }
+    }
+
     /**
      * Gets the features supported by the device.
      * The transport ID of the selected device is also returned,
@@ -0,0 +1,108 @@
+// cspell: ignore killforward
+// cspell: ignore norebind
+
+import type { AdbForwardListener } from "../../commands/index.js";
+import { AdbServerClient } from "../client.js";
+
+export class ForwardCommands {
+    readonly #client: AdbServerClient;
+
+    constructor(client: AdbServerClient) {
+        this.#client = client;
+    }
+
+    /**
+     * `adb forward --list`
+     *
+     * Lists forwarded sockets of all devices.
+     */
+    async list(): Promise<AdbForwardListener[]> {
+        const connection =
+            await this.#client.createConnection("host:list-forward");
+        try {
+            const response = await connection.readString();
+            return response
+                .split("\n")
+                .filter(Boolean)
+                .map((line) => {
+                    const [deviceSerial, localName, remoteName] = line.split(
+                        " ",
+                    ) as [string, string, string];
+                    return { deviceSerial, localName, remoteName };
+                });
+        } finally {
+            await connection.dispose();
+        }
+    }
+
+    /**
+     * `adb forward [--no-rebind] <local> <remote>`
+     *
+     * @param device The device selector
+     * @param localAddress The address on host to listen on, e.g. `tcp:1234` or `localabstract:name`
+     * @param remoteAddress The address on device to connect to
+     * @param rebind Whether to replace an existing forward on `localAddress`
+     * @returns
+     * `localAddress`, or the actually allocated address when `localAddress` is `tcp:0`.
+     */
+    async add(
+        device: AdbServerClient.DeviceSelector,
+        localAddress: string,
+        remoteAddress: string,
+        rebind = true,
+    ): Promise<string> {
+        const connection = await this.#client.createConnection(
+            AdbServerClient.formatDeviceService(
+                device,
+                `forward:${rebind ? "" : "norebind:"}${localAddress};${remoteAddress}`,
+            ),
+        );
+        try {
+            // The first `OKAY` (read by `createConnection`) is for selecting the device,
+            // the second one is for the result of the command.
+            await connection.readOkay();
+            if (localAddress === "tcp:0") {
+                return `tcp:${await connection.readString()}`;
+            }
+            return localAddress;
+        } finally {
+            await connection.dispose();
+        }
+    }
+
+    /**
+     * `adb forward --remove <local>`
+     */
+    async remove(
+        device: AdbServerClient.DeviceSelector,
+        localAddress: string,
+    ): Promise<void> {
+        const connection = await this.#client.createConnection(
+            AdbServerClient.formatDeviceService(
+                device,
+                `killforward:${localAddress}`,
+            ),
+        );
+        try {
+            await connection.readOkay();
+        } finally {
+            await connection.dispose();
+        }
+    }
+
+    /**
+     * `adb forward --remove-all`
+     *
+     * Removes forwarded sockets of all devices.
+     */
+    async removeAll(): Promise<void> {
+        const connection = await this.#client.createConnection(
+            "host:killforward-all",
+        );
+        try {
+            await connection.readOkay();
+        } finally {
+            await connection.dispose();
+        }
+    }
+}
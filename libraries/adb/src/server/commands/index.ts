@@ -1,2 +1,3 @@
+export * from "./forward.js";
 export * from "./m-dns.js";
 export * from "./wireless.js";
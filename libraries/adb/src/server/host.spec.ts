@@ -0,0 +1,234 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { PromiseResolver } from "@yume-chan/async";
+import type { ReadableStreamDefaultController } from "@yume-chan/stream-extra";
+import { MaybeConsumable, ReadableStream } from "@yume-chan/stream-extra";
+
+import type { AdbSocket, AdbTransport } from "../adb.js";
+import { AdbBanner } from "../banner.js";
+import type { AdbFeature } from "../features.js";
+
+import { AdbServerClient } from "./client.js";
+import { AdbServerHost } from "./host.js";
+
+/**
+ * Creates an in-memory pipe that, like a network socket,
+ * ignores writes after the other end stops reading.
+ */
+function createPipe() {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let ended = false;
+    const readable = new ReadableStream<Uint8Array>({
+        start(value) {
+            controller = value;
+        },
+        cancel() {
+            ended = true;
+        },
+    });
+    const writable = new MaybeConsumable.WritableStream<Uint8Array>({
+        write(chunk) {
+            if (!ended) {
+                controller.enqueue(chunk);
+            }
+        },
+        close() {
+            if (!ended) {
+                ended = true;
+                controller.close();
+            }
+        },
+    });
+    return { readable, writable };
+}
+
+function createClient(host: AdbServerHost) {
+    return new AdbServerClient({
+        connect() {
+            const toHost = createPipe();
+            const toClient = createPipe();
+            const closed = new PromiseResolver<undefined>();
+            const close = () => closed.resolve(undefined);
+
+            void host.handleConnection({
+                readable: toHost.readable,
+                writable: toClient.writable,
+                closed: closed.promise,
+                close,
+            });
+
+            return {
+                readable: toClient.readable,
+                writable: toHost.writable,
+                closed: closed.promise,
+                close,
+            };
+        },
+        addReverseTunnel() {
+            throw new Error("Not supported");
+        },
+        removeReverseTunnel() {},
+        clearReverseTunnels() {},
+    });
+}
+
+function createTransport(serial: string) {
+    const disconnected = new PromiseResolver<void>();
+    const transport = {
+        serial,
+        maxPayloadSize: 1024,
+        banner: new AdbBanner("sdk phone", "Pixel 7", "emu64", [
+            "shell_v2" as AdbFeature,
+        ]),
+        disconnected: disconnected.promise,
+        clientFeatures: [],
+        connect(service: string): AdbSocket {
+            if (service !== "echo:") {
+                throw new Error("closed");
+            }
+            const { readable, writable } = createPipe();
+            return {
+                service,
+                readable,
+                writable,
+                closed: new PromiseResolver<undefined>().promise,
+                close() {},
+            };
+        },
+        addReverseTunnel() {
+            throw new Error("Not supported");
+        },
+        removeReverseTunnel() {},
+        clearReverseTunnels() {},
+        close() {},
+    } satisfies AdbTransport;
+    return { transport, disconnect: () => disconnected.resolve() };
+}
+
+describe("AdbServerHost", () => {
+    it("should report version", async () => {
+        const client = createClient(new AdbServerHost());
+        assert.strictEqual(await client.getVersion(), AdbServerHost.Version);
+    });
+
+    it("should list devices", async () => {
+        const host = new AdbServerHost();
+        const id = host.addTransport(createTransport("1234").transport);
+        const client = createClient(host);
+
+        assert.deepStrictEqual(await client.getDevices(), [
+            {
+                serial: "1234",
+                state: "device",
+                authenticating: false,
+                product: "sdk_phone",
+                model: "Pixel_7",
+                device: "emu64",
+                transportId: id,
+            },
+        ]);
+    });
+
+    it("should remove disconnected devices", async () => {
+        const host = new AdbServerHost();
+        const { transport, disconnect } = createTransport("1234");
+        host.addTransport(transport);
+        const client = createClient(host);
+
+        const waiting = client.waitFor({ serial: "1234" }, "disconnect");
+        disconnect();
+        await waiting;
+
+        assert.deepStrictEqual(await client.getDevices(), []);
+    });
+
+    it("should select devices", async () => {
+        const host = new AdbServerHost();
+        host.addTransport(createTransport("1234").transport);
+        const id = host.addTransport(createTransport("host:5555").transport, {
+            usb: false,
+        });
+        const client = createClient(host);
+
+        assert.deepStrictEqual(
+            await client.getDeviceFeatures({ serial: "host:5555" }),
+            { transportId: id, features: ["shell_v2"] },
+        );
+        assert.strictEqual(
+            (await client.getDeviceFeatures({ tcp: true })).transportId,
+            id,
+        );
+        assert.strictEqual(
+            await client.getDeviceState({ serial: "host:5555" }),
+            "device",
+        );
+        await assert.rejects(client.getDeviceFeatures(undefined), {
+            message: "more than one device/emulator",
+        });
+        await assert.rejects(client.getDeviceState({ serial: "5678" }), {
+            message: "device '5678' not found",
+        });
+    });
+
+    it("should relay device services", async () => {
+        const host = new AdbServerHost();
+        host.addTransport(createTransport("1234").transport);
+        const client = createClient(host);
+
+        const socket = await client.createDeviceConnection(undefined, "echo:");
+        const writer = socket.writable.getWriter();
+        await writer.write(new Uint8Array([1, 2, 3]));
+        const reader = socket.readable.getReader();
+        assert.deepStrictEqual(
+            (await reader.read()).value,
+            new Uint8Array([1, 2, 3]),
+        );
+        await socket.close();
+
+        await assert.rejects(
+            client.createDeviceConnection(undefined, "unknown:"),
+            { message: "closed" },
+        );
+    });
+
+    it("should fail when forwarding is not supported", async () => {
+        const host = new AdbServerHost();
+        host.addTransport(createTransport("1234").transport);
+        const client = createClient(host);
+
+        await assert.rejects(
+            client.forward.add(undefined, "tcp:1234", "tcp:80"),
+            { message: "port forwarding is not supported" },
+        );
+        assert.deepStrictEqual(await client.forward.list(), []);
+    });
+
+    it("should forward with `forwardConnector`", async () => {
+        const host = new AdbServerHost({
+            forwardConnector: {
+                listen: (address) => ({
+                    address: address === "tcp:0" ? "tcp:10000" : address,
+                    close() {},
+                }),
+            },
+        });
+        host.addTransport(createTransport("1234").transport);
+        const client = createClient(host);
+
+        assert.strictEqual(
+            await client.forward.add(undefined, "tcp:0", "tcp:80"),
+            "tcp:10000",
+        );
+        assert.deepStrictEqual(await client.forward.list(), [
+            {
+                deviceSerial: "1234",
+                localName: "tcp:10000",
+                remoteName: "tcp:80",
+            },
+        ]);
+
+        await client.forward.remove(undefined, "tcp:10000");
+        assert.deepStrictEqual(await client.forward.list(), []);
+    });
+});
@@ -0,0 +1,652 @@
+// cspell:ignore tport
+// cspell:ignore killforward
+// cspell:ignore norebind
+// cspell:ignore devpath
+// cspell:ignore serialno
+
+import type { Event } from "@yume-chan/event";
+import { EventEmitter } from "@yume-chan/event";
+import { setUint64LittleEndian } from "@yume-chan/no-data-view";
+
+import type { AdbSocket, AdbTransport } from "../adb.js";
+import { Adb } from "../adb.js";
+import type { AdbForwardConnector } from "../commands/index.js";
+import { AdbForwardService } from "../commands/index.js";
+import { ADB_DAEMON_DEFAULT_FEATURES } from "../daemon/index.js";
+
+import type { AdbServerClient } from "./client.js";
+import { AdbServerStream } from "./stream.js";
+
+export interface AdbServerHostOptions {
+    /**
+     * Used to listen on local addresses for `adb forward`.
+     *
+     * If not provided, `adb forward` requests will fail.
+     */
+    forwardConnector?: AdbForwardConnector | undefined;
+}
+
+export interface AdbServerHostTransportOptions {
+    /**
+     * Whether the transport is connected via USB.
+     *
+     * It decides whether the device can be selected by `adb -d` (USB) or `adb -e` (TCP).
+     *
+     * @default true
+     */
+    usb?: boolean | undefined;
+}
+
+interface HostTransport {
+    id: bigint;
+    transport: AdbTransport;
+    usb: boolean;
+    forward: AdbForwardService | undefined;
+}
+
+interface HostConnection {
+    stream: AdbServerStream;
+    closed: Promise<undefined>;
+    /**
+     * The transport selected by a previous `host:transport` request.
+     */
+    selected: HostTransport | undefined;
+}
+
+/**
+ * Replaces characters like Google ADB server does,
+ * so the values don't break the space-separated device list.
+ */
+function sanitize(value: string, alphanumeric: boolean) {
+    return value.replace(alphanumeric ? /[^a-zA-Z0-9]/g : / /g, "_");
+}
+
+function formatDevice({ id, transport }: HostTransport, long: boolean) {
+    const { serial, banner } = transport;
+    if (!long) {
+        return `${serial}\tdevice\n`;
+    }
+
+    let result = `${serial.padEnd(22)} device`;
+    if (banner.product) {
+        result += ` product:${sanitize(banner.product, false)}`;
+    }
+    if (banner.model) {
+        result += ` model:${sanitize(banner.model, true)}`;
+    }
+    if (banner.device) {
+        result += ` device:${sanitize(banner.device, false)}`;
+    }
+    result += ` transport_id:${id}\n`;
+    return result;
+}
+
+/**
+ * Implements the ADB server protocol (also known as the smart socket protocol) on top of `AdbTransport`s,
+ * so other ADB clients (Google ADB, Android Studio, or `AdbServerClient`) can share the devices.
+ *
+ * It only handles incoming connections, listening on a port is platform-specific.
+ * For example, `@yume-chan/adb-server-node-tcp` can listen on TCP port 5037 in Node.js.
+ *
+ * Reverse tunnels (`adb reverse`) are not supported.
+ */
+export class AdbServerHost {
+    /**
+     * The ADB server protocol version.
+     *
+     * Google ADB clients will try to restart the server if this doesn't match their own version.
+     */
+    static readonly Version = 41;
+
+    readonly #options: AdbServerHostOptions;
+
+    readonly #transports = new Map<bigint, HostTransport>();
+    #nextTransportId = 1n;
+
+    readonly #onDeviceListChange = new EventEmitter<void>();
+
+    readonly #onKill = new EventEmitter<void>();
+    /**
+     * Fires when a client sends `adb kill-server`.
+     */
+    get onKill(): Event<void> {
+        return this.#onKill.event;
+    }
+
+    constructor(options: AdbServerHostOptions = {}) {
+        this.#options = options;
+    }
+
+    /**
+     * Makes a transport available to clients.
+     *
+     * It will be removed automatically when it disconnects.
+     *
+     * @returns The transport ID assigned to the transport
+     */
+    addTransport(
+        transport: AdbTransport,
+        options?: AdbServerHostTransportOptions,
+    ): bigint {
+        const id = this.#nextTransportId;
+        this.#nextTransportId += 1n;
+
+        this.#transports.set(id, {
+            id,
+            transport,
+            usb: options?.usb ?? true,
+            forward: undefined,
+        });
+        this.#onDeviceListChange.fire();
+
+        void transport.disconnected.then(() => this.removeTransport(id));
+
+        return id;
+    }
+
+    /**
+     * Removes a transport from the device list, and stops its port forwarding.
+     *
+     * The transport itself is not closed.
+     */
+    removeTransport(transportId: bigint): void {
+        const transport = this.#transports.get(transportId);
+        if (!transport) {
+            return;
+        }
+
+        this.#transports.delete(transportId);
+        transport.forward?.dispose();
+        this.#onDeviceListChange.fire();
+    }
+
+    #filter(device: AdbServerClient.DeviceSelector): HostTransport[] {
+        const transports = Array.from(this.#transports.values());
+        if (!device) {
+            return transports;
+        }
+        if ("transportId" in device) {
+            return transports.filter(({ id }) => id === device.transportId);
+        }
+        if ("serial" in device) {
+            return transports.filter(
+                ({ transport }) => transport.serial === device.serial,
+            );
+        }
+        if ("usb" in device) {
+            return transports.filter(({ usb }) => usb);
+        }
+        return transports.filter(({ usb }) => !usb);
+    }
+
+    #select(device: AdbServerClient.DeviceSelector): HostTransport {
+        const transports = this.#filter(device);
+        if (transports.length === 1) {
+            return transports[0]!;
+        }
+
+        if (device && "transportId" in device) {
+            throw new Error(
+                `no device with transport id '${device.transportId}'`,
+            );
+        }
+        if (device && "serial" in device) {
+            throw new Error(`device '${device.serial}' not found`);
+        }
+
+        const [singular, plural] =
+            device && "usb" in device
+                ? ["device", "devices"]
+                : device && "tcp" in device
+                  ? ["emulator", "emulators"]
+                  : ["device/emulator", "devices/emulators"];
+        if (transports.length === 0) {
+            throw new Error(`no ${plural} found`);
+        }
+        throw new Error(`more than one ${singular}`);
+    }
+
+    /**
+     * Splits `host-serial:<serial>:<command>`.
+     *
+     * Serials of TCP devices contain `:`, so match known serials first.
+     */
+    #splitSerial(value: string): [serial: string, command: string] {
+        for (const { transport } of this.#transports.values()) {
+            if (value.startsWith(transport.serial + ":")) {
+                return [
+                    transport.serial,
+                    value.substring(transport.serial.length + 1),
+                ];
+            }
+        }
+
+        // `<host>:<port>:<command>`
+        const match = value.match(/^([^:]+:\d+):(.*)$/);
+        if (match) {
+            return [match[1]!, match[2]!];
+        }
+
+        const index = value.indexOf(":");
+        return [value.substring(0, index), value.substring(index + 1)];
+    }
+
+    #parseRequest(
+        request: string,
+    ): [device: AdbServerClient.DeviceSelector, command: string] {
+        if (request.startsWith("host:")) {
+            return [undefined, request.substring(5)];
+        }
+        if (request.startsWith("host-serial:")) {
+            const [serial, command] = this.#splitSerial(request.substring(12));
+            return [{ serial }, command];
+        }
+        if (request.startsWith("host-transport-id:")) {
+            const rest = request.substring(18);
+            const index = rest.indexOf(":");
+            return [
+                { transportId: BigInt(rest.substring(0, index)) },
+                rest.substring(index + 1),
+            ];
+        }
+        if (request.startsWith("host-usb:")) {
+            return [{ usb: true }, request.substring(9)];
+        }
+        if (request.startsWith("host-local:")) {
+            return [{ tcp: true }, request.substring(11)];
+        }
+        throw new Error("unknown host service");
+    }
+
+    #formatDeviceList(long: boolean) {
+        let result = "";
+        for (const transport of this.#transports.values()) {
+            result += formatDevice(transport, long);
+        }
+        return result;
+    }
+
+    async #trackDevices(connection: HostConnection, long: boolean) {
+        const { stream } = connection;
+        await stream.writeOkay();
+
+        let last: string | undefined;
+        let pending = Promise.resolve();
+        const send = () => {
+            pending = pending
+                .then(async () => {
+                    const list = this.#formatDeviceList(long);
+                    if (list !== last) {
+                        last = list;
+                        await stream.writeString(list);
+                    }
+                })
+                // The connection might be closed by client
+                .catch(() => {});
+        };
+
+        send();
+        const removeListener = this.#onDeviceListChange.event(send);
+        try {
+            await connection.closed;
+        } finally {
+            removeListener();
+        }
+    }
+
+    async #waitFor(
+        connection: HostConnection,
+        device: AdbServerClient.DeviceSelector,
+        command: string,
+    ) {
+        // `wait-for-<transport>-<state>`
+        const [, type, state] = command.match(/^wait-for-(\w+)-(\w+)$/) ?? [];
+        if (!device) {
+            if (type === "usb") {
+                device = { usb: true };
+            } else if (type === "local") {
+                device = { tcp: true };
+            }
+        }
+
+        let check: () => boolean;
+        switch (state) {
+            case "device":
+            case "any":
+                check = () => this.#filter(device).length !== 0;
+                break;
+            case "disconnect":
+                check = () => this.#filter(device).length === 0;
+                break;
+            default:
+                throw new Error(`unsupported state '${state}'`);
+        }
+
+        await connection.stream.writeOkay();
+
+        if (!check()) {
+            let removeListener!: () => void;
+            const satisfied = new Promise<void>((resolve) => {
+                removeListener = this.#onDeviceListChange.event(() => {
+                    if (check()) {
+                        resolve();
+                    }
+                });
+            });
+            try {
+                await Promise.race([connection.closed, satisfied]);
+            } finally {
+                removeListener();
+            }
+        }
+
+        await connection.stream.writeOkay();
+    }
+
+    /**
+     * @returns The local address and the actually listening address
+     */
+    async #forward(
+        transport: HostTransport,
+        command: string,
+    ): Promise<[local: string, address: string]> {
+        const connector = this.#options.forwardConnector;
+        if (!connector) {
+            throw new Error("port forwarding is not supported");
+        }
+
+        let rebind = true;
+        if (command.startsWith("norebind:")) {
+            rebind = false;
+            command = command.substring(9);
+        }
+
+        const index = command.indexOf(";");
+        if (index === -1) {
+            throw new Error(`malformed forward spec '${command}'`);
+        }
+        const local = command.substring(0, index);
+        const remote = command.substring(index + 1);
+
+        // Each local address can only be forwarded to one device
+        for (const other of this.#transports.values()) {
+            if (
+                other === transport ||
+                !other.forward
+                    ?.list()
+                    .some((listener) => listener.localName === local)
+            ) {
+                continue;
+            }
+
+            if (!rebind) {
+                throw new Error(`cannot rebind existing socket`);
+            }
+            await other.forward.remove(local);
+        }
+
+        transport.forward ??= new AdbForwardService(
+            new Adb(transport.transport),
+            connector,
+        );
+        return [local, await transport.forward.add(local, remote, rebind)];
+    }
+
+    #listForward() {
+        let result = "";
+        for (const { forward } of this.#transports.values()) {
+            for (const listener of forward?.list() ?? []) {
+                result += `${listener.deviceSerial} ${listener.localName} ${listener.remoteName}\n`;
+            }
+        }
+        return result;
+    }
+
+    async #killForward(transport: HostTransport, local: string) {
+        if (!transport.forward) {
+            throw new Error(`listener '${local}' not found`);
+        }
+        await transport.forward.remove(local);
+    }
+
+    async #killForwardAll() {
+        for (const { forward } of this.#transports.values()) {
+            await forward?.removeAll();
+        }
+    }
+
+    async #relay(
+        stream: AdbServerStream,
+        { transport }: HostTransport,
+        service: string,
+    ) {
+        let socket: AdbSocket;
+        try {
+            socket = await transport.connect(service);
+        } catch (e) {
+            await stream.writeFail((e as Error).message);
+            return;
+        }
+
+        await stream.writeOkay();
+
+        const connection = stream.release();
+        await Promise.all([
+            connection.readable.pipeTo(socket.writable).catch(() => {}),
+            socket.readable.pipeTo(connection.writable).catch(() => {}),
+        ]);
+        await socket.close();
+    }
+
+    /**
+     * Handles `host:transport*` and `host:tport:*` requests.
+     *
+     * @returns `true` if `command` is a transport switching request
+     */
+    async #switchTransport(connection: HostConnection, command: string) {
+        let device: AdbServerClient.DeviceSelector;
+        let tport = false;
+        if (command.startsWith("transport:")) {
+            device = { serial: command.substring(10) };
+        } else if (command.startsWith("transport-id:")) {
+            device = { transportId: BigInt(command.substring(13)) };
+        } else if (command.startsWith("tport:serial:")) {
+            device = { serial: command.substring(13) };
+            tport = true;
+        } else {
+            switch (command) {
+                case "transport-any":
+                    device = undefined;
+                    break;
+                case "transport-usb":
+                    device = { usb: true };
+                    break;
+                case "transport-local":
+                    device = { tcp: true };
+                    break;
+                case "tport:any":
+                    device = undefined;
+                    tport = true;
+                    break;
+                case "tport:usb":
+                    device = { usb: true };
+                    tport = true;
+                    break;
+                case "tport:local":
+                    device = { tcp: true };
+                    tport = true;
+                    break;
+                default:
+                    return false;
+            }
+        }
+
+        connection.selected = this.#select(device);
+
+        await connection.stream.writeOkay();
+        if (tport) {
+            const id = new Uint8Array(8);
+            setUint64LittleEndian(id, 0, connection.selected.id);
+            await connection.stream.write(id);
+        }
+        return true;
+    }
+
+    /**
+     * @returns `true` if the connection should wait for the next request
+     */
+    async #handleRequest(
+        connection: HostConnection,
+        request: string,
+    ): Promise<boolean> {
+        const { stream } = connection;
+
+        if (!request.startsWith("host")) {
+            await this.#relay(
+                stream,
+                connection.selected ?? this.#select(undefined),
+                request,
+            );
+            return false;
+        }
+
+        const [device, command] = this.#parseRequest(request);
+        // Device-specific commands use the previously selected transport if any
+        const getTransport = () =>
+            (!device && connection.selected) || this.#select(device);
+
+        if (!device && (await this.#switchTransport(connection, command))) {
+            return true;
+        }
+
+        switch (command) {
+            case "version":
+                await stream.writeOkay();
+                await stream.writeString(
+                    AdbServerHost.Version.toString(16).padStart(4, "0"),
+                );
+                break;
+            case "kill":
+                await stream.writeOkay();
+                this.#onKill.fire();
+                break;
+            case "devices":
+            case "devices-l":
+                await stream.writeOkay();
+                await stream.writeString(
+                    this.#formatDeviceList(command === "devices-l"),
+                );
+                break;
+            case "track-devices":
+            case "track-devices-l":
+                await this.#trackDevices(
+                    connection,
+                    command === "track-devices-l",
+                );
+                break;
+            case "host-features":
+                await stream.writeOkay();
+                await stream.writeString(ADB_DAEMON_DEFAULT_FEATURES.join(","));
+                break;
+            case "features": {
+                const { transport } = getTransport();
+                await stream.writeOkay();
+                await stream.writeString(transport.banner.features.join(","));
+                break;
+            }
+            case "get-state":
+                getTransport();
+                await stream.writeOkay();
+                await stream.writeString("device");
+                break;
+            case "get-serialno": {
+                const { transport } = getTransport();
+                await stream.writeOkay();
+                await stream.writeString(transport.serial);
+                break;
+            }
+            case "get-devpath":
+                getTransport();
+                await stream.writeOkay();
+                await stream.writeString("unknown");
+                break;
+            case "list-forward":
+                await stream.writeOkay();
+                await stream.writeString(this.#listForward());
+                break;
+            case "killforward-all":
+                await this.#killForwardAll();
+                // The first `OKAY` is for selecting the device,
+                // the second one is for the result of the command.
+                await stream.writeOkay();
+                await stream.writeOkay();
+                break;
+            default:
+                if (command.startsWith("wait-for-")) {
+                    await this.#waitFor(connection, device, command);
+                } else if (command.startsWith("forward:")) {
+                    const [local, address] = await this.#forward(
+                        getTransport(),
+                        command.substring(8),
+                    );
+                    await stream.writeOkay();
+                    await stream.writeOkay();
+                    // Send back the allocated port
+                    if (local === "tcp:0") {
+                        await stream.writeString(
+                            address.substring("tcp:".length),
+                        );
+                    }
+                } else if (command.startsWith("killforward:")) {
+                    await this.#killForward(
+                        getTransport(),
+                        command.substring(12),
+                    );
+                    await stream.writeOkay();
+                    await stream.writeOkay();
+                } else {
+                    throw new Error("unknown host service");
+                }
+                break;
+        }
+
+        return false;
+    }
+
+    /**
+     * Handles a connection from an ADB client.
+     *
+     * The returned `Promise` resolves when the connection is closed.
+     */
+    async handleConnection(
+        connection: AdbServerClient.ServerConnection,
+    ): Promise<void> {
+        const context: HostConnection = {
+            stream: new AdbServerStream(connection),
+            closed: connection.closed,
+            selected: undefined,
+        };
+
+        try {
+            while (true) {
+                const request = await context.stream.readString();
+
+                let next: boolean;
+                try {
+                    next = await this.#handleRequest(context, request);
+                } catch (e) {
+                    await context.stream.writeFail((e as Error).message);
+                    break;
+                }
+
+                if (!next) {
+                    break;
+                }
+            }
+        } catch {
+            // Connection closed by client
+        } finally {
+            await context.stream.dispose();
+        }
+    }
+}
@@ -1,4 +1,5 @@
 export * from "./client.js";
+export * from "./host.js";
 export * from "./observer.js";
 export * from "./stream.js";
 export * from "./transport.js";
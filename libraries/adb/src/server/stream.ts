@@ -72,6 +72,19 @@ export class AdbServerStream {
         throw new Error(`Unexpected response: ${decodeUtf8(response)}`);
     }
 
+    async write(data: Uint8Array): Promise<void> {
+        await this.#writer.write(data);
+    }
+
+    async writeOkay(): Promise<void> {
+        await this.#writer.write(OKAY);
+    }
+
+    async writeFail(reason: string): Promise<void> {
+        await this.#writer.write(FAIL);
+        await this.writeString(reason);
+    }
+
     async writeString(value: string): Promise<void> {
         // TODO: investigate using `encodeUtf8("0000" + value)` then modifying the length
         // That way allocates a new string (hopefully only a rope) instead of a new buffer
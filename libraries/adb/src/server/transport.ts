@@ -26,10 +26,10 @@ export const ADB_SERVER_DEFAULT_FEATURES = /* #__PURE__ */ (() =>
         "remount_shell",
         "track_app",
         AdbFeature.SendReceiveV2,
-        "sendrecv_v2_brotli",
-        "sendrecv_v2_lz4",
-        "sendrecv_v2_zstd",
-        "sendrecv_v2_dry_run_send",
+        AdbFeature.SendReceiveV2Brotli,
+        AdbFeature.SendReceiveV2Lz4,
+        AdbFeature.SendReceiveV2Zstd,
+        AdbFeature.SendReceiveV2DryRunSend,
     ] as readonly AdbFeature[])();
 
 export class AdbServerTransport implements AdbTransport {
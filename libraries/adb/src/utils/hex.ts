@@ -58,3 +58,14 @@ export function write4HexDigits(
         index -= 1;
     }
 }
+
+/**
+ * Encodes `data` as a lowercase hex string.
+ */
+export function encodeHexString(data: Uint8Array): string {
+    let result = "";
+    for (const byte of data) {
+        result += byte.toString(16).padStart(2, "0");
+    }
+    return result;
+}
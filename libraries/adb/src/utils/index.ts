@@ -5,3 +5,4 @@ export * from "./hex.js";
 export * from "./no-op.js";
 export * from "./ref.js";
 export * from "./sequence-equal.js";
+export * from "./sha256.js";
@@ -0,0 +1,64 @@
+import * as assert from "node:assert";
+import { createHash } from "node:crypto";
+import { describe, it } from "node:test";
+
+import { encodeHexString } from "./hex.js";
+import { Sha256 } from "./sha256.js";
+
+function nodeSha256(data: Uint8Array) {
+    return createHash("sha256").update(data).digest("hex");
+}
+
+describe("Sha256", () => {
+    it("should hash empty input", () => {
+        assert.strictEqual(
+            encodeHexString(new Sha256().digest()),
+            "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+        );
+    });
+
+    it("should hash `abc`", () => {
+        const hash = new Sha256();
+        hash.update(new TextEncoder().encode("abc"));
+        assert.strictEqual(
+            encodeHexString(hash.digest()),
+            "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+        );
+    });
+
+    it("should match Node.js for all padding lengths", () => {
+        for (let length = 0; length < 200; length += 1) {
+            const data = new Uint8Array(length);
+            for (let i = 0; i < length; i += 1) {
+                data[i] = (i * 31 + length) & 0xff;
+            }
+
+            const hash = new Sha256();
+            hash.update(data);
+            assert.strictEqual(
+                encodeHexString(hash.digest()),
+                nodeSha256(data),
+                `length ${length}`,
+            );
+        }
+    });
+
+    it("should produce the same result with chunked input", () => {
+        const data = new Uint8Array(1000);
+        for (let i = 0; i < data.length; i += 1) {
+            data[i] = i & 0xff;
+        }
+
+        for (const chunkSize of [1, 7, 63, 64, 65, 333]) {
+            const hash = new Sha256();
+            for (let i = 0; i < data.length; i += chunkSize) {
+                hash.update(data.subarray(i, i + chunkSize));
+            }
+            assert.strictEqual(
+                encodeHexString(hash.digest()),
+                nodeSha256(data),
+                `chunk size ${chunkSize}`,
+            );
+        }
+    });
+});
@@ -0,0 +1,161 @@
+import {
+    getUint32BigEndian,
+    setUint32BigEndian,
+} from "@yume-chan/no-data-view";
+
+const K = /* #__PURE__ */ new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+    0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+    0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+    0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+    0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+    0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+    0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+    0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+    0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BLOCK_SIZE = 64;
+
+function rotr(value: number, count: number) {
+    return (value >>> count) | (value << (32 - count));
+}
+
+/**
+ * An incremental SHA-256 implementation.
+ *
+ * Web Crypto API can only hash a complete buffer,
+ * but file transfers need to hash data as it streams.
+ */
+export class Sha256 {
+    readonly #state = new Uint32Array([
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+        0x1f83d9ab, 0x5be0cd19,
+    ]);
+    readonly #w = new Uint32Array(64);
+    readonly #buffer = new Uint8Array(BLOCK_SIZE);
+    #bufferLength = 0;
+    #length = 0;
+    #finished = false;
+
+    #processBlock(data: Uint8Array, offset: number) {
+        const w = this.#w;
+        for (let i = 0; i < 16; i += 1) {
+            w[i] = getUint32BigEndian(data, offset + i * 4);
+        }
+        for (let i = 16; i < 64; i += 1) {
+            const w15 = w[i - 15]!;
+            const w2 = w[i - 2]!;
+            const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+            const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+            w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+        }
+
+        const state = this.#state;
+        let a = state[0]!;
+        let b = state[1]!;
+        let c = state[2]!;
+        let d = state[3]!;
+        let e = state[4]!;
+        let f = state[5]!;
+        let g = state[6]!;
+        let h = state[7]!;
+
+        for (let i = 0; i < 64; i += 1) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + K[i]! + w[i]!) | 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) | 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+
+        // `Uint32Array` wraps the values automatically
+        state[0] = state[0]! + a;
+        state[1] = state[1]! + b;
+        state[2] = state[2]! + c;
+        state[3] = state[3]! + d;
+        state[4] = state[4]! + e;
+        state[5] = state[5]! + f;
+        state[6] = state[6]! + g;
+        state[7] = state[7]! + h;
+    }
+
+    update(data: Uint8Array): void {
+        if (this.#finished) {
+            throw new Error("Can't update a finished hash");
+        }
+
+        this.#length += data.length;
+
+        let offset = 0;
+        if (this.#bufferLength !== 0) {
+            const length = Math.min(
+                BLOCK_SIZE - this.#bufferLength,
+                data.length,
+            );
+            this.#buffer.set(data.subarray(0, length), this.#bufferLength);
+            this.#bufferLength += length;
+            offset = length;
+
+            if (this.#bufferLength < BLOCK_SIZE) {
+                return;
+            }
+
+            this.#processBlock(this.#buffer, 0);
+            this.#bufferLength = 0;
+        }
+
+        while (data.length - offset >= BLOCK_SIZE) {
+            this.#processBlock(data, offset);
+            offset += BLOCK_SIZE;
+        }
+
+        if (offset < data.length) {
+            this.#buffer.set(data.subarray(offset), 0);
+            this.#bufferLength = data.length - offset;
+        }
+    }
+
+    digest(): Uint8Array {
+        if (!this.#finished) {
+            this.#finished = true;
+
+            const buffer = this.#buffer;
+            buffer[this.#bufferLength] = 0x80;
+            buffer.fill(0, this.#bufferLength + 1);
+            if (this.#bufferLength + 1 > BLOCK_SIZE - 8) {
+                this.#processBlock(buffer, 0);
+                buffer.fill(0);
+            }
+
+            // Length in bits, as a 64-bit big-endian integer.
+            // `Number` can safely represent up to 2^53 bits (1 PiB)
+            const bits = this.#length * 8;
+            setUint32BigEndian(
+                buffer,
+                BLOCK_SIZE - 8,
+                Math.floor(bits / 0x1_0000_0000),
+            );
+            setUint32BigEndian(buffer, BLOCK_SIZE - 4, bits >>> 0);
+            this.#processBlock(buffer, 0);
+        }
+
+        const result = new Uint8Array(32);
+        for (let i = 0; i < 8; i += 1) {
+            setUint32BigEndian(result, i * 4, this.#state[i]!);
+        }
+        return result;
+    }
+}
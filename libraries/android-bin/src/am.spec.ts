@@ -0,0 +1,254 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type { Adb } from "@yume-chan/adb";
+import { ReadableStream } from "@yume-chan/stream-extra";
+
+import type { ActivityManagerInstrumentationEvent } from "./am.js";
+import {
+    ActivityManager,
+    ActivityManagerInstrumentationParser,
+    ActivityManagerInstrumentationStatusCode,
+} from "./am.js";
+
+function parseInstrumentation(output: string) {
+    const parser = new ActivityManagerInstrumentationParser();
+    const events: ActivityManagerInstrumentationEvent[] = [];
+    for (const line of output.split("\n")) {
+        const event = parser.parseLine(line);
+        if (event) {
+            events.push(event);
+        }
+    }
+    return events;
+}
+
+describe("ActivityManager", () => {
+    describe("parseBroadcastResult", () => {
+        it("should parse result code", () => {
+            assert.deepStrictEqual(
+                ActivityManager.parseBroadcastResult(
+                    "Broadcasting: Intent { act=android.intent.action.TEST flg=0x400000 }\nBroadcast completed: result=0",
+                ),
+                { code: 0, data: undefined, extras: undefined },
+            );
+        });
+
+        it("should parse data and extras", () => {
+            assert.deepStrictEqual(
+                ActivityManager.parseBroadcastResult(
+                    'Broadcast completed: result=-1, data="hello", extras: Bundle[{key=value}]',
+                ),
+                { code: -1, data: "hello", extras: "Bundle[{key=value}]" },
+            );
+        });
+
+        it("should throw on unexpected output", () => {
+            assert.throws(() =>
+                ActivityManager.parseBroadcastResult("Error: bad intent"),
+            );
+        });
+    });
+
+    describe("ActivityManagerInstrumentationParser", () => {
+        it("should parse statuses and result", () => {
+            const events = parseInstrumentation(
+                [
+                    "INSTRUMENTATION_STATUS: class=com.example.FooTest",
+                    "INSTRUMENTATION_STATUS: current=1",
+                    "INSTRUMENTATION_STATUS: numtests=2",
+                    "INSTRUMENTATION_STATUS: test=testPass",
+                    "INSTRUMENTATION_STATUS_CODE: 1",
+                    "INSTRUMENTATION_STATUS: class=com.example.FooTest",
+                    "INSTRUMENTATION_STATUS: test=testPass",
+                    "INSTRUMENTATION_STATUS_CODE: 0",
+                    "INSTRUMENTATION_STATUS: class=com.example.FooTest",
+                    "INSTRUMENTATION_STATUS: stack=java.lang.AssertionError: failed",
+                    "\tat com.example.FooTest.testFail(FooTest.java:12)",
+                    "",
+                    "INSTRUMENTATION_STATUS: test=testFail",
+                    "INSTRUMENTATION_STATUS_CODE: -2",
+                    "INSTRUMENTATION_RESULT: stream=",
+                    "Time: 0.1",
+                    "INSTRUMENTATION_CODE: -1",
+                ].join("\n"),
+            );
+
+            assert.strictEqual(events.length, 4);
+            assert.deepStrictEqual(events[0], {
+                type: "status",
+                code: ActivityManagerInstrumentationStatusCode.Start,
+                values: {
+                    class: "com.example.FooTest",
+                    current: "1",
+                    numtests: "2",
+                    test: "testPass",
+                },
+                className: "com.example.FooTest",
+                testName: "testPass",
+                stack: undefined,
+            });
+            assert.strictEqual(
+                events[1]!.code,
+                ActivityManagerInstrumentationStatusCode.Ok,
+            );
+
+            const failure = events[2]!;
+            assert.strictEqual(failure.type, "status");
+            assert.strictEqual(
+                failure.code,
+                ActivityManagerInstrumentationStatusCode.Failure,
+            );
+            assert.strictEqual(
+                failure.stack,
+                "java.lang.AssertionError: failed\n\tat com.example.FooTest.testFail(FooTest.java:12)\n",
+            );
+            assert.strictEqual(failure.testName, "testFail");
+
+            assert.deepStrictEqual(events[3], {
+                type: "result",
+                code: -1,
+                values: { stream: "\nTime: 0.1" },
+            });
+        });
+
+        it("should throw when instrumentation failed", () => {
+            assert.throws(
+                () =>
+                    parseInstrumentation(
+                        "INSTRUMENTATION_FAILED: com.example.test/androidx.test.runner.AndroidJUnitRunner",
+                    ),
+                /failed/,
+            );
+        });
+    });
+
+    describe("parseStackList", () => {
+        it("should parse stacks and tasks", () => {
+            const stacks = ActivityManager.parseStackList(
+                [
+                    "RootTask id=1 bounds=[0,0][1080,2400] displayId=0 userId=0",
+                    " configuration={1.0 ?mcc?mnc [zh_CN] ldltr sw411dp w411dp h914dp 420dpi}",
+                    "  taskId=12: com.example/.MainActivity bounds=[0,0][1080,2400] userId=0 visible=true topActivity=ComponentInfo{com.example/com.example.DetailActivity}",
+                    "  taskId=8: com.android.launcher/.Launcher userId=0 visible=false topActivity=ComponentInfo{com.android.launcher/com.android.launcher.Launcher}",
+                    "Stack id=2 displayId=1 userId=10",
+                ].join("\n"),
+            );
+
+            assert.deepStrictEqual(stacks, [
+                {
+                    id: 1,
+                    bounds: { left: 0, top: 0, right: 1080, bottom: 2400 },
+                    displayId: 0,
+                    userId: 0,
+                    tasks: [
+                        {
+                            id: 12,
+                            baseActivity: "com.example/.MainActivity",
+                            bounds: {
+                                left: 0,
+                                top: 0,
+                                right: 1080,
+                                bottom: 2400,
+                            },
+                            userId: 0,
+                            visible: true,
+                            topActivity:
+                                "com.example/com.example.DetailActivity",
+                        },
+                        {
+                            id: 8,
+                            baseActivity: "com.android.launcher/.Launcher",
+                            bounds: undefined,
+                            userId: 0,
+                            visible: false,
+                            topActivity:
+                                "com.android.launcher/com.android.launcher.Launcher",
+                        },
+                    ],
+                },
+                {
+                    id: 2,
+                    bounds: undefined,
+                    displayId: 1,
+                    userId: 10,
+                    tasks: [],
+                },
+            ]);
+        });
+    });
+
+    describe("stopProfiling", () => {
+        function createAdb(size: bigint) {
+            const removed: string[] = [];
+            const adb = {
+                canUseFeature: () => false,
+                subprocess: {
+                    noneProtocol: {
+                        spawn: () =>
+                            Promise.resolve({
+                                output: new ReadableStream<Uint8Array>({
+                                    start(controller) {
+                                        controller.close();
+                                    },
+                                }),
+                            }),
+                    },
+                },
+                sync: () =>
+                    Promise.resolve({
+                        lstat: () => Promise.resolve({ size }),
+                        read: () =>
+                            new ReadableStream<Uint8Array>({
+                                start(controller) {
+                                    controller.enqueue(
+                                        new Uint8Array(Number(size)),
+                                    );
+                                    controller.close();
+                                },
+                            }),
+                        dispose: () => Promise.resolve(),
+                    }),
+                rm: (path: string) => {
+                    removed.push(path);
+                    return Promise.resolve("");
+                },
+            } as unknown as Adb;
+            return { adb, removed };
+        }
+
+        it("should delete generated trace file", async () => {
+            const { adb, removed } = createAdb(3n);
+            const am = new ActivityManager(adb);
+
+            const path = await am.startProfiling(1234);
+            const content = await am.stopProfiling(1234, path);
+            assert.strictEqual(content.length, 3);
+            assert.deepStrictEqual(removed, [path]);
+        });
+
+        it("should keep trace file at custom path", async () => {
+            const { adb, removed } = createAdb(3n);
+            const am = new ActivityManager(adb);
+
+            const path = await am.startProfiling(1234, {
+                path: "/sdcard/test.trace",
+            });
+            await am.stopProfiling(1234, path);
+            assert.deepStrictEqual(removed, []);
+        });
+
+        it("should throw when the trace file is never written", async () => {
+            const { adb, removed } = createAdb(0n);
+            const am = new ActivityManager(adb);
+
+            const path = await am.startProfiling(1234);
+            await assert.rejects(
+                am.stopProfiling(1234, path, { timeout: 0 }),
+                /is still empty/,
+            );
+            // It might be written later
+            assert.deepStrictEqual(removed, []);
+        });
+    });
+});
@@ -1,5 +1,11 @@
 import type { Adb } from "@yume-chan/adb";
 import { AdbServiceBase } from "@yume-chan/adb";
+import { delay } from "@yume-chan/async";
+import {
+    ConcatBufferStream,
+    SplitStringStream,
+    TextDecoderStream,
+} from "@yume-chan/stream-extra";
 
 import { CmdNoneProtocolService } from "./cmd.js";
 import type { IntentBuilder } from "./intent.js";
@@ -23,12 +29,267 @@ const START_ACTIVITY_OPTIONS_MAP: Partial<
     user: "--user",
 };
 
+export interface ActivityManagerUserOptions {
+    user: SingleUser;
+}
+
+const USER_OPTIONS_MAP: Record<keyof ActivityManagerUserOptions, string> = {
+    user: "--user",
+};
+
+export interface ActivityManagerBroadcastOptions {
+    user?: SingleUser;
+    /**
+     * Only receivers holding this permission can receive the broadcast.
+     */
+    receiverPermission?: string;
+    intent: IntentBuilder;
+}
+
+const BROADCAST_OPTIONS_MAP: Partial<
+    Record<keyof ActivityManagerBroadcastOptions, string>
+> = {
+    user: "--user",
+    receiverPermission: "--receiver-permission",
+};
+
+export interface ActivityManagerBroadcastResult {
+    /**
+     * The result code set by receivers, `0` by default.
+     */
+    code: number;
+    data: string | undefined;
+    /**
+     * The result extras `Bundle`, as printed by `am`.
+     */
+    extras: string | undefined;
+}
+
+export interface ActivityManagerStartServiceOptions {
+    user?: SingleUser;
+    intent: IntentBuilder;
+}
+
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/core/java/android/app/Instrumentation.java
+// https://cs.android.com/android/platform/superproject/+/master:external/junit/src/junit/runner/BaseTestRunner.java
+export const ActivityManagerInstrumentationStatusCode = {
+    Start: 1,
+    /**
+     * Intermediate status, for example progress reports.
+     */
+    InProgress: 2,
+    Ok: 0,
+    Error: -1,
+    Failure: -2,
+    Ignored: -3,
+    AssumptionFailure: -4,
+} as const;
+
+export type ActivityManagerInstrumentationStatusCode =
+    (typeof ActivityManagerInstrumentationStatusCode)[keyof typeof ActivityManagerInstrumentationStatusCode];
+
+export interface ActivityManagerInstrumentationStatus {
+    type: "status";
+    code: ActivityManagerInstrumentationStatusCode;
+    /**
+     * All values in the status `Bundle`,
+     * for example `class`, `test`, `current`, `numtests` and `stack`.
+     */
+    values: Record<string, string>;
+    className: string | undefined;
+    testName: string | undefined;
+    /**
+     * The stack trace of a failed test.
+     */
+    stack: string | undefined;
+}
+
+export interface ActivityManagerInstrumentationResult {
+    type: "result";
+    /**
+     * `-1` (`Activity.RESULT_OK`) when the instrumentation finished normally.
+     */
+    code: number;
+    values: Record<string, string>;
+}
+
+export type ActivityManagerInstrumentationEvent =
+    | ActivityManagerInstrumentationStatus
+    | ActivityManagerInstrumentationResult;
+
+export class ActivityManagerInstrumentationError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Parses the output of `am instrument -r`.
+ */
+export class ActivityManagerInstrumentationParser {
+    #values: Record<string, string> = {};
+    #lastKey: string | undefined;
+
+    /**
+     * Parses one line of output.
+     *
+     * @returns The status or result completed by this line
+     */
+    parseLine(line: string): ActivityManagerInstrumentationEvent | undefined {
+        let match = line.match(
+            /^INSTRUMENTATION_(STATUS|RESULT): ([^=]*)=(.*)$/,
+        );
+        if (match) {
+            this.#lastKey = match[2]!;
+            this.#values[this.#lastKey] = match[3]!;
+            return undefined;
+        }
+
+        match = line.match(/^INSTRUMENTATION_(STATUS_CODE|CODE): (-?\d+)/);
+        if (match) {
+            const code = Number.parseInt(match[2]!, 10);
+            const values = this.#values;
+            this.#values = {};
+            this.#lastKey = undefined;
+
+            if (match[1] === "CODE") {
+                return { type: "result", code, values };
+            }
+
+            return {
+                type: "status",
+                code: code as ActivityManagerInstrumentationStatusCode,
+                values,
+                className: values["class"],
+                testName: values["test"],
+                stack: values["stack"],
+            };
+        }
+
+        match = line.match(/^INSTRUMENTATION_(FAILED|ABORTED): (.*)$/);
+        if (match) {
+            throw new ActivityManagerInstrumentationError(
+                `Instrumentation ${match[1]!.toLowerCase()}: ${match[2]!}`,
+            );
+        }
+
+        // Values like `stack` and `stream` can have multiple lines
+        if (this.#lastKey !== undefined) {
+            this.#values[this.#lastKey] += "\n" + line;
+        }
+
+        return undefined;
+    }
+}
+
+export interface ActivityManagerInstrumentOptions {
+    user?: SingleUser;
+    /**
+     * Arguments passed to the runner (`-e`),
+     * for example `{ class: "com.example.FooTest#testBar" }`.
+     */
+    arguments?: Record<string, string>;
+    noWindowAnimation?: boolean;
+    noHiddenApiChecks?: boolean;
+}
+
+const INSTRUMENT_OPTIONS_MAP: Partial<
+    Record<keyof ActivityManagerInstrumentOptions, string>
+> = {
+    user: "--user",
+    noWindowAnimation: "--no-window-animation",
+    noHiddenApiChecks: "--no-hidden-api-checks",
+};
+
+export interface ActivityManagerBounds {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface ActivityManagerTaskInfo {
+    id: number;
+    /**
+     * The base activity of the task, as printed by `am`.
+     */
+    baseActivity: string;
+    bounds: ActivityManagerBounds | undefined;
+    userId: number;
+    visible: boolean;
+    topActivity: string | undefined;
+}
+
+export interface ActivityManagerStackInfo {
+    id: number;
+    bounds: ActivityManagerBounds | undefined;
+    displayId: number;
+    userId: number;
+    /**
+     * Tasks in this stack, from top to bottom.
+     */
+    tasks: ActivityManagerTaskInfo[];
+}
+
+function parseBounds(value: string | undefined) {
+    const match = value?.match(/^\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]$/);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        left: Number.parseInt(match[1]!, 10),
+        top: Number.parseInt(match[2]!, 10),
+        right: Number.parseInt(match[3]!, 10),
+        bottom: Number.parseInt(match[4]!, 10),
+    };
+}
+
+export interface ActivityManagerStartProfilingOptions {
+    user?: SingleUser;
+    /**
+     * Use sample based profiling with this interval in microseconds,
+     * instead of method tracing.
+     */
+    samplingInterval?: number;
+    /**
+     * Writes the trace file while profiling, instead of when stopped.
+     */
+    streaming?: boolean;
+    /**
+     * Path of the trace file on device.
+     *
+     * Defaults to a random file in `/data/local/tmp`,
+     * which will be deleted by `stopProfiling` after it's pulled.
+     */
+    path?: string;
+}
+
+export interface ActivityManagerStopProfilingOptions {
+    user?: SingleUser;
+    /**
+     * Maximum time in milliseconds to wait for the target process to finish writing the trace file.
+     *
+     * @default 30000
+     */
+    timeout?: number;
+}
+
+const START_PROFILING_OPTIONS_MAP: Partial<
+    Record<keyof ActivityManagerStartProfilingOptions, string>
+> = {
+    user: "--user",
+    samplingInterval: "--sampling",
+    streaming: "--streaming",
+};
+
 export class ActivityManager extends AdbServiceBase {
     static ServiceName = "activity";
     static CommandName = "am";
 
     #cmd: CmdNoneProtocolService;
 
+    readonly #generatedTracePaths = new Set<string>();
+
     constructor(adb: Adb) {
         super(adb);
         this.#cmd = new CmdNoneProtocolService(
@@ -61,4 +322,297 @@ export class ActivityManager extends AdbServiceBase {
             }
         }
     }
+
+    async #spawnWaitText(args: string[]) {
+        return await this.#cmd
+            .spawnWaitText(args)
+            .then((output) => output.trim());
+    }
+
+    static #throwOnError(output: string) {
+        for (const line of output.split("\n")) {
+            if (line.startsWith("Error:")) {
+                throw new Error(line.substring("Error:".length).trim());
+            }
+        }
+    }
+
+    /**
+     * Stops all processes and services of a package.
+     */
+    async forceStop(
+        packageName: string,
+        options?: Partial<ActivityManagerUserOptions>,
+    ): Promise<void> {
+        const args = buildArguments(
+            [ActivityManager.ServiceName, "force-stop"],
+            options,
+            USER_OPTIONS_MAP,
+        );
+        args.push(packageName);
+        ActivityManager.#throwOnError(await this.#spawnWaitText(args));
+    }
+
+    /**
+     * Kills background processes of a package, like the system does when low on memory.
+     */
+    async kill(
+        packageName: string,
+        options?: Partial<ActivityManagerUserOptions>,
+    ): Promise<void> {
+        const args = buildArguments(
+            [ActivityManager.ServiceName, "kill"],
+            options,
+            USER_OPTIONS_MAP,
+        );
+        args.push(packageName);
+        ActivityManager.#throwOnError(await this.#spawnWaitText(args));
+    }
+
+    static parseBroadcastResult(
+        output: string,
+    ): ActivityManagerBroadcastResult {
+        // `Broadcast completed: result=0, data="value", extras: Bundle[{key=value}]`
+        const match = output.match(
+            /Broadcast completed: result=(-?\d+)(?:, data="(.*?)")?(?:, extras: (.*))?$/m,
+        );
+        if (!match) {
+            throw new Error(output);
+        }
+        return {
+            code: Number.parseInt(match[1]!, 10),
+            data: match[2],
+            extras: match[3],
+        };
+    }
+
+    /**
+     * Sends a broadcast and waits for all receivers to finish.
+     */
+    async broadcast(
+        options: ActivityManagerBroadcastOptions,
+    ): Promise<ActivityManagerBroadcastResult> {
+        let args = buildArguments(
+            [ActivityManager.ServiceName, "broadcast"],
+            options,
+            BROADCAST_OPTIONS_MAP,
+        );
+        args = args.concat(options.intent.build());
+
+        return ActivityManager.parseBroadcastResult(
+            await this.#spawnWaitText(args),
+        );
+    }
+
+    async #startService(
+        command: string,
+        options: ActivityManagerStartServiceOptions,
+    ) {
+        let args = buildArguments(
+            [ActivityManager.ServiceName, command],
+            options,
+            USER_OPTIONS_MAP,
+        );
+        args = args.concat(options.intent.build());
+        ActivityManager.#throwOnError(await this.#spawnWaitText(args));
+    }
+
+    startService(options: ActivityManagerStartServiceOptions): Promise<void> {
+        return this.#startService("start-service", options);
+    }
+
+    /**
+     * Starts a foreground service.
+     *
+     * Added in Android 8.
+     */
+    startForegroundService(
+        options: ActivityManagerStartServiceOptions,
+    ): Promise<void> {
+        return this.#startService("start-foreground-service", options);
+    }
+
+    /**
+     * Runs instrumentation tests, and yields the status of each test as it runs.
+     *
+     * The last event is the result of the instrumentation.
+     *
+     * @param component The instrumentation runner, for example `com.example.test/androidx.test.runner.AndroidJUnitRunner`
+     */
+    async *instrument(
+        component: string,
+        options?: ActivityManagerInstrumentOptions,
+    ): AsyncGenerator<ActivityManagerInstrumentationEvent, void, void> {
+        const args = buildArguments(
+            [ActivityManager.ServiceName, "instrument", "-r", "-w"],
+            options,
+            INSTRUMENT_OPTIONS_MAP,
+        );
+        for (const [key, value] of Object.entries(options?.arguments ?? {})) {
+            args.push("-e", key, value);
+        }
+        args.push(component);
+
+        const process = await this.#cmd.spawn(args);
+        const parser = new ActivityManagerInstrumentationParser();
+        for await (const line of process.output
+            .pipeThrough(new TextDecoderStream())
+            .pipeThrough(new SplitStringStream("\n"))) {
+            const event = parser.parseLine(line.replace(/\r$/, ""));
+            if (event) {
+                yield event;
+            }
+        }
+    }
+
+    static parseStackList(output: string): ActivityManagerStackInfo[] {
+        const result: ActivityManagerStackInfo[] = [];
+        let stack: ActivityManagerStackInfo | undefined;
+        for (const line of output.split("\n")) {
+            // Android 12 renamed `Stack` to `RootTask`
+            let match = line.match(
+                /^(?:Stack|RootTask) id=(\d+)(?: bounds=(\S+))? displayId=(\d+) userId=(\d+)/,
+            );
+            if (match) {
+                stack = {
+                    id: Number.parseInt(match[1]!, 10),
+                    bounds: parseBounds(match[2]),
+                    displayId: Number.parseInt(match[3]!, 10),
+                    userId: Number.parseInt(match[4]!, 10),
+                    tasks: [],
+                };
+                result.push(stack);
+                continue;
+            }
+
+            match = line.match(
+                /^\s+taskId=(\d+): (\S+)(?: bounds=(\S+))? userId=(\d+) visible=(true|false)(?: topActivity=ComponentInfo\{(.*?)\})?/,
+            );
+            if (match && stack) {
+                stack.tasks.push({
+                    id: Number.parseInt(match[1]!, 10),
+                    baseActivity: match[2]!,
+                    bounds: parseBounds(match[3]),
+                    userId: Number.parseInt(match[4]!, 10),
+                    visible: match[5] === "true",
+                    topActivity: match[6],
+                });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Lists activity stacks (root tasks) and their tasks.
+     */
+    async listStacks(): Promise<ActivityManagerStackInfo[]> {
+        return ActivityManager.parseStackList(
+            await this.#spawnWaitText([
+                ActivityManager.ServiceName,
+                "stack",
+                "list",
+            ]),
+        );
+    }
+
+    async getCurrentUser(): Promise<number> {
+        const output = await this.#spawnWaitText([
+            ActivityManager.ServiceName,
+            "get-current-user",
+        ]);
+        const user = Number.parseInt(output, 10);
+        if (Number.isNaN(user)) {
+            throw new Error(output);
+        }
+        return user;
+    }
+
+    /**
+     * Starts method tracing (or sampling) of a process.
+     *
+     * @param process Process name or PID
+     * @returns Path of the trace file on device, to be passed to `stopProfiling`
+     */
+    async startProfiling(
+        process: string | number,
+        options?: ActivityManagerStartProfilingOptions,
+    ): Promise<string> {
+        const path =
+            options?.path ??
+            `/data/local/tmp/${Math.random().toString().substring(2)}.trace`;
+
+        const args = buildArguments(
+            [ActivityManager.ServiceName, "profile", "start"],
+            options,
+            START_PROFILING_OPTIONS_MAP,
+        );
+        args.push(process.toString(), path);
+        ActivityManager.#throwOnError(await this.#spawnWaitText(args));
+
+        if (!options?.path) {
+            this.#generatedTracePaths.add(path);
+        }
+        return path;
+    }
+
+    /**
+     * Stops profiling and pulls the trace file.
+     *
+     * The trace file is deleted from device after it's pulled,
+     * only if its path was generated by `startProfiling`.
+     *
+     * @param path Path of the trace file returned by `startProfiling`
+     * @returns Content of the trace file
+     */
+    async stopProfiling(
+        process: string | number,
+        path: string,
+        options?: ActivityManagerStopProfilingOptions,
+    ): Promise<Uint8Array> {
+        const args = buildArguments(
+            [ActivityManager.ServiceName, "profile", "stop"],
+            options,
+            USER_OPTIONS_MAP,
+        );
+        args.push(process.toString());
+        ActivityManager.#throwOnError(await this.#spawnWaitText(args));
+
+        let content: Uint8Array;
+        const sync = await this.adb.sync();
+        try {
+            // The target process writes the file asynchronously after `am` returns,
+            // wait until its size stops changing.
+            // If profiling failed or the process died, the file will never be written.
+            const deadline = Date.now() + (options?.timeout ?? 30_000);
+            let size = -1n;
+            while (true) {
+                await delay(500);
+                const stat = await sync.lstat(path);
+                if (stat.size > 0n && stat.size === size) {
+                    break;
+                }
+                size = stat.size;
+
+                if (Date.now() >= deadline) {
+                    throw new Error(
+                        size === 0n
+                            ? `Trace file '${path}' is still empty`
+                            : `Trace file '${path}' is still being written`,
+                    );
+                }
+            }
+
+            content = await sync
+                .read(path)
+                .pipeThrough(new ConcatBufferStream());
+        } finally {
+            await sync.dispose();
+        }
+
+        // Keep the file on error, it might still be written later
+        if (this.#generatedTracePaths.delete(path)) {
+            await this.adb.rm(path);
+        }
+        return content;
+    }
 }
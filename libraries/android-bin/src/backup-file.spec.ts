@@ -0,0 +1,359 @@
+import * as assert from "node:assert";
+import { createCipheriv, pbkdf2Sync } from "node:crypto";
+import { describe, it } from "node:test";
+
+import type { TransformStream } from "@yume-chan/stream-extra";
+import { ConcatBufferStream, ReadableStream } from "@yume-chan/stream-extra";
+import { decodeUtf8, encodeUtf8 } from "@yume-chan/struct";
+
+import type { AndroidBackupEntry } from "./backup-file.js";
+import {
+    AndroidBackupDomain,
+    AndroidBackupError,
+    createAndroidBackup,
+    filterAndroidBackupEntries,
+    readAndroidBackup,
+    readAndroidBackupEntries,
+} from "./backup-file.js";
+
+function createStream(content: Uint8Array, chunkSize = 1000) {
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < content.length; i += chunkSize) {
+                controller.enqueue(content.slice(i, i + chunkSize));
+            }
+            controller.close();
+        },
+    });
+}
+
+function writeOctal(
+    block: Uint8Array,
+    offset: number,
+    length: number,
+    value: number,
+) {
+    block.set(encodeUtf8(value.toString(8).padStart(length - 1, "0")), offset);
+}
+
+function createTarHeader(path: string, size: number, type = "0") {
+    const block = new Uint8Array(512);
+    block.set(encodeUtf8(path).subarray(0, 100), 0);
+    writeOctal(block, 100, 8, type === "5" ? 0o755 : 0o600);
+    writeOctal(block, 124, 12, size);
+    writeOctal(block, 136, 12, 1700000000);
+    block[156] = type.charCodeAt(0);
+    block.set(encodeUtf8("ustar\x0000"), 257);
+
+    block.fill(0x20, 148, 156);
+    const checksum = block.reduce((sum, value) => sum + value, 0);
+    writeOctal(block, 148, 7, checksum);
+    return block;
+}
+
+function padTar(data: Uint8Array) {
+    const result = new Uint8Array(Math.ceil(data.length / 512) * 512);
+    result.set(data);
+    return result;
+}
+
+function createTar(files: Record<string, string | Uint8Array>) {
+    const parts: Uint8Array[] = [];
+    for (const [path, content] of Object.entries(files)) {
+        if (path.endsWith("/")) {
+            parts.push(createTarHeader(path, 0, "5"));
+            continue;
+        }
+
+        const data =
+            typeof content === "string" ? encodeUtf8(content) : content;
+
+        if (encodeUtf8(path).length > 100) {
+            const record = ` path=${path}\n`;
+            let length = record.length;
+            length += (length + length.toString().length).toString().length;
+            const pax = encodeUtf8(length.toString() + record);
+            parts.push(createTarHeader("PaxHeader", pax.length, "x"));
+            parts.push(padTar(pax));
+        }
+
+        parts.push(createTarHeader(path, data.length));
+        parts.push(padTar(data));
+    }
+    parts.push(new Uint8Array(1024));
+
+    const result = new Uint8Array(
+        parts.reduce((sum, part) => sum + part.length, 0),
+    );
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function deflate() {
+    return new CompressionStream("deflate") as unknown as TransformStream<
+        Uint8Array,
+        Uint8Array
+    >;
+}
+
+function inflate() {
+    return new DecompressionStream("deflate") as unknown as TransformStream<
+        Uint8Array,
+        Uint8Array
+    >;
+}
+
+async function readEntries(tar: ReadableStream<Uint8Array>) {
+    const result: (Omit<AndroidBackupEntry, "header" | "content"> & {
+        content: string;
+    })[] = [];
+    for await (const entry of readAndroidBackupEntries(tar)) {
+        const { header, content, ...rest } = entry;
+        assert.strictEqual(header.length % 512, 0);
+        result.push({
+            ...rest,
+            content: decodeUtf8(
+                await content.pipeThrough(new ConcatBufferStream()),
+            ),
+        });
+    }
+    return result;
+}
+
+const Files = {
+    "apps/com.example/_manifest": "1\ncom.example\n",
+    "apps/com.example/f/": "",
+    "apps/com.example/f/data.json": "{}",
+    "apps/com.other/sp/prefs.xml": "<map />",
+};
+
+describe("AndroidBackup", () => {
+    it("should round-trip uncompressed backups", async () => {
+        const file = await createAndroidBackup(
+            createStream(createTar(Files)),
+        ).pipeThrough(new ConcatBufferStream());
+        assert.ok(decodeUtf8(file).startsWith("ANDROID BACKUP\n5\n0\nnone\n"));
+
+        const { header, tar } = await readAndroidBackup(createStream(file));
+        assert.deepStrictEqual(header, {
+            version: 5,
+            compressed: false,
+            encrypted: false,
+        });
+
+        const entries = await readEntries(tar);
+        assert.deepStrictEqual(
+            entries.map((entry) => [
+                entry.packageName,
+                entry.domain,
+                entry.relativePath,
+                entry.directory,
+                entry.content,
+            ]),
+            [
+                [
+                    "com.example",
+                    AndroidBackupDomain.Manifest,
+                    "",
+                    false,
+                    "1\ncom.example\n",
+                ],
+                ["com.example", AndroidBackupDomain.Files, "", true, ""],
+                [
+                    "com.example",
+                    AndroidBackupDomain.Files,
+                    "data.json",
+                    false,
+                    "{}",
+                ],
+                [
+                    "com.other",
+                    AndroidBackupDomain.SharedPreferences,
+                    "prefs.xml",
+                    false,
+                    "<map />",
+                ],
+            ],
+        );
+        assert.strictEqual(entries[2]!.mode, 0o600);
+        assert.strictEqual(entries[2]!.mtime, 1700000000);
+    });
+
+    it("should round-trip compressed and encrypted backups", async () => {
+        const large = new Uint8Array(100_000);
+        for (let i = 0; i < large.length; i += 1) {
+            large[i] = (i * 7919) & 0xff;
+        }
+
+        const file = await createAndroidBackup(
+            createStream(
+                createTar({ ...Files, "apps/com.example/a/base.apk": large }),
+            ),
+            {
+                password: "pass word",
+                deflate,
+            },
+        ).pipeThrough(new ConcatBufferStream());
+
+        const lines = decodeUtf8(file.subarray(0, 512)).split("\n");
+        assert.deepStrictEqual(lines.slice(0, 5), [
+            "ANDROID BACKUP",
+            "5",
+            "1",
+            "AES-256",
+            lines[4],
+        ]);
+        assert.strictEqual(lines[4]!.length, 128);
+        assert.strictEqual(lines[6], "10000");
+
+        await assert.rejects(
+            readAndroidBackup(createStream(file), {
+                password: "wrong",
+                inflate,
+            }),
+            AndroidBackupError,
+        );
+
+        const { header, tar } = await readAndroidBackup(createStream(file), {
+            password: "pass word",
+            inflate,
+        });
+        assert.deepStrictEqual(header, {
+            version: 5,
+            compressed: true,
+            encrypted: true,
+        });
+
+        let apk: Uint8Array | undefined;
+        for await (const entry of readAndroidBackupEntries(tar)) {
+            if (entry.domain === AndroidBackupDomain.Apk) {
+                apk = await entry.content.pipeThrough(new ConcatBufferStream());
+            }
+        }
+        assert.deepStrictEqual(apk, large);
+    });
+
+    it("should support version 1 passwords", async () => {
+        const file = await createAndroidBackup(createStream(createTar(Files)), {
+            version: 1,
+            password: "password",
+        }).pipeThrough(new ConcatBufferStream());
+
+        const { tar } = await readAndroidBackup(createStream(file), {
+            password: "password",
+        });
+        assert.strictEqual((await readEntries(tar)).length, 4);
+    });
+
+    it("should use round count in header", async () => {
+        // Created by a device with a different `PBKDF2_HASH_ROUNDS`
+        const rounds = 2000;
+        const userSalt = Buffer.alloc(64, 1);
+        const checksumSalt = Buffer.alloc(64, 2);
+        const userIv = Buffer.alloc(16, 3);
+        const masterIv = Buffer.alloc(16, 4);
+        // All bytes are below 0x80, so the checksum password is the key itself
+        const masterKey = Buffer.alloc(32, 5);
+
+        const encrypt = (key: Buffer, iv: Buffer, data: Uint8Array) => {
+            const cipher = createCipheriv("aes-256-cbc", key, iv);
+            return Buffer.concat([cipher.update(data), cipher.final()]);
+        };
+
+        const blob = Buffer.concat([
+            Buffer.of(masterIv.length),
+            masterIv,
+            Buffer.of(masterKey.length),
+            masterKey,
+            Buffer.of(32),
+            pbkdf2Sync(masterKey, checksumSalt, rounds, 32, "sha1"),
+        ]);
+        const userKey = pbkdf2Sync("password", userSalt, rounds, 32, "sha1");
+
+        const file = Buffer.concat([
+            Buffer.from(
+                [
+                    "ANDROID BACKUP",
+                    "5",
+                    "0",
+                    "AES-256",
+                    userSalt.toString("hex"),
+                    checksumSalt.toString("hex"),
+                    rounds.toString(),
+                    userIv.toString("hex"),
+                    encrypt(userKey, userIv, blob).toString("hex"),
+                    "",
+                ].join("\n"),
+            ),
+            encrypt(masterKey, masterIv, createTar(Files)),
+        ]);
+
+        const { tar } = await readAndroidBackup(
+            createStream(new Uint8Array(file)),
+            { password: "password" },
+        );
+        assert.strictEqual((await readEntries(tar)).length, 4);
+    });
+
+    it("should reject invalid files", async () => {
+        await assert.rejects(
+            readAndroidBackup(createStream(encodeUtf8("PK\x03\x04\n"))),
+            AndroidBackupError,
+        );
+        await assert.rejects(
+            readAndroidBackup(
+                createStream(encodeUtf8("ANDROID BACKUP\n5\n1\nnone\n")),
+            ),
+            /inflate/,
+        );
+        await assert.rejects(
+            readAndroidBackup(createStream(encodeUtf8("ANDROID BACKUP\n5\n"))),
+            AndroidBackupError,
+        );
+    });
+
+    it("should read long paths from extended headers", async () => {
+        const path = "apps/com.example/f/" + "a".repeat(120);
+        const entries = await readEntries(
+            createStream(createTar({ [path]: "long" })),
+        );
+        assert.strictEqual(entries.length, 1);
+        assert.strictEqual(entries[0]!.path, path);
+        assert.strictEqual(entries[0]!.relativePath, "a".repeat(120));
+        assert.strictEqual(entries[0]!.content, "long");
+    });
+
+    it("should filter entries", async () => {
+        const path = "apps/com.other/f/" + "b".repeat(120);
+        const filtered = await filterAndroidBackupEntries(
+            createStream(createTar({ ...Files, [path]: "other" })),
+            (entry) => entry.packageName === "com.other",
+        ).pipeThrough(new ConcatBufferStream());
+
+        assert.strictEqual(filtered.length % 512, 0);
+        assert.deepStrictEqual(
+            (await readEntries(createStream(filtered))).map((entry) => [
+                entry.path,
+                entry.content,
+            ]),
+            [
+                ["apps/com.other/sp/prefs.xml", "<map />"],
+                [path, "other"],
+            ],
+        );
+    });
+
+    it("should skip unread content", async () => {
+        const paths: string[] = [];
+        for await (const entry of readAndroidBackupEntries(
+            createStream(createTar(Files), 100),
+        )) {
+            paths.push(entry.path);
+        }
+        assert.deepStrictEqual(paths, Object.keys(Files));
+    });
+});
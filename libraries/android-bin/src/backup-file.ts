@@ -0,0 +1,869 @@
+// cspell: ignore ustar
+
+import type { TransformStream } from "@yume-chan/stream-extra";
+import {
+    BufferedReadableStream,
+    PushReadableStream,
+    ReadableStream,
+    TransformStream as TransformStreamClass,
+} from "@yume-chan/stream-extra";
+import {
+    EmptyUint8Array,
+    ExactReadableEndedError,
+    decodeUtf8,
+    encodeUtf8,
+} from "@yume-chan/struct";
+
+import type { CryptoKey } from "./web-crypto.js";
+import { getCrypto } from "./web-crypto.js";
+
+// Format of backup files created by `adb backup` (or `bu backup`):
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/services/backup/java/com/android/server/backup/fullbackup/PerformAdbBackupTask.java
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/services/backup/java/com/android/server/backup/restore/PerformAdbRestoreTask.java
+
+const Magic = "ANDROID BACKUP";
+const EncryptionAlgorithmName = "AES-256";
+const Pbkdf2Rounds = 10000;
+const Pbkdf2SaltSize = 64;
+const AesBlockSize = 16;
+const TarBlockSize = 512;
+
+/**
+ * The latest backup file version, written by Android 9 and above.
+ */
+export const ANDROID_BACKUP_VERSION = 5;
+
+export interface AndroidBackupHeader {
+    version: number;
+    compressed: boolean;
+    encrypted: boolean;
+}
+
+export class AndroidBackupError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+function concatBuffers(a: Uint8Array, b: Uint8Array) {
+    if (a.length === 0) {
+        return b;
+    }
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a, 0);
+    result.set(b, a.length);
+    return result;
+}
+
+function hexToBytes(hex: string) {
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new AndroidBackupError("Invalid hex string in backup header");
+    }
+    const result = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < result.length; i += 1) {
+        result[i] = Number.parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return result;
+}
+
+function bytesToHex(bytes: Uint8Array) {
+    let result = "";
+    for (const byte of bytes) {
+        result += byte.toString(16).toUpperCase().padStart(2, "0");
+    }
+    return result;
+}
+
+async function pbkdf2(password: Uint8Array, salt: Uint8Array, rounds: number) {
+    const { subtle } = getCrypto();
+    const key = await subtle.importKey("raw", password, "PBKDF2", false, [
+        "deriveBits",
+    ]);
+    return new Uint8Array(
+        await subtle.deriveBits(
+            { name: "PBKDF2", hash: "SHA-1", salt, iterations: rounds },
+            key,
+            256,
+        ),
+    );
+}
+
+function importAesKey(key: Uint8Array) {
+    return getCrypto().subtle.importKey("raw", key, "AES-CBC", false, [
+        "encrypt",
+        "decrypt",
+    ]);
+}
+
+// Java's `PBKDF2WithHmacSHA1` takes `char[]` as password.
+// Version 1 uses only the lower 8 bits of each `char` (`PBKDF2WithHmacSHA1And8bit`),
+// later versions encode them in UTF-8.
+function encodePassword(password: string, version: number) {
+    if (version === 1) {
+        const result = new Uint8Array(password.length);
+        for (let i = 0; i < password.length; i += 1) {
+            result[i] = password.charCodeAt(i) & 0xff;
+        }
+        return result;
+    }
+    return encodeUtf8(password);
+}
+
+function makeMasterKeyChecksum(
+    masterKey: Uint8Array,
+    salt: Uint8Array,
+    rounds: number,
+    version: number,
+) {
+    if (version === 1) {
+        return pbkdf2(masterKey, salt, rounds);
+    }
+
+    // Each byte is sign-extended to a `char` before encoding
+    const chars = Array.from(masterKey, (byte) =>
+        String.fromCharCode(byte >= 0x80 ? byte | 0xff00 : byte),
+    ).join("");
+    return pbkdf2(encodeUtf8(chars), salt, rounds);
+}
+
+/**
+ * Decrypts AES-CBC with PKCS#7 padding in chunks.
+ *
+ * Web Crypto API only supports one-shot decryption and always removes padding,
+ * so a valid padding block is appended to each intermediate chunk.
+ */
+class AesCbcDecryptStream extends TransformStreamClass<Uint8Array, Uint8Array> {
+    constructor(key: CryptoKey, iv: Uint8Array) {
+        const { subtle } = getCrypto();
+        const padding = new Uint8Array(AesBlockSize).fill(AesBlockSize);
+        let pending: Uint8Array = EmptyUint8Array;
+
+        super({
+            async transform(chunk, controller) {
+                pending = concatBuffers(pending, chunk);
+
+                // The last block contains padding, it can only be decrypted in `flush`
+                const length =
+                    pending.length -
+                    (pending.length % AesBlockSize || AesBlockSize);
+                if (length <= 0) {
+                    return;
+                }
+
+                const data = pending.subarray(0, length);
+                pending = pending.slice(length);
+
+                const lastBlock = data.subarray(length - AesBlockSize);
+                const paddingBlock = new Uint8Array(
+                    await subtle.encrypt(
+                        { name: "AES-CBC", iv: lastBlock },
+                        key,
+                        padding,
+                    ),
+                    0,
+                    AesBlockSize,
+                );
+
+                controller.enqueue(
+                    new Uint8Array(
+                        await subtle.decrypt(
+                            { name: "AES-CBC", iv },
+                            key,
+                            concatBuffers(data, paddingBlock),
+                        ),
+                    ),
+                );
+                iv = lastBlock.slice();
+            },
+            async flush(controller) {
+                if (pending.length !== AesBlockSize) {
+                    throw new AndroidBackupError(
+                        "Encrypted data is not a multiple of block size",
+                    );
+                }
+
+                controller.enqueue(
+                    new Uint8Array(
+                        await subtle.decrypt(
+                            { name: "AES-CBC", iv },
+                            key,
+                            pending,
+                        ),
+                    ),
+                );
+            },
+        });
+    }
+}
+
+/**
+ * Encrypts AES-CBC with PKCS#7 padding in chunks.
+ */
+class AesCbcEncryptStream extends TransformStreamClass<Uint8Array, Uint8Array> {
+    constructor(key: CryptoKey, iv: Uint8Array) {
+        const { subtle } = getCrypto();
+        let pending: Uint8Array = EmptyUint8Array;
+
+        super({
+            async transform(chunk, controller) {
+                pending = concatBuffers(pending, chunk);
+
+                const length = pending.length - (pending.length % AesBlockSize);
+                if (length === 0) {
+                    return;
+                }
+
+                const data = pending.subarray(0, length);
+                pending = pending.slice(length);
+
+                // When input is a multiple of block size,
+                // the last block is a full padding block, drop it.
+                const encrypted = new Uint8Array(
+                    await subtle.encrypt({ name: "AES-CBC", iv }, key, data),
+                    0,
+                    length,
+                );
+                controller.enqueue(encrypted);
+                iv = encrypted.slice(length - AesBlockSize);
+            },
+            async flush(controller) {
+                controller.enqueue(
+                    new Uint8Array(
+                        await subtle.encrypt(
+                            { name: "AES-CBC", iv },
+                            key,
+                            pending,
+                        ),
+                    ),
+                );
+            },
+        });
+    }
+}
+
+async function readLine(buffered: BufferedReadableStream) {
+    let result = "";
+    while (true) {
+        const [byte] = await buffered.readExactly(1);
+        if (byte === 0x0a) {
+            return result;
+        }
+        result += String.fromCharCode(byte!);
+        if (result.length > 1024) {
+            throw new AndroidBackupError("Invalid backup header");
+        }
+    }
+}
+
+interface AndroidBackupEncryptionHeader {
+    userSalt: Uint8Array;
+    checksumSalt: Uint8Array;
+    rounds: number;
+    userIv: Uint8Array;
+    masterKeyBlob: Uint8Array;
+}
+
+async function decryptMasterKey(
+    header: AndroidBackupEncryptionHeader,
+    password: string,
+    version: number,
+) {
+    const userKey = await importAesKey(
+        await pbkdf2(
+            encodePassword(password, version),
+            header.userSalt,
+            header.rounds,
+        ),
+    );
+
+    let blob: Uint8Array;
+    try {
+        blob = new Uint8Array(
+            await getCrypto().subtle.decrypt(
+                { name: "AES-CBC", iv: header.userIv },
+                userKey,
+                header.masterKeyBlob,
+            ),
+        );
+    } catch {
+        throw new AndroidBackupError("Incorrect backup password");
+    }
+
+    // [iv length][iv][key length][key][checksum length][checksum]
+    let offset = 0;
+    const read = () => {
+        const length = blob[offset];
+        if (length === undefined || offset + 1 + length > blob.length) {
+            throw new AndroidBackupError("Incorrect backup password");
+        }
+        const value = blob.subarray(offset + 1, offset + 1 + length);
+        offset += 1 + length;
+        return value;
+    };
+    const iv = read();
+    const key = read();
+    const checksum = read();
+
+    const expected = await makeMasterKeyChecksum(
+        key,
+        header.checksumSalt,
+        header.rounds,
+        version,
+    );
+    if (
+        checksum.length !== expected.length ||
+        checksum.some((value, index) => value !== expected[index])
+    ) {
+        throw new AndroidBackupError("Incorrect backup password");
+    }
+
+    return { iv, key: await importAesKey(key) };
+}
+
+export interface AndroidBackupReadOptions {
+    /**
+     * Password of encrypted backups.
+     */
+    password?: string;
+    /**
+     * Creates a stream to decompress compressed backups,
+     * for example `new DecompressionStream("deflate")`.
+     */
+    inflate?: () => TransformStream<Uint8Array, Uint8Array>;
+}
+
+export interface AndroidBackup {
+    header: AndroidBackupHeader;
+    /**
+     * The decrypted and decompressed tar archive.
+     *
+     * Use `readAndroidBackupEntries` to read entries in it.
+     */
+    tar: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Parses the header of a backup file,
+ * and decrypts and decompresses its content.
+ */
+export async function readAndroidBackup(
+    stream: ReadableStream<Uint8Array>,
+    options?: AndroidBackupReadOptions,
+): Promise<AndroidBackup> {
+    const buffered = new BufferedReadableStream(stream);
+
+    try {
+        if ((await readLine(buffered)) !== Magic) {
+            throw new AndroidBackupError("Not an Android backup file");
+        }
+
+        const version = Number.parseInt(await readLine(buffered), 10);
+        if (
+            !Number.isInteger(version) ||
+            version < 1 ||
+            version > ANDROID_BACKUP_VERSION
+        ) {
+            throw new AndroidBackupError(
+                `Unsupported backup file version ${version}`,
+            );
+        }
+
+        const compressed = (await readLine(buffered)) !== "0";
+
+        const algorithm = await readLine(buffered);
+        let encryption: AndroidBackupEncryptionHeader | undefined;
+        switch (algorithm) {
+            case "none":
+                break;
+            case EncryptionAlgorithmName:
+                encryption = {
+                    userSalt: hexToBytes(await readLine(buffered)),
+                    checksumSalt: hexToBytes(await readLine(buffered)),
+                    rounds: Number.parseInt(await readLine(buffered), 10),
+                    userIv: hexToBytes(await readLine(buffered)),
+                    masterKeyBlob: hexToBytes(await readLine(buffered)),
+                };
+                break;
+            default:
+                throw new AndroidBackupError(
+                    `Unsupported backup encryption ${algorithm}`,
+                );
+        }
+
+        // Validate options and decrypt the master key before releasing the stream
+        let masterKey: { iv: Uint8Array; key: CryptoKey } | undefined;
+        if (encryption) {
+            if (options?.password === undefined) {
+                throw new AndroidBackupError("Backup is encrypted");
+            }
+            masterKey = await decryptMasterKey(
+                encryption,
+                options.password,
+                version,
+            );
+        }
+
+        if (compressed && !options?.inflate) {
+            throw new AndroidBackupError(
+                "Backup is compressed, but `inflate` is not provided",
+            );
+        }
+
+        let tar = buffered.release();
+        if (masterKey) {
+            tar = tar.pipeThrough(
+                new AesCbcDecryptStream(masterKey.key, masterKey.iv),
+            );
+        }
+        if (compressed) {
+            tar = tar.pipeThrough(options!.inflate!());
+        }
+
+        return {
+            header: { version, compressed, encrypted: !!encryption },
+            tar,
+        };
+    } catch (e) {
+        await buffered.cancel(e);
+        if (e instanceof ExactReadableEndedError) {
+            throw new AndroidBackupError("Unexpected end of backup header");
+        }
+        throw e;
+    }
+}
+
+export interface AndroidBackupWriteOptions {
+    /**
+     * Defaults to `ANDROID_BACKUP_VERSION`.
+     */
+    version?: number;
+    /**
+     * Encrypts the backup with this password.
+     *
+     * Empty string means no encryption, same as Android.
+     */
+    password?: string;
+    /**
+     * Creates a stream to compress the backup,
+     * for example `new CompressionStream("deflate")`.
+     *
+     * Backups are not compressed if not provided.
+     */
+    deflate?: () => TransformStream<Uint8Array, Uint8Array>;
+}
+
+async function createEncryptionHeader(password: string, version: number) {
+    const crypto = getCrypto();
+    const random = (size: number) =>
+        crypto.getRandomValues(new Uint8Array(size));
+
+    const userSalt = random(Pbkdf2SaltSize);
+    const checksumSalt = random(Pbkdf2SaltSize);
+    const userIv = random(AesBlockSize);
+    const masterKey = random(32);
+    const masterIv = random(AesBlockSize);
+    const checksum = await makeMasterKeyChecksum(
+        masterKey,
+        checksumSalt,
+        Pbkdf2Rounds,
+        version,
+    );
+
+    const blob = new Uint8Array(
+        3 + masterIv.length + masterKey.length + checksum.length,
+    );
+    let offset = 0;
+    for (const value of [masterIv, masterKey, checksum]) {
+        blob[offset] = value.length;
+        blob.set(value, offset + 1);
+        offset += 1 + value.length;
+    }
+
+    const userKey = await importAesKey(
+        await pbkdf2(encodePassword(password, version), userSalt, Pbkdf2Rounds),
+    );
+    const masterKeyBlob = new Uint8Array(
+        await crypto.subtle.encrypt(
+            { name: "AES-CBC", iv: userIv },
+            userKey,
+            blob,
+        ),
+    );
+
+    return {
+        lines: [
+            EncryptionAlgorithmName,
+            bytesToHex(userSalt),
+            bytesToHex(checksumSalt),
+            Pbkdf2Rounds.toString(),
+            bytesToHex(userIv),
+            bytesToHex(masterKeyBlob),
+        ],
+        key: await importAesKey(masterKey),
+        iv: masterIv,
+    };
+}
+
+/**
+ * Creates a backup file from a tar archive,
+ * for example one created by `filterAndroidBackupEntries`.
+ */
+export function createAndroidBackup(
+    tar: ReadableStream<Uint8Array>,
+    options?: AndroidBackupWriteOptions,
+): ReadableStream<Uint8Array> {
+    return new PushReadableStream<Uint8Array>(async (controller) => {
+        const version = options?.version ?? ANDROID_BACKUP_VERSION;
+        const lines = [Magic, version.toString(), options?.deflate ? "1" : "0"];
+
+        // Data is compressed first, then encrypted
+        let data = tar;
+        if (options?.deflate) {
+            data = data.pipeThrough(options.deflate());
+        }
+
+        if (options?.password) {
+            const encryption = await createEncryptionHeader(
+                options.password,
+                version,
+            );
+            lines.push(...encryption.lines);
+            data = data.pipeThrough(
+                new AesCbcEncryptStream(encryption.key, encryption.iv),
+            );
+        } else {
+            lines.push("none");
+        }
+
+        await controller.enqueue(encodeUtf8(lines.join("\n") + "\n"));
+
+        const reader = data.getReader();
+        controller.abortSignal.addEventListener("abort", () => {
+            void reader.cancel();
+        });
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+            await controller.enqueue(value);
+        }
+    });
+}
+
+// Tokens of the second path component in backup archives.
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/core/java/android/app/backup/FullBackup.java
+export const AndroidBackupDomain = {
+    Apk: "a",
+    Obb: "obb",
+    Root: "r",
+    Files: "f",
+    NoBackup: "nb",
+    Database: "db",
+    SharedPreferences: "sp",
+    Cache: "c",
+    DeviceRoot: "d_r",
+    DeviceFiles: "d_f",
+    DeviceNoBackup: "d_nb",
+    DeviceDatabase: "d_db",
+    DeviceSharedPreferences: "d_sp",
+    DeviceCache: "d_c",
+    ExternalFiles: "ef",
+    KeyValue: "k",
+    SharedStorage: "shared",
+    Manifest: "_manifest",
+    Metadata: "_meta",
+} as const;
+
+export type AndroidBackupDomain =
+    (typeof AndroidBackupDomain)[keyof typeof AndroidBackupDomain];
+
+export interface AndroidBackupEntry {
+    /**
+     * Full path in the archive, for example `apps/com.example/f/data.json`.
+     */
+    path: string;
+    /**
+     * The package name, or `undefined` if the entry is not under `apps/`.
+     */
+    packageName: string | undefined;
+    /**
+     * The domain token, usually an `AndroidBackupDomain`.
+     */
+    domain: string | undefined;
+    /**
+     * Path relative to the domain, for example `data.json`.
+     */
+    relativePath: string;
+    directory: boolean;
+    mode: number;
+    size: number;
+    /**
+     * Modification time in seconds since epoch.
+     */
+    mtime: number;
+    /**
+     * Raw tar headers of this entry, including extended headers.
+     */
+    header: Uint8Array;
+    /**
+     * Content of this entry.
+     *
+     * It can only be read before advancing to the next entry,
+     * unread content is skipped.
+     */
+    content: ReadableStream<Uint8Array>;
+}
+
+function readTarString(block: Uint8Array, offset: number, length: number) {
+    let end = offset;
+    while (end < offset + length && block[end] !== 0) {
+        end += 1;
+    }
+    return decodeUtf8(block.subarray(offset, end));
+}
+
+function readTarNumber(block: Uint8Array, offset: number, length: number) {
+    // GNU base-256 encoding for large numbers
+    if (block[offset]! & 0x80) {
+        let value = block[offset]! & 0x7f;
+        for (let i = 1; i < length; i += 1) {
+            value = value * 256 + block[offset + i]!;
+        }
+        return value;
+    }
+
+    const text = readTarString(block, offset, length).trim();
+    return text ? Number.parseInt(text, 8) : 0;
+}
+
+function parsePaxHeader(data: Uint8Array) {
+    // Records in `"%d %s=%s\n"` format, the length includes itself
+    const result = new Map<string, string>();
+    let offset = 0;
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        if (space === -1) {
+            break;
+        }
+        const length = Number.parseInt(
+            decodeUtf8(data.subarray(offset, space)),
+            10,
+        );
+        if (!length) {
+            break;
+        }
+
+        const record = decodeUtf8(
+            data.subarray(space + 1, offset + length - 1),
+        );
+        const separator = record.indexOf("=");
+        if (separator !== -1) {
+            result.set(
+                record.substring(0, separator),
+                record.substring(separator + 1),
+            );
+        }
+        offset += length;
+    }
+    return result;
+}
+
+function getTarPadding(size: number) {
+    return (TarBlockSize - (size % TarBlockSize)) % TarBlockSize;
+}
+
+function parseBackupPath(path: string) {
+    const match = path
+        .replace(/\/+$/, "")
+        .match(/^apps\/([^/]+)\/([^/]+)(?:\/(.*))?$/s);
+    if (!match) {
+        return {
+            packageName: undefined,
+            domain: undefined,
+            relativePath: path,
+        };
+    }
+    return {
+        packageName: match[1]!,
+        domain: match[2]!,
+        relativePath: match[3] ?? "",
+    };
+}
+
+/**
+ * Reads entries in the tar archive of a backup.
+ */
+export async function* readAndroidBackupEntries(
+    tar: ReadableStream<Uint8Array>,
+): AsyncGenerator<AndroidBackupEntry, void, void> {
+    const buffered = new BufferedReadableStream(tar);
+
+    try {
+        let header: Uint8Array = EmptyUint8Array;
+        let extended = new Map<string, string>();
+
+        while (true) {
+            let block: Uint8Array;
+            try {
+                block = await buffered.readExactly(TarBlockSize);
+            } catch (e) {
+                if (e instanceof ExactReadableEndedError) {
+                    return;
+                }
+                throw e;
+            }
+
+            // End of archive
+            if (block.every((value) => value === 0)) {
+                return;
+            }
+
+            header = concatBuffers(header, block);
+
+            const type = String.fromCharCode(block[156]!);
+            let size = readTarNumber(block, 124, 12);
+
+            switch (type) {
+                case "x":
+                case "L": {
+                    // Extended header (PAX) or GNU long name for the next entry
+                    const data = await buffered.readExactly(
+                        size + getTarPadding(size),
+                    );
+                    header = concatBuffers(header, data);
+                    if (type === "x") {
+                        extended = parsePaxHeader(data.subarray(0, size));
+                    } else {
+                        extended.set("path", readTarString(data, 0, size));
+                    }
+                    continue;
+                }
+                case "g": {
+                    // Global extended header is not used by Android
+                    await buffered.readExactly(size + getTarPadding(size));
+                    header = EmptyUint8Array;
+                    continue;
+                }
+            }
+
+            let path = extended.get("path");
+            if (path === undefined) {
+                path = readTarString(block, 0, 100);
+                if (readTarString(block, 257, 5) === "ustar") {
+                    const prefix = readTarString(block, 345, 155);
+                    if (prefix) {
+                        path = prefix + "/" + path;
+                    }
+                }
+            }
+            const paxSize = extended.get("size");
+            if (paxSize !== undefined) {
+                size = Number.parseInt(paxSize, 10);
+            }
+
+            const iterator =
+                size > 0
+                    ? buffered.iterateExactly(size)
+                    : ([] as Uint8Array[]).values();
+            const entry: AndroidBackupEntry = {
+                path,
+                ...parseBackupPath(path),
+                directory: type === "5",
+                mode: readTarNumber(block, 100, 8),
+                size,
+                mtime: readTarNumber(block, 136, 12),
+                header,
+                content: new ReadableStream<Uint8Array>(
+                    {
+                        async pull(controller) {
+                            const { done, value } = iterator.next();
+                            if (done) {
+                                controller.close();
+                                return;
+                            }
+                            controller.enqueue(await value);
+                        },
+                    },
+                    { highWaterMark: 0 },
+                ),
+            };
+
+            header = EmptyUint8Array;
+            extended = new Map();
+
+            yield entry;
+
+            // Skip unread content
+            while (true) {
+                const { done, value } = iterator.next();
+                if (done) {
+                    break;
+                }
+                await value;
+            }
+
+            const padding = getTarPadding(size);
+            if (padding) {
+                await buffered.readExactly(padding);
+            }
+        }
+    } finally {
+        await buffered.cancel();
+    }
+}
+
+/**
+ * Creates a tar archive with entries matching `predicate`,
+ * to be passed to `createAndroidBackup`.
+ *
+ * For example, to restore only one app from a full backup:
+ *
+ * ```ts
+ * const { header, tar } = await readAndroidBackup(file, { inflate });
+ * const filtered = createAndroidBackup(
+ *     filterAndroidBackupEntries(tar, (entry) => entry.packageName === "com.example"),
+ *     { version: header.version, deflate },
+ * );
+ * ```
+ */
+export function filterAndroidBackupEntries(
+    tar: ReadableStream<Uint8Array>,
+    predicate: (entry: AndroidBackupEntry) => boolean,
+): ReadableStream<Uint8Array> {
+    return new PushReadableStream<Uint8Array>(async (controller) => {
+        const entries = readAndroidBackupEntries(tar);
+        try {
+            for await (const entry of entries) {
+                if (controller.abortSignal.aborted) {
+                    return;
+                }
+
+                if (!predicate(entry)) {
+                    continue;
+                }
+
+                await controller.enqueue(entry.header);
+
+                const reader = entry.content.getReader();
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        break;
+                    }
+                    await controller.enqueue(value);
+                }
+
+                const padding = getTarPadding(entry.size);
+                if (padding) {
+                    await controller.enqueue(new Uint8Array(padding));
+                }
+            }
+
+            // End of archive
+            await controller.enqueue(new Uint8Array(TarBlockSize * 2));
+        } finally {
+            await entries.return();
+        }
+    });
+}
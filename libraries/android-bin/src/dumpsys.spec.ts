@@ -0,0 +1,495 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import {
+    parseDumpSysActivities,
+    parseDumpSysActivityRecord,
+    parseDumpSysCpuInfo,
+    parseDumpSysGfxInfo,
+    parseDumpSysMemInfo,
+    parseDumpSysPackage,
+    parseDumpSysWindowDisplays,
+} from "./dumpsys.js";
+
+describe("DumpSys", () => {
+    describe("parseDumpSysMemInfo", () => {
+        it("should parse Android 14 format", () => {
+            const [process, ...rest] = parseDumpSysMemInfo(
+                `Applications Memory Usage (in Kilobytes):
+Uptime: 5960459 Realtime: 5960459
+
+** MEMINFO in pid 12345 [com.example] **
+                   Pss  Private  Private  SwapPss      Rss     Heap     Heap     Heap
+                 Total    Dirty    Clean    Dirty    Total     Size    Alloc     Free
+                ------   ------   ------   ------   ------   ------   ------   ------
+  Native Heap    10468    10408        0        0    12020    20480    14462     6017
+  Dalvik Heap     2250     2212        0       12     6284     3012     1006     2006
+        Stack      572      572        0        0      580
+      Unknown      452      452        0        0      728
+        TOTAL    31445    22404     4696       12    70736    23492    15468     8023
+
+ App Summary
+                       Pss(KB)                        Rss(KB)
+                        ------                         ------
+           Java Heap:     6280                          20016
+         Native Heap:    10408                          12020
+              System:     5129
+             Unknown:                                     728
+
+           TOTAL PSS:    31445            TOTAL RSS:    70736       TOTAL SWAP PSS:       12
+
+ Objects
+               Views:       13         ViewRootImpl:        1
+         AppContexts:        3           Activities:        1
+`,
+            );
+
+            assert.deepStrictEqual(rest, []);
+            assert.strictEqual(process!.pid, 12345);
+            assert.strictEqual(process!.processName, "com.example");
+            assert.deepStrictEqual(process!.columns, [
+                "Pss Total",
+                "Private Dirty",
+                "Private Clean",
+                "SwapPss Dirty",
+                "Rss Total",
+                "Heap Size",
+                "Heap Alloc",
+                "Heap Free",
+            ]);
+            assert.deepStrictEqual(process!.rows["Stack"], {
+                "Pss Total": 572,
+                "Private Dirty": 572,
+                "Private Clean": 0,
+                "SwapPss Dirty": 0,
+                "Rss Total": 580,
+            });
+            assert.strictEqual(
+                process!.rows["Native Heap"]!["Heap Free"],
+                6017,
+            );
+            assert.deepStrictEqual(process!.summary, {
+                "Java Heap": { pss: 6280, rss: 20016 },
+                "Native Heap": { pss: 10408, rss: 12020 },
+                System: { pss: 5129 },
+                Unknown: { rss: 728 },
+            });
+            assert.strictEqual(process!.totalPss, 31445);
+            assert.strictEqual(process!.totalRss, 70736);
+            assert.strictEqual(process!.totalSwapPss, 12);
+            assert.deepStrictEqual(process!.objects, {
+                Views: 13,
+                ViewRootImpl: 1,
+                AppContexts: 3,
+                Activities: 1,
+            });
+        });
+
+        it("should parse Android 5 format", () => {
+            const [process] = parseDumpSysMemInfo(
+                `Applications Memory Usage (kB):
+Uptime: 1000 Realtime: 1000
+
+** MEMINFO in pid 1234 [com.example] **
+                   Pss  Private  Private  Swapped     Heap     Heap     Heap
+                 Total    Dirty    Clean    Dirty     Size    Alloc     Free
+                ------   ------   ------   ------   ------   ------   ------
+  Native Heap     3000     2900        0        0     4000     3500      500
+        TOTAL     9000     8000      100        0     4000     3500      500
+`,
+            );
+            assert.strictEqual(
+                process!.rows["Native Heap"]!["Swapped Dirty"],
+                0,
+            );
+            assert.strictEqual(process!.totalPss, 9000);
+            assert.deepStrictEqual(process!.summary, {});
+        });
+
+        it("should return empty array when process not found", () => {
+            assert.deepStrictEqual(
+                parseDumpSysMemInfo("No process found for: com.example\n"),
+                [],
+            );
+        });
+    });
+
+    describe("parseDumpSysGfxInfo", () => {
+        it("should parse stats and frame timings", () => {
+            const [process] = parseDumpSysGfxInfo(
+                `Applications Graphics Acceleration Info:
+Uptime: 5960459 Realtime: 5960459
+
+** Graphics info for pid 12345 [com.example] **
+
+Stats since: 5950000000000ns
+Total frames rendered: 120
+Janky frames: 12 (10.00%)
+Janky frames (legacy): 6 (5.00%)
+50th percentile: 5ms
+90th percentile: 11ms
+95th percentile: 17ms
+99th percentile: 34ms
+Number Missed Vsync: 2
+Number High input latency: 0
+Number Slow UI thread: 7
+HISTOGRAM: 5ms=60 6ms=20 7ms=0
+50th gpu percentile: 2ms
+GPU HISTOGRAM: 1ms=10 2ms=50
+
+Profile data in ms:
+
+\tcom.example/com.example.MainActivity/android.view.ViewRootImpl@abc (visibility=0)
+---PROFILEDATA---
+Flags,IntendedVsync,Vsync,FrameCompleted,
+0,5959000000000,5959000000000,5959008000000,
+1,5959016666666,5959016666666,5959030000000,
+---PROFILEDATA---
+
+Window: com.example/com.example.MainActivity
+Stats since: 5955000000000ns
+Total frames rendered: 60
+`,
+            );
+
+            assert.strictEqual(process!.statsSince, 5950000000000n);
+            assert.strictEqual(process!.totalFrames, 120);
+            assert.strictEqual(process!.jankyFrames, 12);
+            assert.strictEqual(process!.jankyFramesLegacy, 6);
+            assert.deepStrictEqual(process!.percentiles, {
+                50: 5,
+                90: 11,
+                95: 17,
+                99: 34,
+            });
+            assert.deepStrictEqual(process!.gpuPercentiles, { 50: 2 });
+            assert.deepStrictEqual(process!.counters, {
+                "Missed Vsync": 2,
+                "High input latency": 0,
+                "Slow UI thread": 7,
+            });
+            assert.deepStrictEqual(process!.histogram, [
+                { duration: 5, count: 60 },
+                { duration: 6, count: 20 },
+                { duration: 7, count: 0 },
+            ]);
+            assert.strictEqual(process!.gpuHistogram.length, 2);
+            assert.deepStrictEqual(process!.frames, [
+                {
+                    Flags: 0n,
+                    IntendedVsync: 5959000000000n,
+                    Vsync: 5959000000000n,
+                    FrameCompleted: 5959008000000n,
+                },
+                {
+                    Flags: 1n,
+                    IntendedVsync: 5959016666666n,
+                    Vsync: 5959016666666n,
+                    FrameCompleted: 5959030000000n,
+                },
+            ]);
+        });
+    });
+
+    describe("parseDumpSysActivityRecord", () => {
+        it("should expand short class name", () => {
+            assert.deepStrictEqual(
+                parseDumpSysActivityRecord(
+                    "ActivityRecord{6a6f4b1 u10 com.example/.MainActivity t12}",
+                ),
+                {
+                    userId: 10,
+                    packageName: "com.example",
+                    className: "com.example.MainActivity",
+                    taskId: 12,
+                },
+            );
+            assert.strictEqual(parseDumpSysActivityRecord("null"), undefined);
+        });
+    });
+
+    describe("parseDumpSysActivities", () => {
+        it("should parse Android 13 format", () => {
+            const result = parseDumpSysActivities(
+                `ACTIVITY MANAGER ACTIVITIES (dumpsys activity activities)
+Display #0 (activities from top to bottom):
+  * Task{5b1c5c3 #12 type=standard A=10123:com.example U=0 visible=true visibleRequested=true mode=fullscreen translucent=false sz=2}
+    mLastPausedActivity: ActivityRecord{b1 u0 com.example/.LoginActivity t12}
+    * Hist  #1: ActivityRecord{a8b u0 com.example/.DetailActivity t12}
+    * Hist  #0: ActivityRecord{b1 u0 com.example/.LoginActivity t12}
+  * Task{c0ffee #1 type=home U=0 visible=false visibleRequested=false mode=fullscreen translucent=true sz=1}
+    * Task{d00d #3 type=home A=10080:com.android.launcher3 U=0 visible=false mode=fullscreen sz=1}
+      * Hist  #0: ActivityRecord{e1 u0 com.android.launcher3/.uioverrides.QuickstepLauncher t3}
+
+  Resumed activities in task display areas (from top to bottom):
+    ResumedActivity: ActivityRecord{a8b u0 com.example/.DetailActivity t12}
+
+  ResumedActivity: ActivityRecord{a8b u0 com.example/.DetailActivity t12}
+`,
+            );
+
+            assert.deepStrictEqual(result.resumedActivity, {
+                userId: 0,
+                packageName: "com.example",
+                className: "com.example.DetailActivity",
+                taskId: 12,
+            });
+            assert.deepStrictEqual(
+                result.tasks.map((task) => [
+                    task.id,
+                    task.displayId,
+                    task.type,
+                    task.mode,
+                    task.affinity,
+                    task.activities.map((activity) => activity.className),
+                ]),
+                [
+                    [
+                        12,
+                        0,
+                        "standard",
+                        "fullscreen",
+                        "com.example",
+                        [
+                            "com.example.DetailActivity",
+                            "com.example.LoginActivity",
+                        ],
+                    ],
+                    [1, 0, "home", "fullscreen", undefined, []],
+                    [
+                        3,
+                        0,
+                        "home",
+                        "fullscreen",
+                        "com.android.launcher3",
+                        ["com.android.launcher3.uioverrides.QuickstepLauncher"],
+                    ],
+                ],
+            );
+        });
+
+        it("should parse Android 9 format", () => {
+            const result = parseDumpSysActivities(
+                `ACTIVITY MANAGER ACTIVITIES (dumpsys activity activities)
+Display #0 (activities from top to bottom):
+  Stack #5: type=standard mode=fullscreen
+    Task id #20
+    * TaskRecord{f00 #20 A=com.example U=0 StackId=5 sz=1}
+        * Hist #0: ActivityRecord{ab u0 com.example/com.example.MainActivity t20}
+
+    Running activities (most recent first):
+      TaskRecord{f00 #20 A=com.example U=0 StackId=5 sz=1}
+        Run #0: ActivityRecord{ab u0 com.example/com.example.MainActivity t20}
+
+    mResumedActivity: ActivityRecord{ab u0 com.example/com.example.MainActivity t20}
+`,
+            );
+
+            assert.strictEqual(
+                result.resumedActivity?.className,
+                "com.example.MainActivity",
+            );
+            assert.strictEqual(result.tasks.length, 1);
+            assert.strictEqual(result.tasks[0]!.affinity, "com.example");
+            assert.strictEqual(result.tasks[0]!.userId, 0);
+            assert.strictEqual(result.tasks[0]!.activities.length, 1);
+        });
+    });
+
+    describe("parseDumpSysWindowDisplays", () => {
+        it("should parse displays", () => {
+            const displays = parseDumpSysWindowDisplays(
+                `WINDOW MANAGER DISPLAY CONTENTS (dumpsys window displays)
+  Display: mDisplayId=0 (organized)
+    init=1080x2400 420dpi base=720x1600 320dpi cur=2400x1080 app=2400x1017 rng=1080x1017-2400x2337
+    deferred=false mLayoutNeeded=false mTouchExcludeRegion=SkRegion((0,0,1080,2400))
+    mCurrentFocus=Window{9ab u0 com.example/com.example.MainActivity}
+    mFocusedApp=ActivityRecord{a8b u0 com.example/.MainActivity t12}
+    DisplayRotation
+      mCurrentAppOrientation=SCREEN_ORIENTATION_UNSPECIFIED
+      mCurrentRotation=ROTATION_90
+
+  Display: mDisplayId=2
+    init=1920x1080 320dpi cur=1920x1080 app=1920x1080 rng=1080x1080-1920x1920
+    mRotation=0 mAltOrientation=false
+`,
+            );
+
+            assert.deepStrictEqual(displays, [
+                {
+                    id: 0,
+                    initial: { width: 1080, height: 2400, density: 420 },
+                    base: { width: 720, height: 1600, density: 320 },
+                    current: { width: 2400, height: 1080, density: undefined },
+                    app: { width: 2400, height: 1017, density: undefined },
+                    currentFocus: "com.example/com.example.MainActivity",
+                    focusedApp: {
+                        userId: 0,
+                        packageName: "com.example",
+                        className: "com.example.MainActivity",
+                        taskId: 12,
+                    },
+                    rotation: 1,
+                },
+                {
+                    id: 2,
+                    initial: { width: 1920, height: 1080, density: 320 },
+                    base: undefined,
+                    current: { width: 1920, height: 1080, density: undefined },
+                    app: { width: 1920, height: 1080, density: undefined },
+                    rotation: 0,
+                },
+            ]);
+        });
+    });
+
+    describe("parseDumpSysCpuInfo", () => {
+        it("should parse load and processes", () => {
+            const result = parseDumpSysCpuInfo(
+                `Load: 10.5 / 9.8 / 8.1
+CPU usage from 60123ms to 123ms ago (2024-01-02 03:04:05.678 to 2024-01-02 03:05:05.678):
+  25% 1234/com.example: 20% user + 5% kernel / faults: 1234 minor 4 major
+  10% 567/system_server: 6.1% user + 3.9% kernel / faults: 100 minor
+  +0% 8901/com.example:remote: 0% user + 0% kernel
+  0.1% 89/kworker/u16:1: 0% user + 0.1% kernel
+30% TOTAL: 20% user + 8% kernel + 0.5% iowait + 1% irq + 0.5% softirq
+`,
+            );
+
+            assert.deepStrictEqual(result.load, [10.5, 9.8, 8.1]);
+            assert.deepStrictEqual(result.processes[0], {
+                pid: 1234,
+                name: "com.example",
+                usage: 25,
+                user: 20,
+                kernel: 5,
+                minorFaults: 1234,
+                majorFaults: 4,
+            });
+            assert.deepStrictEqual(
+                result.processes.map((process) => process.name),
+                [
+                    "com.example",
+                    "system_server",
+                    "com.example:remote",
+                    "kworker/u16:1",
+                ],
+            );
+            assert.strictEqual(result.processes[1]!.majorFaults, undefined);
+            assert.deepStrictEqual(result.total, {
+                usage: 30,
+                breakdown: {
+                    user: 20,
+                    kernel: 8,
+                    iowait: 0.5,
+                    irq: 1,
+                    softirq: 0.5,
+                },
+            });
+        });
+    });
+
+    describe("parseDumpSysPackage", () => {
+        const output = `Activity Resolver Table:
+  Non-Data Actions:
+      android.intent.action.MAIN:
+        a1b2c3 com.example/.MainActivity filter d4e5f6
+
+Packages:
+  Package [com.example] (c0ffee):
+    appId=10123
+    pkg=Package{beef com.example}
+    codePath=/data/app/~~abc==/com.example-def==
+    versionCode=42 minSdk=21 targetSdk=34
+    versionName=1.2.3
+    flags=[ HAS_CODE ALLOW_CLEAR_USER_DATA ]
+    timeStamp=2024-01-02 03:04:05
+    firstInstallTime=2024-01-01 00:00:00
+    lastUpdateTime=2024-01-02 03:04:05
+    requested permissions:
+      android.permission.INTERNET
+      android.permission.CAMERA
+      android.permission.ACCESS_FINE_LOCATION: restricted=true
+    install permissions:
+      android.permission.INTERNET: granted=true
+    User 0: ceDataInode=12345 installed=true hidden=false suspended=false stopped=false
+      gids=[3003]
+      runtime permissions:
+        android.permission.CAMERA: granted=true, flags=[ USER_SET|USER_SENSITIVE_WHEN_GRANTED ]
+        android.permission.ACCESS_FINE_LOCATION: granted=false, flags=[ USER_SENSITIVE_WHEN_GRANTED ]
+    User 10: ceDataInode=0 installed=false hidden=false suspended=false stopped=true
+      runtime permissions:
+
+Hidden system packages:
+  Package [com.example] (bad):
+    versionCode=1 minSdk=21 targetSdk=34
+`;
+
+        it("should parse package info", () => {
+            assert.deepStrictEqual(parseDumpSysPackage(output, "com.example"), {
+                packageName: "com.example",
+                appId: 10123,
+                codePath: "/data/app/~~abc==/com.example-def==",
+                versionCode: 42,
+                minSdk: 21,
+                targetSdk: 34,
+                versionName: "1.2.3",
+                firstInstallTime: "2024-01-01 00:00:00",
+                lastUpdateTime: "2024-01-02 03:04:05",
+                requestedPermissions: [
+                    "android.permission.INTERNET",
+                    "android.permission.CAMERA",
+                    "android.permission.ACCESS_FINE_LOCATION",
+                ],
+                installPermissions: {
+                    "android.permission.INTERNET": true,
+                },
+                users: {
+                    0: {
+                        installed: true,
+                        runtimePermissions: {
+                            "android.permission.CAMERA": true,
+                            "android.permission.ACCESS_FINE_LOCATION": false,
+                        },
+                        grantedPermissions: [
+                            "android.permission.INTERNET",
+                            "android.permission.CAMERA",
+                        ],
+                    },
+                    10: {
+                        installed: false,
+                        runtimePermissions: {},
+                        grantedPermissions: ["android.permission.INTERNET"],
+                    },
+                },
+            });
+        });
+
+        it("should parse `grantedPermissions` before Android 6", () => {
+            const result = parseDumpSysPackage(
+                `Packages:
+  Package [com.example] (c0ffee):
+    userId=10050 gids=[3003]
+    versionCode=7 targetSdk=19
+    grantedPermissions:
+      android.permission.INTERNET
+    User 0:  installed=true hidden=false stopped=false notLaunched=false enabled=0
+`,
+                "com.example",
+            );
+            assert.strictEqual(result!.appId, 10050);
+            assert.strictEqual(result!.versionCode, 7);
+            assert.strictEqual(result!.minSdk, undefined);
+            assert.deepStrictEqual(result!.users[0]!.grantedPermissions, [
+                "android.permission.INTERNET",
+            ]);
+        });
+
+        it("should return `undefined` when not installed", () => {
+            assert.strictEqual(
+                parseDumpSysPackage("Dexopt state:\n", "com.example"),
+                undefined,
+            );
+        });
+    });
+});
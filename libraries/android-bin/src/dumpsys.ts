@@ -54,6 +54,693 @@ const Battery = {
     Health,
 };
 
+function splitLines(output: string) {
+    return output.split("\n").map((line) => line.trimEnd());
+}
+
+function getIndent(line: string) {
+    return line.length - line.trimStart().length;
+}
+
+function parseOptionalInt(value: string | undefined) {
+    return value !== undefined ? Number.parseInt(value, 10) : undefined;
+}
+
+// `dumpsys meminfo` and `dumpsys gfxinfo` print a section for each matched process
+const ProcessHeaderRegex =
+    /^\*\* (?:MEMINFO in|Graphics info for) pid (\d+) \[(.*)\] \*\*$/;
+
+// Tables in `dumpsys meminfo` have right-aligned columns,
+// with a separator line (`------`) under the header lines.
+const TableSeparatorRegex = /^\s*-+(?:\s+-+)*$/;
+
+interface TableColumn {
+    name: string;
+    end: number;
+}
+
+function parseTableColumns(
+    headers: readonly (string | undefined)[],
+    separator: string,
+): TableColumn[] {
+    const columns: TableColumn[] = [];
+    let start = 0;
+    for (const match of separator.matchAll(/-+/g)) {
+        const end = match.index + match[0].length;
+        columns.push({
+            name: headers
+                .map((header) => header?.substring(start, end).trim() ?? "")
+                .filter(Boolean)
+                .join(" "),
+            end,
+        });
+        start = end;
+    }
+    return columns;
+}
+
+/**
+ * Maps each number in `line` (starting from `offset`) to the column
+ * it's aligned to, because some rows leave cells empty.
+ */
+function parseTableRow(
+    line: string,
+    offset: number,
+    columns: readonly TableColumn[],
+) {
+    const result: Record<string, number> = {};
+    const regex = /-?\d+/g;
+    regex.lastIndex = offset;
+    for (const match of line.matchAll(regex)) {
+        const end = match.index + match[0].length;
+        let column: TableColumn | undefined;
+        for (const item of columns) {
+            if (
+                !column ||
+                Math.abs(item.end - end) < Math.abs(column.end - end)
+            ) {
+                column = item;
+            }
+        }
+        if (column) {
+            result[column.name] = Number.parseInt(match[0], 10);
+        }
+    }
+    return result;
+}
+
+const MemInfoSection = {
+    Table: 0,
+    Summary: 1,
+    Objects: 2,
+    Other: 3,
+} as const;
+
+type MemInfoSection = (typeof MemInfoSection)[keyof typeof MemInfoSection];
+
+const MemInfoSectionNames: Record<string, MemInfoSection | undefined> = {
+    "App Summary": MemInfoSection.Summary,
+    Objects: MemInfoSection.Objects,
+    SQL: MemInfoSection.Other,
+    DATABASES: MemInfoSection.Other,
+    "Asset Allocations": MemInfoSection.Other,
+    "Unreachable memory": MemInfoSection.Other,
+};
+
+function setMemInfoTotals(process: DumpSys.MemInfo.Process, line: string) {
+    for (const [, name, value] of line.matchAll(
+        /(TOTAL[A-Z ()]*?):\s+(\d+)/g,
+    )) {
+        const total = Number.parseInt(value!, 10);
+        switch (name) {
+            case "TOTAL":
+            case "TOTAL PSS":
+                process.totalPss = total;
+                break;
+            case "TOTAL RSS":
+                process.totalRss = total;
+                break;
+            case "TOTAL SWAP PSS":
+            case "TOTAL SWAP (KB)":
+                process.totalSwapPss = total;
+                break;
+        }
+    }
+}
+
+/**
+ * Parses the output of `dumpsys meminfo <package>`.
+ *
+ * All values are in kilobytes.
+ */
+export function parseDumpSysMemInfo(output: string): DumpSys.MemInfo.Process[] {
+    const result: DumpSys.MemInfo.Process[] = [];
+    let process: DumpSys.MemInfo.Process | undefined;
+    let section: MemInfoSection = MemInfoSection.Table;
+    let columns: TableColumn[] | undefined;
+
+    const lines = splitLines(output);
+    for (let i = 0; i < lines.length; i += 1) {
+        const line = lines[i]!;
+
+        const header = line.match(ProcessHeaderRegex);
+        if (header) {
+            process = {
+                pid: Number.parseInt(header[1]!, 10),
+                processName: header[2]!,
+                columns: [],
+                rows: {},
+                summary: {},
+                objects: {},
+            };
+            result.push(process);
+            section = MemInfoSection.Table;
+            columns = undefined;
+            continue;
+        }
+
+        if (!process) {
+            continue;
+        }
+
+        const trimmed = line.trim();
+        if (!trimmed) {
+            continue;
+        }
+
+        const nextSection = MemInfoSectionNames[trimmed];
+        if (nextSection !== undefined) {
+            section = nextSection;
+            columns = undefined;
+            continue;
+        }
+
+        if (TableSeparatorRegex.test(line)) {
+            if (section === MemInfoSection.Table) {
+                columns = parseTableColumns([lines[i - 2], lines[i - 1]], line);
+                process.columns = columns.map((column) => column.name);
+            } else if (section === MemInfoSection.Summary) {
+                columns = parseTableColumns([lines[i - 1]], line);
+            }
+            continue;
+        }
+
+        switch (section) {
+            case MemInfoSection.Table: {
+                const match = line.match(/^\s*(.+?)\s+-?\d+(?:\s+-?\d+)*$/);
+                if (!columns || !match) {
+                    break;
+                }
+                process.rows[match[1]!] = parseTableRow(
+                    line,
+                    match[1]!.length + getIndent(line),
+                    columns,
+                );
+                break;
+            }
+            case MemInfoSection.Summary: {
+                if (trimmed.startsWith("TOTAL")) {
+                    setMemInfoTotals(process, line);
+                    break;
+                }
+
+                const match = line.match(/^\s*([^:]+):/);
+                if (!columns || !match) {
+                    break;
+                }
+                const row = parseTableRow(line, match[0].length, columns);
+                const value: DumpSys.MemInfo.SummaryValue = {};
+                for (const [name, size] of Object.entries(row)) {
+                    if (name.startsWith("Pss")) {
+                        value.pss = size;
+                    } else if (name.startsWith("Rss")) {
+                        value.rss = size;
+                    }
+                }
+                process.summary[match[1]!.trim()] = value;
+                break;
+            }
+            case MemInfoSection.Objects:
+                for (const [, name, value] of line.matchAll(
+                    /\s*([^:]+?):\s+(\d+)/g,
+                )) {
+                    process.objects[name!] = Number.parseInt(value!, 10);
+                }
+                break;
+        }
+    }
+
+    for (const process of result) {
+        // Before Android 6, `App Summary` doesn't exist
+        process.totalPss ??= process.rows["TOTAL"]?.["Pss Total"];
+    }
+
+    return result;
+}
+
+function parseGfxInfoHistogram(value: string) {
+    const result: DumpSys.GfxInfo.HistogramBucket[] = [];
+    for (const [, duration, count] of value.matchAll(/(\d+)ms=(\d+)/g)) {
+        result.push({
+            duration: Number.parseInt(duration!, 10),
+            count: Number.parseInt(count!, 10),
+        });
+    }
+    return result;
+}
+
+function parseGfxInfoStats(process: DumpSys.GfxInfo.Process, line: string) {
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(/^Stats since: (\d+)ns$/))) {
+        process.statsSince ??= BigInt(match[1]!);
+    } else if ((match = line.match(/^Total frames rendered: (\d+)$/))) {
+        process.totalFrames ??= Number.parseInt(match[1]!, 10);
+    } else if ((match = line.match(/^Janky frames: (\d+)/))) {
+        process.jankyFrames ??= Number.parseInt(match[1]!, 10);
+    } else if ((match = line.match(/^Janky frames \(legacy\): (\d+)/))) {
+        process.jankyFramesLegacy ??= Number.parseInt(match[1]!, 10);
+    } else if ((match = line.match(/^(\d+)th (gpu )?percentile: (\d+)ms$/))) {
+        const percentiles = match[2]
+            ? process.gpuPercentiles
+            : process.percentiles;
+        percentiles[Number.parseInt(match[1]!, 10)] ??= Number.parseInt(
+            match[3]!,
+            10,
+        );
+    } else if ((match = line.match(/^Number ([^:]+): (\d+)$/))) {
+        process.counters[match[1]!] ??= Number.parseInt(match[2]!, 10);
+    } else if ((match = line.match(/^(GPU )?HISTOGRAM: (.*)$/))) {
+        const key = match[1] ? "gpuHistogram" : "histogram";
+        if (process[key].length === 0) {
+            process[key] = parseGfxInfoHistogram(match[2]!);
+        }
+    }
+}
+
+/**
+ * Parses the output of `dumpsys gfxinfo <package> framestats`.
+ *
+ * On Android 12 and above, statistics are also printed for each window,
+ * only the first (process-wide) ones are returned.
+ */
+export function parseDumpSysGfxInfo(output: string): DumpSys.GfxInfo.Process[] {
+    const result: DumpSys.GfxInfo.Process[] = [];
+    let process: DumpSys.GfxInfo.Process | undefined;
+    let inProfileData = false;
+    let profileColumns: string[] | undefined;
+
+    for (const line of splitLines(output)) {
+        const header = line.match(ProcessHeaderRegex);
+        if (header) {
+            process = {
+                pid: Number.parseInt(header[1]!, 10),
+                processName: header[2]!,
+                percentiles: {},
+                gpuPercentiles: {},
+                counters: {},
+                histogram: [],
+                gpuHistogram: [],
+                frames: [],
+            };
+            result.push(process);
+            inProfileData = false;
+            continue;
+        }
+
+        if (!process) {
+            continue;
+        }
+
+        const trimmed = line.trim();
+        if (trimmed === "---PROFILEDATA---") {
+            inProfileData = !inProfileData;
+            profileColumns = undefined;
+            continue;
+        }
+
+        if (!inProfileData) {
+            parseGfxInfoStats(process, trimmed);
+            continue;
+        }
+
+        if (!trimmed) {
+            continue;
+        }
+
+        const cells = trimmed.split(",").filter(Boolean);
+        if (!profileColumns) {
+            profileColumns = cells;
+            continue;
+        }
+
+        const frame: Record<string, bigint> = {};
+        for (let i = 0; i < cells.length && i < profileColumns.length; i += 1) {
+            if (/^-?\d+$/.test(cells[i]!)) {
+                frame[profileColumns[i]!] = BigInt(cells[i]!);
+            }
+        }
+        process.frames.push(frame);
+    }
+
+    return result;
+}
+
+const ActivityRecordRegex =
+    /ActivityRecord\{[0-9a-f]+ u(\d+) ([^\s/}]+)\/([^\s}]+)(?: t(-?\d+))?/;
+
+/**
+ * Parses an `ActivityRecord` in `dumpsys` output,
+ * for example `ActivityRecord{6a6f4b1 u0 com.example/.MainActivity t12}`.
+ */
+export function parseDumpSysActivityRecord(
+    value: string,
+): DumpSys.Activity.ActivityRecord | undefined {
+    const match = value.match(ActivityRecordRegex);
+    if (!match) {
+        return undefined;
+    }
+
+    const packageName = match[2]!;
+    let className = match[3]!;
+    if (className.startsWith(".")) {
+        className = packageName + className;
+    }
+
+    return {
+        userId: Number.parseInt(match[1]!, 10),
+        packageName,
+        className,
+        taskId: parseOptionalInt(match[4]),
+    };
+}
+
+/**
+ * Parses the output of `dumpsys activity activities`.
+ */
+export function parseDumpSysActivities(
+    output: string,
+): DumpSys.Activity.Activities {
+    const result: DumpSys.Activity.Activities = { tasks: [] };
+    let displayId: number | undefined;
+    let task: DumpSys.Activity.Task | undefined;
+
+    for (const line of splitLines(output)) {
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^\s*Display #(\d+)/))) {
+            displayId = Number.parseInt(match[1]!, 10);
+            task = undefined;
+        } else if (
+            (match = line.match(/\* Task(?:Record)?\{[0-9a-f]+ #(\d+)(.*)\}/))
+        ) {
+            // Android 12 changed `TaskRecord` to `Task`,
+            // `A=` (affinity) may include the UID.
+            const properties = match[2]!;
+            task = {
+                id: Number.parseInt(match[1]!, 10),
+                displayId,
+                type: properties.match(/\btype=(\w+)/)?.[1],
+                mode: properties.match(/\bmode=(\w+)/)?.[1],
+                affinity: properties.match(/\bA=(?:\d+:)?(\S+)/)?.[1],
+                userId: parseOptionalInt(properties.match(/\bU=(\d+)/)?.[1]),
+                activities: [],
+            };
+            result.tasks.push(task);
+        } else if ((match = line.match(/^\s*\* Hist\s+#\d+: (.*)$/))) {
+            const activity = parseDumpSysActivityRecord(match[1]!);
+            if (task && activity) {
+                task.activities.push(activity);
+            }
+        } else if (
+            !result.resumedActivity &&
+            (match = line.match(
+                /\b(?:mResumedActivity|ResumedActivity|topResumedActivity)[:=]\s*(.*)$/,
+            ))
+        ) {
+            result.resumedActivity = parseDumpSysActivityRecord(match[1]!);
+        }
+    }
+
+    return result;
+}
+
+function parseDisplaySize(
+    line: string,
+    name: string,
+): DumpSys.Window.DisplaySize | undefined {
+    const match = line.match(
+        new RegExp(String.raw`\b${name}=(\d+)x(\d+)(?: (\d+)dpi)?`),
+    );
+    if (!match) {
+        return undefined;
+    }
+
+    return {
+        width: Number.parseInt(match[1]!, 10),
+        height: Number.parseInt(match[2]!, 10),
+        density: parseOptionalInt(match[3]),
+    };
+}
+
+/**
+ * Parses the output of `dumpsys window displays`.
+ */
+export function parseDumpSysWindowDisplays(
+    output: string,
+): DumpSys.Window.Display[] {
+    const result: DumpSys.Window.Display[] = [];
+    let display: DumpSys.Window.Display | undefined;
+
+    for (const line of splitLines(output)) {
+        let match = line.match(/^\s*Display: mDisplayId=(\d+)/);
+        if (match) {
+            display = { id: Number.parseInt(match[1]!, 10) };
+            result.push(display);
+            continue;
+        }
+
+        if (!display) {
+            continue;
+        }
+
+        if (line.includes(" init=")) {
+            display.initial ??= parseDisplaySize(line, "init");
+            display.base ??= parseDisplaySize(line, "base");
+            display.current ??= parseDisplaySize(line, "cur");
+            display.app ??= parseDisplaySize(line, "app");
+        }
+
+        // Before Android 10: `mRotation=1`
+        // Android 10 and above: `mCurrentRotation=ROTATION_90`
+        if (
+            display.rotation === undefined &&
+            (match = line.match(/\bmRotation=(\d)\b/))
+        ) {
+            display.rotation = Number.parseInt(match[1]!, 10);
+        } else if (
+            display.rotation === undefined &&
+            (match = line.match(/\bmCurrentRotation=ROTATION_(\d+)/))
+        ) {
+            display.rotation = Number.parseInt(match[1]!, 10) / 90;
+        }
+
+        if (
+            (match = line.match(
+                /\bmCurrentFocus=Window\{[0-9a-f]+ u\d+ ([^}]*)\}/,
+            ))
+        ) {
+            display.currentFocus ??= match[1]!;
+        }
+
+        if ((match = line.match(/\bmFocusedApp=(.*)$/))) {
+            display.focusedApp ??= parseDumpSysActivityRecord(match[1]!);
+        }
+    }
+
+    return result;
+}
+
+function parseCpuInfoBreakdown(value: string) {
+    const result: Record<string, number> = {};
+    for (const [, percent, name] of value.matchAll(/([\d.]+)% ([\w-]+)/g)) {
+        result[name!] = Number.parseFloat(percent!);
+    }
+    return result;
+}
+
+/**
+ * Parses the output of `dumpsys cpuinfo`.
+ *
+ * All usages are in percentage of one CPU core, so they can exceed 100.
+ */
+export function parseDumpSysCpuInfo(output: string): DumpSys.CpuInfo.Info {
+    const result: DumpSys.CpuInfo.Info = { processes: [] };
+
+    for (const line of splitLines(output)) {
+        let match = line.match(/^Load: ([\d.]+) \/ ([\d.]+) \/ ([\d.]+)/);
+        if (match) {
+            result.load = [
+                Number.parseFloat(match[1]!),
+                Number.parseFloat(match[2]!),
+                Number.parseFloat(match[3]!),
+            ];
+            continue;
+        }
+
+        match = line.match(/^\s*([\d.]+)% TOTAL: (.*)$/);
+        if (match) {
+            result.total = {
+                usage: Number.parseFloat(match[1]!),
+                breakdown: parseCpuInfoBreakdown(match[2]!),
+            };
+            continue;
+        }
+
+        // Processes started or exited during sampling are prefixed with `+` or `-`
+        match = line.match(/^\s*[+-]?([\d.]+)% (\d+)\/(.+?): (.*)$/);
+        if (match) {
+            const breakdown = parseCpuInfoBreakdown(match[4]!);
+            const faults = match[4]!.match(
+                /faults: (\d+) minor(?: (\d+) major)?/,
+            );
+            result.processes.push({
+                pid: Number.parseInt(match[2]!, 10),
+                name: match[3]!,
+                usage: Number.parseFloat(match[1]!),
+                user: breakdown["user"] ?? 0,
+                kernel: breakdown["kernel"] ?? 0,
+                minorFaults: parseOptionalInt(faults?.[1]),
+                majorFaults: parseOptionalInt(faults?.[2]),
+            });
+        }
+    }
+
+    return result;
+}
+
+function parsePermissionState(line: string) {
+    const match = line.match(/^\s*([^\s:]+): granted=(true|false)/);
+    if (!match) {
+        return undefined;
+    }
+    return [match[1]!, match[2] === "true"] as const;
+}
+
+const PackageFieldRegex = {
+    appId: /^\s*(?:userId|appId)=(\d+)/,
+    versionCode: /^\s*versionCode=(\d+)/,
+    minSdk: /\bminSdk=(\d+)/,
+    targetSdk: /\btargetSdk=(\d+)/,
+} as const;
+
+/**
+ * Parses the output of `dumpsys package <package>`.
+ *
+ * Returns `undefined` if the package is not installed.
+ */
+export function parseDumpSysPackage(
+    output: string,
+    packageName: string,
+): DumpSys.Package.Info | undefined {
+    const lines = splitLines(output);
+    const start = lines.findIndex((line) =>
+        line.trim().startsWith(`Package [${packageName}]`),
+    );
+    if (start === -1) {
+        return undefined;
+    }
+
+    const result: DumpSys.Package.Info = {
+        packageName,
+        requestedPermissions: [],
+        installPermissions: {},
+        users: {},
+    };
+    // Before Android 6, all permissions are install-time permissions
+    const grantedPermissions: string[] = [];
+    const packageIndent = getIndent(lines[start]!);
+
+    let list: string | undefined;
+    let listIndent = 0;
+    let user: DumpSys.Package.User | undefined;
+
+    for (const line of lines.slice(start + 1)) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        const indent = getIndent(line);
+        if (indent <= packageIndent) {
+            break;
+        }
+
+        if (list !== undefined && indent > listIndent) {
+            const item = line.trim();
+            switch (list) {
+                case "requested permissions":
+                    // Android 11 added restrictions like `restricted=true`
+                    result.requestedPermissions.push(item.split(/[\s:,]/)[0]!);
+                    break;
+                case "grantedPermissions":
+                    grantedPermissions.push(item);
+                    break;
+                case "install permissions": {
+                    const state = parsePermissionState(line);
+                    if (state) {
+                        result.installPermissions[state[0]] = state[1];
+                    }
+                    break;
+                }
+                case "runtime permissions": {
+                    const state = parsePermissionState(line);
+                    if (state && user) {
+                        user.runtimePermissions[state[0]] = state[1];
+                    }
+                    break;
+                }
+            }
+            continue;
+        }
+        list = undefined;
+
+        let match = line.match(/^\s*([\w ]+):$/);
+        if (match) {
+            list = match[1]!;
+            listIndent = indent;
+            continue;
+        }
+
+        match = line.match(/^\s*User (\d+):(.*)$/);
+        if (match) {
+            const installed = match[2]!.match(/\binstalled=(true|false)/)?.[1];
+            user = {
+                installed:
+                    installed !== undefined ? installed === "true" : undefined,
+                runtimePermissions: {},
+                grantedPermissions: [],
+            };
+            result.users[Number.parseInt(match[1]!, 10)] = user;
+            continue;
+        }
+
+        for (const [key, regex] of Object.entries(PackageFieldRegex)) {
+            const value = line.match(regex)?.[1];
+            if (value !== undefined) {
+                result[key as keyof typeof PackageFieldRegex] ??=
+                    Number.parseInt(value, 10);
+            }
+        }
+
+        match = line.match(
+            /^\s*(versionName|codePath|firstInstallTime|lastUpdateTime)=(.*)$/,
+        );
+        if (match) {
+            result[
+                match[1] as
+                    | "versionName"
+                    | "codePath"
+                    | "firstInstallTime"
+                    | "lastUpdateTime"
+            ] ??= match[2]!;
+        }
+    }
+
+    for (const [name, granted] of Object.entries(result.installPermissions)) {
+        if (granted) {
+            grantedPermissions.push(name);
+        }
+    }
+    for (const user of Object.values(result.users)) {
+        user.grantedPermissions.push(...grantedPermissions);
+        for (const [name, granted] of Object.entries(user.runtimePermissions)) {
+            if (granted) {
+                user.grantedPermissions.push(name);
+            }
+        }
+    }
+
+    return result;
+}
+
 export class DumpSys extends AdbServiceBase {
     static readonly Battery = Battery;
 
@@ -134,6 +821,67 @@ export class DumpSys extends AdbServiceBase {
 
         return info;
     }
+
+    async #dump(args: string[]) {
+        return await this.adb.subprocess.noneProtocol.spawnWaitText([
+            "dumpsys",
+            ...args,
+        ]);
+    }
+
+    /**
+     * Gets memory usage of processes of `packageName` (or a single process by PID).
+     */
+    async memInfo(
+        packageNameOrPid: string | number,
+    ): Promise<DumpSys.MemInfo.Process[]> {
+        return parseDumpSysMemInfo(
+            await this.#dump(["meminfo", packageNameOrPid.toString()]),
+        );
+    }
+
+    /**
+     * Gets rendering statistics and timing of recent frames
+     * of processes of `packageName`.
+     */
+    async gfxInfo(packageName: string): Promise<DumpSys.GfxInfo.Process[]> {
+        return parseDumpSysGfxInfo(
+            await this.#dump(["gfxinfo", packageName, "framestats"]),
+        );
+    }
+
+    /**
+     * Gets the resumed activity and the task stack.
+     */
+    async activities(): Promise<DumpSys.Activity.Activities> {
+        return parseDumpSysActivities(
+            await this.#dump(["activity", "activities"]),
+        );
+    }
+
+    async windowDisplays(): Promise<DumpSys.Window.Display[]> {
+        return parseDumpSysWindowDisplays(
+            await this.#dump(["window", "displays"]),
+        );
+    }
+
+    async cpuInfo(): Promise<DumpSys.CpuInfo.Info> {
+        return parseDumpSysCpuInfo(await this.#dump(["cpuinfo"]));
+    }
+
+    /**
+     * Gets version and permission information of `packageName`.
+     *
+     * Returns `undefined` if the package is not installed.
+     */
+    async packageInfo(
+        packageName: string,
+    ): Promise<DumpSys.Package.Info | undefined> {
+        return parseDumpSysPackage(
+            await this.#dump(["package", packageName]),
+            packageName,
+        );
+    }
 }
 
 export namespace DumpSys {
@@ -160,4 +908,214 @@ export namespace DumpSys {
             current?: number;
         }
     }
+
+    export namespace MemInfo {
+        export interface SummaryValue {
+            pss?: number | undefined;
+            rss?: number | undefined;
+        }
+
+        export interface Process {
+            pid: number;
+            processName: string;
+            /**
+             * Column names of the main table, for example `Pss Total` and `Private Dirty`.
+             *
+             * Columns differ between Android versions.
+             */
+            columns: string[];
+            /**
+             * Rows of the main table, for example `rows["Native Heap"]["Pss Total"]`.
+             */
+            rows: Record<string, Record<string, number>>;
+            /**
+             * The `App Summary` section, for example `summary["Java Heap"].pss`.
+             */
+            summary: Record<string, SummaryValue>;
+            totalPss?: number | undefined;
+            totalRss?: number | undefined;
+            totalSwapPss?: number | undefined;
+            /**
+             * The `Objects` section, for example `objects["Activities"]`.
+             */
+            objects: Record<string, number>;
+        }
+    }
+
+    export namespace GfxInfo {
+        export interface HistogramBucket {
+            /**
+             * Frame duration in milliseconds.
+             */
+            duration: number;
+            count: number;
+        }
+
+        export interface Process {
+            pid: number;
+            processName: string;
+            /**
+             * Start of the statistics, in nanoseconds of system uptime.
+             */
+            statsSince?: bigint | undefined;
+            totalFrames?: number | undefined;
+            jankyFrames?: number | undefined;
+            jankyFramesLegacy?: number | undefined;
+            /**
+             * Frame durations in milliseconds, keyed by percentile (50, 90, 95 and 99).
+             */
+            percentiles: Record<number, number>;
+            gpuPercentiles: Record<number, number>;
+            /**
+             * Jank reasons, for example `Missed Vsync` and `Slow UI thread`.
+             */
+            counters: Record<string, number>;
+            histogram: HistogramBucket[];
+            gpuHistogram: HistogramBucket[];
+            /**
+             * Timings of recent frames, keyed by column names,
+             * for example `frame["IntendedVsync"]` and `frame["FrameCompleted"]`.
+             *
+             * Timestamps are in nanoseconds of system uptime.
+             */
+            frames: Record<string, bigint>[];
+        }
+    }
+
+    export namespace Activity {
+        export interface ActivityRecord {
+            userId: number;
+            packageName: string;
+            /**
+             * The fully qualified class name.
+             */
+            className: string;
+            taskId?: number | undefined;
+        }
+
+        export interface Task {
+            id: number;
+            displayId?: number | undefined;
+            /**
+             * Activity type, for example `standard` and `home`. Android 10 and above.
+             */
+            type?: string | undefined;
+            /**
+             * Windowing mode, for example `fullscreen`. Android 12 and above.
+             */
+            mode?: string | undefined;
+            affinity?: string | undefined;
+            userId?: number | undefined;
+            /**
+             * Activities in this task, from top to bottom.
+             */
+            activities: ActivityRecord[];
+        }
+
+        export interface Activities {
+            resumedActivity?: ActivityRecord | undefined;
+            /**
+             * All tasks, from top to bottom.
+             */
+            tasks: Task[];
+        }
+    }
+
+    export namespace Window {
+        export interface DisplaySize {
+            width: number;
+            height: number;
+            density?: number | undefined;
+        }
+
+        export interface Display {
+            id: number;
+            /**
+             * The physical size and density.
+             */
+            initial?: DisplaySize | undefined;
+            /**
+             * The size and density after `wm size` and `wm density` overrides.
+             */
+            base?: DisplaySize | undefined;
+            /**
+             * The current size, including rotation.
+             */
+            current?: DisplaySize | undefined;
+            /**
+             * The size available to apps, excluding system bars.
+             */
+            app?: DisplaySize | undefined;
+            /**
+             * 0 to 3, for 0, 90, 180 and 270 degrees.
+             */
+            rotation?: number | undefined;
+            /**
+             * Title of the focused window, usually `<package>/<activity>`.
+             */
+            currentFocus?: string | undefined;
+            focusedApp?: Activity.ActivityRecord | undefined;
+        }
+    }
+
+    export namespace CpuInfo {
+        export interface Process {
+            pid: number;
+            name: string;
+            usage: number;
+            user: number;
+            kernel: number;
+            minorFaults?: number | undefined;
+            majorFaults?: number | undefined;
+        }
+
+        export interface Total {
+            usage: number;
+            /**
+             * For example `user`, `kernel`, `iowait`, `irq` and `softirq`.
+             */
+            breakdown: Record<string, number>;
+        }
+
+        export interface Info {
+            /**
+             * Load averages of last 1, 5 and 15 minutes.
+             */
+            load?: [number, number, number] | undefined;
+            /**
+             * Processes sorted by CPU usage.
+             */
+            processes: Process[];
+            total?: Total | undefined;
+        }
+    }
+
+    export namespace Package {
+        export interface User {
+            installed?: boolean | undefined;
+            runtimePermissions: Record<string, boolean>;
+            /**
+             * Granted install-time permissions and runtime permissions.
+             */
+            grantedPermissions: string[];
+        }
+
+        export interface Info {
+            packageName: string;
+            appId?: number | undefined;
+            versionCode?: number | undefined;
+            versionName?: string | undefined;
+            minSdk?: number | undefined;
+            targetSdk?: number | undefined;
+            codePath?: string | undefined;
+            firstInstallTime?: string | undefined;
+            lastUpdateTime?: string | undefined;
+            requestedPermissions: string[];
+            installPermissions: Record<string, boolean>;
+            /**
+             * Keyed by user ID.
+             */
+            users: Record<number, User>;
+        }
+    }
 }
@@ -0,0 +1,175 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import {
+    AndroidEventLogTagFieldType,
+    AndroidEventLogTags,
+    AndroidEventLogType,
+    decodeAndroidEventLogPayload,
+    formatAndroidEventLogValue,
+} from "./event-log.js";
+
+function int32(value: number) {
+    const result = new Uint8Array(4);
+    new DataView(result.buffer).setInt32(0, value, true);
+    return result;
+}
+
+function int(value: number) {
+    return [AndroidEventLogType.Int, ...int32(value)];
+}
+
+function string(value: string) {
+    const bytes = encodeUtf8(value);
+    return [AndroidEventLogType.String, ...int32(bytes.length), ...bytes];
+}
+
+// `am_proc_start` from an Android 14 device
+const AmProcStartPayload = new Uint8Array([
+    ...int32(30014),
+    AndroidEventLogType.List,
+    6,
+    ...int(0),
+    ...int(1234),
+    ...int(10123),
+    ...string("com.example"),
+    ...string("activity"),
+    ...string("{com.example/com.example.MainActivity}"),
+]);
+
+const EventLogTagsText = [
+    "# The entries in this file map a sparse set of log tag numbers to tag names.",
+    "42 answer (to life the universe etc|3)",
+    "2722 battery_level (level|1|6),(voltage|1|1),(temperature|1|1)",
+    "30014 am_proc_start (User|1|5),(PID|1|5),(UID|1|5),(Process Name|3),(Type|3),(Component|3)",
+    "",
+    "70000 screen_toggled (screen_state|1|5)   # comment",
+    "75000 sqlite_mem_alarm_current (current|1|2)",
+    "1397638484 snet_event_log",
+].join("\n");
+
+describe("EventLog", () => {
+    describe("decodeAndroidEventLogPayload", () => {
+        it("should decode list of int and string", () => {
+            assert.deepStrictEqual(
+                decodeAndroidEventLogPayload(AmProcStartPayload),
+                {
+                    tag: 30014,
+                    value: [
+                        0,
+                        1234,
+                        10123,
+                        "com.example",
+                        "activity",
+                        "{com.example/com.example.MainActivity}",
+                    ],
+                },
+            );
+        });
+
+        it("should decode long and float", () => {
+            const long = new Uint8Array(9);
+            long[0] = AndroidEventLogType.Long;
+            new DataView(long.buffer).setBigInt64(1, -2n, true);
+
+            const float = new Uint8Array(5);
+            float[0] = AndroidEventLogType.Float;
+            new DataView(float.buffer).setFloat32(1, 2.5, true);
+
+            assert.deepStrictEqual(
+                decodeAndroidEventLogPayload(
+                    new Uint8Array([
+                        ...int32(1),
+                        AndroidEventLogType.List,
+                        2,
+                        ...long,
+                        ...float,
+                    ]),
+                ),
+                { tag: 1, value: [-2n, 2.5] },
+            );
+        });
+
+        it("should decode payload without value", () => {
+            assert.deepStrictEqual(decodeAndroidEventLogPayload(int32(42)), {
+                tag: 42,
+                value: undefined,
+            });
+        });
+
+        it("should throw on truncated or invalid payload", () => {
+            assert.throws(() =>
+                decodeAndroidEventLogPayload(
+                    AmProcStartPayload.subarray(0, 20),
+                ),
+            );
+            assert.throws(() =>
+                decodeAndroidEventLogPayload(new Uint8Array([...int32(1), 9])),
+            );
+        });
+    });
+
+    it("should format values", () => {
+        assert.strictEqual(
+            formatAndroidEventLogValue([1, [2n, "a"], 2.5]),
+            "[1,[2,a],2.5]",
+        );
+        assert.strictEqual(formatAndroidEventLogValue(undefined), "");
+    });
+
+    describe("AndroidEventLogTags", () => {
+        it("should parse tags and fields", () => {
+            const tags = AndroidEventLogTags.parse(EventLogTagsText);
+            assert.deepStrictEqual(tags.get(2722), {
+                tag: 2722,
+                name: "battery_level",
+                fields: [
+                    {
+                        name: "level",
+                        type: AndroidEventLogTagFieldType.Int,
+                        unit: 6,
+                    },
+                    {
+                        name: "voltage",
+                        type: AndroidEventLogTagFieldType.Int,
+                        unit: 1,
+                    },
+                    {
+                        name: "temperature",
+                        type: AndroidEventLogTagFieldType.Int,
+                        unit: 1,
+                    },
+                ],
+            });
+            assert.strictEqual(tags.getByName("screen_toggled")?.tag, 70000);
+            assert.deepStrictEqual(tags.get(1397638484)?.fields, []);
+            assert.strictEqual(tags.get(1), undefined);
+        });
+
+        it("should decode payload to named fields", () => {
+            const tags = AndroidEventLogTags.parse(EventLogTagsText);
+            assert.deepStrictEqual(tags.decode(AmProcStartPayload).fields, {
+                User: 0,
+                PID: 1234,
+                UID: 10123,
+                "Process Name": "com.example",
+                Type: "activity",
+                Component: "{com.example/com.example.MainActivity}",
+            });
+
+            const single = tags.decode(
+                new Uint8Array([...int32(70000), ...int(1)]),
+            );
+            assert.strictEqual(single.name, "screen_toggled");
+            assert.deepStrictEqual(single.fields, { screen_state: 1 });
+
+            const unknown = tags.decode(
+                new Uint8Array([...int32(1), ...int(1)]),
+            );
+            assert.strictEqual(unknown.name, undefined);
+            assert.strictEqual(unknown.fields, undefined);
+        });
+    });
+});
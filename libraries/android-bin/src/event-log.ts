@@ -0,0 +1,298 @@
+// cspell: ignore logcat
+
+import {
+    getInt32LittleEndian,
+    getInt64LittleEndian,
+    getUint32LittleEndian,
+} from "@yume-chan/no-data-view";
+import { decodeUtf8 } from "@yume-chan/struct";
+
+// Entries in `Events`, `Stats` and `Security` buffers have binary payloads.
+// https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/include/log/log_event_list.h
+// https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/logprint.cpp;l=612;drc=8dbf3b2bb6b6d1652d9797e477b9abd03278bb79
+
+export const AndroidEventLogType = {
+    Int: 0,
+    Long: 1,
+    String: 2,
+    List: 3,
+    Float: 4,
+} as const;
+
+export type AndroidEventLogType =
+    (typeof AndroidEventLogType)[keyof typeof AndroidEventLogType];
+
+export type AndroidEventLogValue =
+    | number
+    | bigint
+    | string
+    | AndroidEventLogValue[];
+
+export interface AndroidEventLogPayload {
+    /**
+     * The numeric tag, can be mapped to a name using `AndroidEventLogTags`.
+     */
+    tag: number;
+    /**
+     * The value, or `undefined` if the payload only contains the tag.
+     */
+    value: AndroidEventLogValue | undefined;
+}
+
+export class AndroidEventLogError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+class EventLogReader {
+    readonly #data: Uint8Array;
+    #position = 0;
+
+    get ended() {
+        return this.#position >= this.#data.length;
+    }
+
+    constructor(data: Uint8Array) {
+        this.#data = data;
+    }
+
+    #ensure(length: number) {
+        if (this.#position + length > this.#data.length) {
+            throw new AndroidEventLogError("Unexpected end of event payload");
+        }
+    }
+
+    readUint8() {
+        this.#ensure(1);
+        const value = this.#data[this.#position]!;
+        this.#position += 1;
+        return value;
+    }
+
+    readInt32() {
+        this.#ensure(4);
+        const value = getInt32LittleEndian(this.#data, this.#position);
+        this.#position += 4;
+        return value;
+    }
+
+    readBytes(length: number) {
+        this.#ensure(length);
+        const value = this.#data.subarray(
+            this.#position,
+            this.#position + length,
+        );
+        this.#position += length;
+        return value;
+    }
+
+    readValue(): AndroidEventLogValue {
+        const type = this.readUint8();
+        switch (type) {
+            case AndroidEventLogType.Int:
+                return this.readInt32();
+            case AndroidEventLogType.Long: {
+                this.#ensure(8);
+                const value = getInt64LittleEndian(this.#data, this.#position);
+                this.#position += 8;
+                return value;
+            }
+            case AndroidEventLogType.String: {
+                const length = getUint32LittleEndian(this.readBytes(4), 0);
+                return decodeUtf8(this.readBytes(length));
+            }
+            case AndroidEventLogType.List: {
+                const count = this.readUint8();
+                const result: AndroidEventLogValue[] = [];
+                for (let i = 0; i < count; i += 1) {
+                    result.push(this.readValue());
+                }
+                return result;
+            }
+            case AndroidEventLogType.Float: {
+                const bytes = this.readBytes(4);
+                return new DataView(
+                    bytes.buffer,
+                    bytes.byteOffset,
+                    bytes.byteLength,
+                ).getFloat32(0, true);
+            }
+            default:
+                throw new AndroidEventLogError(
+                    `Unknown event value type ${type}`,
+                );
+        }
+    }
+}
+
+/**
+ * Decodes the binary payload of an entry from `Events`, `Stats` or `Security` buffer.
+ */
+export function decodeAndroidEventLogPayload(
+    payload: Uint8Array,
+): AndroidEventLogPayload {
+    const reader = new EventLogReader(payload);
+    const tag = reader.readInt32();
+    const value = reader.ended ? undefined : reader.readValue();
+    return { tag, value };
+}
+
+/**
+ * Formats `value` like `logcat`, for example `[1,com.example,2.5]`.
+ */
+export function formatAndroidEventLogValue(
+    value: AndroidEventLogValue | undefined,
+): string {
+    if (value === undefined) {
+        return "";
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatAndroidEventLogValue).join(",")}]`;
+    }
+    return value.toString();
+}
+
+// https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/include/log/event_tag_map.h
+export const AndroidEventLogTagFieldType = {
+    Int: 1,
+    Long: 2,
+    String: 3,
+    List: 4,
+    Float: 5,
+} as const;
+
+export type AndroidEventLogTagFieldType =
+    (typeof AndroidEventLogTagFieldType)[keyof typeof AndroidEventLogTagFieldType];
+
+export interface AndroidEventLogTagField {
+    name: string;
+    type: AndroidEventLogTagFieldType;
+    unit?: number | undefined;
+}
+
+export interface AndroidEventLogTag {
+    tag: number;
+    name: string;
+    fields: AndroidEventLogTagField[];
+}
+
+export interface AndroidEventLog extends AndroidEventLogPayload {
+    /**
+     * The tag name, or `undefined` if it's not in `event-log-tags`.
+     */
+    name: string | undefined;
+    /**
+     * The value mapped to field names, or `undefined` if the tag doesn't have field definitions.
+     */
+    fields: Record<string, AndroidEventLogValue> | undefined;
+}
+
+/**
+ * Mapping between event log tag numbers, names and fields,
+ * from `/system/etc/event-log-tags` on device.
+ */
+export class AndroidEventLogTags {
+    static readonly PATH = "/system/etc/event-log-tags";
+
+    // https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/event_tag_map.cpp
+    // For example:
+    // 30015 am_proc_start (User|1|5),(PID|1|5),(UID|1|5),(Process Name|3),(Type|3),(Component|3)
+    static readonly LINE_REGEX: RegExp = /^(\d+)\s+(\w+)(?:\s+(.*))?$/;
+
+    static readonly FIELD_REGEX: RegExp = /\(([^|)]*)\|(\d+)(?:\|(\d+))?\)/g;
+
+    static parse(text: string): AndroidEventLogTags {
+        const tags: AndroidEventLogTag[] = [];
+        for (let line of text.split("\n")) {
+            const comment = line.indexOf("#");
+            if (comment !== -1) {
+                line = line.substring(0, comment);
+            }
+
+            const match = line.trim().match(AndroidEventLogTags.LINE_REGEX);
+            if (!match) {
+                continue;
+            }
+
+            const fields: AndroidEventLogTagField[] = [];
+            for (const field of (match[3] ?? "").matchAll(
+                AndroidEventLogTags.FIELD_REGEX,
+            )) {
+                fields.push({
+                    name: field[1]!,
+                    type: Number.parseInt(
+                        field[2]!,
+                        10,
+                    ) as AndroidEventLogTagFieldType,
+                    unit:
+                        field[3] !== undefined
+                            ? Number.parseInt(field[3], 10)
+                            : undefined,
+                });
+            }
+
+            tags.push({
+                tag: Number.parseInt(match[1]!, 10),
+                name: match[2]!,
+                fields,
+            });
+        }
+        return new AndroidEventLogTags(tags);
+    }
+
+    readonly #byTag = new Map<number, AndroidEventLogTag>();
+    readonly #byName = new Map<string, AndroidEventLogTag>();
+
+    constructor(tags: Iterable<AndroidEventLogTag>) {
+        for (const tag of tags) {
+            this.#byTag.set(tag.tag, tag);
+            this.#byName.set(tag.name, tag);
+        }
+    }
+
+    get(tag: number): AndroidEventLogTag | undefined {
+        return this.#byTag.get(tag);
+    }
+
+    getByName(name: string): AndroidEventLogTag | undefined {
+        return this.#byName.get(name);
+    }
+
+    #mapFields(
+        fields: readonly AndroidEventLogTagField[],
+        value: AndroidEventLogValue | undefined,
+    ): Record<string, AndroidEventLogValue> | undefined {
+        if (fields.length === 0 || value === undefined) {
+            return undefined;
+        }
+
+        // A single value (including a single field of `List` type)
+        if (!Array.isArray(value) || fields.length === 1) {
+            return { [fields[0]!.name]: value };
+        }
+
+        const result: Record<string, AndroidEventLogValue> = {};
+        for (let i = 0; i < fields.length && i < value.length; i += 1) {
+            result[fields[i]!.name] = value[i]!;
+        }
+        return result;
+    }
+
+    /**
+     * Decodes the binary payload of an event log entry,
+     * and maps its values to field names.
+     */
+    decode(payload: Uint8Array): AndroidEventLog {
+        const { tag, value } = decodeAndroidEventLogPayload(payload);
+        const definition = this.#byTag.get(tag);
+        return {
+            tag,
+            value,
+            name: definition?.name,
+            fields: definition
+                ? this.#mapFields(definition.fields, value)
+                : undefined,
+        };
+    }
+}
@@ -1,14 +1,18 @@
 // cspell: ignore logcat
 
 export * from "./am.js";
+export * from "./backup-file.js";
 export * from "./bu.js";
 export * from "./bug-report.js";
 export * from "./cmd.js";
 export * from "./demo-mode.js";
 export * from "./dumpsys.js";
+export * from "./event-log.js";
 export * from "./intent.js";
+export * from "./logcat-recorder.js";
 export * from "./logcat.js";
 export * from "./overlay-display.js";
+export * from "./package-bundle.js";
 export * from "./pm.js";
 export * from "./settings.js";
 export * from "./string-format.js";
@@ -1,7 +1,7 @@
 import * as assert from "node:assert";
 import { describe, it } from "node:test";
 
-import { IntentBuilder } from "./intent.js";
+import { IntentBuilder, IntentFlags } from "./intent.js";
 
 describe("Intent", () => {
     describe("IntentBuilder", () => {
@@ -49,5 +49,155 @@ describe("Intent", () => {
                 ["--es", "key1", "value1"],
             );
         });
+
+        it("should pass typed extras", () => {
+            assert.deepStrictEqual(
+                new IntentBuilder()
+                    .addNullExtra("null")
+                    .addBooleanExtra("bool", true)
+                    .addIntExtra("int", 1)
+                    .addLongExtra("long", 1n << 40n)
+                    .addFloatExtra("float", 1.5)
+                    .addUriExtra("uri", "content://media/1")
+                    .addComponentExtra("component", "com.example/.Main")
+                    .addIntArrayExtra("ints", [1, 2])
+                    .addStringArrayExtra("strings", ["a,b", "c"])
+                    .build(),
+                [
+                    "--esn",
+                    "null",
+                    "--ez",
+                    "bool",
+                    "true",
+                    "--ei",
+                    "int",
+                    "1",
+                    "--el",
+                    "long",
+                    "1099511627776",
+                    "--ef",
+                    "float",
+                    "1.5",
+                    "--eu",
+                    "uri",
+                    "content://media/1",
+                    "--ecn",
+                    "component",
+                    "com.example/.Main",
+                    "--eia",
+                    "ints",
+                    "1,2",
+                    "--esa",
+                    "strings",
+                    "a\\,b,c",
+                ],
+            );
+        });
+
+        it("should set intent type and flags", () => {
+            assert.deepStrictEqual(
+                new IntentBuilder()
+                    .setType("image/png")
+                    .addFlags(IntentFlags.ActivityNewTask)
+                    .addFlags(IntentFlags.ActivityClearTop)
+                    .build(),
+                ["-t", "image/png", "-f", "0x14000000"],
+            );
+        });
+
+        it("should put selector last", () => {
+            assert.deepStrictEqual(
+                new IntentBuilder()
+                    .setPackage("com.example")
+                    .setSelector(
+                        new IntentBuilder()
+                            .setAction("android.intent.action.MAIN")
+                            .addCategory("android.intent.category.LAUNCHER"),
+                    )
+                    .build(),
+                [
+                    "-p",
+                    "com.example",
+                    "--selector",
+                    "-a",
+                    "android.intent.action.MAIN",
+                    "-c",
+                    "android.intent.category.LAUNCHER",
+                ],
+            );
+        });
+    });
+
+    describe("intent URI", () => {
+        it("should produce intent URIs like Android", () => {
+            assert.strictEqual(
+                new IntentBuilder()
+                    .setAction("android.intent.action.VIEW")
+                    .addCategory("android.intent.category.BROWSABLE")
+                    .setData("https://example.com/path?q=1")
+                    .setComponent("com.example/.MainActivity")
+                    .addFlags(IntentFlags.ActivityNewTask)
+                    .addStringExtra("title", "a b;c")
+                    .addBooleanExtra("flag", false)
+                    .addIntExtra("count", 2)
+                    .toUri(),
+                "intent://example.com/path?q=1#Intent;scheme=https;action=android.intent.action.VIEW;category=android.intent.category.BROWSABLE;launchFlags=0x10000000;component=com.example/.MainActivity;S.title=a%20b%3Bc;B.flag=false;i.count=2;end",
+            );
+        });
+
+        it("should throw for extras not representable in URIs", () => {
+            assert.throws(() =>
+                new IntentBuilder().addIntArrayExtra("ints", [1]).toUri(),
+            );
+        });
+
+        it("should round-trip intent URIs", () => {
+            const uri =
+                "intent:#Intent;action=android.intent.action.MAIN;type=text/plain;package=com.example;l.time=1700000000000;f.scale=0.5;end";
+            const intent = IntentBuilder.parseUri(uri);
+            assert.strictEqual(intent.toUri(), uri);
+            assert.deepStrictEqual(intent.build(), [
+                "-a",
+                "android.intent.action.MAIN",
+                "-p",
+                "com.example",
+                "-t",
+                "text/plain",
+                "--el",
+                "time",
+                "1700000000000",
+                "--ef",
+                "scale",
+                "0.5",
+            ]);
+        });
+
+        it("should parse data, selector and narrow extra types", () => {
+            const intent = IntentBuilder.parseUri(
+                "intent://host/a%20b#Intent;scheme=myapp;launchFlags=268435456;s.short=3;c.char=x;SEL;category=android.intent.category.APP_BROWSER;end",
+            );
+            assert.deepStrictEqual(intent.build(), [
+                "-d",
+                "myapp://host/a%20b",
+                "-f",
+                "0x10000000",
+                "--ei",
+                "short",
+                "3",
+                "--es",
+                "char",
+                "x",
+                "--selector",
+                "-c",
+                "android.intent.category.APP_BROWSER",
+            ]);
+        });
+
+        it("should throw for invalid URIs", () => {
+            assert.throws(() => IntentBuilder.parseUri("https://example.com"));
+            assert.throws(() =>
+                IntentBuilder.parseUri("intent:#Intent;action=test"),
+            );
+        });
     });
 });
@@ -1,3 +1,70 @@
+// cspell: ignore eial ecn
+
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/core/java/android/content/Intent.java
+export const IntentFlags = {
+    GrantReadUriPermission: 0x00000001,
+    GrantWriteUriPermission: 0x00000002,
+    FromBackground: 0x00000004,
+    DebugLogResolution: 0x00000008,
+    ExcludeStoppedPackages: 0x00000010,
+    IncludeStoppedPackages: 0x00000020,
+    GrantPersistableUriPermission: 0x00000040,
+    GrantPrefixUriPermission: 0x00000080,
+    ActivityMatchExternal: 0x00000800,
+    ActivityLaunchAdjacent: 0x00001000,
+    ActivityRetainInRecents: 0x00002000,
+    ActivityTaskOnHome: 0x00004000,
+    ActivityClearTask: 0x00008000,
+    ActivityNoAnimation: 0x00010000,
+    ActivityReorderToFront: 0x00020000,
+    ActivityNoUserAction: 0x00040000,
+    ActivityNewDocument: 0x00080000,
+    ActivityLaunchedFromHistory: 0x00100000,
+    ActivityResetTaskIfNeeded: 0x00200000,
+    ActivityBroughtToFront: 0x00400000,
+    ActivityExcludeFromRecents: 0x00800000,
+    ActivityPreviousIsTop: 0x01000000,
+    ActivityForwardResult: 0x02000000,
+    ActivityClearTop: 0x04000000,
+    ActivityMultipleTask: 0x08000000,
+    ActivityNewTask: 0x10000000,
+    ActivitySingleTop: 0x20000000,
+    ActivityNoHistory: 0x40000000,
+    ReceiverIncludeBackground: 0x01000000,
+    ReceiverNoAbort: 0x08000000,
+    ReceiverForeground: 0x10000000,
+    ReceiverReplacePending: 0x20000000,
+    ReceiverRegisteredOnly: 0x40000000,
+} as const;
+
+export type IntentFlags = (typeof IntentFlags)[keyof typeof IntentFlags];
+
+interface IntentExtra {
+    /**
+     * The `am` option, for example `--es`.
+     */
+    option: string;
+    value: string | undefined;
+    /**
+     * The type prefix in `intent:` URIs, for example `S`,
+     * or `undefined` if the type can't be represented in URIs.
+     */
+    uriType: string | undefined;
+}
+
+// `Uri.encode` in Android doesn't encode the same characters as `encodeURIComponent`
+function encodeUriComponent(value: string, allow = "") {
+    let result = encodeURIComponent(value);
+    for (const char of allow) {
+        result = result.replaceAll(encodeURIComponent(char), char);
+    }
+    return result;
+}
+
+function escapeArrayItem(value: string) {
+    return value.replaceAll(",", "\\,");
+}
+
 export class IntentBuilder {
     #action: string | undefined;
     #categories: string[] = [];
@@ -5,7 +72,9 @@ export class IntentBuilder {
     #component: string | undefined;
     #data: string | undefined;
     #type: string | undefined;
-    #stringExtras = new Map<string, string>();
+    #flags = 0;
+    #extras = new Map<string, IntentExtra>();
+    #selector: IntentBuilder | undefined;
 
     setAction(action: string): this {
         this.#action = action;
@@ -32,11 +101,110 @@ export class IntentBuilder {
         return this;
     }
 
-    addStringExtra(key: string, value: string): this {
-        this.#stringExtras.set(key, value);
+    /**
+     * Sets the MIME type, for example `image/png`.
+     */
+    setType(type: string): this {
+        this.#type = type;
+        return this;
+    }
+
+    /**
+     * Replaces all flags with `flags`.
+     *
+     * @param flags A combination of `IntentFlags`
+     */
+    setFlags(flags: number): this {
+        this.#flags = flags;
         return this;
     }
 
+    /**
+     * @param flags A combination of `IntentFlags`
+     */
+    addFlags(flags: number): this {
+        this.#flags |= flags;
+        return this;
+    }
+
+    /**
+     * Sets an intent to find the target component,
+     * which can only contain action, categories, package, component, data and type.
+     */
+    setSelector(selector: IntentBuilder): this {
+        this.#selector = selector;
+        return this;
+    }
+
+    #addExtra(
+        key: string,
+        option: string,
+        value: string | undefined,
+        uriType?: string,
+    ): this {
+        this.#extras.set(key, { option, value, uriType });
+        return this;
+    }
+
+    addStringExtra(key: string, value: string): this {
+        return this.#addExtra(key, "--es", value, "S");
+    }
+
+    addNullExtra(key: string): this {
+        return this.#addExtra(key, "--esn", undefined);
+    }
+
+    addBooleanExtra(key: string, value: boolean): this {
+        return this.#addExtra(key, "--ez", value.toString(), "B");
+    }
+
+    addIntExtra(key: string, value: number): this {
+        return this.#addExtra(key, "--ei", value.toString(), "i");
+    }
+
+    addLongExtra(key: string, value: number | bigint): this {
+        return this.#addExtra(key, "--el", value.toString(), "l");
+    }
+
+    addFloatExtra(key: string, value: number): this {
+        return this.#addExtra(key, "--ef", value.toString(), "f");
+    }
+
+    addDoubleExtra(key: string, value: number): this {
+        return this.#addExtra(key, "--ed", value.toString(), "d");
+    }
+
+    addUriExtra(key: string, value: string): this {
+        return this.#addExtra(key, "--eu", value);
+    }
+
+    /**
+     * @param value Component name, for example `com.example/.MainActivity`
+     */
+    addComponentExtra(key: string, value: string): this {
+        return this.#addExtra(key, "--ecn", value);
+    }
+
+    addIntArrayExtra(key: string, value: readonly number[]): this {
+        return this.#addExtra(key, "--eia", value.join(","));
+    }
+
+    addLongArrayExtra(key: string, value: readonly (number | bigint)[]): this {
+        return this.#addExtra(key, "--ela", value.join(","));
+    }
+
+    addFloatArrayExtra(key: string, value: readonly number[]): this {
+        return this.#addExtra(key, "--efa", value.join(","));
+    }
+
+    addStringArrayExtra(key: string, value: readonly string[]): this {
+        return this.#addExtra(
+            key,
+            "--esa",
+            value.map(escapeArrayItem).join(","),
+        );
+    }
+
     build(): string[] {
         const result: string[] = [];
 
@@ -64,10 +232,219 @@ export class IntentBuilder {
             result.push("-t", this.#type);
         }
 
-        for (const [key, value] of this.#stringExtras) {
-            result.push("--es", key, value);
+        if (this.#flags) {
+            result.push("-f", "0x" + (this.#flags >>> 0).toString(16));
+        }
+
+        for (const [key, { option, value }] of this.#extras) {
+            result.push(option, key);
+            if (value !== undefined) {
+                result.push(value);
+            }
+        }
+
+        // All arguments after `--selector` are applied to the selector
+        if (this.#selector) {
+            result.push("--selector", ...this.#selector.build());
         }
 
         return result;
     }
+
+    #appendUriFields(result: string[], scheme: string | undefined) {
+        if (scheme) {
+            result.push(`scheme=${scheme};`);
+        }
+
+        if (this.#action) {
+            result.push(`action=${encodeUriComponent(this.#action)};`);
+        }
+
+        for (const category of this.#categories) {
+            result.push(`category=${encodeUriComponent(category)};`);
+        }
+
+        if (this.#type) {
+            result.push(`type=${encodeUriComponent(this.#type, "/")};`);
+        }
+
+        if (this.#flags) {
+            result.push(`launchFlags=0x${(this.#flags >>> 0).toString(16)};`);
+        }
+
+        if (this.#packageName) {
+            result.push(`package=${encodeUriComponent(this.#packageName)};`);
+        }
+
+        if (this.#component) {
+            result.push(
+                `component=${encodeUriComponent(this.#component, "/")};`,
+            );
+        }
+
+        for (const [key, { option, value, uriType }] of this.#extras) {
+            if (!uriType) {
+                throw new Error(
+                    `Extra "${key}" (${option}) can't be represented in intent URIs`,
+                );
+            }
+            result.push(
+                `${uriType}.${encodeUriComponent(key)}=${encodeUriComponent(value!)};`,
+            );
+        }
+    }
+
+    /**
+     * Converts the intent to an `intent:` URI,
+     * in the same format as `Intent.toUri(Intent.URI_INTENT_SCHEME)`.
+     *
+     * Null, URI, component and array extras can't be represented in URIs.
+     * Data of the selector is also not included, same as Android.
+     */
+    toUri(): string {
+        let data = this.#data ?? "";
+        let scheme: string | undefined;
+        const match = data.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):(.*)$/s);
+        if (match) {
+            scheme = match[1]!;
+            data = match[2]!;
+        }
+
+        const result = ["intent:", data, "#Intent;"];
+        this.#appendUriFields(result, scheme);
+
+        if (this.#selector) {
+            result.push("SEL;");
+            this.#selector.#appendUriFields(
+                result,
+                this.#selector.#data?.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/)?.[1],
+            );
+        }
+
+        result.push("end");
+        return result.join("");
+    }
+
+    /**
+     * Parses an `intent:` URI, for example from `Intent.toUri(Intent.URI_INTENT_SCHEME)`.
+     *
+     * Byte and short extras are converted to int extras,
+     * char extras are converted to string extras.
+     */
+    static parseUri(uri: string): IntentBuilder {
+        if (!uri.startsWith("intent:")) {
+            throw new Error(`Invalid intent URI: ${uri}`);
+        }
+
+        const fragment = uri.lastIndexOf("#Intent;");
+        if (fragment === -1) {
+            throw new Error(`Invalid intent URI: ${uri}`);
+        }
+
+        const intent = new IntentBuilder();
+        let current = intent;
+        let scheme: string | undefined;
+        let ended = false;
+
+        for (const field of uri
+            .substring(fragment + "#Intent;".length)
+            .split(";")) {
+            if (field === "end") {
+                ended = true;
+                break;
+            }
+
+            if (field === "SEL") {
+                current = new IntentBuilder();
+                intent.setSelector(current);
+                continue;
+            }
+
+            const separator = field.indexOf("=");
+            if (separator === -1) {
+                continue;
+            }
+
+            const key = field.substring(0, separator);
+            const value = decodeURIComponent(field.substring(separator + 1));
+            switch (key) {
+                case "action":
+                    current.setAction(value);
+                    break;
+                case "category":
+                    current.addCategory(value);
+                    break;
+                case "type":
+                    current.setType(value);
+                    break;
+                case "launchFlags":
+                    // `Integer.decode` accepts both decimal and hexadecimal numbers
+                    current.setFlags(Number(value) | 0);
+                    break;
+                case "package":
+                    current.setPackage(value);
+                    break;
+                case "component":
+                    current.setComponent(value);
+                    break;
+                case "scheme":
+                    if (current === intent) {
+                        scheme = value;
+                    } else {
+                        current.setData(value + ":");
+                    }
+                    break;
+                default:
+                    IntentBuilder.#parseUriExtra(current, key, value);
+                    break;
+            }
+        }
+
+        if (!ended) {
+            throw new Error(`Invalid intent URI: ${uri}`);
+        }
+
+        let data = uri.substring("intent:".length, fragment);
+        if (scheme !== undefined) {
+            data = scheme + ":" + data;
+        }
+        if (data) {
+            intent.setData(data);
+        }
+
+        return intent;
+    }
+
+    static #parseUriExtra(intent: IntentBuilder, field: string, value: string) {
+        const match = field.match(/^([SBbcdfils])\.(.*)$/s);
+        if (!match) {
+            // Unknown fields are ignored, same as Android
+            return;
+        }
+
+        const key = decodeURIComponent(match[2]!);
+        switch (match[1]) {
+            case "S":
+            case "c":
+                intent.addStringExtra(key, value);
+                break;
+            case "B":
+                intent.addBooleanExtra(key, value === "true");
+                break;
+            case "b":
+            case "s":
+            case "i":
+                intent.addIntExtra(key, Number.parseInt(value, 10));
+                break;
+            case "l":
+                intent.addLongExtra(key, BigInt(value));
+                break;
+            case "f":
+                intent.addFloatExtra(key, Number.parseFloat(value));
+                break;
+            case "d":
+                intent.addDoubleExtra(key, Number.parseFloat(value));
+                break;
+        }
+    }
 }
@@ -0,0 +1,214 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { ReadableStream, WritableStream } from "@yume-chan/stream-extra";
+import { Uint8ArrayExactReadable, decodeUtf8 } from "@yume-chan/struct";
+
+import type { LogcatCrash } from "./logcat-recorder.js";
+import {
+    LogcatCrashType,
+    LogcatRecordFormat,
+    LogcatRecorder,
+} from "./logcat-recorder.js";
+import type { AndroidLogEntry, Logcat, LogcatOptions } from "./logcat.js";
+import {
+    AndroidLogPriority,
+    LogId,
+    deserializeAndroidLogEntry,
+} from "./logcat.js";
+
+function createEntry(
+    seconds: number,
+    message: string,
+    tag = "Tag",
+): AndroidLogEntry {
+    return {
+        payloadSize: 0,
+        headerSize: 0,
+        pid: 100,
+        tid: 101,
+        seconds,
+        nanoseconds: 0,
+        logId: LogId.Main,
+        uid: 10000,
+        timestamp: BigInt(seconds) * 1_000_000_000n,
+        priority: AndroidLogPriority.Error,
+        tag,
+        message,
+    } as AndroidLogEntry;
+}
+
+function createLogcat(entries: AndroidLogEntry[], calls: LogcatOptions[]) {
+    return {
+        binary(options: LogcatOptions) {
+            calls.push(options);
+            return new ReadableStream<AndroidLogEntry>({
+                start(controller) {
+                    for (const entry of entries) {
+                        controller.enqueue(entry);
+                    }
+                    controller.close();
+                },
+            });
+        },
+    } as unknown as Logcat;
+}
+
+function createFileSystem() {
+    const files = new Map<string, Uint8Array[]>();
+    return {
+        files,
+        read(name: string) {
+            return decodeUtf8(Buffer.concat(files.get(name)!));
+        },
+        createFile(name: string) {
+            const chunks: Uint8Array[] = [];
+            files.set(name, chunks);
+            return new WritableStream<Uint8Array>({
+                write(chunk) {
+                    chunks.push(chunk);
+                },
+            });
+        },
+        deleteFile(name: string) {
+            files.delete(name);
+        },
+    };
+}
+
+describe("LogcatRecorder", () => {
+    it("should write NDJSON with rotation", async () => {
+        const fileSystem = createFileSystem();
+        const recorder = new LogcatRecorder({
+            fileSystem,
+            maxFileSize: 300,
+            maxFiles: 2,
+        });
+
+        const entries = Array.from({ length: 6 }, (_, i) =>
+            createEntry(i, `message ${i}`),
+        );
+        await recorder.record(createLogcat(entries, []));
+        await recorder.close();
+
+        // Each line is about 130 bytes, so each file contains 2 entries
+        assert.deepStrictEqual(Array.from(fileSystem.files.keys()), [
+            "logcat.1.ndjson",
+            "logcat.2.ndjson",
+        ]);
+        const lines = fileSystem.read("logcat.2.ndjson").split("\n");
+        assert.strictEqual(lines.length, 3);
+        assert.deepStrictEqual(JSON.parse(lines[0]!), {
+            logId: LogId.Main,
+            seconds: 4,
+            nanoseconds: 0,
+            uid: 10000,
+            pid: 100,
+            tid: 101,
+            priority: AndroidLogPriority.Error,
+            tag: "Tag",
+            message: "message 4",
+        });
+        assert.strictEqual(lines[2], "");
+    });
+
+    it("should write binary format", async () => {
+        const fileSystem = createFileSystem();
+        const recorder = new LogcatRecorder({
+            fileSystem,
+            format: LogcatRecordFormat.Binary,
+        });
+
+        await recorder.record(createLogcat([createEntry(1, "message")], []));
+        await recorder.close();
+
+        const entry = await deserializeAndroidLogEntry(
+            new Uint8ArrayExactReadable(
+                Buffer.concat(fileSystem.files.get("logcat.0.bin")!),
+            ),
+        );
+        assert.strictEqual(entry.seconds, 1);
+        assert.strictEqual(entry.pid, 100);
+        assert.strictEqual(entry.priority, AndroidLogPriority.Error);
+        assert.strictEqual(entry.tag, "Tag");
+        assert.strictEqual(entry.message, "message");
+    });
+
+    it("should resume from last timestamp", async () => {
+        const fileSystem = createFileSystem();
+        const recorder = new LogcatRecorder({ fileSystem });
+        const calls: LogcatOptions[] = [];
+
+        await recorder.record(
+            createLogcat([createEntry(1, "a"), createEntry(2, "b")], calls),
+        );
+        assert.strictEqual(recorder.lastTimestamp, 2_000_000_000n);
+
+        // Device reconnected, `logcat -T` includes entries at the same time
+        await recorder.record(
+            createLogcat(
+                [createEntry(2, "b"), createEntry(2, "c"), createEntry(3, "d")],
+                calls,
+            ),
+        );
+        await recorder.close();
+
+        assert.strictEqual(calls[0]!.tail, undefined);
+        assert.deepStrictEqual(calls[1]!.tail, new Date(2000));
+        assert.strictEqual(calls[1]!.follow, true);
+
+        assert.deepStrictEqual(
+            fileSystem
+                .read("logcat.0.ndjson")
+                .trim()
+                .split("\n")
+                .map((line) => (JSON.parse(line) as AndroidLogEntry).message),
+            ["a", "b", "c", "d"],
+        );
+    });
+
+    it("should detect crashes with context", async () => {
+        const recorder = new LogcatRecorder({
+            fileSystem: createFileSystem(),
+            crashContextBefore: 1,
+            crashContextAfter: 2,
+        });
+        const crashes: LogcatCrash[] = [];
+        recorder.onCrash((crash) => crashes.push(crash));
+
+        await recorder.record(
+            createLogcat(
+                [
+                    createEntry(1, "before 1"),
+                    createEntry(2, "before 2"),
+                    createEntry(3, "FATAL EXCEPTION: main", "AndroidRuntime"),
+                    createEntry(4, "after 1"),
+                    createEntry(5, "after 2"),
+                    createEntry(6, "ANR in com.example", "ActivityManager"),
+                    createEntry(7, "after 3"),
+                ],
+                [],
+            ),
+        );
+
+        assert.strictEqual(crashes.length, 1);
+        assert.strictEqual(crashes[0]!.type, LogcatCrashType.Java);
+        assert.deepStrictEqual(
+            crashes[0]!.before.map((entry) => entry.message),
+            ["before 2"],
+        );
+        assert.deepStrictEqual(
+            crashes[0]!.after.map((entry) => entry.message),
+            ["after 1", "after 2"],
+        );
+
+        // Pending crashes are fired when closed
+        await recorder.close();
+        assert.strictEqual(crashes.length, 2);
+        assert.strictEqual(crashes[1]!.type, LogcatCrashType.Anr);
+        assert.deepStrictEqual(
+            crashes[1]!.after.map((entry) => entry.message),
+            ["after 3"],
+        );
+    });
+});
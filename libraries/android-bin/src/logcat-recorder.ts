@@ -0,0 +1,436 @@
+// cspell: ignore logcat
+// cspell: ignore ndjson
+
+import type { Event } from "@yume-chan/event";
+import { EventEmitter } from "@yume-chan/event";
+import type {
+    ReadableStreamDefaultReader,
+    WritableStream,
+    WritableStreamDefaultWriter,
+} from "@yume-chan/stream-extra";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import type { AndroidLogEntry, Logcat, LogcatOptions } from "./logcat.js";
+import { serializeAndroidLogEntry } from "./logcat.js";
+
+export const LogcatRecordFormat = {
+    /**
+     * Same format as `logcat -B`, can be read by `deserializeAndroidLogEntry`.
+     */
+    Binary: 0,
+    /**
+     * One JSON object per line.
+     */
+    NdJson: 1,
+} as const;
+
+export type LogcatRecordFormat =
+    (typeof LogcatRecordFormat)[keyof typeof LogcatRecordFormat];
+
+const LogcatRecordFileExtension: Record<LogcatRecordFormat, string> = {
+    [LogcatRecordFormat.Binary]: "bin",
+    [LogcatRecordFormat.NdJson]: "ndjson",
+};
+
+/**
+ * Storage for `LogcatRecorder`.
+ *
+ * For example, in Node.js, `createFile` can be implemented using
+ * `Writable.toWeb(fs.createWriteStream(join(directory, name)))`.
+ */
+export interface LogcatRecorderFileSystem {
+    /**
+     * Creates a new file, or truncates the existing file.
+     */
+    createFile(
+        name: string,
+    ): WritableStream<Uint8Array> | PromiseLike<WritableStream<Uint8Array>>;
+
+    /**
+     * Deletes a file, when there are more than `maxFiles` files.
+     */
+    deleteFile(name: string): void | PromiseLike<void>;
+}
+
+export const LogcatCrashType = {
+    /**
+     * An uncaught Java exception (`FATAL EXCEPTION`).
+     */
+    Java: 0,
+    /**
+     * Application Not Responding.
+     */
+    Anr: 1,
+    /**
+     * A native crash, which generates a tombstone.
+     */
+    Native: 2,
+} as const;
+
+export type LogcatCrashType =
+    (typeof LogcatCrashType)[keyof typeof LogcatCrashType];
+
+export interface LogcatCrash {
+    type: LogcatCrashType;
+    /**
+     * The entry that contains the crash marker.
+     */
+    entry: AndroidLogEntry;
+    /**
+     * Entries before `entry`.
+     */
+    before: AndroidLogEntry[];
+    /**
+     * Entries after `entry`, usually containing the stack trace.
+     */
+    after: AndroidLogEntry[];
+}
+
+/**
+ * Checks whether `entry` is the first line of a crash report.
+ */
+export function detectLogcatCrash(
+    entry: AndroidLogEntry,
+): LogcatCrashType | undefined {
+    switch (entry.tag) {
+        case "AndroidRuntime":
+            if (entry.message.startsWith("FATAL EXCEPTION")) {
+                return LogcatCrashType.Java;
+            }
+            break;
+        case "ActivityManager":
+            if (entry.message.startsWith("ANR in ")) {
+                return LogcatCrashType.Anr;
+            }
+            break;
+        case "DEBUG":
+            // https://cs.android.com/android/platform/superproject/+/master:system/core/debuggerd/libdebuggerd/tombstone_proto_to_text.cpp
+            if (entry.message.startsWith("*** *** ***")) {
+                return LogcatCrashType.Native;
+            }
+            break;
+    }
+    return undefined;
+}
+
+export interface LogcatRecorderOptions
+    extends Omit<LogcatOptions, "dump" | "tail" | "follow" | "maxCount"> {
+    fileSystem: LogcatRecorderFileSystem;
+
+    /**
+     * Defaults to `LogcatRecordFormat.NdJson`.
+     */
+    format?: LogcatRecordFormat | undefined;
+
+    /**
+     * Files are named `<fileName>.<index>.<extension>`, where `index` starts from 0.
+     *
+     * Defaults to `logcat`.
+     */
+    fileName?: string | undefined;
+
+    /**
+     * When the current file exceeds this size in bytes, a new file is created.
+     *
+     * Defaults to 16 MiB.
+     */
+    maxFileSize?: number | undefined;
+
+    /**
+     * When there are more files than this, the oldest file is deleted.
+     *
+     * Defaults to `Infinity`.
+     */
+    maxFiles?: number | undefined;
+
+    /**
+     * Number of entries before the crash marker to include in `LogcatCrash`.
+     *
+     * Defaults to 20.
+     */
+    crashContextBefore?: number | undefined;
+
+    /**
+     * Number of entries after the crash marker to include in `LogcatCrash`.
+     *
+     * Defaults to 100.
+     */
+    crashContextAfter?: number | undefined;
+}
+
+function getEntryKey(entry: AndroidLogEntry) {
+    return `${entry.logId}:${entry.pid}:${entry.tid}:${entry.tag}:${entry.message}`;
+}
+
+/**
+ * Records logcat entries to files, with size-based rotation.
+ *
+ * When the device disconnects, call `record` again with a new `Logcat` instance,
+ * it will resume from the last recorded entry.
+ */
+export class LogcatRecorder {
+    readonly #options: LogcatRecorderOptions;
+    readonly #format: LogcatRecordFormat;
+    readonly #maxFileSize: number;
+    readonly #maxFiles: number;
+    readonly #crashContextBefore: number;
+    readonly #crashContextAfter: number;
+
+    #reader: ReadableStreamDefaultReader<AndroidLogEntry> | undefined;
+    #recording: Promise<void> | undefined;
+    #closed = false;
+
+    #fileIndex = 0;
+    #writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+    #fileSize = 0;
+
+    #lastTimestamp: bigint | undefined;
+    // Keys of entries with `#lastTimestamp`,
+    // to skip duplicate entries after resuming
+    #lastKeys = new Set<string>();
+    #resumeTimestamp: bigint | undefined;
+    #resumeKeys = new Set<string>();
+
+    readonly #recentEntries: AndroidLogEntry[] = [];
+    readonly #pendingCrashes: LogcatCrash[] = [];
+
+    readonly #onCrash = new EventEmitter<LogcatCrash>();
+    /**
+     * Fires when a crash is detected,
+     * after `crashContextAfter` entries are received (or the recorder is closed).
+     */
+    get onCrash(): Event<LogcatCrash> {
+        return this.#onCrash.event;
+    }
+
+    /**
+     * The timestamp (in nanoseconds) of the last recorded entry.
+     */
+    get lastTimestamp(): bigint | undefined {
+        return this.#lastTimestamp;
+    }
+
+    constructor(options: LogcatRecorderOptions) {
+        this.#options = options;
+        this.#format = options.format ?? LogcatRecordFormat.NdJson;
+        this.#maxFileSize = options.maxFileSize ?? 16 * 1024 * 1024;
+        this.#maxFiles = options.maxFiles ?? Infinity;
+        this.#crashContextBefore = options.crashContextBefore ?? 20;
+        this.#crashContextAfter = options.crashContextAfter ?? 100;
+    }
+
+    #getFileName(index: number) {
+        return `${this.#options.fileName ?? "logcat"}.${index}.${
+            LogcatRecordFileExtension[this.#format]
+        }`;
+    }
+
+    async #openFile() {
+        const stream = await this.#options.fileSystem.createFile(
+            this.#getFileName(this.#fileIndex),
+        );
+        this.#writer = stream.getWriter();
+        this.#fileSize = 0;
+
+        const oldest = this.#fileIndex - this.#maxFiles;
+        if (oldest >= 0) {
+            await this.#options.fileSystem.deleteFile(
+                this.#getFileName(oldest),
+            );
+        }
+    }
+
+    async #closeFile() {
+        if (!this.#writer) {
+            return;
+        }
+
+        await this.#writer.close();
+        this.#writer = undefined;
+        this.#fileIndex += 1;
+    }
+
+    #serialize(entry: AndroidLogEntry): Uint8Array {
+        switch (this.#format) {
+            case LogcatRecordFormat.Binary:
+                return serializeAndroidLogEntry(entry);
+            case LogcatRecordFormat.NdJson:
+                return encodeUtf8(
+                    JSON.stringify({
+                        logId: entry.logId,
+                        seconds: entry.seconds,
+                        nanoseconds: entry.nanoseconds,
+                        uid: entry.uid,
+                        pid: entry.pid,
+                        tid: entry.tid,
+                        priority: entry.priority,
+                        tag: entry.tag,
+                        message: entry.message,
+                    }) + "\n",
+                );
+        }
+    }
+
+    async #write(data: Uint8Array) {
+        if (this.#writer && this.#fileSize + data.length > this.#maxFileSize) {
+            await this.#closeFile();
+        }
+        if (!this.#writer) {
+            await this.#openFile();
+        }
+
+        await this.#writer!.write(data);
+        this.#fileSize += data.length;
+    }
+
+    #isDuplicate(entry: AndroidLogEntry) {
+        if (this.#resumeTimestamp === undefined) {
+            return false;
+        }
+
+        const timestamp = entry.timestamp;
+        if (timestamp < this.#resumeTimestamp) {
+            return true;
+        }
+        return (
+            timestamp === this.#resumeTimestamp &&
+            this.#resumeKeys.has(getEntryKey(entry))
+        );
+    }
+
+    #updateLastTimestamp(entry: AndroidLogEntry) {
+        const timestamp = entry.timestamp;
+        if (
+            this.#lastTimestamp === undefined ||
+            timestamp > this.#lastTimestamp
+        ) {
+            this.#lastTimestamp = timestamp;
+            this.#lastKeys = new Set();
+        }
+        if (timestamp === this.#lastTimestamp) {
+            this.#lastKeys.add(getEntryKey(entry));
+        }
+    }
+
+    #detectCrash(entry: AndroidLogEntry) {
+        for (let i = 0; i < this.#pendingCrashes.length; i += 1) {
+            const crash = this.#pendingCrashes[i]!;
+            crash.after.push(entry);
+            if (crash.after.length >= this.#crashContextAfter) {
+                this.#pendingCrashes.splice(i, 1);
+                i -= 1;
+                this.#onCrash.fire(crash);
+            }
+        }
+
+        const type = detectLogcatCrash(entry);
+        if (type !== undefined) {
+            const crash: LogcatCrash = {
+                type,
+                entry,
+                before: this.#recentEntries.slice(),
+                after: [],
+            };
+            if (this.#crashContextAfter > 0) {
+                this.#pendingCrashes.push(crash);
+            } else {
+                this.#onCrash.fire(crash);
+            }
+        }
+
+        if (this.#crashContextBefore > 0) {
+            this.#recentEntries.push(entry);
+            if (this.#recentEntries.length > this.#crashContextBefore) {
+                this.#recentEntries.shift();
+            }
+        }
+    }
+
+    /**
+     * Records entries from `logcat`,
+     * until the stream ends (for example, the device disconnects) or `close` is called.
+     *
+     * If there are already recorded entries,
+     * only entries after the last one will be recorded.
+     */
+    async record(logcat: Logcat): Promise<void> {
+        if (this.#closed) {
+            throw new Error("The recorder has been closed");
+        }
+        if (this.#reader) {
+            throw new Error("The recorder is already recording");
+        }
+
+        const options: LogcatOptions = {
+            pid: this.#options.pid,
+            uid: this.#options.uid,
+            ids: this.#options.ids,
+            filters: this.#options.filters,
+            regex: this.#options.regex,
+        };
+        if (this.#lastTimestamp !== undefined) {
+            // `tail` only has millisecond precision,
+            // duplicate entries are skipped by `#isDuplicate`
+            options.tail = new Date(Number(this.#lastTimestamp / 1_000_000n));
+            options.follow = true;
+            this.#resumeTimestamp = this.#lastTimestamp;
+            this.#resumeKeys = this.#lastKeys;
+        }
+
+        const reader = logcat.binary(options).getReader();
+        this.#reader = reader;
+        this.#recording = this.#pump(reader);
+        try {
+            await this.#recording;
+        } catch (e) {
+            if (!this.#closed) {
+                throw e;
+            }
+        } finally {
+            reader.releaseLock();
+            this.#reader = undefined;
+            this.#recording = undefined;
+            this.#resumeTimestamp = undefined;
+        }
+    }
+
+    async #pump(reader: ReadableStreamDefaultReader<AndroidLogEntry>) {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+
+            if (this.#isDuplicate(value)) {
+                continue;
+            }
+
+            this.#updateLastTimestamp(value);
+            this.#detectCrash(value);
+            await this.#write(this.#serialize(value));
+        }
+    }
+
+    /**
+     * Stops recording, fires `onCrash` for pending crashes, and closes the current file.
+     */
+    async close(): Promise<void> {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+
+        if (this.#reader) {
+            const recording = this.#recording;
+            await this.#reader.cancel();
+            // Wait for the current write to finish
+            await recording?.catch(() => {});
+        }
+
+        for (const crash of this.#pendingCrashes.splice(0)) {
+            this.#onCrash.fire(crash);
+        }
+
+        await this.#closeFile();
+    }
+}
@@ -0,0 +1,478 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type { Adb } from "@yume-chan/adb";
+import {
+    BufferedReadableStream,
+    ReadableStream,
+} from "@yume-chan/stream-extra";
+import { Uint8ArrayExactReadable, encodeUtf8 } from "@yume-chan/struct";
+
+import type { AndroidLogEntry } from "./logcat.js";
+import {
+    AndroidLogPriority,
+    LogcatFilter,
+    LogcatFilterStream,
+    LogcatFormat,
+    LogcatTextParser,
+    LogId,
+    Logcat,
+    LoggerEntry,
+    deserializeAndroidLogEntry,
+    formatLogcatFilterSpecs,
+    parseLogcatFilterSpecs,
+    parseLogcatText,
+    serializeAndroidLogEntry,
+} from "./logcat.js";
+
+function createEntry(init: Partial<AndroidLogEntry>): AndroidLogEntry {
+    return {
+        payloadSize: 0,
+        headerSize: 0,
+        pid: 100,
+        tid: 100,
+        seconds: 0,
+        nanoseconds: 0,
+        logId: LogId.Main,
+        uid: 10000,
+        timestamp: 0n,
+        priority: AndroidLogPriority.Info,
+        tag: "Tag",
+        message: "message",
+        ...init,
+    } as AndroidLogEntry;
+}
+
+describe("Logcat", () => {
+    describe("parseLogcatFilterSpecs", () => {
+        it("should parse tag and priority", () => {
+            assert.deepStrictEqual(parseLogcatFilterSpecs("*:S MyTag:v"), [
+                { tag: "*", priority: AndroidLogPriority.Silent },
+                { tag: "MyTag", priority: AndroidLogPriority.Verbose },
+            ]);
+        });
+
+        it("should use default priorities", () => {
+            assert.deepStrictEqual(parseLogcatFilterSpecs("*,MyTag:*"), [
+                { tag: "*", priority: AndroidLogPriority.Debug },
+                { tag: "MyTag", priority: AndroidLogPriority.Verbose },
+            ]);
+        });
+
+        it("should throw on invalid priority", () => {
+            assert.throws(() => parseLogcatFilterSpecs("MyTag:X"));
+            assert.throws(() => parseLogcatFilterSpecs(":V"));
+        });
+
+        it("should format specs", () => {
+            assert.deepStrictEqual(
+                formatLogcatFilterSpecs(parseLogcatFilterSpecs("*:S MyTag")),
+                ["*:S", "MyTag:V"],
+            );
+        });
+    });
+
+    describe("LogcatFilter", () => {
+        it("should filter by tag priority", () => {
+            const filter = new LogcatFilter({
+                filters: "*:S MyTag:W Other:V Other:E",
+            });
+            assert.ok(
+                filter.test(
+                    createEntry({
+                        tag: "MyTag",
+                        priority: AndroidLogPriority.Warn,
+                    }),
+                ),
+            );
+            assert.ok(
+                !filter.test(
+                    createEntry({
+                        tag: "MyTag",
+                        priority: AndroidLogPriority.Info,
+                    }),
+                ),
+            );
+            assert.ok(
+                !filter.test(
+                    createEntry({
+                        tag: "Other",
+                        priority: AndroidLogPriority.Warn,
+                    }),
+                ),
+            );
+            assert.ok(
+                !filter.test(
+                    createEntry({ priority: AndroidLogPriority.Fatal }),
+                ),
+            );
+        });
+
+        it("should include all entries by default", () => {
+            const filter = new LogcatFilter({});
+            assert.ok(
+                filter.test(
+                    createEntry({ priority: AndroidLogPriority.Verbose }),
+                ),
+            );
+        });
+
+        it("should filter by pid, uid, log id and regex", () => {
+            const filter = new LogcatFilter({
+                pid: 100,
+                uid: [1000, 10000],
+                ids: [LogId.Main, LogId.System],
+                regex: "^Start(ing)? ",
+            });
+            assert.ok(filter.test(createEntry({ message: "Starting app" })));
+            assert.ok(!filter.test(createEntry({ message: "Stopping app" })));
+            assert.ok(
+                !filter.test(createEntry({ pid: 101, message: "Start app" })),
+            );
+            assert.ok(
+                !filter.test(createEntry({ uid: 0, message: "Start app" })),
+            );
+            assert.ok(
+                !filter.test(
+                    createEntry({ logId: LogId.Radio, message: "Start app" }),
+                ),
+            );
+        });
+    });
+
+    describe("LogcatFilterStream", () => {
+        it("should stop after `maxCount` matching entries", async () => {
+            let resolveCancelled!: () => void;
+            const cancelled = new Promise<void>((resolve) => {
+                resolveCancelled = resolve;
+            });
+            const source = new ReadableStream<AndroidLogEntry>({
+                start(controller) {
+                    for (let i = 0; i < 10; i += 1) {
+                        controller.enqueue(createEntry({ pid: i }));
+                    }
+                },
+                cancel() {
+                    resolveCancelled();
+                },
+            });
+
+            const result: number[] = [];
+            for await (const entry of source.pipeThrough(
+                new LogcatFilterStream({ regex: "message", maxCount: 3 }),
+            )) {
+                result.push(entry.pid);
+            }
+
+            assert.deepStrictEqual(result, [0, 1, 2]);
+            // Source should be cancelled
+            await cancelled;
+        });
+    });
+
+    describe("deserializeAndroidLogEntry", () => {
+        it("should decode binary payload of `Events` buffer", async () => {
+            // Tag 2722, list of 1 int (85)
+            const payload = new Uint8Array([
+                0xa2, 0x0a, 0, 0, 3, 1, 0, 85, 0, 0, 0,
+            ]);
+            const entry = await deserializeAndroidLogEntry(
+                new Uint8ArrayExactReadable(
+                    serializeAndroidLogEntry(
+                        createEntry({ logId: LogId.Events, payload }),
+                    ),
+                ),
+            );
+            assert.strictEqual(entry.priority, AndroidLogPriority.Info);
+            assert.strictEqual(entry.tag, "2722");
+            assert.strictEqual(entry.message, "[85]");
+            assert.deepStrictEqual(entry.payload, payload);
+        });
+
+        it("should fall back to hex for malformed binary payload", async () => {
+            // Tag 2722, truncated int value
+            const payload = new Uint8Array([0xa2, 0x0a, 0, 0, 0, 85, 0]);
+            const entry = await deserializeAndroidLogEntry(
+                new Uint8ArrayExactReadable(
+                    serializeAndroidLogEntry(
+                        createEntry({ logId: LogId.Events, payload }),
+                    ),
+                ),
+            );
+            assert.strictEqual(entry.priority, AndroidLogPriority.Info);
+            assert.strictEqual(entry.tag, "2722");
+            assert.strictEqual(entry.message, "00 55 00");
+            assert.deepStrictEqual(entry.payload, payload);
+        });
+    });
+
+    describe("parseLogcatText", () => {
+        it("should parse `threadtime` format", () => {
+            const entries = parseLogcatText(
+                [
+                    "--------- beginning of main",
+                    "01-02 03:04:05.678  1234  5678 I MyTag   : Hello",
+                    "01-02 03:04:05.678  1234  5678 I MyTag   : World",
+                    "01-02 03:04:05.679  1234  5679 W Other: key: value",
+                    "--------- beginning of system",
+                    "01-02 03:04:06.000  1000  1234  5678 E ActivityManager: with uid",
+                    "",
+                ].join("\n"),
+                { year: 2024, mergeLines: true },
+            );
+
+            const seconds = new Date(2024, 0, 2, 3, 4, 5).getTime() / 1000;
+            assert.deepStrictEqual(
+                entries.map((entry) => ({
+                    logId: entry.logId,
+                    seconds: entry.seconds,
+                    nanoseconds: entry.nanoseconds,
+                    uid: entry.uid,
+                    pid: entry.pid,
+                    tid: entry.tid,
+                    priority: entry.priority,
+                    tag: entry.tag,
+                    message: entry.message,
+                })),
+                [
+                    {
+                        logId: LogId.Main,
+                        seconds,
+                        nanoseconds: 678000000,
+                        uid: 0,
+                        pid: 1234,
+                        tid: 5678,
+                        priority: AndroidLogPriority.Info,
+                        tag: "MyTag",
+                        message: "Hello\nWorld",
+                    },
+                    {
+                        logId: LogId.Main,
+                        seconds,
+                        nanoseconds: 679000000,
+                        uid: 0,
+                        pid: 1234,
+                        tid: 5679,
+                        priority: AndroidLogPriority.Warn,
+                        tag: "Other",
+                        message: "key: value",
+                    },
+                    {
+                        logId: LogId.System,
+                        seconds: seconds + 1,
+                        nanoseconds: 0,
+                        uid: 1000,
+                        pid: 1234,
+                        tid: 5678,
+                        priority: AndroidLogPriority.Error,
+                        tag: "ActivityManager",
+                        message: "with uid",
+                    },
+                ],
+            );
+        });
+
+        it("should format back to the same text", () => {
+            const text = [
+                "01-02 03:04:05.678  1234  5678 I MyTag   : Hello",
+                "01-02 03:04:05.678  1234  5678 I MyTag   : World",
+            ].join("\n");
+            const [entry] = parseLogcatText(text, { mergeLines: true });
+            assert.strictEqual(entry!.toString(LogcatFormat.ThreadTime), text);
+        });
+
+        it("should not merge lines with the same prefix by default", () => {
+            const entries = parseLogcatText(
+                ["I/MyTag   ( 1234): first", "I/MyTag   ( 1234): second"].join(
+                    "\n",
+                ),
+            );
+            assert.deepStrictEqual(
+                entries.map((entry) => entry.message),
+                ["first", "second"],
+            );
+        });
+
+        it("should parse `time` format with `year`, `usec`, `zone` and `uid`", () => {
+            const [entry] = parseLogcatText(
+                "2024-01-02 03:04:05.678901 +08:00 D/Tag     (10123: 1234): message",
+            );
+            assert.strictEqual(
+                entry!.seconds,
+                Date.UTC(2024, 0, 2, 3, 4, 5) / 1000 - 8 * 60 * 60,
+            );
+            assert.strictEqual(entry!.nanoseconds, 678901000);
+            assert.strictEqual(entry!.uid, 10123);
+            assert.strictEqual(entry!.pid, 1234);
+            assert.strictEqual(entry!.priority, AndroidLogPriority.Debug);
+            assert.strictEqual(entry!.tag, "Tag");
+            assert.strictEqual(entry!.message, "message");
+        });
+
+        it("should parse `brief` format with user name", () => {
+            const [entry] = parseLogcatText("W/Tag     ( root:   42): message");
+            assert.strictEqual(entry!.uid, 0);
+            assert.strictEqual(entry!.pid, 42);
+            assert.strictEqual(entry!.priority, AndroidLogPriority.Warn);
+            assert.strictEqual(entry!.tag, "Tag");
+            assert.strictEqual(entry!.message, "message");
+        });
+
+        it("should parse `long` format with `epoch`", () => {
+            const entries = parseLogcatText(
+                [
+                    "[ 1704164645.678  1234: 5678 I/MyTag    ]",
+                    "line 1",
+                    "",
+                    "line 3",
+                    "",
+                    "[ 1704164646.000  1234: 5678 E/MyTag    ]",
+                    "message",
+                    "",
+                ].join("\n"),
+            );
+            assert.deepStrictEqual(
+                entries.map((entry) => [
+                    entry.seconds,
+                    entry.priority,
+                    entry.message,
+                ]),
+                [
+                    [1704164645, AndroidLogPriority.Info, "line 1\n\nline 3"],
+                    [1704164646, AndroidLogPriority.Error, "message"],
+                ],
+            );
+        });
+
+        it("should throw for unsupported format", () => {
+            assert.throws(
+                () => new LogcatTextParser({ format: LogcatFormat.Raw }),
+            );
+        });
+    });
+
+    describe("deserializeAndroidLogEntry", () => {
+        it("should remove the null terminator of message", async () => {
+            const payload = new Uint8Array([
+                AndroidLogPriority.Warn,
+                ...encodeUtf8("Tag"),
+                0,
+                ...encodeUtf8("message"),
+                0,
+            ]);
+            const header = LoggerEntry.serialize({
+                payloadSize: payload.length,
+                headerSize: LoggerEntry.size,
+                pid: 100,
+                tid: 101,
+                seconds: 1,
+                nanoseconds: 2,
+                logId: LogId.Main,
+                uid: 10000,
+            });
+
+            const entry = await deserializeAndroidLogEntry(
+                new BufferedReadableStream(
+                    new ReadableStream({
+                        start(controller) {
+                            controller.enqueue(header);
+                            controller.enqueue(payload);
+                            controller.close();
+                        },
+                    }),
+                ),
+            );
+
+            assert.strictEqual(entry.priority, AndroidLogPriority.Warn);
+            assert.strictEqual(entry.tag, "Tag");
+            assert.strictEqual(entry.message, "message");
+        });
+    });
+
+    describe("binary", () => {
+        it("should pad milliseconds in `tail` time", async () => {
+            let args: string[] | undefined;
+            const adb = {
+                subprocess: {
+                    noneProtocol: {
+                        spawn(command: string[]) {
+                            args = command;
+                            return Promise.resolve({
+                                output: new ReadableStream<Uint8Array>({
+                                    start(controller) {
+                                        controller.close();
+                                    },
+                                }),
+                            });
+                        },
+                    },
+                },
+            } as unknown as Adb;
+
+            const logcat = new Logcat(adb);
+            for await (const entry of logcat.binary({
+                tail: new Date(1_700_000_000_005),
+            })) {
+                assert.fail(`unexpected entry ${entry.message}`);
+            }
+
+            assert.deepStrictEqual(args, [
+                "logcat",
+                "-B",
+                "-t",
+                "1700000000.005",
+            ]);
+        });
+
+        it("should filter on client side for `logcat` without `--uid`", async () => {
+            let args: string[] | undefined;
+            const adb = {
+                subprocess: {
+                    noneProtocol: {
+                        spawn(command: string[]) {
+                            args = command;
+                            // Older `logcat` prints usage to stderr, which is
+                            // merged into output by none protocol
+                            const output = command.includes("--uid")
+                                ? [
+                                      encodeUtf8(
+                                          "logcat: unrecognized option '--uid'\n",
+                                      ),
+                                  ]
+                                : [
+                                      createEntry({ uid: 0, message: "a" }),
+                                      createEntry({ message: "b" }),
+                                      createEntry({ message: "ab" }),
+                                      createEntry({ message: "bb" }),
+                                  ].map(serializeAndroidLogEntry);
+                            return Promise.resolve({
+                                output: new ReadableStream<Uint8Array>({
+                                    start(controller) {
+                                        for (const chunk of output) {
+                                            controller.enqueue(chunk);
+                                        }
+                                        controller.close();
+                                    },
+                                }),
+                            });
+                        },
+                    },
+                },
+            } as unknown as Adb;
+
+            const logcat = new Logcat(adb);
+            const messages: string[] = [];
+            for await (const entry of logcat.binary({
+                dump: true,
+                uid: 10000,
+                regex: "b",
+                maxCount: 2,
+            })) {
+                messages.push(entry.message);
+            }
+
+            assert.deepStrictEqual(args, ["logcat", "-B", "-d"]);
+            assert.deepStrictEqual(messages, ["b", "ab"]);
+        });
+    });
+});
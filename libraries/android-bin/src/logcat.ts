@@ -1,16 +1,25 @@
 // cspell: ignore logcat
 // cspell: ignore usec
 
-import { AdbServiceBase } from "@yume-chan/adb";
+import { AdbServiceBase, escapeArg } from "@yume-chan/adb";
+import { getInt32LittleEndian } from "@yume-chan/no-data-view";
 import type { ReadableStream } from "@yume-chan/stream-extra";
 import {
     BufferedTransformStream,
     SplitStringStream,
     TextDecoderStream,
+    TransformStream,
     WrapReadableStream,
 } from "@yume-chan/stream-extra";
 import type { AsyncExactReadable, StructValue } from "@yume-chan/struct";
-import { decodeUtf8, struct, u16, u32 } from "@yume-chan/struct";
+import { decodeUtf8, encodeUtf8, struct, u16, u32 } from "@yume-chan/struct";
+
+import {
+    AndroidEventLogError,
+    AndroidEventLogTags,
+    decodeAndroidEventLogPayload,
+    formatAndroidEventLogValue,
+} from "./event-log.js";
 
 // `adb logcat` is an alias to `adb shell logcat`
 // so instead of adding to core library, it's implemented here
@@ -87,18 +96,223 @@ export interface LogcatFormatModifiers {
     uid?: boolean;
 }
 
-export interface LogcatOptions {
-    dump?: boolean | undefined;
+/**
+ * A `tag:priority` filter spec.
+ *
+ * `tag` can be `*` to set the priority for all tags without a specific rule.
+ */
+export interface LogcatFilterSpec {
+    tag: string;
+    priority: AndroidLogPriority;
+}
+
+export interface LogcatFilterOptions {
     pid?: number | undefined;
+    uid?: number | readonly number[] | undefined;
     ids?: readonly LogId[] | undefined;
+    /**
+     * Filter specs, either as a string like `*:S MyTag:V`,
+     * or parsed `LogcatFilterSpec`s.
+     *
+     * Later specs override earlier ones for the same tag.
+     */
+    filters?: string | readonly LogcatFilterSpec[] | undefined;
+    /**
+     * Only include entries whose message matches this ECMAScript regular expression.
+     */
+    regex?: string | undefined;
+    /**
+     * Stop after this number of entries (after all other filters).
+     */
+    maxCount?: number | undefined;
+}
+
+export interface LogcatOptions extends LogcatFilterOptions {
+    dump?: boolean | undefined;
     tail?: number | Date | undefined;
+    /**
+     * When `tail` is set, whether to keep reading new entries after the tail (`-T`),
+     * instead of exiting (`-t`).
+     */
+    follow?: boolean | undefined;
+}
+
+// https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/logprint.cpp;l=164;drc=8dbf3b2bb6b6d1652d9797e477b9abd03278bb79
+const AndroidLogCharacterToPriority: Record<
+    string,
+    AndroidLogPriority | undefined
+> = {
+    V: AndroidLogPriority.Verbose,
+    D: AndroidLogPriority.Debug,
+    I: AndroidLogPriority.Info,
+    W: AndroidLogPriority.Warn,
+    E: AndroidLogPriority.Error,
+    F: AndroidLogPriority.Fatal,
+    S: AndroidLogPriority.Silent,
+    "*": AndroidLogPriority.Default,
+};
+
+// https://cs.android.com/android/platform/superproject/+/master:system/logging/liblog/logprint.cpp;l=364;drc=8dbf3b2bb6b6d1652d9797e477b9abd03278bb79
+export function parseLogcatFilterSpecs(value: string): LogcatFilterSpec[] {
+    const result: LogcatFilterSpec[] = [];
+    for (const spec of value.split(/[\s,]+/)) {
+        if (!spec) {
+            continue;
+        }
+
+        const separator = spec.indexOf(":");
+        const tag = separator === -1 ? spec : spec.substring(0, separator);
+        let priority: AndroidLogPriority | undefined =
+            AndroidLogPriority.Default;
+        if (separator !== -1) {
+            const character = spec.substring(separator + 1);
+            priority =
+                character.length === 1
+                    ? AndroidLogCharacterToPriority[character.toUpperCase()]
+                    : undefined;
+        }
+        if (!tag || priority === undefined) {
+            throw new Error(`Invalid logcat filter spec "${spec}"`);
+        }
+
+        if (priority === AndroidLogPriority.Default) {
+            // Unspecified priority means Debug for `*`, and Verbose for other tags
+            priority =
+                tag === "*"
+                    ? AndroidLogPriority.Debug
+                    : AndroidLogPriority.Verbose;
+        }
+
+        result.push({ tag, priority });
+    }
+    return result;
+}
+
+export function formatLogcatFilterSpecs(
+    specs: readonly LogcatFilterSpec[],
+): string[] {
+    return specs.map(
+        ({ tag, priority }) =>
+            `${tag}:${AndroidLogPriorityToCharacter[priority]}`,
+    );
+}
+
+function normalizeFilterSpecs(
+    filters: string | readonly LogcatFilterSpec[],
+): readonly LogcatFilterSpec[] {
+    return typeof filters === "string"
+        ? parseLogcatFilterSpecs(filters)
+        : filters;
+}
+
+function normalizeUids(uid: number | readonly number[]): readonly number[] {
+    return typeof uid === "number" ? [uid] : uid;
+}
+
+/**
+ * Filters `AndroidLogEntry`s in the same way as `logcat` on device.
+ *
+ * Useful when the device's `logcat` doesn't support some options,
+ * or ignores them in binary mode.
+ */
+export class LogcatFilter {
+    readonly #pid: number | undefined;
+    readonly #uids: ReadonlySet<number> | undefined;
+    readonly #ids: ReadonlySet<LogId> | undefined;
+    readonly #priorities = new Map<string, AndroidLogPriority>();
+    readonly #globalPriority: AndroidLogPriority = AndroidLogPriority.Verbose;
+    readonly #regex: RegExp | undefined;
+
+    constructor(options: LogcatFilterOptions) {
+        this.#pid = options.pid;
+        if (options.uid !== undefined) {
+            this.#uids = new Set(normalizeUids(options.uid));
+        }
+        if (options.ids && !options.ids.includes(LogId.All)) {
+            this.#ids = new Set(options.ids);
+        }
+        if (options.filters) {
+            for (const { tag, priority } of normalizeFilterSpecs(
+                options.filters,
+            )) {
+                if (tag === "*") {
+                    this.#globalPriority = priority;
+                } else {
+                    this.#priorities.set(tag, priority);
+                }
+            }
+        }
+        if (options.regex !== undefined) {
+            this.#regex = new RegExp(options.regex);
+        }
+    }
+
+    test(entry: AndroidLogEntry): boolean {
+        if (this.#pid !== undefined && entry.pid !== this.#pid) {
+            return false;
+        }
+        if (this.#uids && !this.#uids.has(entry.uid)) {
+            return false;
+        }
+        if (this.#ids && !this.#ids.has(entry.logId as LogId)) {
+            return false;
+        }
+        if (
+            entry.priority <
+            (this.#priorities.get(entry.tag) ?? this.#globalPriority)
+        ) {
+            return false;
+        }
+        if (this.#regex && !this.#regex.test(entry.message)) {
+            return false;
+        }
+        return true;
+    }
+}
+
+/**
+ * A `TransformStream` that applies `LogcatFilterOptions` to `AndroidLogEntry`s.
+ *
+ * When `maxCount` is reached, the stream ends and the source stream is cancelled.
+ */
+export class LogcatFilterStream extends TransformStream<
+    AndroidLogEntry,
+    AndroidLogEntry
+> {
+    constructor(options: LogcatFilterOptions) {
+        const filter = new LogcatFilter(options);
+        let remaining = options.maxCount ?? Infinity;
+
+        super({
+            start(controller) {
+                if (remaining <= 0) {
+                    controller.terminate();
+                }
+            },
+            transform(chunk, controller) {
+                if (!filter.test(chunk)) {
+                    return;
+                }
+
+                controller.enqueue(chunk);
+                remaining -= 1;
+                if (remaining <= 0) {
+                    controller.terminate();
+                }
+            },
+        });
+    }
 }
 
 function formatTailTime(date: Date) {
     // Tail time supports multiple formats,
     // `sssss.mmm` is simplest to implement
     const timestamp = date.getTime();
-    return ((timestamp / 1000) | 0) + "." + (timestamp % 1000);
+    return (
+        ((timestamp / 1000) | 0) +
+        "." +
+        (timestamp % 1000).toString().padStart(3, "0")
+    );
 }
 
 const NANOSECONDS_PER_SECOND = /* #__PURE__ */ BigInt(1e9);
@@ -135,6 +349,13 @@ export interface AndroidLogEntry extends LoggerEntry {
     priority: AndroidLogPriority;
     tag: string;
     message: string;
+    /**
+     * The raw binary payload, for entries from `Events`, `Stats` and `Security` buffers.
+     *
+     * For these entries, `tag` is the numeric tag, and `message` is the formatted value.
+     * Use `AndroidEventLogTags#decode` to get tag names and structured values.
+     */
+    payload?: Uint8Array | undefined;
 
     toString(format?: LogcatFormat, modifiers?: LogcatFormatModifiers): string;
 }
@@ -370,6 +591,16 @@ function findTagEnd(payload: Uint8Array) {
     return payload.length;
 }
 
+function formatHex(data: Uint8Array) {
+    return Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join(
+        " ",
+    );
+}
+
+function isBinaryLogId(id: number) {
+    return id === LogId.Events || id === LogId.Stats || id === LogId.Security;
+}
+
 export async function deserializeAndroidLogEntry(
     stream: AsyncExactReadable,
 ): Promise<AndroidLogEntry> {
@@ -380,9 +611,32 @@ export async function deserializeAndroidLogEntry(
     }
 
     let payload = await stream.readExactly(entry.payloadSize);
+    entry.toString = AndroidLogEntryToString;
 
     // https://cs.android.com/android/platform/superproject/+/master:system/logging/logcat/logcat.cpp;l=193-194;drc=bbe77d66e7bee8bd1f0bc7e5492b5376b0207ef6
-    // TODO: payload for some log IDs are in binary format.
+    if (isBinaryLogId(entry.logId)) {
+        entry.priority = AndroidLogPriority.Info;
+        entry.payload = payload;
+        try {
+            const { tag, value } = decodeAndroidEventLogPayload(payload);
+            entry.tag = tag.toString();
+            entry.message = formatAndroidEventLogValue(value);
+        } catch (e) {
+            if (!(e instanceof AndroidEventLogError)) {
+                throw e;
+            }
+
+            // Don't let one malformed entry break the whole stream,
+            // print the undecodable bytes in hex instead.
+            const hasTag = payload.length >= 4;
+            entry.tag = hasTag
+                ? getInt32LittleEndian(payload, 0).toString()
+                : "";
+            entry.message = formatHex(hasTag ? payload.subarray(4) : payload);
+        }
+        return entry;
+    }
+
     entry.priority = payload[0] as AndroidLogPriority;
 
     payload = payload.subarray(1);
@@ -390,12 +644,526 @@ export async function deserializeAndroidLogEntry(
     entry.tag = decodeUtf8(payload.subarray(0, tagEnd));
     entry.message =
         tagEnd < payload.length - 1
-            ? decodeUtf8(payload.subarray(tagEnd + 1))
+            ? decodeUtf8(
+                  // Remove the null terminator
+                  payload[payload.length - 1] === 0
+                      ? payload.subarray(tagEnd + 1, -1)
+                      : payload.subarray(tagEnd + 1),
+              )
             : "";
-    entry.toString = AndroidLogEntryToString;
     return entry;
 }
 
+function serializeLoggerEntry(entry: AndroidLogEntry, payloadSize: number) {
+    return LoggerEntry.serialize({
+        payloadSize,
+        headerSize: LoggerEntry.size,
+        pid: entry.pid,
+        tid: entry.tid,
+        seconds: entry.seconds,
+        nanoseconds: entry.nanoseconds,
+        logId: entry.logId,
+        uid: entry.uid,
+    });
+}
+
+/**
+ * Serializes `entry` in the same format as `logcat -B`,
+ * so it can be read back by `deserializeAndroidLogEntry`.
+ */
+export function serializeAndroidLogEntry(entry: AndroidLogEntry): Uint8Array {
+    if (entry.payload) {
+        const result = new Uint8Array(LoggerEntry.size + entry.payload.length);
+        result.set(serializeLoggerEntry(entry, entry.payload.length));
+        result.set(entry.payload, LoggerEntry.size);
+        return result;
+    }
+
+    const tag = encodeUtf8(entry.tag);
+    const message = encodeUtf8(entry.message);
+    // Priority, tag, message and two null terminators
+    const payloadSize = 1 + tag.length + 1 + message.length + 1;
+
+    const result = new Uint8Array(LoggerEntry.size + payloadSize);
+    result.set(serializeLoggerEntry(entry, payloadSize));
+
+    let offset = LoggerEntry.size;
+    result[offset] = entry.priority;
+    offset += 1;
+    result.set(tag, offset);
+    offset += tag.length + 1;
+    result.set(message, offset);
+    return result;
+}
+
+// https://cs.android.com/android/platform/superproject/+/master:system/core/libcutils/include/private/android_filesystem_config.h
+// With `uid` modifier, `logcat` prints user names with at most 5 characters instead of UIDs
+const AndroidUserNameToUid: Record<string, number | undefined> = {
+    root: 0,
+    radio: 1001,
+    input: 1004,
+    audio: 1005,
+    log: 1007,
+    mount: 1009,
+    wifi: 1010,
+    adb: 1011,
+    media: 1013,
+    dhcp: 1014,
+    vpn: 1016,
+    usb: 1018,
+    drm: 1019,
+    mdnsr: 1020,
+    gps: 1021,
+    mtp: 1024,
+    nfc: 1027,
+    shell: 2000,
+    cache: 2001,
+    diag: 2002,
+};
+
+const LOGCAT_TIME_PATTERN = String.raw`((?:\d{4}-)?\d{2}-\d{2} \d{2}:\d{2}:\d{2}|\s*\d+)\.(\d+)(?: ([+-])(\d{2}):?(\d{2}))?`;
+const LOGCAT_PRIORITY_PATTERN = String.raw`([VDIWEFS?])`;
+const LOGCAT_UID_PATTERN = String.raw`(?:\s*(\S+?):)?`;
+
+// Patterns for the prefix of each line, should match `getFormatPrefix`
+const LogcatLinePrefixRegex = {
+    [LogcatFormat.Brief]: new RegExp(
+        String.raw`^${LOGCAT_PRIORITY_PATTERN}\/(.*?)\s*\(${LOGCAT_UID_PATTERN}\s*(\d+)\): `,
+    ),
+    [LogcatFormat.Time]: new RegExp(
+        String.raw`^${LOGCAT_TIME_PATTERN} ${LOGCAT_PRIORITY_PATTERN}\/(.*?)\s*\(${LOGCAT_UID_PATTERN}\s*(\d+)\): `,
+    ),
+    [LogcatFormat.ThreadTime]: new RegExp(
+        String.raw`^${LOGCAT_TIME_PATTERN}\s+(?:(\S+?):?\s+)?(\d+)\s+(\d+) ${LOGCAT_PRIORITY_PATTERN} (.*?)\s*: `,
+    ),
+};
+
+const LogcatLongHeaderRegex = new RegExp(
+    String.raw`^\[ ${LOGCAT_TIME_PATTERN} ${LOGCAT_UID_PATTERN}\s*(\d+):\s*(\d+) ${LOGCAT_PRIORITY_PATTERN}\/(.*?)\s* \]$`,
+);
+
+const LogcatBufferBeginningRegex = /^-{9} (?:switch to|beginning of) (\w+)$/;
+
+export interface LogcatTextParserOptions {
+    /**
+     * The format of the text.
+     *
+     * Only `Brief`, `Time`, `ThreadTime` and `Long` are supported.
+     * When not specified, it will be detected from the first log line.
+     */
+    format?: LogcatFormat | undefined;
+
+    /**
+     * The year of timestamps printed without `year` modifier.
+     *
+     * Defaults to the current year.
+     */
+    year?: number | undefined;
+
+    /**
+     * Whether to merge consecutive lines with the same prefix into one entry.
+     *
+     * `logcat` prints each line of a multi-line message with the same prefix,
+     * but separate messages from the same process and tag can also have the same prefix,
+     * because `brief` format doesn't have timestamps, and other formats only have
+     * millisecond precision. So merging may join unrelated messages.
+     *
+     * `long` format prints a header for each entry, so it's not affected by this option.
+     *
+     * @default false
+     */
+    mergeLines?: boolean | undefined;
+}
+
+interface LogcatTextEntryInit {
+    seconds: number;
+    nanoseconds: number;
+    uid: number;
+    pid: number;
+    tid: number;
+    priority: AndroidLogPriority;
+    tag: string;
+    message: string;
+}
+
+/**
+ * Parses text output of `logcat` (for example in bug reports)
+ * back into `AndroidLogEntry`s.
+ *
+ * Log IDs are determined from `--------- beginning of <buffer>` lines,
+ * and default to `LogId.Main`.
+ */
+export class LogcatTextParser {
+    #format: LogcatFormat | undefined;
+    readonly #year: number;
+    readonly #mergeLines: boolean;
+
+    #logId: LogId = LogId.Main;
+    #pending: LogcatTextEntryInit | undefined;
+    #pendingLogId: LogId = LogId.Main;
+    #pendingLines: string[] = [];
+    // For line formats, the prefix of the pending entry,
+    // so following lines of multi-line messages can be merged
+    #pendingPrefix: string | undefined;
+
+    constructor(options?: LogcatTextParserOptions) {
+        const format = options?.format;
+        if (
+            format !== undefined &&
+            format !== LogcatFormat.Long &&
+            !(format in LogcatLinePrefixRegex)
+        ) {
+            throw new Error(`Unsupported logcat format ${format}`);
+        }
+
+        this.#format = format;
+        this.#year = options?.year ?? new Date().getFullYear();
+        this.#mergeLines = !!options?.mergeLines;
+    }
+
+    /**
+     * @param match A match of a pattern starting with `LOGCAT_TIME_PATTERN`
+     */
+    #parseTime(
+        match: RegExpMatchArray,
+    ): Pick<LogcatTextEntryInit, "seconds" | "nanoseconds"> {
+        const [, seconds, fraction, sign, offsetHours, offsetMinutes] = match;
+        const nanoseconds = Number.parseInt(
+            fraction!.substring(0, 9).padEnd(9, "0"),
+            10,
+        );
+
+        const date = seconds!.match(
+            /^(?:(\d{4})-)?(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/,
+        );
+        if (!date) {
+            // `epoch` or `monotonic` modifier
+            return { seconds: Number.parseInt(seconds!, 10), nanoseconds };
+        }
+
+        const [, year, month, day, hour, minute, second] = date;
+        const fields = [
+            year ? Number.parseInt(year, 10) : this.#year,
+            Number.parseInt(month!, 10) - 1,
+            Number.parseInt(day!, 10),
+            Number.parseInt(hour!, 10),
+            Number.parseInt(minute!, 10),
+            Number.parseInt(second!, 10),
+        ] as const;
+
+        if (sign === undefined) {
+            // Without `zone` modifier, the time is in local time zone
+            return {
+                seconds: new Date(...fields).getTime() / 1000,
+                nanoseconds,
+            };
+        }
+
+        const offset =
+            (sign === "-" ? -1 : 1) *
+            (Number.parseInt(offsetHours!, 10) * 60 +
+                Number.parseInt(offsetMinutes!, 10));
+        return {
+            seconds: Date.UTC(...fields) / 1000 - offset * 60,
+            nanoseconds,
+        };
+    }
+
+    #parseUid(value: string | undefined): number {
+        if (value === undefined) {
+            return 0;
+        }
+        if (/^\d+$/.test(value)) {
+            return Number.parseInt(value, 10);
+        }
+        return AndroidUserNameToUid[value] ?? 0;
+    }
+
+    #parsePriority(value: string): AndroidLogPriority {
+        return value === "?"
+            ? AndroidLogPriority.Unknown
+            : AndroidLogCharacterToPriority[value]!;
+    }
+
+    #matchLongHeader(line: string): LogcatTextEntryInit | undefined {
+        const match = line.match(LogcatLongHeaderRegex);
+        if (!match) {
+            return undefined;
+        }
+
+        return {
+            ...this.#parseTime(match),
+            uid: this.#parseUid(match[6]),
+            pid: Number.parseInt(match[7]!, 10),
+            tid: Number.parseInt(match[8]!, 10),
+            priority: this.#parsePriority(match[9]!),
+            tag: match[10]!,
+            message: "",
+        };
+    }
+
+    #matchLine(
+        format: LogcatFormat,
+        line: string,
+    ): [prefix: string, entry: LogcatTextEntryInit] | undefined {
+        switch (format) {
+            case LogcatFormat.Brief: {
+                const match = line.match(
+                    LogcatLinePrefixRegex[LogcatFormat.Brief],
+                );
+                if (!match) {
+                    return undefined;
+                }
+
+                const [prefix, priority, tag, uid, pid] = match;
+                return [
+                    prefix,
+                    {
+                        seconds: 0,
+                        nanoseconds: 0,
+                        uid: this.#parseUid(uid),
+                        pid: Number.parseInt(pid!, 10),
+                        tid: 0,
+                        priority: this.#parsePriority(priority!),
+                        tag: tag!,
+                        message: line.substring(prefix.length),
+                    },
+                ];
+            }
+            case LogcatFormat.Time: {
+                const match = line.match(
+                    LogcatLinePrefixRegex[LogcatFormat.Time],
+                );
+                if (!match) {
+                    return undefined;
+                }
+
+                const [prefix] = match;
+                return [
+                    prefix,
+                    {
+                        ...this.#parseTime(match),
+                        uid: this.#parseUid(match[8]),
+                        pid: Number.parseInt(match[9]!, 10),
+                        tid: 0,
+                        priority: this.#parsePriority(match[6]!),
+                        tag: match[7]!,
+                        message: line.substring(prefix.length),
+                    },
+                ];
+            }
+            case LogcatFormat.ThreadTime: {
+                const match = line.match(
+                    LogcatLinePrefixRegex[LogcatFormat.ThreadTime],
+                );
+                if (!match) {
+                    return undefined;
+                }
+
+                const [prefix] = match;
+                return [
+                    prefix,
+                    {
+                        ...this.#parseTime(match),
+                        uid: this.#parseUid(match[6]),
+                        pid: Number.parseInt(match[7]!, 10),
+                        tid: Number.parseInt(match[8]!, 10),
+                        priority: this.#parsePriority(match[9]!),
+                        tag: match[10]!,
+                        message: line.substring(prefix.length),
+                    },
+                ];
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    #detectFormat(line: string): LogcatFormat | undefined {
+        if (LogcatLongHeaderRegex.test(line)) {
+            return LogcatFormat.Long;
+        }
+
+        // More specific formats first
+        for (const format of [
+            LogcatFormat.ThreadTime,
+            LogcatFormat.Time,
+            LogcatFormat.Brief,
+        ]) {
+            if (this.#matchLine(format, line)) {
+                return format;
+            }
+        }
+
+        return undefined;
+    }
+
+    #createEntry(init: LogcatTextEntryInit, logId: LogId): AndroidLogEntry {
+        const tagLength = encodeUtf8(init.tag).length;
+        const messageLength = encodeUtf8(init.message).length;
+        return {
+            // Priority, tag, message and two null terminators
+            payloadSize: 1 + tagLength + 1 + messageLength + 1,
+            headerSize: LoggerEntry.size,
+            pid: init.pid,
+            tid: init.tid,
+            seconds: init.seconds,
+            nanoseconds: init.nanoseconds,
+            logId,
+            uid: init.uid,
+            timestamp:
+                BigInt(init.seconds) * NANOSECONDS_PER_SECOND +
+                BigInt(init.nanoseconds),
+            priority: init.priority,
+            tag: init.tag,
+            message: init.message,
+            toString: AndroidLogEntryToString,
+        };
+    }
+
+    #takePending(): AndroidLogEntry[] {
+        if (!this.#pending) {
+            return [];
+        }
+
+        const pending = this.#pending;
+        const lines = this.#pendingLines;
+        this.#pending = undefined;
+        this.#pendingLines = [];
+        this.#pendingPrefix = undefined;
+
+        if (this.#format === LogcatFormat.Long && lines.at(-1) === "") {
+            // Entries are separated by an empty line
+            lines.pop();
+        }
+        pending.message = lines.join("\n");
+
+        return [this.#createEntry(pending, this.#pendingLogId)];
+    }
+
+    #setPending(
+        entry: LogcatTextEntryInit,
+        prefix: string | undefined,
+    ): AndroidLogEntry[] {
+        const result = this.#takePending();
+        this.#pending = entry;
+        this.#pendingLogId = this.#logId;
+        this.#pendingLines = prefix !== undefined ? [entry.message] : [];
+        this.#pendingPrefix = prefix;
+        return result;
+    }
+
+    /**
+     * Parses one line of text.
+     *
+     * Because messages can span multiple lines,
+     * an entry is only returned when the next entry begins, or when `flush` is called.
+     *
+     * @param line A line of text, without the line terminator
+     * @returns The entries completed by this line
+     */
+    parseLine(line: string): AndroidLogEntry[] {
+        if (line.endsWith("\r")) {
+            line = line.substring(0, line.length - 1);
+        }
+
+        const buffer = line.match(LogcatBufferBeginningRegex);
+        if (buffer) {
+            const result = this.#takePending();
+            this.#logId = Logcat.logNameToId(buffer[1]!) ?? LogId.Main;
+            return result;
+        }
+
+        if (this.#format === undefined) {
+            this.#format = this.#detectFormat(line);
+            if (this.#format === undefined) {
+                return [];
+            }
+        }
+
+        if (this.#format === LogcatFormat.Long) {
+            const header = this.#matchLongHeader(line);
+            if (header) {
+                return this.#setPending(header, undefined);
+            }
+
+            if (this.#pending) {
+                this.#pendingLines.push(line);
+            }
+            return [];
+        }
+
+        const match = this.#matchLine(this.#format, line);
+        if (!match) {
+            // Not a log line, for example the header of `logcat -g`
+            return [];
+        }
+
+        const [prefix, entry] = match;
+        if (
+            this.#mergeLines &&
+            this.#pending &&
+            prefix === this.#pendingPrefix
+        ) {
+            // `logcat` prints each line of a multi-line message with the same prefix
+            this.#pendingLines.push(entry.message);
+            return [];
+        }
+
+        return this.#setPending(entry, prefix);
+    }
+
+    /**
+     * Returns the last entry, if any.
+     */
+    flush(): AndroidLogEntry[] {
+        return this.#takePending();
+    }
+}
+
+/**
+ * A `TransformStream` that parses lines of `logcat` text output into `AndroidLogEntry`s.
+ *
+ * Use `SplitStringStream("\n")` to split the text into lines first.
+ */
+export class LogcatTextParseStream extends TransformStream<
+    string,
+    AndroidLogEntry
+> {
+    constructor(options?: LogcatTextParserOptions) {
+        const parser = new LogcatTextParser(options);
+
+        super({
+            transform(chunk, controller) {
+                for (const entry of parser.parseLine(chunk)) {
+                    controller.enqueue(entry);
+                }
+            },
+            flush(controller) {
+                for (const entry of parser.flush()) {
+                    controller.enqueue(entry);
+                }
+            },
+        });
+    }
+}
+
+/**
+ * Parses `logcat` text output into `AndroidLogEntry`s.
+ */
+export function parseLogcatText(
+    text: string,
+    options?: LogcatTextParserOptions,
+): AndroidLogEntry[] {
+    const parser = new LogcatTextParser(options);
+    const result: AndroidLogEntry[] = [];
+    for (const line of text.split("\n")) {
+        result.push(...parser.parseLine(line));
+    }
+    result.push(...parser.flush());
+    return result;
+}
+
 export interface LogSize {
     id: LogId;
     size: number;
@@ -497,6 +1265,18 @@ export class Logcat extends AdbServiceBase {
         await this.adb.subprocess.noneProtocol.spawnWaitText(args);
     }
 
+    /**
+     * Reads tag names and field definitions of `Events` buffer entries
+     * from `/system/etc/event-log-tags`.
+     */
+    async getEventLogTags(): Promise<AndroidEventLogTags> {
+        const output = await this.adb.subprocess.noneProtocol.spawnWaitText([
+            "cat",
+            AndroidEventLogTags.PATH,
+        ]);
+        return AndroidEventLogTags.parse(output);
+    }
+
     binary(options?: LogcatOptions): ReadableStream<AndroidLogEntry> {
         return new WrapReadableStream(async () => {
             const args = ["logcat", "-B"];
@@ -509,23 +1289,40 @@ export class Logcat extends AdbServiceBase {
             if (options?.ids) {
                 args.push("-b", Logcat.joinLogId(options.ids));
             }
+            // `uid`, `regex` and `maxCount` are not sent to `logcat`:
+            // it ignores regex and max count in binary mode,
+            // and older versions exit with a usage error for `--uid`.
+            // They are applied by `LogcatFilterStream` below.
             if (options?.tail) {
                 args.push(
-                    "-t",
+                    options.follow ? "-T" : "-t",
                     typeof options.tail === "number"
                         ? options.tail.toString()
                         : formatTailTime(options.tail),
                 );
             }
+            if (options?.filters) {
+                args.push(
+                    ...formatLogcatFilterSpecs(
+                        normalizeFilterSpecs(options.filters),
+                    ).map(escapeArg),
+                );
+            }
 
             // TODO: make `spawn` return synchronously with streams pending
             // so it's easier to chain them.
             const process = await this.adb.subprocess.noneProtocol.spawn(args);
             return process.output;
-        }).pipeThrough(
-            new BufferedTransformStream((stream) => {
-                return deserializeAndroidLogEntry(stream);
-            }),
-        );
+        })
+            .pipeThrough(
+                new BufferedTransformStream((stream) => {
+                    return deserializeAndroidLogEntry(stream);
+                }),
+            )
+            .pipeThrough(
+                // In binary mode, `logcat` ignores filter specs,
+                // so filter them again on client side.
+                new LogcatFilterStream(options ?? {}),
+            );
     }
 }
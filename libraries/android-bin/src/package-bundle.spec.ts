@@ -0,0 +1,274 @@
+// cspell: ignore xapk
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type {
+    AdbSyncDirectorySource,
+    AdbSyncDirectorySourceEntry,
+} from "@yume-chan/adb";
+import { LinuxFileType } from "@yume-chan/adb";
+import { ReadableStream } from "@yume-chan/stream-extra";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import type {
+    PackageBundleDeviceSpec,
+    PackageBundleFile,
+} from "./package-bundle.js";
+import {
+    PackageBundleSplitType,
+    getPackageBundleObbPath,
+    parsePackageBundleSplitName,
+    readPackageBundle,
+    selectPackageBundleSplits,
+} from "./package-bundle.js";
+
+function createStream(content: Uint8Array) {
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(content);
+            controller.close();
+        },
+    });
+}
+
+/**
+ * Creates an in-memory directory source from a map of paths to contents.
+ */
+function createSource(files: Record<string, string>): AdbSyncDirectorySource {
+    return {
+        list(path) {
+            const prefix = path ? path + "/" : "";
+            const entries = new Map<string, AdbSyncDirectorySourceEntry>();
+            for (const [name, content] of Object.entries(files)) {
+                if (!name.startsWith(prefix)) {
+                    continue;
+                }
+
+                const [child, ...rest] = name
+                    .substring(prefix.length)
+                    .split("/");
+                if (rest.length !== 0) {
+                    entries.set(child!, {
+                        type: LinuxFileType.Directory,
+                        name: child!,
+                    });
+                    continue;
+                }
+
+                const data = encodeUtf8(content);
+                entries.set(child!, {
+                    type: LinuxFileType.File,
+                    name: child!,
+                    size: data.length,
+                    open: () => createStream(data),
+                });
+            }
+            return entries.values();
+        },
+    };
+}
+
+function createFiles(...paths: string[]): PackageBundleFile[] {
+    return paths.map((path) => ({
+        path,
+        size: 0,
+        open: () => createStream(new Uint8Array()),
+    }));
+}
+
+const Device: PackageBundleDeviceSpec = {
+    abis: ["arm64-v8a", "armeabi-v7a", "armeabi"],
+    density: 420,
+    locales: ["zh-Hans-CN"],
+};
+
+describe("PackageBundle", () => {
+    describe("parsePackageBundleSplitName", () => {
+        it("should parse bundletool names", () => {
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("splits/base-master.apk"),
+                {
+                    module: "base",
+                    type: PackageBundleSplitType.Base,
+                    qualifier: undefined,
+                },
+            );
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("splits/feature-arm64_v8a.apk"),
+                {
+                    module: "feature",
+                    type: PackageBundleSplitType.Abi,
+                    qualifier: "arm64_v8a",
+                },
+            );
+        });
+
+        it("should parse APKPure, APKMirror and device names", () => {
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("config.xxhdpi.apk"),
+                {
+                    module: "base",
+                    type: PackageBundleSplitType.Density,
+                    qualifier: "xxhdpi",
+                },
+            );
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("split_config.zh_TW.apk"),
+                {
+                    module: "base",
+                    type: PackageBundleSplitType.Locale,
+                    qualifier: "zh_TW",
+                },
+            );
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("split_feature.config.x86.apk"),
+                {
+                    module: "feature",
+                    type: PackageBundleSplitType.Abi,
+                    qualifier: "x86",
+                },
+            );
+            assert.deepStrictEqual(
+                parsePackageBundleSplitName("com.example.apk"),
+                {
+                    module: "com.example",
+                    type: PackageBundleSplitType.Base,
+                    qualifier: undefined,
+                },
+            );
+        });
+    });
+
+    describe("selectPackageBundleSplits", () => {
+        it("should select splits matching the device", () => {
+            const files = createFiles(
+                "splits/base-master.apk",
+                "splits/base-armeabi_v7a.apk",
+                "splits/base-arm64_v8a.apk",
+                "splits/base-x86.apk",
+                "splits/base-xhdpi.apk",
+                "splits/base-xxhdpi.apk",
+                "splits/base-xxxhdpi.apk",
+                "splits/base-en.apk",
+                "splits/base-zh.apk",
+                "splits/base-astc.apk",
+                "splits/feature-master.apk",
+                "splits/feature-hdpi.apk",
+                "splits/feature-mdpi.apk",
+            );
+            assert.deepStrictEqual(
+                selectPackageBundleSplits(files, Device).map(
+                    (file) => file.path,
+                ),
+                [
+                    "splits/base-master.apk",
+                    "splits/base-zh.apk",
+                    "splits/base-astc.apk",
+                    "splits/base-arm64_v8a.apk",
+                    "splits/base-xxhdpi.apk",
+                    "splits/feature-master.apk",
+                    // Largest one when all of them are less than device density
+                    "splits/feature-hdpi.apk",
+                ],
+            );
+        });
+
+        it("should filter modules", () => {
+            const files = createFiles(
+                "base.apk",
+                "split_config.arm64_v8a.apk",
+                "split_feature.apk",
+            );
+            assert.deepStrictEqual(
+                selectPackageBundleSplits(files, Device, {
+                    modules: [],
+                }).map((file) => file.path),
+                ["base.apk", "split_config.arm64_v8a.apk"],
+            );
+        });
+
+        it("should keep XAPK base APK when filtering modules", () => {
+            const files = createFiles(
+                "com.example.apk",
+                "config.arm64_v8a.apk",
+                "split_feature.apk",
+            );
+            assert.deepStrictEqual(
+                selectPackageBundleSplits(files, Device, {
+                    modules: [],
+                }).map((file) => file.path),
+                ["com.example.apk", "config.arm64_v8a.apk"],
+            );
+        });
+
+        it("should throw when no ABI matches", () => {
+            assert.throws(() =>
+                selectPackageBundleSplits(
+                    createFiles("base.apk", "config.x86.apk"),
+                    Device,
+                ),
+            );
+        });
+    });
+
+    describe("readPackageBundle", () => {
+        it("should read XAPK metadata", async () => {
+            const bundle = await readPackageBundle(
+                createSource({
+                    "manifest.json": JSON.stringify({
+                        package_name: "com.example",
+                        expansions: [
+                            {
+                                file: "Android/obb/com.example/main.7.com.example.obb",
+                                install_location: "EXTERNAL_STORAGE",
+                                install_path:
+                                    "Android/obb/com.example/main.7.com.example.obb",
+                            },
+                        ],
+                    }),
+                    "icon.png": "",
+                    "com.example.apk": "base",
+                    "config.arm64_v8a.apk": "abi",
+                    "Android/obb/com.example/main.7.com.example.obb": "obb",
+                    "extra.obb": "obb",
+                }),
+            );
+
+            assert.strictEqual(bundle.packageName, "com.example");
+            assert.deepStrictEqual(
+                bundle.apks.map((file) => file.path).sort(),
+                ["com.example.apk", "config.arm64_v8a.apk"],
+            );
+            assert.deepStrictEqual(
+                bundle.obbs.map((file) =>
+                    getPackageBundleObbPath(bundle, file),
+                ),
+                [
+                    "/sdcard/Android/obb/com.example/main.7.com.example.obb",
+                    "/sdcard/Android/obb/com.example/extra.obb",
+                ],
+            );
+        });
+
+        it("should skip bundletool standalone APKs", async () => {
+            const bundle = await readPackageBundle(
+                createSource({
+                    "toc.pb": "",
+                    "splits/base-master.apk": "",
+                    "standalones/standalone-arm64_v8a.apk": "",
+                }),
+            );
+            assert.deepStrictEqual(
+                bundle.apks.map((file) => file.path),
+                ["splits/base-master.apk"],
+            );
+        });
+
+        it("should throw when there are no APKs", async () => {
+            await assert.rejects(
+                readPackageBundle(createSource({ "readme.txt": "" })),
+            );
+        });
+    });
+});
@@ -0,0 +1,512 @@
+// cspell: ignore apks
+// cspell: ignore xapk
+// cspell: ignore apkm
+// cspell: ignore abilist
+// cspell: ignore pname
+
+import type { Adb, AdbSyncDirectorySource } from "@yume-chan/adb";
+import { LinuxFileType, adbSyncListSource } from "@yume-chan/adb";
+import type { MaybePromiseLike } from "@yume-chan/async";
+import type { ReadableStream } from "@yume-chan/stream-extra";
+import {
+    ConcatStringStream,
+    MaybeConsumable,
+    TextDecoderStream,
+    TransformStream,
+} from "@yume-chan/stream-extra";
+
+import type { ZipRandomAccessFile } from "./zip.js";
+import { ZipReader } from "./zip.js";
+
+export type { ZipRandomAccessFile as PackageBundleArchiveFile } from "./zip.js";
+
+/**
+ * An `.apks` (bundletool), `.xapk` (APKPure) or `.apkm` (APKMirror) archive,
+ * or a directory containing `.apk` and `.obb` files.
+ */
+export type PackageBundleSource = ZipRandomAccessFile | AdbSyncDirectorySource;
+
+export interface PackageBundleFile {
+    /**
+     * Path relative to the bundle root, using `/` as separator.
+     */
+    path: string;
+    size: number;
+    open(): MaybePromiseLike<ReadableStream<MaybeConsumable<Uint8Array>>>;
+}
+
+export interface PackageBundle {
+    /**
+     * Package name from the bundle metadata, if available.
+     */
+    packageName: string | undefined;
+    apks: PackageBundleFile[];
+    obbs: PackageBundleFile[];
+    /**
+     * Install paths of OBB files relative to external storage
+     * (for example `Android/obb/com.example/main.1.com.example.obb`),
+     * from the bundle metadata, keyed by `PackageBundleFile#path`.
+     */
+    obbInstallPaths: Record<string, string>;
+}
+
+export class PackageBundleError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+export interface PackageBundleReadOptions {
+    /**
+     * Creates a stream to decompress deflated archive entries,
+     * for example `() => new DecompressionStream("deflate-raw")`.
+     *
+     * Required when the archive contains deflated `.apk`, `.obb` or metadata files.
+     */
+    inflateRaw?: (() => TransformStream<Uint8Array, Uint8Array>) | undefined;
+}
+
+function isDirectorySource(
+    source: PackageBundleSource,
+): source is AdbSyncDirectorySource {
+    return "list" in source;
+}
+
+async function listFiles(
+    source: PackageBundleSource,
+    options: PackageBundleReadOptions | undefined,
+): Promise<PackageBundleFile[]> {
+    if (isDirectorySource(source)) {
+        const { items } = await adbSyncListSource(source);
+        const result: PackageBundleFile[] = [];
+        for (const { path, entry } of items) {
+            if (entry.type === LinuxFileType.File) {
+                result.push({
+                    path,
+                    size: entry.size,
+                    open: () => entry.open(),
+                });
+            }
+        }
+        return result;
+    }
+
+    const zip = await ZipReader.open(source);
+    return zip.entries
+        .filter((entry) => !entry.name.endsWith("/"))
+        .map((entry) => ({
+            path: entry.name,
+            size: entry.size,
+            open: () => zip.open(entry, options?.inflateRaw),
+        }));
+}
+
+async function readJson(file: PackageBundleFile): Promise<unknown> {
+    const stream = await file.open();
+    const text = await stream
+        .pipeThrough(
+            new TransformStream<MaybeConsumable<Uint8Array>, Uint8Array>({
+                transform(chunk, controller) {
+                    // Copy, because consumable chunks can be reused after consuming
+                    MaybeConsumable.tryConsume(chunk, (chunk) =>
+                        controller.enqueue(chunk.slice()),
+                    );
+                },
+            }),
+        )
+        .pipeThrough(new TextDecoderStream())
+        .pipeThrough(new ConcatStringStream());
+    return JSON.parse(text) as unknown;
+}
+
+function getBaseName(path: string) {
+    return path.substring(path.lastIndexOf("/") + 1);
+}
+
+// https://apkpure.com/xapk.html
+interface XapkManifest {
+    package_name?: string;
+    expansions?: { file?: string; install_path?: string }[];
+}
+
+// APKMirror `info.json`
+interface ApkmInfo {
+    pname?: string;
+}
+
+/**
+ * Lists `.apk` and `.obb` files in `source`, and reads package name
+ * and OBB install paths from metadata of `.xapk` and `.apkm` archives.
+ */
+export async function readPackageBundle(
+    source: PackageBundleSource,
+    options?: PackageBundleReadOptions,
+): Promise<PackageBundle> {
+    let files = await listFiles(source, options);
+
+    const bundle: PackageBundle = {
+        packageName: undefined,
+        apks: [],
+        obbs: [],
+        obbInstallPaths: {},
+    };
+
+    for (const file of files) {
+        switch (file.path) {
+            case "manifest.json": {
+                const manifest = (await readJson(file)) as XapkManifest;
+                bundle.packageName ??= manifest.package_name;
+                for (const expansion of manifest.expansions ?? []) {
+                    if (expansion.file && expansion.install_path) {
+                        bundle.obbInstallPaths[expansion.file] =
+                            expansion.install_path;
+                    }
+                }
+                break;
+            }
+            case "info.json": {
+                const info = (await readJson(file)) as ApkmInfo;
+                bundle.packageName ??= info.pname;
+                break;
+            }
+        }
+    }
+
+    // bundletool also generates standalone APKs for devices before Android 5,
+    // they can't be installed together with splits
+    if (files.some((file) => file.path.startsWith("splits/"))) {
+        files = files.filter((file) => !file.path.startsWith("standalones/"));
+    }
+
+    for (const file of files) {
+        const name = file.path.toLowerCase();
+        if (name.endsWith(".apk")) {
+            bundle.apks.push(file);
+        } else if (name.endsWith(".obb")) {
+            bundle.obbs.push(file);
+        }
+    }
+
+    if (bundle.apks.length === 0) {
+        throw new PackageBundleError("No APK files found in the bundle");
+    }
+
+    return bundle;
+}
+
+export const PackageBundleSplitType = {
+    /**
+     * The base APK of a module.
+     */
+    Base: 0,
+    Abi: 1,
+    Density: 2,
+    Locale: 3,
+    /**
+     * Unknown configuration split, always installed.
+     */
+    Other: 4,
+} as const;
+
+export type PackageBundleSplitType =
+    (typeof PackageBundleSplitType)[keyof typeof PackageBundleSplitType];
+
+export interface PackageBundleSplitInfo {
+    /**
+     * Name of the module (feature split), `base` for the base module.
+     */
+    module: string;
+    type: PackageBundleSplitType;
+    /**
+     * The configuration, for example `arm64_v8a`, `xxhdpi` or `en`.
+     */
+    qualifier: string | undefined;
+}
+
+const Abis = new Set([
+    "armeabi",
+    "armeabi_v7a",
+    "arm64_v8a",
+    "x86",
+    "x86_64",
+    "mips",
+    "mips64",
+    "riscv64",
+]);
+
+// https://developer.android.com/training/multiscreen/screendensities#TaskProvideAltBmp
+const Densities: Record<string, number | undefined> = {
+    ldpi: 120,
+    mdpi: 160,
+    tvdpi: 213,
+    hdpi: 240,
+    xhdpi: 320,
+    xxhdpi: 480,
+    xxxhdpi: 640,
+};
+
+function normalizeAbi(abi: string) {
+    return abi.replaceAll("-", "_");
+}
+
+function getLanguage(locale: string) {
+    return locale.split(/[-_]/)[0]!.toLowerCase();
+}
+
+/**
+ * Gets module and configuration of a split APK from its file name.
+ *
+ * Supports file names from bundletool (`base-master.apk`, `base-arm64_v8a.apk`),
+ * APKPure (`config.arm64_v8a.apk`), APKMirror and device (`split_config.arm64_v8a.apk`).
+ */
+export function parsePackageBundleSplitName(
+    path: string,
+): PackageBundleSplitInfo {
+    let name = getBaseName(path).replace(/\.apk$/i, "");
+    if (name.startsWith("split_")) {
+        name = name.substring("split_".length);
+    }
+
+    let module: string;
+    let qualifier: string | undefined;
+
+    let match = name.match(/^(?:(.+)\.)?config\.(.+)$/);
+    if (match) {
+        module = match[1] ?? "base";
+        qualifier = match[2]!;
+    } else if ((match = name.match(/^(.+?)-(.+)$/))) {
+        module = match[1]!;
+        qualifier = match[2] === "master" ? undefined : match[2]!;
+    } else {
+        module = name;
+    }
+
+    let type: PackageBundleSplitType;
+    if (qualifier === undefined) {
+        type = PackageBundleSplitType.Base;
+    } else if (Abis.has(normalizeAbi(qualifier))) {
+        type = PackageBundleSplitType.Abi;
+    } else if (Densities[qualifier] !== undefined) {
+        type = PackageBundleSplitType.Density;
+    } else if (/^[a-z]{2,3}(?:[-_][A-Za-z0-9]+)*$/.test(qualifier)) {
+        type = PackageBundleSplitType.Locale;
+    } else {
+        type = PackageBundleSplitType.Other;
+    }
+
+    return { module, type, qualifier };
+}
+
+export interface PackageBundleDeviceSpec {
+    /**
+     * Supported ABIs, in the order of preference.
+     */
+    abis: readonly string[];
+    /**
+     * Screen density in DPI.
+     */
+    density: number;
+    /**
+     * Locales, for example `en-US`. Only the language part is used.
+     */
+    locales: readonly string[];
+}
+
+/**
+ * Reads the device ABIs, screen density and locale from system properties.
+ */
+export async function getPackageBundleDeviceSpec(
+    adb: Adb,
+): Promise<PackageBundleDeviceSpec> {
+    let abis = (await adb.getProp("ro.product.cpu.abilist"))
+        .split(",")
+        .filter(Boolean);
+    if (abis.length === 0) {
+        // Before Android 5
+        abis = [
+            await adb.getProp("ro.product.cpu.abi"),
+            await adb.getProp("ro.product.cpu.abi2"),
+        ].filter(Boolean);
+    }
+
+    const density =
+        Number.parseInt(await adb.getProp("ro.sf.lcd_density"), 10) ||
+        Number.parseInt(await adb.getProp("qemu.sf.lcd_density"), 10) ||
+        Densities["mdpi"]!;
+
+    // `persist.sys.locale` is set after user changes the locale,
+    // `ro.product.locale` is the factory default.
+    const locale =
+        (await adb.getProp("persist.sys.locale")) ||
+        (await adb.getProp("ro.product.locale")) ||
+        // Before Android 5
+        (await adb.getProp("persist.sys.language"));
+
+    return { abis, density, locales: locale ? [locale] : [] };
+}
+
+interface ParsedSplit extends PackageBundleSplitInfo {
+    file: PackageBundleFile;
+}
+
+/**
+ * Whether `split` belongs to the base module, which is always installed.
+ */
+function isBaseModule(split: ParsedSplit) {
+    if (split.module === "base") {
+        return true;
+    }
+
+    // XAPK names the base APK after the package (`com.example.apk`),
+    // while other modules always have a `split_` prefix or a qualifier.
+    return (
+        split.type === PackageBundleSplitType.Base &&
+        getBaseName(split.file.path).replace(/\.apk$/i, "") === split.module
+    );
+}
+
+function selectAbi(
+    module: string,
+    splits: readonly ParsedSplit[],
+    abis: readonly string[],
+) {
+    for (const abi of abis) {
+        const split = splits.find(
+            (split) => normalizeAbi(split.qualifier!) === normalizeAbi(abi),
+        );
+        if (split) {
+            return split;
+        }
+    }
+
+    throw new PackageBundleError(
+        `Module "${module}" doesn't support any of the device ABIs (${abis.join(", ")})`,
+    );
+}
+
+/**
+ * Selects the split with the smallest density not less than `density`,
+ * or the largest one if all of them are less, same as Android resources.
+ */
+function selectDensity(splits: readonly ParsedSplit[], density: number) {
+    let result: ParsedSplit | undefined;
+    let resultDensity = 0;
+    for (const split of splits) {
+        const value = Densities[split.qualifier!]!;
+        if (
+            !result ||
+            (value >= density
+                ? resultDensity < density || value < resultDensity
+                : resultDensity < density && value > resultDensity)
+        ) {
+            result = split;
+            resultDensity = value;
+        }
+    }
+    return result;
+}
+
+export interface PackageBundleSelectOptions {
+    /**
+     * Modules to install, defaults to all modules in the bundle.
+     *
+     * The `base` module is always installed.
+     */
+    modules?: readonly string[] | undefined;
+}
+
+/**
+ * Selects splits to install on a device with `device` configuration.
+ *
+ * For each module, selects the ABI split for the most preferred device ABI,
+ * the density split closest to device density,
+ * and locale splits matching the device languages.
+ */
+export function selectPackageBundleSplits(
+    apks: readonly PackageBundleFile[],
+    device: PackageBundleDeviceSpec,
+    options?: PackageBundleSelectOptions,
+): PackageBundleFile[] {
+    const modules = new Map<string, ParsedSplit[]>();
+    for (const file of apks) {
+        const split = { ...parsePackageBundleSplitName(file.path), file };
+        if (
+            options?.modules &&
+            !isBaseModule(split) &&
+            !options.modules.includes(split.module)
+        ) {
+            continue;
+        }
+
+        let splits = modules.get(split.module);
+        if (!splits) {
+            splits = [];
+            modules.set(split.module, splits);
+        }
+        splits.push(split);
+    }
+
+    const languages = new Set(device.locales.map(getLanguage));
+
+    const result: PackageBundleFile[] = [];
+    for (const [module, splits] of modules) {
+        const abiSplits: ParsedSplit[] = [];
+        const densitySplits: ParsedSplit[] = [];
+        for (const split of splits) {
+            switch (split.type) {
+                case PackageBundleSplitType.Abi:
+                    abiSplits.push(split);
+                    break;
+                case PackageBundleSplitType.Density:
+                    densitySplits.push(split);
+                    break;
+                case PackageBundleSplitType.Locale:
+                    if (languages.has(getLanguage(split.qualifier!))) {
+                        result.push(split.file);
+                    }
+                    break;
+                default:
+                    result.push(split.file);
+                    break;
+            }
+        }
+
+        if (abiSplits.length !== 0) {
+            result.push(selectAbi(module, abiSplits, device.abis).file);
+        }
+
+        const density = selectDensity(densitySplits, device.density);
+        if (density) {
+            result.push(density.file);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Gets the path on device to push `file` to,
+ * `/sdcard/Android/obb/<package>/<file>` by default.
+ */
+export function getPackageBundleObbPath(
+    bundle: PackageBundle,
+    file: PackageBundleFile,
+): string {
+    const installPath = bundle.obbInstallPaths[file.path];
+    if (installPath) {
+        return `/sdcard/${installPath.replace(/^\/+/, "")}`;
+    }
+
+    // https://developer.android.com/google/play/expansion-files#Filename
+    const name = getBaseName(file.path);
+    const packageName =
+        name.match(/^(?:main|patch)\.\d+\.(.+)\.obb$/)?.[1] ??
+        bundle.packageName;
+    if (!packageName) {
+        throw new PackageBundleError(
+            `Can't determine the package name of OBB file "${file.path}"`,
+        );
+    }
+
+    return `/sdcard/Android/obb/${packageName}/${name}`;
+}
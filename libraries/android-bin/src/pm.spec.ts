@@ -0,0 +1,141 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type { Adb } from "@yume-chan/adb";
+import { LinuxFileType } from "@yume-chan/adb";
+import { ReadableStream, WritableStream } from "@yume-chan/stream-extra";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import { PackageManager } from "./pm.js";
+
+describe("PackageManager", () => {
+    it("should parse permission groups", () => {
+        assert.deepStrictEqual(
+            PackageManager.parsePermissionGroups(
+                `All Permissions:
+
+group:android.permission-group.CONTACTS
+  permission:android.permission.READ_CONTACTS
+  permission:android.permission.WRITE_CONTACTS
+
+group:android.permission-group.NEARBY_DEVICES
+
+ungrouped:
+  permission:android.permission.INTERNET
+`,
+            ),
+            [
+                {
+                    name: "android.permission-group.CONTACTS",
+                    permissions: [
+                        "android.permission.READ_CONTACTS",
+                        "android.permission.WRITE_CONTACTS",
+                    ],
+                },
+                {
+                    name: "android.permission-group.NEARBY_DEVICES",
+                    permissions: [],
+                },
+                {
+                    name: undefined,
+                    permissions: ["android.permission.INTERNET"],
+                },
+            ],
+        );
+    });
+
+    it("should parse features", () => {
+        assert.deepStrictEqual(
+            PackageManager.parseFeatures(
+                `feature:reqGlEsVersion=0x30002
+feature:android.hardware.camera
+feature:android.hardware.vulkan.level=1
+`,
+            ),
+            [
+                { name: "reqGlEsVersion", version: 0x30002 },
+                { name: "android.hardware.camera", version: undefined },
+                { name: "android.hardware.vulkan.level", version: 1 },
+            ],
+        );
+    });
+
+    it("should parse users", () => {
+        assert.deepStrictEqual(
+            PackageManager.parseUsers(
+                `Users:
+\tUserInfo{0:Owner:c13} running
+\tUserInfo{10:Work: profile:1030}
+`,
+            ),
+            [
+                { id: 0, name: "Owner", flags: 0xc13, running: true },
+                {
+                    id: 10,
+                    name: "Work: profile",
+                    flags: 0x1030,
+                    running: false,
+                },
+            ],
+        );
+    });
+
+    it("should abandon bundle session when commit fails", async () => {
+        const commands: string[] = [];
+        const adb = {
+            canUseFeature: () => false,
+            subprocess: {
+                noneProtocol: {
+                    spawn(command: string[]) {
+                        commands.push(command[1]!);
+                        const output =
+                            command[1] === "install-create"
+                                ? "Success: created install session [5]"
+                                : command[1] === "install-commit"
+                                  ? "Failure [INSTALL_FAILED_VERSION_DOWNGRADE]"
+                                  : "Success";
+                        return Promise.resolve({
+                            stdin: new WritableStream(),
+                            output: new ReadableStream<Uint8Array>({
+                                start(controller) {
+                                    controller.enqueue(encodeUtf8(output));
+                                    controller.close();
+                                },
+                            }),
+                        });
+                    },
+                },
+            },
+        } as unknown as Adb;
+
+        const data = new Uint8Array(10);
+        await assert.rejects(
+            new PackageManager(adb).installBundle(
+                {
+                    list: () => [
+                        {
+                            type: LinuxFileType.File,
+                            name: "base.apk",
+                            size: data.length,
+                            open: () =>
+                                new ReadableStream({
+                                    start(controller) {
+                                        controller.enqueue(data);
+                                        controller.close();
+                                    },
+                                }),
+                        },
+                    ],
+                },
+                { device: { abis: ["arm64-v8a"], density: 420, locales: [] } },
+            ),
+            /INSTALL_FAILED_VERSION_DOWNGRADE/,
+        );
+        assert.deepStrictEqual(commands, [
+            "install-create",
+            "install-write",
+            "install-commit",
+            "install-abandon",
+        ]);
+    });
+});
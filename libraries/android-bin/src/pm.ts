@@ -3,8 +3,8 @@
 // cspell:ignore apks
 // cspell:ignore versioncode
 
-import type { Adb } from "@yume-chan/adb";
-import { AdbServiceBase } from "@yume-chan/adb";
+import type { Adb, AdbSyncTransferProgress } from "@yume-chan/adb";
+import { AdbServiceBase, AdbSyncProgressTracker } from "@yume-chan/adb";
 import type { MaybeConsumable, ReadableStream } from "@yume-chan/stream-extra";
 import {
     ConcatStringStream,
@@ -13,8 +13,22 @@ import {
 } from "@yume-chan/stream-extra";
 
 import { CmdNoneProtocolService } from "./cmd.js";
+import type { DumpSys } from "./dumpsys.js";
+import { parseDumpSysPackage } from "./dumpsys.js";
 import type { IntentBuilder } from "./intent.js";
-import type { SingleUserOrAll } from "./utils.js";
+import type {
+    PackageBundleDeviceSpec,
+    PackageBundleReadOptions,
+    PackageBundleSelectOptions,
+    PackageBundleSource,
+} from "./package-bundle.js";
+import {
+    getPackageBundleDeviceSpec,
+    getPackageBundleObbPath,
+    readPackageBundle,
+    selectPackageBundleSplits,
+} from "./package-bundle.js";
+import type { SingleUser, SingleUserOrAll } from "./utils.js";
 import { buildArguments } from "./utils.js";
 
 export enum PackageManagerInstallLocation {
@@ -181,6 +195,23 @@ export const PACKAGE_MANAGER_INSTALL_OPTIONS_MAP: Record<
     bypassLowTargetSdkBlock: "--bypass-low-target-sdk-block",
 };
 
+export interface PackageManagerInstallBundleOptions
+    extends Partial<PackageManagerInstallOptions>,
+        PackageBundleReadOptions,
+        PackageBundleSelectOptions {
+    /**
+     * The device configuration to select splits for.
+     *
+     * Defaults to the configuration read from system properties.
+     */
+    device?: PackageBundleDeviceSpec | undefined;
+    /**
+     * Reports progress of writing APK files into the install session
+     * and pushing OBB files.
+     */
+    onProgress?: ((progress: AdbSyncTransferProgress) => void) | undefined;
+}
+
 export interface PackageManagerListPackagesOptions {
     listDisabled: boolean;
     listEnabled: boolean;
@@ -255,6 +286,104 @@ const PACKAGE_MANAGER_RESOLVE_ACTIVITY_OPTIONS_MAP: Partial<
     user: "--user",
 };
 
+export interface PackageManagerUserOptions {
+    user: SingleUser;
+}
+
+const PACKAGE_MANAGER_USER_OPTIONS_MAP: Record<
+    keyof PackageManagerUserOptions,
+    string
+> = {
+    user: "--user",
+};
+
+export interface PackageManagerListPermissionsOptions {
+    /**
+     * Only list dangerous (runtime) permissions
+     */
+    dangerousOnly: boolean;
+    /**
+     * Only list permissions visible to users
+     */
+    userVisibleOnly: boolean;
+    /**
+     * Only list permissions in this group
+     */
+    group: string;
+}
+
+const PACKAGE_MANAGER_LIST_PERMISSIONS_OPTIONS_MAP: Partial<
+    Record<keyof PackageManagerListPermissionsOptions, string>
+> = {
+    dangerousOnly: "-d",
+    userVisibleOnly: "-u",
+};
+
+export interface PackageManagerPermissionGroup {
+    /**
+     * Name of the permission group, or `undefined` for permissions not in any group.
+     */
+    name: string | undefined;
+    permissions: string[];
+}
+
+export interface PackageManagerFeature {
+    name: string;
+    /**
+     * Version of the feature, for example OpenGL ES version for `reqGlEsVersion`,
+     * or `undefined` if not specified.
+     */
+    version: number | undefined;
+}
+
+export interface PackageManagerUserInfo {
+    id: number;
+    name: string;
+    /**
+     * `UserInfo.FLAG_*` values
+     */
+    flags: number;
+    running: boolean;
+}
+
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/core/java/android/content/pm/UserInfo.java
+export interface PackageManagerCreateUserOptions {
+    /**
+     * Creates a profile of this user, for example a work profile.
+     */
+    profileOf: number;
+    managed: boolean;
+    restricted: boolean;
+    ephemeral: boolean;
+    guest: boolean;
+}
+
+const PACKAGE_MANAGER_CREATE_USER_OPTIONS_MAP: Partial<
+    Record<keyof PackageManagerCreateUserOptions, string>
+> = {
+    managed: "--managed",
+    restricted: "--restricted",
+    ephemeral: "--ephemeral",
+    guest: "--guest",
+};
+
+// https://cs.android.com/android/platform/superproject/+/master:frameworks/base/services/core/java/com/android/server/pm/verify/domain/DomainVerificationShell.java
+export const PackageManagerAppLinkState = {
+    /**
+     * Resets the domains to unverified.
+     */
+    NoResponse: "STATE_NO_RESPONSE",
+    /**
+     * Marks the domains as verified.
+     */
+    Success: "STATE_SUCCESS",
+    Approved: "STATE_APPROVED",
+    Denied: "STATE_DENIED",
+} as const;
+
+export type PackageManagerAppLinkState =
+    (typeof PackageManagerAppLinkState)[keyof typeof PackageManagerAppLinkState];
+
 function buildInstallArguments(
     command: string,
     options: Partial<PackageManagerInstallOptions> | undefined,
@@ -385,6 +514,73 @@ export class PackageManager extends AdbServiceBase {
         ]);
     }
 
+    /**
+     * Installs an `.apks`, `.xapk` or `.apkm` archive, or a directory of `.apk` and `.obb` files.
+     *
+     * Splits matching the device ABI, density and locale are streamed into one install session,
+     * and OBB files are pushed to `/sdcard/Android/obb` before committing the session.
+     */
+    async installBundle(
+        source: PackageBundleSource,
+        options?: PackageManagerInstallBundleOptions,
+    ): Promise<void> {
+        const bundle = await readPackageBundle(source, options);
+        const device =
+            options?.device ?? (await getPackageBundleDeviceSpec(this.adb));
+        const apks = selectPackageBundleSplits(bundle.apks, device, options);
+        const obbs = bundle.obbs.map((file) => ({
+            file,
+            path: getPackageBundleObbPath(bundle, file),
+        }));
+
+        const files = [...apks, ...bundle.obbs];
+        const tracker = new AdbSyncProgressTracker(
+            options?.onProgress,
+            files.length,
+            files.reduce((sum, file) => sum + file.size, 0),
+        );
+
+        const session = await PackageManagerInstallSession.create(
+            this,
+            options,
+        );
+        try {
+            for (const file of apks) {
+                const stream = await file.open();
+                await session.addSplitStream(
+                    // Split names must be unique in one session
+                    file.path.replaceAll("/", "_"),
+                    file.size,
+                    stream.pipeThrough(tracker.track(file.path, file.size)),
+                );
+            }
+
+            if (obbs.length !== 0) {
+                const sync = await this.adb.sync();
+                try {
+                    for (const { file, path } of obbs) {
+                        const stream = await file.open();
+                        await sync.write({
+                            filename: path,
+                            file: stream.pipeThrough(
+                                tracker.track(file.path, file.size),
+                            ),
+                        });
+                    }
+                } finally {
+                    await sync.dispose();
+                }
+            }
+
+            await session.commit();
+        } catch (e) {
+            // If `commit` failed, the session may already be destroyed,
+            // don't let that hide the original error.
+            await session.abandon().catch(() => {});
+            throw e;
+        }
+    }
+
     static parsePackageListItem(
         line: string,
     ): PackageManagerListPackagesResult {
@@ -523,6 +719,305 @@ export class PackageManager extends AdbServiceBase {
         return output;
     }
 
+    async #spawnWaitText(args: string[]) {
+        return await this.#cmd
+            .spawnWaitText(args)
+            .then((output) => output.trim());
+    }
+
+    /**
+     * Runs a command that prints nothing on success.
+     */
+    async #spawnWaitEmpty(args: string[]) {
+        const output = await this.#spawnWaitText(args);
+        if (output) {
+            throw new Error(output);
+        }
+    }
+
+    /**
+     * Grants a runtime permission to an app.
+     */
+    async grant(
+        packageName: string,
+        permission: string,
+        options?: Partial<PackageManagerUserOptions>,
+    ): Promise<void> {
+        const args = buildArguments(
+            [PackageManager.ServiceName, "grant"],
+            options,
+            PACKAGE_MANAGER_USER_OPTIONS_MAP,
+        );
+        args.push(packageName, permission);
+        await this.#spawnWaitEmpty(args);
+    }
+
+    /**
+     * Revokes a runtime permission from an app.
+     */
+    async revoke(
+        packageName: string,
+        permission: string,
+        options?: Partial<PackageManagerUserOptions>,
+    ): Promise<void> {
+        const args = buildArguments(
+            [PackageManager.ServiceName, "revoke"],
+            options,
+            PACKAGE_MANAGER_USER_OPTIONS_MAP,
+        );
+        args.push(packageName, permission);
+        await this.#spawnWaitEmpty(args);
+    }
+
+    static parsePermissionGroups(
+        output: string,
+    ): PackageManagerPermissionGroup[] {
+        const result: PackageManagerPermissionGroup[] = [];
+        let group: PackageManagerPermissionGroup | undefined;
+        for (const line of output.split("\n")) {
+            const trimmed = line.trim();
+            if (trimmed.startsWith("group:")) {
+                group = {
+                    name: trimmed.substring("group:".length),
+                    permissions: [],
+                };
+                result.push(group);
+            } else if (trimmed === "ungrouped:") {
+                group = { name: undefined, permissions: [] };
+                result.push(group);
+            } else if (trimmed.startsWith("permission:") && group) {
+                group.permissions.push(trimmed.substring("permission:".length));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Lists permissions by group (`pm list permissions -g`).
+     */
+    async listPermissions(
+        options?: Partial<PackageManagerListPermissionsOptions>,
+    ): Promise<PackageManagerPermissionGroup[]> {
+        const args = buildArguments(
+            [PackageManager.ServiceName, "list", "permissions", "-g"],
+            options,
+            PACKAGE_MANAGER_LIST_PERMISSIONS_OPTIONS_MAP,
+        );
+        if (options?.group) {
+            args.push(options.group);
+        }
+
+        return PackageManager.parsePermissionGroups(
+            await this.#spawnWaitText(args),
+        );
+    }
+
+    static parseFeatures(output: string): PackageManagerFeature[] {
+        const result: PackageManagerFeature[] = [];
+        for (const line of output.split("\n")) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith("feature:")) {
+                continue;
+            }
+
+            // For example `feature:android.hardware.vulkan.level=1`
+            // and `feature:reqGlEsVersion=0x30002`
+            const [name, version] = trimmed
+                .substring("feature:".length)
+                .split("=", 2);
+            result.push({
+                name: name!,
+                // `Number` also handles hexadecimal values
+                version: version !== undefined ? Number(version) : undefined,
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Lists features supported by the device.
+     */
+    async listFeatures(): Promise<PackageManagerFeature[]> {
+        return PackageManager.parseFeatures(
+            await this.#spawnWaitText([
+                PackageManager.ServiceName,
+                "list",
+                "features",
+            ]),
+        );
+    }
+
+    static parseUsers(output: string): PackageManagerUserInfo[] {
+        const result: PackageManagerUserInfo[] = [];
+        for (const line of output.split("\n")) {
+            // User names can contain `:`
+            const match = line.match(
+                /UserInfo\{(\d+):(.*):([0-9a-fA-F]+)\}(.*)$/,
+            );
+            if (!match) {
+                continue;
+            }
+            result.push({
+                id: Number.parseInt(match[1]!, 10),
+                name: match[2]!,
+                flags: Number.parseInt(match[3]!, 16),
+                running: match[4]!.includes("running"),
+            });
+        }
+        return result;
+    }
+
+    async listUsers(): Promise<PackageManagerUserInfo[]> {
+        return PackageManager.parseUsers(
+            await this.#spawnWaitText([
+                PackageManager.ServiceName,
+                "list",
+                "users",
+            ]),
+        );
+    }
+
+    /**
+     * Creates a new user.
+     *
+     * @returns ID of the new user
+     */
+    async createUser(
+        name: string,
+        options?: Partial<PackageManagerCreateUserOptions>,
+    ): Promise<number> {
+        const args = buildArguments(
+            [PackageManager.ServiceName, "create-user"],
+            options,
+            PACKAGE_MANAGER_CREATE_USER_OPTIONS_MAP,
+        );
+        // `buildArguments` skips `0`, which is a valid user ID
+        if (options?.profileOf !== undefined) {
+            args.push("--profileOf", options.profileOf.toString());
+        }
+        args.push(name);
+
+        const output = await this.#spawnWaitText(args);
+        // `Success: created user id 10`
+        const match = output.match(/^Success: created user id (\d+)/);
+        if (!match) {
+            throw new Error(output);
+        }
+        return Number.parseInt(match[1]!, 10);
+    }
+
+    async removeUser(userId: number): Promise<void> {
+        const output = await this.#spawnWaitText([
+            PackageManager.ServiceName,
+            "remove-user",
+            userId.toString(),
+        ]);
+        if (!output.startsWith("Success")) {
+            throw new Error(output);
+        }
+    }
+
+    /**
+     * Deletes all data associated with a package.
+     */
+    async clear(
+        packageName: string,
+        options?: Partial<PackageManagerUserOptions>,
+    ): Promise<void> {
+        const args = buildArguments(
+            [PackageManager.ServiceName, "clear"],
+            options,
+            PACKAGE_MANAGER_USER_OPTIONS_MAP,
+        );
+        args.push(packageName);
+
+        const output = await this.#spawnWaitText(args);
+        if (output !== "Success") {
+            throw new Error(output);
+        }
+    }
+
+    async #setEnabledState(
+        command: string,
+        packageOrComponent: string,
+        options: Partial<PackageManagerUserOptions> | undefined,
+    ) {
+        const args = buildArguments(
+            [PackageManager.ServiceName, command],
+            options,
+            PACKAGE_MANAGER_USER_OPTIONS_MAP,
+        );
+        args.push(packageOrComponent);
+
+        // `Package com.example new state: enabled`
+        const output = await this.#spawnWaitText(args);
+        if (!output.includes("new state:")) {
+            throw new Error(output);
+        }
+    }
+
+    /**
+     * Enables a package or a component (`<package>/<class>`).
+     */
+    enable(
+        packageOrComponent: string,
+        options?: Partial<PackageManagerUserOptions>,
+    ): Promise<void> {
+        return this.#setEnabledState("enable", packageOrComponent, options);
+    }
+
+    /**
+     * Disables a package or a component (`<package>/<class>`) for a user.
+     */
+    disableUser(
+        packageOrComponent: string,
+        options?: Partial<PackageManagerUserOptions>,
+    ): Promise<void> {
+        return this.#setEnabledState(
+            "disable-user",
+            packageOrComponent,
+            options,
+        );
+    }
+
+    /**
+     * Sets the verification state of app link domains.
+     *
+     * Added in Android 12.
+     *
+     * @param domains Domains to change, defaults to all domains declared by the package
+     */
+    async setAppLinks(
+        packageName: string,
+        state: PackageManagerAppLinkState,
+        domains: readonly string[] = ["all"],
+    ): Promise<void> {
+        await this.#spawnWaitEmpty([
+            PackageManager.ServiceName,
+            "set-app-links",
+            "--package",
+            packageName,
+            state,
+            ...domains,
+        ]);
+    }
+
+    /**
+     * Gets version, install time and permission states of a package.
+     *
+     * @returns Package information, or `undefined` if the package is not installed
+     */
+    async dump(packageName: string): Promise<DumpSys.Package.Info | undefined> {
+        return parseDumpSysPackage(
+            await this.#spawnWaitText([
+                PackageManager.ServiceName,
+                "dump",
+                packageName,
+            ]),
+            packageName,
+        );
+    }
+
     /**
      * Creates a new install session.
      *
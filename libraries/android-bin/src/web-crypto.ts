@@ -0,0 +1,56 @@
+// This library can't use `@types/node` or `lib: dom`
+// because they will pollute the global scope.
+// So only declare the subset of Web Crypto API used by this library.
+
+export interface CryptoKey {
+    readonly type: string;
+}
+
+export interface SubtleCrypto {
+    importKey(
+        format: "raw",
+        keyData: Uint8Array,
+        algorithm: "PBKDF2" | "AES-CBC",
+        extractable: boolean,
+        keyUsages: string[],
+    ): Promise<CryptoKey>;
+
+    deriveBits(
+        algorithm: {
+            name: "PBKDF2";
+            hash: "SHA-1";
+            salt: Uint8Array;
+            iterations: number;
+        },
+        baseKey: CryptoKey,
+        length: number,
+    ): Promise<ArrayBuffer>;
+
+    encrypt(
+        algorithm: { name: "AES-CBC"; iv: Uint8Array },
+        key: CryptoKey,
+        data: Uint8Array,
+    ): Promise<ArrayBuffer>;
+
+    decrypt(
+        algorithm: { name: "AES-CBC"; iv: Uint8Array },
+        key: CryptoKey,
+        data: Uint8Array,
+    ): Promise<ArrayBuffer>;
+}
+
+export interface Crypto {
+    readonly subtle: SubtleCrypto;
+
+    getRandomValues<T extends Uint8Array>(array: T): T;
+}
+
+interface GlobalExtension {
+    crypto: Crypto;
+}
+
+// Web Crypto API is only available in secure contexts (HTTPS or localhost) in Web browsers,
+// so access it lazily
+export function getCrypto(): Crypto {
+    return (globalThis as unknown as GlobalExtension).crypto;
+}
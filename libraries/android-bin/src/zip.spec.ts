@@ -0,0 +1,136 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import { deflateRawSync } from "node:zlib";
+
+import type { TransformStream } from "@yume-chan/stream-extra";
+import { ConcatBufferStream } from "@yume-chan/stream-extra";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+import type { ZipRandomAccessFile } from "./zip.js";
+import { ZipCompressionMethod, ZipReader } from "./zip.js";
+
+interface TestZipEntry {
+    name: string;
+    content: Uint8Array;
+    deflate?: boolean;
+}
+
+/**
+ * Creates a ZIP file without data descriptors.
+ */
+function createZip(entries: readonly TestZipEntry[]): Uint8Array {
+    const local: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+
+    for (const { name, content, deflate } of entries) {
+        const nameBytes = Buffer.from(encodeUtf8(name));
+        const data = deflate ? deflateRawSync(content) : Buffer.from(content);
+        const method = deflate
+            ? ZipCompressionMethod.Deflate
+            : ZipCompressionMethod.Store;
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(method, 8);
+        header.writeUInt32LE(data.length, 18);
+        header.writeUInt32LE(content.length, 22);
+        header.writeUInt16LE(nameBytes.length, 26);
+        local.push(header, nameBytes, data);
+
+        const record = Buffer.alloc(46);
+        record.writeUInt32LE(0x02014b50, 0);
+        record.writeUInt16LE(method, 10);
+        record.writeUInt32LE(data.length, 20);
+        record.writeUInt32LE(content.length, 24);
+        record.writeUInt16LE(nameBytes.length, 28);
+        record.writeUInt32LE(offset, 42);
+        central.push(record, nameBytes);
+
+        offset += header.length + nameBytes.length + data.length;
+    }
+
+    const centralDirectory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return new Uint8Array(Buffer.concat([...local, centralDirectory, end]));
+}
+
+function createRandomAccessFile(data: Uint8Array): ZipRandomAccessFile {
+    return {
+        size: data.length,
+        read(offset, length) {
+            return data.subarray(offset, offset + length);
+        },
+    };
+}
+
+function inflateRaw() {
+    return new DecompressionStream("deflate-raw") as unknown as TransformStream<
+        Uint8Array,
+        Uint8Array
+    >;
+}
+
+describe("ZipReader", () => {
+    it("should read stored and deflated entries", async () => {
+        const large = new Uint8Array(200 * 1024).map((_, i) => i % 251);
+        const zip = await ZipReader.open(
+            createRandomAccessFile(
+                createZip([
+                    { name: "a.txt", content: encodeUtf8("hello") },
+                    { name: "dir/", content: new Uint8Array() },
+                    { name: "dir/large.bin", content: large, deflate: true },
+                ]),
+            ),
+        );
+
+        assert.deepStrictEqual(
+            zip.entries.map((entry) => [entry.name, entry.size]),
+            [
+                ["a.txt", 5],
+                ["dir/", 0],
+                ["dir/large.bin", large.length],
+            ],
+        );
+
+        assert.deepStrictEqual(
+            await (
+                await zip.open(zip.entries[0]!)
+            ).pipeThrough(new ConcatBufferStream()),
+            encodeUtf8("hello"),
+        );
+        assert.deepStrictEqual(
+            await (
+                await zip.open(zip.entries[2]!, inflateRaw)
+            ).pipeThrough(new ConcatBufferStream()),
+            large,
+        );
+    });
+
+    it("should throw when `inflateRaw` is required", async () => {
+        const zip = await ZipReader.open(
+            createRandomAccessFile(
+                createZip([
+                    {
+                        name: "a.txt",
+                        content: encodeUtf8("hello"),
+                        deflate: true,
+                    },
+                ]),
+            ),
+        );
+        await assert.rejects(zip.open(zip.entries[0]!));
+    });
+
+    it("should throw for non-ZIP files", async () => {
+        await assert.rejects(
+            ZipReader.open(createRandomAccessFile(new Uint8Array(100))),
+        );
+    });
+});
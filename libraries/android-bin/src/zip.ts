@@ -0,0 +1,266 @@
+import type { MaybePromiseLike } from "@yume-chan/async";
+import {
+    getUint16LittleEndian,
+    getUint32LittleEndian,
+    getUint64LittleEndian,
+} from "@yume-chan/no-data-view";
+import type { TransformStream } from "@yume-chan/stream-extra";
+import { ReadableStream } from "@yume-chan/stream-extra";
+import { decodeUtf8 } from "@yume-chan/struct";
+
+// https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+
+/**
+ * A file that supports random access, for example a `Blob` or a file handle.
+ */
+export interface ZipRandomAccessFile {
+    readonly size: number;
+
+    /**
+     * Reads `length` bytes starting from `offset`.
+     */
+    read(offset: number, length: number): MaybePromiseLike<Uint8Array>;
+}
+
+export const ZipCompressionMethod = {
+    Store: 0,
+    Deflate: 8,
+} as const;
+
+export type ZipCompressionMethod =
+    (typeof ZipCompressionMethod)[keyof typeof ZipCompressionMethod];
+
+export interface ZipEntry {
+    name: string;
+    compressionMethod: number;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+export class ZipError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+const EndOfCentralDirectorySignature = 0x06054b50;
+const EndOfCentralDirectorySize = 22;
+const Zip64EndOfCentralDirectoryLocatorSignature = 0x07064b50;
+const Zip64EndOfCentralDirectoryLocatorSize = 20;
+const Zip64EndOfCentralDirectorySignature = 0x06064b50;
+const CentralDirectoryFileHeaderSignature = 0x02014b50;
+const LocalFileHeaderSignature = 0x04034b50;
+const LocalFileHeaderSize = 30;
+const Zip64ExtraFieldId = 0x0001;
+
+const ReadChunkSize = 64 * 1024;
+
+interface CentralDirectoryLocation {
+    count: number;
+    offset: number;
+}
+
+async function findCentralDirectory(
+    file: ZipRandomAccessFile,
+): Promise<CentralDirectoryLocation> {
+    // The End of Central Directory record can be followed by a comment
+    // with at most 65535 bytes
+    const tailSize = Math.min(
+        file.size,
+        EndOfCentralDirectorySize +
+            0xffff +
+            Zip64EndOfCentralDirectoryLocatorSize,
+    );
+    const tailOffset = file.size - tailSize;
+    const tail = await file.read(tailOffset, tailSize);
+
+    for (let i = tail.length - EndOfCentralDirectorySize; i >= 0; i -= 1) {
+        if (getUint32LittleEndian(tail, i) !== EndOfCentralDirectorySignature) {
+            continue;
+        }
+
+        const count = getUint16LittleEndian(tail, i + 10);
+        const offset = getUint32LittleEndian(tail, i + 16);
+        if (count !== 0xffff && offset !== 0xffffffff) {
+            return { count, offset };
+        }
+
+        const locator = i - Zip64EndOfCentralDirectoryLocatorSize;
+        if (
+            locator < 0 ||
+            getUint32LittleEndian(tail, locator) !==
+                Zip64EndOfCentralDirectoryLocatorSignature
+        ) {
+            throw new ZipError("Invalid ZIP64 end of central directory");
+        }
+
+        const record = await file.read(
+            Number(getUint64LittleEndian(tail, locator + 8)),
+            56,
+        );
+        if (
+            getUint32LittleEndian(record, 0) !==
+            Zip64EndOfCentralDirectorySignature
+        ) {
+            throw new ZipError("Invalid ZIP64 end of central directory");
+        }
+        return {
+            count: Number(getUint64LittleEndian(record, 32)),
+            offset: Number(getUint64LittleEndian(record, 48)),
+        };
+    }
+
+    throw new ZipError("End of central directory not found");
+}
+
+function applyZip64ExtraField(entry: ZipEntry, extra: Uint8Array) {
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+        const id = getUint16LittleEndian(extra, offset);
+        const size = getUint16LittleEndian(extra, offset + 2);
+        offset += 4;
+
+        if (id === Zip64ExtraFieldId) {
+            // Only fields with `0xffffffff` in the header are present, in this order
+            let position = offset;
+            const read = () => {
+                const value = Number(getUint64LittleEndian(extra, position));
+                position += 8;
+                return value;
+            };
+            if (entry.size === 0xffffffff) {
+                entry.size = read();
+            }
+            if (entry.compressedSize === 0xffffffff) {
+                entry.compressedSize = read();
+            }
+            if (entry.localHeaderOffset === 0xffffffff) {
+                entry.localHeaderOffset = read();
+            }
+            return;
+        }
+
+        offset += size;
+    }
+}
+
+/**
+ * A minimal ZIP reader, only supports stored and deflated entries.
+ */
+export class ZipReader {
+    static async open(file: ZipRandomAccessFile): Promise<ZipReader> {
+        const { count, offset } = await findCentralDirectory(file);
+
+        const entries: ZipEntry[] = [];
+        let position = offset;
+        for (let i = 0; i < count; i += 1) {
+            const header = await file.read(position, 46);
+            if (
+                getUint32LittleEndian(header, 0) !==
+                CentralDirectoryFileHeaderSignature
+            ) {
+                throw new ZipError("Invalid central directory file header");
+            }
+
+            if (getUint16LittleEndian(header, 8) & 0x1) {
+                throw new ZipError("Encrypted ZIP entries are not supported");
+            }
+
+            const nameLength = getUint16LittleEndian(header, 28);
+            const extraLength = getUint16LittleEndian(header, 30);
+            const commentLength = getUint16LittleEndian(header, 32);
+            const variable = await file.read(
+                position + 46,
+                nameLength + extraLength,
+            );
+
+            const entry: ZipEntry = {
+                name: decodeUtf8(variable.subarray(0, nameLength)),
+                compressionMethod: getUint16LittleEndian(header, 10),
+                compressedSize: getUint32LittleEndian(header, 20),
+                size: getUint32LittleEndian(header, 24),
+                localHeaderOffset: getUint32LittleEndian(header, 42),
+            };
+            applyZip64ExtraField(entry, variable.subarray(nameLength));
+            entries.push(entry);
+
+            position += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return new ZipReader(file, entries);
+    }
+
+    readonly #file: ZipRandomAccessFile;
+
+    readonly #entries: readonly ZipEntry[];
+    get entries(): readonly ZipEntry[] {
+        return this.#entries;
+    }
+
+    constructor(file: ZipRandomAccessFile, entries: readonly ZipEntry[]) {
+        this.#file = file;
+        this.#entries = entries;
+    }
+
+    /**
+     * Reads the content of `entry`.
+     *
+     * @param inflateRaw
+     * Creates a stream to decompress deflated entries,
+     * for example `new DecompressionStream("deflate-raw")`.
+     */
+    async open(
+        entry: ZipEntry,
+        inflateRaw?: () => TransformStream<Uint8Array, Uint8Array>,
+    ): Promise<ReadableStream<Uint8Array>> {
+        const header = await this.#file.read(
+            entry.localHeaderOffset,
+            LocalFileHeaderSize,
+        );
+        if (getUint32LittleEndian(header, 0) !== LocalFileHeaderSignature) {
+            throw new ZipError("Invalid local file header");
+        }
+
+        // Extra fields in local headers can differ from the central directory
+        let offset =
+            entry.localHeaderOffset +
+            LocalFileHeaderSize +
+            getUint16LittleEndian(header, 26) +
+            getUint16LittleEndian(header, 28);
+        const end = offset + entry.compressedSize;
+
+        const file = this.#file;
+        const stream = new ReadableStream<Uint8Array>(
+            {
+                async pull(controller) {
+                    if (offset >= end) {
+                        controller.close();
+                        return;
+                    }
+
+                    const length = Math.min(ReadChunkSize, end - offset);
+                    controller.enqueue(await file.read(offset, length));
+                    offset += length;
+                },
+            },
+            { highWaterMark: 0 },
+        );
+
+        switch (entry.compressionMethod) {
+            case ZipCompressionMethod.Store:
+                return stream;
+            case ZipCompressionMethod.Deflate:
+                if (!inflateRaw) {
+                    throw new ZipError(
+                        `Entry "${entry.name}" is deflated, but \`inflateRaw\` is not provided`,
+                    );
+                }
+                return stream.pipeThrough(inflateRaw());
+            default:
+                throw new ZipError(
+                    `Unsupported compression method ${entry.compressionMethod} of entry "${entry.name}"`,
+                );
+        }
+    }
+}
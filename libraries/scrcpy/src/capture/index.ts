@@ -0,0 +1 @@
+export * from "./media-stream.js";
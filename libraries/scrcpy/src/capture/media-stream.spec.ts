@@ -0,0 +1,110 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { ConcatBufferStream, ReadableStream } from "@yume-chan/stream-extra";
+
+import type { ScrcpyMediaStreamPacket } from "../base/index.js";
+import { ScrcpyVideoCodecId } from "../base/index.js";
+
+import {
+    readScrcpyMediaStreamCapture,
+    ScrcpyMediaStreamCaptureStream,
+} from "./media-stream.js";
+
+const Packets: ScrcpyMediaStreamPacket[] = [
+    { type: "configuration", data: new Uint8Array([0, 0, 0, 1, 0x67]) },
+    {
+        type: "data",
+        keyframe: true,
+        pts: 0n,
+        data: new Uint8Array([0, 0, 0, 1, 0x65, 1]),
+    },
+    {
+        type: "data",
+        keyframe: false,
+        pts: 16_666n,
+        data: new Uint8Array([0, 0, 0, 1, 0x41, 2]),
+    },
+    // Without `sendFrameMeta`
+    { type: "data", data: new Uint8Array([0, 0, 0, 1, 0x41, 3]) },
+];
+
+function createStream<T>(chunks: T[]) {
+    return new ReadableStream<T>({
+        start(controller) {
+            for (const chunk of chunks) {
+                controller.enqueue(chunk);
+            }
+            controller.close();
+        },
+    });
+}
+
+async function readAll<T>(stream: ReadableStream<T>) {
+    const result: T[] = [];
+    for await (const chunk of stream) {
+        result.push(chunk);
+    }
+    return result;
+}
+
+async function capture(packets: ScrcpyMediaStreamPacket[]) {
+    return await createStream(packets)
+        .pipeThrough(
+            new ScrcpyMediaStreamCaptureStream(ScrcpyVideoCodecId.H264),
+        )
+        .pipeThrough(new ConcatBufferStream());
+}
+
+describe("ScrcpyMediaStreamCapture", () => {
+    it("should round-trip packets", async () => {
+        const file = await capture(Packets);
+
+        // Read in small chunks
+        const chunks: Uint8Array[] = [];
+        for (let i = 0; i < file.length; i += 3) {
+            chunks.push(file.subarray(i, i + 3));
+        }
+
+        const { codec, stream } = await readScrcpyMediaStreamCapture(
+            createStream(chunks),
+            { realtime: false },
+        );
+        assert.strictEqual(codec, ScrcpyVideoCodecId.H264);
+        assert.deepStrictEqual(await readAll(stream), Packets);
+    });
+
+    it("should replay with captured intervals", async () => {
+        const packets = new ReadableStream<ScrcpyMediaStreamPacket>({
+            async start(controller) {
+                controller.enqueue(Packets[0]!);
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                controller.enqueue(Packets[1]!);
+                controller.close();
+            },
+        });
+        const file = await packets
+            .pipeThrough(
+                new ScrcpyMediaStreamCaptureStream(ScrcpyVideoCodecId.AV1),
+            )
+            .pipeThrough(new ConcatBufferStream());
+
+        const { codec, stream } = await readScrcpyMediaStreamCapture(
+            createStream([file]),
+        );
+        assert.strictEqual(codec, ScrcpyVideoCodecId.AV1);
+
+        const start = Date.now();
+        assert.strictEqual((await readAll(stream)).length, 2);
+        assert.ok(Date.now() - start >= 90);
+    });
+
+    it("should reject invalid files", async () => {
+        await assert.rejects(
+            readScrcpyMediaStreamCapture(
+                createStream([new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9])]),
+            ),
+            /Invalid/,
+        );
+    });
+});
@@ -0,0 +1,217 @@
+import { delay } from "@yume-chan/async";
+import {
+    BufferedReadableStream,
+    ReadableStream,
+    TransformStream,
+} from "@yume-chan/stream-extra";
+import type { StructValue } from "@yume-chan/struct";
+import {
+    buffer,
+    struct,
+    StructEmptyError,
+    u32,
+    u64,
+    u8,
+} from "@yume-chan/struct";
+
+import type {
+    ScrcpyMediaStreamDataPacket,
+    ScrcpyMediaStreamPacket,
+} from "../base/index.js";
+
+// "SCMS" (scrcpy media stream)
+const CaptureMagic = 0x53_43_4d_53;
+const CaptureVersion = 1;
+
+const CaptureHeader = struct(
+    { magic: u32, version: u8, codec: u32 },
+    { littleEndian: false },
+);
+
+const CapturePacket = struct(
+    {
+        flags: u8,
+        /**
+         * Milliseconds since the first packet was captured.
+         */
+        time: u32,
+        pts: u64,
+        data: buffer(u32),
+    },
+    { littleEndian: false },
+);
+
+const CapturePacketFlags = {
+    Configuration: 1 << 0,
+    HasKeyframe: 1 << 1,
+    Keyframe: 1 << 2,
+    HasPts: 1 << 3,
+} as const;
+
+/**
+ * Serializes `ScrcpyMediaStreamPacket`s (including configuration packets,
+ * `pts`, keyframe flags and their arrival time) into a binary format,
+ * which can be read back using `readScrcpyMediaStreamCapture`.
+ *
+ * Usually the video stream is `tee`d, with one branch piped into this stream,
+ * and the output saved to a file.
+ */
+export class ScrcpyMediaStreamCaptureStream extends TransformStream<
+    ScrcpyMediaStreamPacket,
+    Uint8Array
+> {
+    /**
+     * @param codec The codec ID from stream metadata,
+     * for example a `ScrcpyVideoCodecId` or `ScrcpyAudioCodec.metadataValue`.
+     * It's saved as-is so the replay side knows how to decode the stream.
+     */
+    constructor(codec: number) {
+        let startTime: number | undefined;
+
+        super({
+            start(controller) {
+                controller.enqueue(
+                    CaptureHeader.serialize({
+                        magic: CaptureMagic,
+                        version: CaptureVersion,
+                        codec,
+                    }),
+                );
+            },
+            transform(packet, controller) {
+                const now = Date.now();
+                startTime ??= now;
+
+                let flags = 0;
+                let pts = 0n;
+                if (packet.type === "configuration") {
+                    flags |= CapturePacketFlags.Configuration;
+                } else {
+                    if (packet.keyframe !== undefined) {
+                        flags |= CapturePacketFlags.HasKeyframe;
+                        if (packet.keyframe) {
+                            flags |= CapturePacketFlags.Keyframe;
+                        }
+                    }
+                    if (packet.pts !== undefined) {
+                        flags |= CapturePacketFlags.HasPts;
+                        pts = packet.pts;
+                    }
+                }
+
+                controller.enqueue(
+                    CapturePacket.serialize({
+                        flags,
+                        time: now - startTime,
+                        pts,
+                        data: packet.data,
+                    }),
+                );
+            },
+        });
+    }
+}
+
+export interface ScrcpyMediaStreamReplayOptions {
+    /**
+     * Whether to emit packets with the same intervals as they were captured.
+     *
+     * When `false`, packets are emitted as fast as the consumer reads them.
+     *
+     * @default true
+     */
+    realtime?: boolean | undefined;
+}
+
+export interface ScrcpyMediaStreamCapture {
+    /**
+     * The codec ID passed to `ScrcpyMediaStreamCaptureStream`.
+     */
+    codec: number;
+    /**
+     * The captured packets, can be piped into a `ScrcpyVideoDecoder`
+     * (or any other consumer of the original stream).
+     */
+    stream: ReadableStream<ScrcpyMediaStreamPacket>;
+}
+
+function toMediaStreamPacket(
+    packet: StructValue<typeof CapturePacket>,
+): ScrcpyMediaStreamPacket {
+    if (packet.flags & CapturePacketFlags.Configuration) {
+        return { type: "configuration", data: packet.data };
+    }
+
+    const result: ScrcpyMediaStreamDataPacket = {
+        type: "data",
+        data: packet.data,
+    };
+    if (packet.flags & CapturePacketFlags.HasKeyframe) {
+        result.keyframe = !!(packet.flags & CapturePacketFlags.Keyframe);
+    }
+    if (packet.flags & CapturePacketFlags.HasPts) {
+        result.pts = packet.pts;
+    }
+    return result;
+}
+
+/**
+ * Reads a capture created by `ScrcpyMediaStreamCaptureStream`.
+ *
+ * @param stream The capture file content
+ * @returns The codec ID and a stream that reproduces the captured packets
+ */
+export async function readScrcpyMediaStreamCapture(
+    stream: ReadableStream<Uint8Array>,
+    options?: ScrcpyMediaStreamReplayOptions,
+): Promise<ScrcpyMediaStreamCapture> {
+    const buffered = new BufferedReadableStream(stream);
+
+    let header: StructValue<typeof CaptureHeader>;
+    try {
+        header = await CaptureHeader.deserialize(buffered);
+    } catch (e) {
+        await buffered.cancel(e);
+        throw e;
+    }
+
+    if (header.magic !== CaptureMagic || header.version !== CaptureVersion) {
+        await buffered.cancel();
+        throw new Error("Invalid scrcpy media stream capture");
+    }
+
+    const realtime = options?.realtime ?? true;
+    // Maps capture time to local time
+    let timeOffset: number | undefined;
+
+    return {
+        codec: header.codec,
+        stream: new ReadableStream<ScrcpyMediaStreamPacket>({
+            async pull(controller) {
+                let packet: StructValue<typeof CapturePacket>;
+                try {
+                    packet = await CapturePacket.deserialize(buffered);
+                } catch (e) {
+                    if (e instanceof StructEmptyError) {
+                        controller.close();
+                        return;
+                    }
+                    throw e;
+                }
+
+                if (realtime) {
+                    timeOffset ??= Date.now() - packet.time;
+                    const wait = packet.time + timeOffset - Date.now();
+                    if (wait > 0) {
+                        await delay(wait);
+                    }
+                }
+
+                controller.enqueue(toMediaStreamPacket(packet));
+            },
+            cancel(reason) {
+                return buffered.cancel(reason);
+            },
+        }),
+    };
+}
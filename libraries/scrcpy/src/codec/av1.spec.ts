@@ -0,0 +1,252 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { Av1 } from "./av1.js";
+import { u as f, rbsp as trailing } from "./test-utils.spec.js";
+
+/**
+ * Creates an OBU with `obu_has_size_field`
+ */
+function obu(type: number, payload: number[]) {
+    return [(type << 3) | 0b010, payload.length, ...payload];
+}
+
+// 1280x720, 8-bit 4:2:0, `OrderHintBits` is 7
+const SequenceHeader = obu(
+    Av1.ObuType.SequenceHeader,
+    trailing(
+        // seq_profile, still_picture, reduced_still_picture_header,
+        // timing_info_present_flag, initial_display_delay_present_flag
+        f(0, 3),
+        "0000",
+        // operating_points_cnt_minus_1, operating_point_idc[0],
+        // seq_level_idx[0], seq_tier[0]
+        f(0, 5),
+        f(0, 12),
+        f(8, 5),
+        "0",
+        // frame_width_bits_minus_1, frame_height_bits_minus_1
+        f(10, 4),
+        f(10, 4),
+        // max_frame_width_minus_1, max_frame_height_minus_1
+        f(1279, 11),
+        f(719, 11),
+        // frame_id_numbers_present_flag, use_128x128_superblock,
+        // enable_filter_intra, enable_intra_edge_filter,
+        // enable_interintra_compound, enable_masked_compound,
+        // enable_warped_motion, enable_dual_filter, enable_order_hint,
+        // enable_jnt_comp, enable_ref_frame_mvs,
+        // seq_choose_screen_content_tools, seq_choose_integer_mv
+        "0011000010011",
+        // order_hint_bits_minus_1
+        f(6, 3),
+        // enable_superres, enable_cdef, enable_restoration
+        "011",
+        // high_bitdepth, color_description_present_flag, color_range,
+        // chroma_sample_position, separate_uv_delta_q
+        "000",
+        f(0, 2),
+        "0",
+        // film_grain_params_present
+        "0",
+    ),
+);
+
+const TemporalDelimiter = obu(Av1.ObuType.TemporalDelimiter, []);
+
+function frame(fields: string[]) {
+    // Tile group data is not parsed
+    return obu(Av1.ObuType.Frame, [...trailing(...fields), 0x12, 0x34]);
+}
+
+const KeyFrame = frame([
+    // show_existing_frame, frame_type, show_frame
+    "0",
+    f(Av1.FrameType.Key, 2),
+    "1",
+    // disable_cdf_update, allow_screen_content_tools, frame_size_override_flag
+    "000",
+    // order_hint
+    f(0, 7),
+]);
+
+function interFrame(
+    showFrame: boolean,
+    orderHint: number,
+    refreshFrameFlags: number,
+) {
+    return frame([
+        // show_existing_frame, frame_type, show_frame
+        "0",
+        f(Av1.FrameType.Inter, 2),
+        showFrame ? "1" : "0",
+        // showable_frame
+        showFrame ? "" : "1",
+        // error_resilient_mode, disable_cdf_update,
+        // allow_screen_content_tools, frame_size_override_flag
+        "0000",
+        f(orderHint, 7),
+        // primary_ref_frame
+        f(0, 3),
+        f(refreshFrameFlags, 8),
+    ]);
+}
+
+describe("Av1", () => {
+    it("should parse frame headers", () => {
+        const reader = new Av1(
+            new Uint8Array([
+                ...TemporalDelimiter,
+                ...SequenceHeader,
+                ...KeyFrame,
+                ...TemporalDelimiter,
+                ...interFrame(true, 1, 0b0000_0001),
+                ...TemporalDelimiter,
+                // Alternative reference frame
+                ...interFrame(false, 4, 0b0000_0100),
+            ]),
+        );
+
+        const headers = Array.from(reader.lowOverheadBitstream())
+            .map((obu) => obu.frame_header_obu)
+            .filter((header) => !!header);
+        assert.deepStrictEqual(
+            headers.map((header) => [
+                header.frame_type,
+                header.show_frame,
+                header.showable_frame,
+                header.order_hint,
+                header.refresh_frame_flags,
+            ]),
+            [
+                [Av1.FrameType.Key, true, false, 0, 0xff],
+                [Av1.FrameType.Inter, true, true, 1, 0b0000_0001],
+                [Av1.FrameType.Inter, false, true, 4, 0b0000_0100],
+            ],
+        );
+        assert.strictEqual(headers[0]!.force_integer_mv, 1);
+        assert.strictEqual(headers[1]!.primary_ref_frame, 0);
+    });
+
+    it("should share state across instances", () => {
+        const first = new Av1(new Uint8Array([...SequenceHeader, ...KeyFrame]));
+        Array.from(first.lowOverheadBitstream());
+
+        const second = new Av1(
+            new Uint8Array(interFrame(false, 4, 0b0000_0100)),
+            first.state,
+        );
+        Array.from(second.lowOverheadBitstream());
+
+        const third = new Av1(
+            new Uint8Array(
+                obu(
+                    Av1.ObuType.FrameHeader,
+                    // show_existing_frame, frame_to_show_map_idx
+                    trailing("1", f(2, 3)),
+                ),
+            ),
+            second.state,
+        );
+        const [header] = Array.from(third.lowOverheadBitstream());
+        assert.deepStrictEqual(
+            [
+                header?.frame_header_obu?.show_existing_frame,
+                header?.frame_header_obu?.frame_to_show_map_idx,
+                header?.frame_header_obu?.frame_type,
+                header?.frame_header_obu?.refresh_frame_flags,
+            ],
+            [true, 2, Av1.FrameType.Inter, 0],
+        );
+    });
+
+    it("should throw if sequence header is missing", () => {
+        const reader = new Av1(new Uint8Array(KeyFrame));
+        assert.throws(
+            () => Array.from(reader.lowOverheadBitstream()),
+            /Missing sequence header/,
+        );
+    });
+
+    it("should parse HDR metadata", () => {
+        const reader = new Av1(
+            new Uint8Array([
+                ...obu(Av1.ObuType.Metadata, [
+                    Av1.MetadataType.HdrCll,
+                    ...trailing(f(1000, 16), f(400, 16)),
+                ]),
+                ...obu(Av1.ObuType.Metadata, [
+                    Av1.MetadataType.HdrMdcv,
+                    ...trailing(
+                        f(45_000, 16),
+                        f(19_000, 16),
+                        f(11_000, 16),
+                        f(45_000, 16),
+                        f(10_000, 16),
+                        f(3_000, 16),
+                        f(20_480, 16),
+                        f(21_500, 16),
+                        f(1000 << 8, 32),
+                        f(82, 32),
+                    ),
+                ]),
+                // Unsupported metadata type
+                ...obu(Av1.ObuType.Metadata, [
+                    Av1.MetadataType.ItutT35,
+                    0xb5,
+                    0x80,
+                ]),
+            ]),
+        );
+
+        const metadata = Array.from(reader.lowOverheadBitstream()).map(
+            (obu) => obu.metadata_obu,
+        );
+        assert.deepStrictEqual(metadata, [
+            {
+                metadata_type: Av1.MetadataType.HdrCll,
+                metadata_hdr_cll: { max_cll: 1000, max_fall: 400 },
+                metadata_hdr_mdcv: undefined,
+            },
+            {
+                metadata_type: Av1.MetadataType.HdrMdcv,
+                metadata_hdr_cll: undefined,
+                metadata_hdr_mdcv: {
+                    primary_chromaticity_x: [45_000, 11_000, 10_000],
+                    primary_chromaticity_y: [19_000, 45_000, 3_000],
+                    white_point_chromaticity_x: 20_480,
+                    white_point_chromaticity_y: 21_500,
+                    luminance_max: 1000 << 8,
+                    luminance_min: 82,
+                },
+            },
+            {
+                metadata_type: Av1.MetadataType.ItutT35,
+                metadata_hdr_cll: undefined,
+                metadata_hdr_mdcv: undefined,
+            },
+        ]);
+    });
+
+    it("should parse 32-bit luminance as unsigned", () => {
+        const reader = new Av1(
+            new Uint8Array(
+                obu(Av1.ObuType.Metadata, [
+                    Av1.MetadataType.HdrMdcv,
+                    ...trailing(
+                        ...Array.from({ length: 8 }, () => f(0, 16)),
+                        f(0xffffffff, 32),
+                        f(0x80000000, 32),
+                    ),
+                ]),
+            ),
+        );
+
+        const [mdcv] = Array.from(
+            reader.lowOverheadBitstream(),
+            (obu) => obu.metadata_obu?.metadata_hdr_mdcv,
+        );
+        assert.strictEqual(mdcv?.luminance_max, 0xffffffff);
+        assert.strictEqual(mdcv.luminance_min, 0x80000000);
+    });
+});
@@ -81,10 +81,8 @@ class BitReader {
     }
 
     skip(n: number) {
-        if (n <= this.#bitPosition + 1) {
-            this.#bytePosition += 1;
-            this.#bitPosition = 7;
-            this.#byte = this.#data[this.#bytePosition]!;
+        if (n < this.#bitPosition + 1) {
+            this.#bitPosition -= n;
             return;
         }
 
@@ -140,6 +138,21 @@ const ObuType = {
 
 type ObuType = (typeof ObuType)[keyof typeof ObuType];
 
+const FrameType = {
+    Key: 0,
+    Inter: 1,
+    IntraOnly: 2,
+    Switch: 3,
+} as const;
+
+const MetadataType = {
+    HdrCll: 1,
+    HdrMdcv: 2,
+    Scalability: 3,
+    ItutT35: 4,
+    Timecode: 5,
+} as const;
+
 const ColorPrimaries = {
     Bt709: 1,
     Unspecified: 2,
@@ -194,12 +207,37 @@ const MatrixCoefficients = {
 
 export class Av1 extends BitReader {
     static ObuType = ObuType;
+    static FrameType = FrameType;
+    static MetadataType = MetadataType;
     static ColorPrimaries = ColorPrimaries;
     static TransferCharacteristics = TransferCharacteristics;
     static MatrixCoefficients = MatrixCoefficients;
 
     #Leb128Bytes: number = 0;
 
+    #state: Av1.State;
+    /**
+     * States that are needed to parse frame headers,
+     * including the last sequence header and types of reference frames.
+     *
+     * Pass it to the constructor of the next `Av1` instance
+     * to parse OBUs across multiple packets.
+     */
+    get state() {
+        return this.#state;
+    }
+
+    constructor(data: Uint8Array, state?: Av1.State) {
+        super(data);
+        this.#state = state ?? { sequenceHeader: undefined, RefFrameType: [] };
+        if (this.#state.sequenceHeader) {
+            this.#OperatingPointIdc =
+                this.#state.sequenceHeader.operating_point_idc[
+                    this.chooseOperatingPoint()
+                ]!;
+        }
+    }
+
     uvlc() {
         let leadingZeros = 0;
         while (!this.f1()) {
@@ -258,6 +296,19 @@ export class Av1 extends BitReader {
         }
     }
 
+    /**
+     * Reads OBUs in the low overhead bitstream format (Section 5),
+     * which is the format used by scrcpy.
+     */
+    *lowOverheadBitstream(): Generator<Av1.OpenBitstreamUnit, void, void> {
+        while (!this.ended) {
+            const obu = this.openBitstreamUnit();
+            if (obu) {
+                yield obu;
+            }
+        }
+    }
+
     #OperatingPointIdc = 0;
 
     openBitstreamUnit(sz?: bigint) {
@@ -288,7 +339,7 @@ export class Av1 extends BitReader {
                 (1 << (obu_header.obu_extension_header.spatial_id + 8))
             );
             if (!inTemporalLayer || !inSpatialLayer) {
-                this.skip(Number(obu_size));
+                this.skip(Number(obu_size) * 8);
                 return;
             }
         }
@@ -296,9 +347,19 @@ export class Av1 extends BitReader {
         let sequence_header_obu:
             | ReturnType<Av1["sequenceHeaderObu"]>
             | undefined;
+        let frame_header_obu: ReturnType<Av1["frameHeaderObu"]> | undefined;
+        let metadata_obu: ReturnType<Av1["metadataObu"]> | undefined;
         switch (obu_header.obu_type) {
             case Av1.ObuType.SequenceHeader:
                 sequence_header_obu = this.sequenceHeaderObu();
+                this.#state.sequenceHeader = sequence_header_obu;
+                break;
+            case Av1.ObuType.FrameHeader:
+            case Av1.ObuType.Frame:
+                frame_header_obu = this.frameHeaderObu(obu_header);
+                break;
+            case Av1.ObuType.Metadata:
+                metadata_obu = this.metadataObu();
                 break;
         }
 
@@ -319,6 +380,8 @@ export class Av1 extends BitReader {
             obu_header,
             obu_size,
             sequence_header_obu,
+            frame_header_obu,
+            metadata_obu,
         };
     }
 
@@ -701,9 +764,357 @@ export class Av1 extends BitReader {
             separate_uv_delta_q,
         };
     }
+
+    static readonly NumRefFrames = 8;
+    static readonly PrimaryRefNone = 7;
+
+    /**
+     * 5.9.1 General frame header OBU syntax
+     *
+     * Requires a sequence header, either from a previous OBU,
+     * or from the `state` passed to the constructor.
+     */
+    frameHeaderObu(obuHeader: ReturnType<Av1["obuHeader"]>) {
+        const sequenceHeader = this.#state.sequenceHeader;
+        if (!sequenceHeader) {
+            throw new Error("Missing sequence header");
+        }
+
+        const frameHeader = this.uncompressedHeader(sequenceHeader, obuHeader);
+
+        // 7.20 Reference frame update process
+        for (let i = 0; i < Av1.NumRefFrames; i += 1) {
+            if ((frameHeader.refresh_frame_flags >> i) & 1) {
+                this.#state.RefFrameType[i] = frameHeader.frame_type;
+            }
+        }
+
+        return frameHeader;
+    }
+
+    /**
+     * 5.9.2 Uncompressed header syntax
+     *
+     * Only parses until `ref_order_hint`,
+     * which are enough to identify the frame and how it will be referenced.
+     */
+    uncompressedHeader(
+        sequenceHeader: Av1.SequenceHeaderObu,
+        obuHeader: ReturnType<Av1["obuHeader"]>,
+    ) {
+        const {
+            reduced_still_picture_header,
+            timing_info,
+            decoder_model_info_present_flag,
+            decoder_model_info,
+            operating_points_cnt_minus_1,
+            operating_point_idc,
+            decoder_model_present_for_this_op,
+            frame_id_numbers_present_flag,
+            delta_frame_id_length_minus_2,
+            additional_frame_id_length_minus_1,
+            seq_force_screen_content_tools,
+            seq_force_integer_mv,
+            enable_order_hint,
+            order_hint_bits_minus_1,
+        } = sequenceHeader;
+
+        let idLen = 0;
+        if (frame_id_numbers_present_flag) {
+            idLen =
+                additional_frame_id_length_minus_1! +
+                delta_frame_id_length_minus_2! +
+                3;
+        }
+        const allFrames = (1 << Av1.NumRefFrames) - 1;
+        const OrderHintBits = enable_order_hint
+            ? order_hint_bits_minus_1! + 1
+            : 0;
+        const temporalPointInfoPresent =
+            decoder_model_info_present_flag &&
+            !timing_info!.equal_picture_interval;
+
+        let show_existing_frame = false;
+        let frame_to_show_map_idx: number | undefined;
+        let display_frame_id: number | undefined;
+        let frame_presentation_time: number | undefined;
+        let frame_type: Av1.FrameType | undefined;
+        let show_frame = true;
+        let showable_frame = false;
+        let error_resilient_mode = true;
+        let disable_cdf_update = false;
+        let allow_screen_content_tools = 0;
+        let force_integer_mv = 0;
+        let current_frame_id = 0;
+        let frame_size_override_flag = false;
+        let order_hint = 0;
+        let primary_ref_frame = Av1.PrimaryRefNone;
+        let buffer_removal_time_present_flag = false;
+        const buffer_removal_time: number[] = [];
+        let refresh_frame_flags = 0;
+        const ref_order_hint: number[] = [];
+
+        if (reduced_still_picture_header) {
+            frame_type = Av1.FrameType.Key;
+        } else {
+            show_existing_frame = !!this.f1();
+            if (show_existing_frame) {
+                frame_to_show_map_idx = this.f(3);
+                if (temporalPointInfoPresent) {
+                    frame_presentation_time = this.temporalPointInfo(
+                        decoder_model_info!,
+                    );
+                }
+                if (frame_id_numbers_present_flag) {
+                    display_frame_id = this.f(idLen);
+                }
+                // `undefined` if the reference frame was not seen
+                frame_type = this.#state.RefFrameType[frame_to_show_map_idx];
+                if (frame_type === Av1.FrameType.Key) {
+                    refresh_frame_flags = allFrames;
+                }
+            } else {
+                frame_type = this.f(2) as Av1.FrameType;
+                show_frame = !!this.f1();
+                if (show_frame && temporalPointInfoPresent) {
+                    frame_presentation_time = this.temporalPointInfo(
+                        decoder_model_info!,
+                    );
+                }
+                if (show_frame) {
+                    showable_frame = frame_type !== Av1.FrameType.Key;
+                } else {
+                    showable_frame = !!this.f1();
+                }
+                if (
+                    frame_type === Av1.FrameType.Switch ||
+                    (frame_type === Av1.FrameType.Key && show_frame)
+                ) {
+                    error_resilient_mode = true;
+                } else {
+                    error_resilient_mode = !!this.f1();
+                }
+            }
+        }
+
+        if (!show_existing_frame) {
+            const FrameIsIntra =
+                frame_type === Av1.FrameType.IntraOnly ||
+                frame_type === Av1.FrameType.Key;
+
+            disable_cdf_update = !!this.f1();
+            if (
+                seq_force_screen_content_tools === Av1.SelectScreenContentTools
+            ) {
+                allow_screen_content_tools = this.f1();
+            } else {
+                allow_screen_content_tools = seq_force_screen_content_tools;
+            }
+            if (allow_screen_content_tools) {
+                if (seq_force_integer_mv === Av1.SelectIntegerMv) {
+                    force_integer_mv = this.f1();
+                } else {
+                    force_integer_mv = seq_force_integer_mv;
+                }
+            }
+            if (FrameIsIntra) {
+                force_integer_mv = 1;
+            }
+
+            if (frame_id_numbers_present_flag) {
+                current_frame_id = this.f(idLen);
+            }
+
+            if (frame_type === Av1.FrameType.Switch) {
+                frame_size_override_flag = true;
+            } else if (!reduced_still_picture_header) {
+                frame_size_override_flag = !!this.f1();
+            }
+
+            order_hint = this.f(OrderHintBits);
+
+            if (!FrameIsIntra && !error_resilient_mode) {
+                primary_ref_frame = this.f(3);
+            }
+
+            if (decoder_model_info_present_flag) {
+                buffer_removal_time_present_flag = !!this.f1();
+                if (buffer_removal_time_present_flag) {
+                    const temporal_id =
+                        obuHeader.obu_extension_header?.temporal_id ?? 0;
+                    const spatial_id =
+                        obuHeader.obu_extension_header?.spatial_id ?? 0;
+                    for (
+                        let opNum = 0;
+                        opNum <= operating_points_cnt_minus_1;
+                        opNum += 1
+                    ) {
+                        if (!decoder_model_present_for_this_op[opNum]) {
+                            continue;
+                        }
+
+                        const opPtIdc = operating_point_idc[opNum]!;
+                        const inTemporalLayer = (opPtIdc >> temporal_id) & 1;
+                        const inSpatialLayer =
+                            (opPtIdc >> (spatial_id + 8)) & 1;
+                        if (
+                            opPtIdc === 0 ||
+                            (inTemporalLayer && inSpatialLayer)
+                        ) {
+                            buffer_removal_time[opNum] = this.f(
+                                decoder_model_info!
+                                    .buffer_removal_time_length_minus_1 + 1,
+                            );
+                        }
+                    }
+                }
+            }
+
+            if (
+                frame_type === Av1.FrameType.Switch ||
+                (frame_type === Av1.FrameType.Key && show_frame)
+            ) {
+                refresh_frame_flags = allFrames;
+            } else {
+                refresh_frame_flags = this.f(8);
+            }
+
+            if (
+                (!FrameIsIntra || refresh_frame_flags !== allFrames) &&
+                error_resilient_mode &&
+                enable_order_hint
+            ) {
+                for (let i = 0; i < Av1.NumRefFrames; i += 1) {
+                    ref_order_hint[i] = this.f(OrderHintBits);
+                }
+            }
+        }
+
+        return {
+            show_existing_frame,
+            frame_to_show_map_idx,
+            display_frame_id,
+            frame_presentation_time,
+            frame_type,
+            show_frame,
+            showable_frame,
+            error_resilient_mode,
+            disable_cdf_update,
+            allow_screen_content_tools,
+            force_integer_mv,
+            current_frame_id,
+            frame_size_override_flag,
+            order_hint,
+            primary_ref_frame,
+            buffer_removal_time_present_flag,
+            buffer_removal_time,
+            refresh_frame_flags,
+            ref_order_hint,
+        };
+    }
+
+    /**
+     * 5.9.31 Temporal point info syntax
+     */
+    temporalPointInfo(decoderModelInfo: ReturnType<Av1["decoderModelInfo"]>) {
+        return this.f(
+            decoderModelInfo.frame_presentation_time_length_minus_1 + 1,
+        );
+    }
+
+    /**
+     * 5.8.1 General metadata OBU syntax
+     *
+     * Only HDR metadata are parsed.
+     */
+    metadataObu() {
+        const metadata_type = Number(this.leb128());
+
+        let metadata_hdr_cll: ReturnType<Av1["metadataHdrCll"]> | undefined;
+        let metadata_hdr_mdcv: ReturnType<Av1["metadataHdrMdcv"]> | undefined;
+        switch (metadata_type) {
+            case Av1.MetadataType.HdrCll:
+                metadata_hdr_cll = this.metadataHdrCll();
+                break;
+            case Av1.MetadataType.HdrMdcv:
+                metadata_hdr_mdcv = this.metadataHdrMdcv();
+                break;
+        }
+
+        return {
+            metadata_type,
+            metadata_hdr_cll,
+            metadata_hdr_mdcv,
+        };
+    }
+
+    /**
+     * 5.8.3 Metadata high dynamic range content light level syntax
+     */
+    metadataHdrCll() {
+        const max_cll = this.f(16);
+        const max_fall = this.f(16);
+        return { max_cll, max_fall };
+    }
+
+    /**
+     * 5.8.4 Metadata high dynamic range mastering display color volume syntax
+     */
+    metadataHdrMdcv() {
+        const primary_chromaticity_x: number[] = [];
+        const primary_chromaticity_y: number[] = [];
+        for (let i = 0; i < 3; i += 1) {
+            primary_chromaticity_x[i] = this.f(16);
+            primary_chromaticity_y[i] = this.f(16);
+        }
+        const white_point_chromaticity_x = this.f(16);
+        const white_point_chromaticity_y = this.f(16);
+        // `f(32)` uses bitwise operators, which overflow to negative values
+        const luminance_max = this.f(16) * 0x10000 + this.f(16);
+        const luminance_min = this.f(16) * 0x10000 + this.f(16);
+        return {
+            /**
+             * 0.16 fixed-point (CIE 1931)
+             */
+            primary_chromaticity_x,
+            /**
+             * 0.16 fixed-point (CIE 1931)
+             */
+            primary_chromaticity_y,
+            white_point_chromaticity_x,
+            white_point_chromaticity_y,
+            /**
+             * 24.8 fixed-point, in candelas per square meter
+             */
+            luminance_max,
+            /**
+             * 18.14 fixed-point, in candelas per square meter
+             */
+            luminance_min,
+        };
+    }
 }
 
 export namespace Av1 {
+    /**
+     * States shared between `Av1` instances, see `Av1#state`.
+     */
+    export interface State {
+        sequenceHeader: SequenceHeaderObu | undefined;
+        /**
+         * Types of frames in each reference frame slot.
+         */
+        RefFrameType: (FrameType | undefined)[];
+    }
+
+    export type FrameHeaderObu = ReturnType<Av1["frameHeaderObu"]>;
+
+    export type MetadataObu = ReturnType<Av1["metadataObu"]>;
+
+    export type FrameType = (typeof FrameType)[keyof typeof FrameType];
+
+    export type MetadataType = (typeof MetadataType)[keyof typeof MetadataType];
+
     export type OpenBitstreamUnit = Exclude<
         ReturnType<Av1["openBitstreamUnit"]>,
         undefined
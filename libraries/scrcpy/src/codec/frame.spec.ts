@@ -0,0 +1,284 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { H264FrameParser, H265FrameParser } from "./frame.js";
+import { h265ParsePictureParameterSet } from "./h265.js";
+import { rbsp, u, ue } from "./test-utils.spec.js";
+
+// 1280x720 High profile, `log2_max_frame_num` is 4, `log2_max_pic_order_cnt_lsb` is 6
+const H264SequenceParameterSet = [
+    0x67, 0x64, 0x00, 0x1f, 0xac, 0xd9, 0x40, 0x50, 0x05, 0xbb, 0x01, 0x10,
+    0x00, 0x00, 0x03, 0x00, 0x10, 0x00, 0x00, 0x03, 0x03, 0xc0, 0xf1, 0x83,
+    0x19, 0x60,
+];
+
+const H264PictureParameterSet = [0x68, 0xeb, 0xe3, 0xcb, 0x22, 0xc0];
+
+// 1920x1088, `log2_max_pic_order_cnt_lsb` is 8, CTB size is 64
+const H265SequenceParameterSet = [
+    0x42, 0x01, 0x01, 0x01, 0x60, 0x00, 0x00, 0x03, 0x00, 0x00, 0x03, 0x00,
+    0x00, 0x03, 0x00, 0x00, 0x03, 0x00, 0x99, 0xa0, 0x03, 0xc0, 0x80, 0x11,
+    0x07, 0xf9, 0x65, 0x26, 0x49, 0x1b, 0x61, 0xa5, 0x88, 0xaa, 0x93, 0x13,
+    0x0c, 0xbe, 0xcf, 0xaf, 0x37, 0xe5, 0x9f, 0x5e, 0x14, 0x46, 0x27, 0x2e,
+    0xda, 0xc0, 0xff, 0xff, 0x80,
+];
+
+function annexB(...nalus: number[][]) {
+    return new Uint8Array(nalus.flatMap((nalu) => [0, 0, 0, 1, ...nalu]));
+}
+
+function h264Slice(
+    header: number,
+    sliceType: number,
+    frameNum: number,
+    picOrderCntLsb: number,
+) {
+    return [
+        header,
+        ...rbsp(
+            // first_mb_in_slice
+            ue(0),
+            ue(sliceType),
+            // pic_parameter_set_id
+            ue(0),
+            u(frameNum, 4),
+            // idr_pic_id
+            header === 0x65 ? ue(0) : "",
+            u(picOrderCntLsb, 6),
+        ),
+    ];
+}
+
+// payloadType 6, payloadSize 1, recovery_frame_cnt 0
+const H264RecoveryPointSei = [0x06, 0x06, 0x01, 0x84, 0x80];
+
+describe("H264FrameParser", () => {
+    it("should classify frames", () => {
+        const parser = new H264FrameParser();
+        parser.configure(
+            annexB(H264SequenceParameterSet, H264PictureParameterSet),
+        );
+
+        const frames = [
+            annexB(h264Slice(0x65, 7, 0, 0)),
+            annexB(h264Slice(0x41, 5, 1, 8)),
+            // Non-reference B frame
+            annexB(h264Slice(0x01, 6, 2, 4)),
+            // `frame_num` 2 is missing
+            annexB(h264Slice(0x41, 5, 3, 16)),
+            annexB(h264Slice(0x41, 5, 4, 40)),
+            // `pic_order_cnt_lsb` wraps around
+            annexB(h264Slice(0x41, 5, 5, 2)),
+        ].map((frame) => parser.parse(frame));
+
+        assert.deepStrictEqual(frames, [
+            {
+                type: "I",
+                keyframe: true,
+                recoveryPoint: false,
+                reference: true,
+                frameNum: 0,
+                pictureOrderCount: 0,
+                frameNumGap: false,
+            },
+            {
+                type: "P",
+                keyframe: false,
+                recoveryPoint: false,
+                reference: true,
+                frameNum: 1,
+                pictureOrderCount: 8,
+                frameNumGap: false,
+            },
+            {
+                type: "B",
+                keyframe: false,
+                recoveryPoint: false,
+                reference: false,
+                frameNum: 2,
+                pictureOrderCount: 4,
+                frameNumGap: false,
+            },
+            {
+                type: "P",
+                keyframe: false,
+                recoveryPoint: false,
+                reference: true,
+                frameNum: 3,
+                pictureOrderCount: 16,
+                frameNumGap: true,
+            },
+            {
+                type: "P",
+                keyframe: false,
+                recoveryPoint: false,
+                reference: true,
+                frameNum: 4,
+                pictureOrderCount: 40,
+                frameNumGap: false,
+            },
+            {
+                type: "P",
+                keyframe: false,
+                recoveryPoint: false,
+                reference: true,
+                frameNum: 5,
+                pictureOrderCount: 66,
+                frameNumGap: false,
+            },
+        ]);
+    });
+
+    it("should combine slices and detect recovery point", () => {
+        const parser = new H264FrameParser();
+        // Parameter sets can also be in-band
+        const info = parser.parse(
+            annexB(
+                H264SequenceParameterSet,
+                H264PictureParameterSet,
+                H264RecoveryPointSei,
+                h264Slice(0x41, 2, 0, 0),
+                [0x41, ...rbsp(ue(100), ue(0), ue(0), u(0, 4), u(0, 6))],
+            ),
+        );
+
+        assert.strictEqual(info?.type, "P");
+        assert.strictEqual(info.keyframe, false);
+        assert.strictEqual(info.recoveryPoint, true);
+    });
+
+    it("should return undefined without slices", () => {
+        const parser = new H264FrameParser();
+        assert.strictEqual(
+            parser.parse(
+                annexB(H264SequenceParameterSet, H264PictureParameterSet),
+            ),
+            undefined,
+        );
+    });
+
+    it("should throw if parameter sets are missing", () => {
+        const parser = new H264FrameParser();
+        assert.throws(
+            () => parser.parse(annexB(h264Slice(0x65, 7, 0, 0))),
+            /Missing picture parameter set/,
+        );
+    });
+});
+
+const H265PictureParameterSet = [
+    0x44,
+    0x01,
+    ...rbsp(
+        // pps_pic_parameter_set_id, pps_seq_parameter_set_id
+        ue(0),
+        ue(0),
+        // dependent_slice_segments_enabled_flag, output_flag_present_flag,
+        // num_extra_slice_header_bits, sign_data_hiding_enabled_flag,
+        // cabac_init_present_flag
+        "1000000",
+        // num_ref_idx_l0_default_active_minus1, num_ref_idx_l1_default_active_minus1
+        ue(0),
+        ue(0),
+        // init_qp_minus26 = -1
+        ue(2),
+        // constrained_intra_pred_flag, transform_skip_enabled_flag,
+        // cu_qp_delta_enabled_flag, diff_cu_qp_delta_depth
+        "001",
+        ue(1),
+        // pps_cb_qp_offset, pps_cr_qp_offset
+        ue(0),
+        ue(0),
+        // pps_slice_chroma_qp_offsets_present_flag, weighted_pred_flag,
+        // weighted_bipred_flag, transquant_bypass_enabled_flag,
+        // tiles_enabled_flag, entropy_coding_sync_enabled_flag,
+        // pps_loop_filter_across_slices_enabled_flag,
+        // deblocking_filter_control_present_flag,
+        // pps_scaling_list_data_present_flag, lists_modification_present_flag
+        "0000001000",
+        // log2_parallel_merge_level_minus2
+        ue(0),
+        // slice_segment_header_extension_present_flag, pps_extension_present_flag
+        "00",
+    ),
+];
+
+function h265Slice(
+    type: number,
+    sliceType: number,
+    picOrderCntLsb: number,
+    address?: number,
+) {
+    const irap = type >= 16 && type <= 23;
+    const idr = type === 19 || type === 20;
+    return [
+        type << 1,
+        0x01,
+        ...rbsp(
+            // first_slice_segment_in_pic_flag
+            address === undefined ? "1" : "0",
+            // no_output_of_prior_pics_flag
+            irap ? "0" : "",
+            // slice_pic_parameter_set_id
+            ue(0),
+            // dependent_slice_segment_flag, slice_segment_address
+            address === undefined ? "" : "0" + u(address, 9),
+            ue(sliceType),
+            idr ? "" : u(picOrderCntLsb, 8),
+        ),
+    ];
+}
+
+describe("H265FrameParser", () => {
+    it("should parse picture parameter set", () => {
+        const pps = h265ParsePictureParameterSet(
+            new Uint8Array(H265PictureParameterSet.slice(2)),
+        );
+        assert.strictEqual(pps.dependent_slice_segments_enabled_flag, true);
+        assert.strictEqual(pps.init_qp_minus26, -1);
+        assert.strictEqual(pps.cu_qp_delta_enabled_flag, true);
+        assert.strictEqual(pps.diff_cu_qp_delta_depth, 1);
+        assert.strictEqual(
+            pps.pps_loop_filter_across_slices_enabled_flag,
+            true,
+        );
+        assert.strictEqual(pps.pps_extension_present_flag, false);
+    });
+
+    it("should classify frames", () => {
+        const parser = new H265FrameParser();
+        parser.configure(
+            annexB(H265SequenceParameterSet, H265PictureParameterSet),
+        );
+
+        const frames = [
+            // IDR_W_RADL
+            annexB(h265Slice(19, 2, 0)),
+            // TRAIL_R, with a second I slice segment
+            annexB(h265Slice(1, 1, 8), h265Slice(1, 2, 8, 255)),
+            // TRAIL_N
+            annexB(h265Slice(0, 0, 4)),
+            annexB(h265Slice(1, 1, 100)),
+            annexB(h265Slice(1, 1, 200)),
+            // `slice_pic_order_cnt_lsb` wraps around
+            annexB(h265Slice(1, 1, 16)),
+        ].map((frame) => parser.parse(frame));
+
+        assert.deepStrictEqual(
+            frames.map((frame) => [
+                frame?.type,
+                frame?.keyframe,
+                frame?.reference,
+                frame?.pictureOrderCount,
+            ]),
+            [
+                ["I", true, true, 0],
+                ["P", false, true, 8],
+                ["B", false, false, 4],
+                ["P", false, true, 100],
+                ["P", false, true, 200],
+                ["P", false, true, 272],
+            ],
+        );
+    });
+});
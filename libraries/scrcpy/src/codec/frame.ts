@@ -0,0 +1,573 @@
+import type {
+    H264PictureParameterSet,
+    H264SequenceParameterSet,
+    H264SliceHeader,
+} from "./h264.js";
+import {
+    h264ParsePictureParameterSet,
+    h264ParseSequenceParameterSet,
+    h264ParseSliceHeader,
+    H264SliceType,
+} from "./h264.js";
+import type {
+    H265PictureParameterSet,
+    H265SequenceParameterSet,
+    H265SliceSegmentHeader,
+} from "./h265.js";
+import {
+    h265ParsePictureParameterSet,
+    h265ParseSequenceParameterSet,
+    h265ParseSliceSegmentHeader,
+    H265SliceType,
+} from "./h265.js";
+import { annexBSplitNalu, NaluSodbBitReader } from "./nalu.js";
+import { SeiPayloadType, seiReadMessages } from "./sei.js";
+
+export const VideoFrameType = {
+    I: "I",
+    P: "P",
+    B: "B",
+} as const;
+
+export type VideoFrameType =
+    (typeof VideoFrameType)[keyof typeof VideoFrameType];
+
+export interface VideoFrameInfo {
+    /**
+     * The "largest" type of all slices in the frame,
+     * i.e. `B` if any slice is a B slice, otherwise `P` if any slice is a P slice.
+     *
+     * SP slices are counted as P slices, SI slices are counted as I slices.
+     */
+    type: VideoFrameType;
+    /**
+     * Whether the frame is an IDR picture (H.264),
+     * or an IRAP picture (H.265).
+     */
+    keyframe: boolean;
+    /**
+     * Whether the frame has a recovery point SEI message,
+     * so decoding can start from it even if it's not a keyframe.
+     */
+    recoveryPoint: boolean;
+    /**
+     * Whether the frame can be referenced by other frames.
+     *
+     * Non-reference frames can be dropped without affecting other frames.
+     */
+    reference: boolean;
+    /**
+     * `frame_num` of the frame. Only available for H.264.
+     */
+    frameNum: number | undefined;
+    /**
+     * Picture order count (display order) of the frame,
+     * relative to the last keyframe.
+     */
+    pictureOrderCount: number;
+    /**
+     * Whether some reference frames before this one are missing,
+     * detected from gaps in `frame_num`. Always `false` for H.265.
+     */
+    frameNumGap: boolean;
+}
+
+/**
+ * Returns whether the SEI NAL unit contains a recovery point SEI message.
+ *
+ * @param nalu The SEI NAL unit, including the NAL unit header
+ * @param headerLength Length of the NAL unit header in bytes
+ */
+function seiHasRecoveryPoint(nalu: Uint8Array, headerLength: number) {
+    const reader = new NaluSodbBitReader(nalu);
+    reader.skip(headerLength * 8);
+
+    for (const { payloadType } of seiReadMessages(reader)) {
+        if (payloadType === SeiPayloadType.RecoveryPoint) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+function mergeFrameType(
+    current: VideoFrameType | undefined,
+    slice: VideoFrameType,
+): VideoFrameType {
+    if (current === VideoFrameType.B || slice === VideoFrameType.B) {
+        return VideoFrameType.B;
+    }
+    if (current === VideoFrameType.P || slice === VideoFrameType.P) {
+        return VideoFrameType.P;
+    }
+    return VideoFrameType.I;
+}
+
+/**
+ * Extracts per-frame information from an H.264 Annex B stream.
+ *
+ * Parameter sets are tracked from both the configuration packet
+ * and in-band SPS/PPS NAL units.
+ */
+export class H264FrameParser {
+    #sequenceParameterSets = new Map<number, H264SequenceParameterSet>();
+    #pictureParameterSets = new Map<number, H264PictureParameterSet>();
+
+    // 8.2.1 Decoding process for picture order count
+    #prevPicOrderCntMsb = 0;
+    #prevPicOrderCntLsb = 0;
+    #prevFrameNumOffset = 0;
+    #prevFrameNum = 0;
+
+    // 7.4.3 Slice header semantics (`PrevRefFrameNum`)
+    #prevRefFrameNum: number | undefined;
+
+    /**
+     * Processes a configuration packet (which contains SPS and PPS).
+     */
+    configure(data: Uint8Array) {
+        for (const nalu of annexBSplitNalu(data)) {
+            this.#processParameterSet(nalu);
+        }
+    }
+
+    #processParameterSet(nalu: Uint8Array) {
+        switch (nalu[0]! & 0x1f) {
+            case 7: {
+                const sequenceParameterSet =
+                    h264ParseSequenceParameterSet(nalu);
+                this.#sequenceParameterSets.set(
+                    sequenceParameterSet.seq_parameter_set_id,
+                    sequenceParameterSet,
+                );
+                return true;
+            }
+            case 8: {
+                const pictureParameterSet = h264ParsePictureParameterSet(
+                    nalu,
+                    this.#sequenceParameterSets,
+                );
+                this.#pictureParameterSets.set(
+                    pictureParameterSet.pic_parameter_set_id,
+                    pictureParameterSet,
+                );
+                return true;
+            }
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Parses a data packet (an access unit).
+     *
+     * @returns Information of the frame, or `undefined` if the packet doesn't contain a slice
+     */
+    parse(data: Uint8Array): VideoFrameInfo | undefined {
+        let type: VideoFrameType | undefined;
+        let recoveryPoint = false;
+        let header: H264SliceHeader | undefined;
+
+        for (const nalu of annexBSplitNalu(data)) {
+            if (this.#processParameterSet(nalu)) {
+                continue;
+            }
+
+            switch (nalu[0]! & 0x1f) {
+                case 6:
+                    recoveryPoint ||= seiHasRecoveryPoint(nalu, 1);
+                    break;
+                case 1:
+                case 5: {
+                    const slice = h264ParseSliceHeader(
+                        nalu,
+                        this.#sequenceParameterSets,
+                        this.#pictureParameterSets,
+                    );
+                    // Only the first slice is used for picture-level fields
+                    header ??= slice;
+
+                    switch (slice.slice_type % 5) {
+                        case H264SliceType.B:
+                            type = mergeFrameType(type, VideoFrameType.B);
+                            break;
+                        case H264SliceType.P:
+                        case H264SliceType.SP:
+                            type = mergeFrameType(type, VideoFrameType.P);
+                            break;
+                        default:
+                            type = mergeFrameType(type, VideoFrameType.I);
+                            break;
+                    }
+                    break;
+                }
+            }
+        }
+
+        if (!header) {
+            return undefined;
+        }
+
+        const sequenceParameterSet = this.#sequenceParameterSets.get(
+            this.#pictureParameterSets.get(header.pic_parameter_set_id)!
+                .seq_parameter_set_id,
+        )!;
+
+        const keyframe = header.nal_unit_type === 5;
+        const reference = header.nal_ref_idc !== 0;
+        const MaxFrameNum =
+            1 << (sequenceParameterSet.log2_max_frame_num_minus4 + 4);
+
+        let frameNumGap = false;
+        if (keyframe) {
+            this.#prevRefFrameNum = undefined;
+        } else if (
+            this.#prevRefFrameNum !== undefined &&
+            header.frame_num !== this.#prevRefFrameNum &&
+            header.frame_num !== (this.#prevRefFrameNum + 1) % MaxFrameNum
+        ) {
+            frameNumGap = true;
+        }
+        if (reference) {
+            this.#prevRefFrameNum = header.frame_num;
+        }
+
+        return {
+            type: type!,
+            keyframe,
+            recoveryPoint,
+            reference,
+            frameNum: header.frame_num,
+            pictureOrderCount: this.#decodePictureOrderCount(
+                header,
+                sequenceParameterSet,
+                MaxFrameNum,
+            ),
+            frameNumGap,
+        };
+    }
+
+    // 8.2.1 Decoding process for picture order count
+    // Memory management control operations are not considered.
+    #decodePictureOrderCount(
+        header: H264SliceHeader,
+        sequenceParameterSet: H264SequenceParameterSet,
+        MaxFrameNum: number,
+    ) {
+        const IdrPicFlag = header.nal_unit_type === 5;
+
+        let FrameNumOffset = 0;
+        if (!IdrPicFlag) {
+            FrameNumOffset =
+                this.#prevFrameNum > header.frame_num
+                    ? this.#prevFrameNumOffset + MaxFrameNum
+                    : this.#prevFrameNumOffset;
+        }
+        this.#prevFrameNumOffset = FrameNumOffset;
+        this.#prevFrameNum = header.frame_num;
+
+        let TopFieldOrderCnt: number;
+        let BottomFieldOrderCnt: number;
+        switch (sequenceParameterSet.pic_order_cnt_type) {
+            case 0: {
+                // 8.2.1.1 Decoding process for picture order count type 0
+                if (IdrPicFlag) {
+                    this.#prevPicOrderCntMsb = 0;
+                    this.#prevPicOrderCntLsb = 0;
+                }
+
+                const MaxPicOrderCntLsb =
+                    1 <<
+                    (sequenceParameterSet.log2_max_pic_order_cnt_lsb_minus4 +
+                        4);
+                const lsb = header.pic_order_cnt_lsb;
+                let PicOrderCntMsb: number;
+                if (
+                    lsb < this.#prevPicOrderCntLsb &&
+                    this.#prevPicOrderCntLsb - lsb >= MaxPicOrderCntLsb / 2
+                ) {
+                    PicOrderCntMsb =
+                        this.#prevPicOrderCntMsb + MaxPicOrderCntLsb;
+                } else if (
+                    lsb > this.#prevPicOrderCntLsb &&
+                    lsb - this.#prevPicOrderCntLsb > MaxPicOrderCntLsb / 2
+                ) {
+                    PicOrderCntMsb =
+                        this.#prevPicOrderCntMsb - MaxPicOrderCntLsb;
+                } else {
+                    PicOrderCntMsb = this.#prevPicOrderCntMsb;
+                }
+
+                if (header.nal_ref_idc !== 0) {
+                    this.#prevPicOrderCntMsb = PicOrderCntMsb;
+                    this.#prevPicOrderCntLsb = lsb;
+                }
+
+                TopFieldOrderCnt = PicOrderCntMsb + lsb;
+                BottomFieldOrderCnt =
+                    TopFieldOrderCnt + header.delta_pic_order_cnt_bottom;
+                break;
+            }
+            case 1: {
+                // 8.2.1.2 Decoding process for picture order count type 1
+                const { offset_for_ref_frame } = sequenceParameterSet;
+                const num_ref_frames_in_pic_order_cnt_cycle =
+                    offset_for_ref_frame.length;
+
+                let absFrameNum = 0;
+                if (num_ref_frames_in_pic_order_cnt_cycle !== 0) {
+                    absFrameNum = FrameNumOffset + header.frame_num;
+                }
+                if (header.nal_ref_idc === 0 && absFrameNum > 0) {
+                    absFrameNum -= 1;
+                }
+
+                let expectedPicOrderCnt = 0;
+                if (absFrameNum > 0) {
+                    const picOrderCntCycleCnt = Math.floor(
+                        (absFrameNum - 1) /
+                            num_ref_frames_in_pic_order_cnt_cycle,
+                    );
+                    const frameNumInPicOrderCntCycle =
+                        (absFrameNum - 1) %
+                        num_ref_frames_in_pic_order_cnt_cycle;
+
+                    let ExpectedDeltaPerPicOrderCntCycle = 0;
+                    for (const offset of offset_for_ref_frame) {
+                        ExpectedDeltaPerPicOrderCntCycle += offset;
+                    }
+
+                    expectedPicOrderCnt =
+                        picOrderCntCycleCnt * ExpectedDeltaPerPicOrderCntCycle;
+                    for (let i = 0; i <= frameNumInPicOrderCntCycle; i += 1) {
+                        expectedPicOrderCnt += offset_for_ref_frame[i]!;
+                    }
+                }
+                if (header.nal_ref_idc === 0) {
+                    expectedPicOrderCnt +=
+                        sequenceParameterSet.offset_for_non_ref_pic;
+                }
+
+                TopFieldOrderCnt =
+                    expectedPicOrderCnt + header.delta_pic_order_cnt[0];
+                BottomFieldOrderCnt =
+                    TopFieldOrderCnt +
+                    sequenceParameterSet.offset_for_top_to_bottom_field +
+                    header.delta_pic_order_cnt[1];
+                break;
+            }
+            default: {
+                // 8.2.1.3 Decoding process for picture order count type 2
+                let tempPicOrderCnt = 0;
+                if (!IdrPicFlag) {
+                    tempPicOrderCnt = 2 * (FrameNumOffset + header.frame_num);
+                    if (header.nal_ref_idc === 0) {
+                        tempPicOrderCnt -= 1;
+                    }
+                }
+
+                TopFieldOrderCnt = tempPicOrderCnt;
+                BottomFieldOrderCnt = tempPicOrderCnt;
+                break;
+            }
+        }
+
+        if (!header.field_pic_flag) {
+            return Math.min(TopFieldOrderCnt, BottomFieldOrderCnt);
+        }
+        return header.bottom_field_flag
+            ? BottomFieldOrderCnt
+            : TopFieldOrderCnt;
+    }
+}
+
+/**
+ * Extracts per-frame information from an H.265 Annex B stream.
+ *
+ * Parameter sets are tracked from both the configuration packet
+ * and in-band SPS/PPS NAL units.
+ */
+export class H265FrameParser {
+    #sequenceParameterSets = new Map<number, H265SequenceParameterSet>();
+    #pictureParameterSets = new Map<number, H265PictureParameterSet>();
+
+    // 8.3.1 Decoding process for picture order count (`prevTid0Pic`)
+    #prevPicOrderCntMsb = 0;
+    #prevPicOrderCntLsb = 0;
+    #firstPicture = true;
+
+    /**
+     * Processes a configuration packet (which contains VPS, SPS and PPS).
+     */
+    configure(data: Uint8Array) {
+        for (const nalu of annexBSplitNalu(data)) {
+            this.#processParameterSet(nalu);
+        }
+    }
+
+    #processParameterSet(nalu: Uint8Array) {
+        switch ((nalu[0]! >> 1) & 0x3f) {
+            case 32:
+                // Video parameter set is not needed
+                return true;
+            case 33: {
+                const sequenceParameterSet = h265ParseSequenceParameterSet(
+                    nalu.subarray(2),
+                );
+                this.#sequenceParameterSets.set(
+                    sequenceParameterSet.sps_seq_parameter_set_id,
+                    sequenceParameterSet,
+                );
+                return true;
+            }
+            case 34: {
+                const pictureParameterSet = h265ParsePictureParameterSet(
+                    nalu.subarray(2),
+                );
+                this.#pictureParameterSets.set(
+                    pictureParameterSet.pps_pic_parameter_set_id,
+                    pictureParameterSet,
+                );
+                return true;
+            }
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Parses a data packet (an access unit).
+     *
+     * @returns Information of the frame, or `undefined` if the packet doesn't contain a slice
+     */
+    parse(data: Uint8Array): VideoFrameInfo | undefined {
+        let type: VideoFrameType | undefined;
+        let recoveryPoint = false;
+        let header: H265SliceSegmentHeader | undefined;
+
+        for (const nalu of annexBSplitNalu(data)) {
+            if (this.#processParameterSet(nalu)) {
+                continue;
+            }
+
+            const nal_unit_type = (nalu[0]! >> 1) & 0x3f;
+            if (nal_unit_type === 39) {
+                // PREFIX_SEI_NUT
+                recoveryPoint ||= seiHasRecoveryPoint(nalu, 2);
+                continue;
+            }
+
+            // VCL NAL unit types
+            if (
+                nal_unit_type > 21 ||
+                (nal_unit_type > 9 && nal_unit_type < 16)
+            ) {
+                continue;
+            }
+
+            const slice = h265ParseSliceSegmentHeader(
+                nalu,
+                this.#sequenceParameterSets,
+                this.#pictureParameterSets,
+            );
+            // Only the first slice segment is used for picture-level fields
+            header ??= slice;
+
+            switch (slice.slice_type) {
+                case undefined:
+                    // Dependent slice segment, same type as the previous one
+                    break;
+                case H265SliceType.B:
+                    type = mergeFrameType(type, VideoFrameType.B);
+                    break;
+                case H265SliceType.P:
+                    type = mergeFrameType(type, VideoFrameType.P);
+                    break;
+                default:
+                    type = mergeFrameType(type, VideoFrameType.I);
+                    break;
+            }
+        }
+
+        if (!header || !type) {
+            return undefined;
+        }
+
+        const sequenceParameterSet = this.#sequenceParameterSets.get(
+            this.#pictureParameterSets.get(header.slice_pic_parameter_set_id)!
+                .pps_seq_parameter_set_id,
+        )!;
+
+        const { nal_unit_type } = header;
+        // 16 to 23 are IRAP pictures
+        const keyframe = nal_unit_type >= 16 && nal_unit_type <= 23;
+        // Sub-layer non-reference pictures have even types below 16
+        const subLayerNonReference =
+            nal_unit_type < 16 && nal_unit_type % 2 === 0;
+
+        return {
+            type,
+            keyframe,
+            recoveryPoint,
+            reference: !subLayerNonReference,
+            frameNum: undefined,
+            pictureOrderCount: this.#decodePictureOrderCount(
+                header,
+                sequenceParameterSet,
+                subLayerNonReference,
+            ),
+            frameNumGap: false,
+        };
+    }
+
+    // 8.3.1 Decoding process for picture order count
+    #decodePictureOrderCount(
+        header: H265SliceSegmentHeader,
+        sequenceParameterSet: H265SequenceParameterSet,
+        subLayerNonReference: boolean,
+    ) {
+        const { nal_unit_type, slice_pic_order_cnt_lsb } = header;
+
+        // IDR, BLA, or CRA as the first picture
+        const NoRaslOutputFlag =
+            (nal_unit_type >= 16 && nal_unit_type <= 20) ||
+            (nal_unit_type === 21 && this.#firstPicture);
+        this.#firstPicture = false;
+
+        const MaxPicOrderCntLsb =
+            1 << (sequenceParameterSet.log2_max_pic_order_cnt_lsb_minus4 + 4);
+
+        let PicOrderCntMsb: number;
+        if (NoRaslOutputFlag) {
+            PicOrderCntMsb = 0;
+        } else if (
+            slice_pic_order_cnt_lsb < this.#prevPicOrderCntLsb &&
+            this.#prevPicOrderCntLsb - slice_pic_order_cnt_lsb >=
+                MaxPicOrderCntLsb / 2
+        ) {
+            PicOrderCntMsb = this.#prevPicOrderCntMsb + MaxPicOrderCntLsb;
+        } else if (
+            slice_pic_order_cnt_lsb > this.#prevPicOrderCntLsb &&
+            slice_pic_order_cnt_lsb - this.#prevPicOrderCntLsb >
+                MaxPicOrderCntLsb / 2
+        ) {
+            PicOrderCntMsb = this.#prevPicOrderCntMsb - MaxPicOrderCntLsb;
+        } else {
+            PicOrderCntMsb = this.#prevPicOrderCntMsb;
+        }
+
+        // `prevTid0Pic` is the previous picture with `TemporalId` equal to 0
+        // that is not a RASL, RADL or sub-layer non-reference picture
+        if (
+            header.nuh_temporal_id_plus1 === 1 &&
+            !(nal_unit_type >= 6 && nal_unit_type <= 9) &&
+            !subLayerNonReference
+        ) {
+            this.#prevPicOrderCntMsb = PicOrderCntMsb;
+            this.#prevPicOrderCntLsb = slice_pic_order_cnt_lsb;
+        }
+
+        return PicOrderCntMsb + slice_pic_order_cnt_lsb;
+    }
+}
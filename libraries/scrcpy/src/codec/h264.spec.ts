@@ -0,0 +1,172 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import {
+    h264ParseConfiguration,
+    h264ParsePictureParameterSet,
+    h264ParseSequenceParameterSet,
+} from "./h264.js";
+import { rbsp, se, u, ue } from "./test-utils.spec.js";
+
+function pictureParameterSet(...extensions: string[]) {
+    return new Uint8Array([
+        0x68,
+        ...rbsp(
+            // pic_parameter_set_id
+            ue(0),
+            // seq_parameter_set_id
+            ue(0),
+            // entropy_coding_mode_flag
+            "1",
+            // bottom_field_pic_order_in_frame_present_flag
+            "0",
+            // num_slice_groups_minus1
+            ue(0),
+            // num_ref_idx_l0_default_active_minus1
+            ue(0),
+            // num_ref_idx_l1_default_active_minus1
+            ue(0),
+            // weighted_pred_flag, weighted_bipred_idc
+            "0",
+            "00",
+            // pic_init_qp_minus26
+            se(0),
+            // pic_init_qs_minus26
+            se(0),
+            // chroma_qp_index_offset
+            se(-1),
+            // deblocking_filter_control_present_flag
+            "1",
+            // constrained_intra_pred_flag
+            "0",
+            // redundant_pic_cnt_present_flag
+            "0",
+            ...extensions,
+        ),
+    ]);
+}
+
+/**
+ * 1280x720 Baseline profile
+ */
+function sequenceParameterSet(...vuiParameters: string[]) {
+    return new Uint8Array([
+        0x67,
+        ...rbsp(
+            // profile_idc, constraint_set, level_idc
+            u(66, 8),
+            u(0, 8),
+            u(31, 8),
+            // seq_parameter_set_id, log2_max_frame_num_minus4
+            ue(0),
+            ue(0),
+            // pic_order_cnt_type, max_num_ref_frames
+            ue(2),
+            ue(1),
+            // gaps_in_frame_num_value_allowed_flag
+            "0",
+            // pic_width_in_mbs_minus1, pic_height_in_map_units_minus1
+            ue(79),
+            ue(44),
+            // frame_mbs_only_flag, direct_8x8_inference_flag,
+            // frame_cropping_flag, vui_parameters_present_flag
+            "1101",
+            ...vuiParameters,
+        ),
+    ]);
+}
+
+describe("h264", () => {
+    describe("h264ParseSequenceParameterSet", () => {
+        it("should parse 32-bit timing info as unsigned", () => {
+            const sps = h264ParseSequenceParameterSet(
+                sequenceParameterSet(
+                    // aspect_ratio_info_present_flag, overscan_info_present_flag,
+                    // video_signal_type_present_flag, chroma_loc_info_present_flag,
+                    // timing_info_present_flag
+                    "00001",
+                    u(0x80000001, 32),
+                    u(0xfffffffe, 32),
+                    // fixed_frame_rate_flag, nal_hrd_parameters_present_flag,
+                    // vcl_hrd_parameters_present_flag, pic_struct_present_flag,
+                    // bitstream_restriction_flag
+                    "10000",
+                ),
+            );
+
+            assert.strictEqual(
+                sps.vuiParameters?.num_units_in_tick,
+                0x80000001,
+            );
+            assert.strictEqual(sps.vuiParameters.time_scale, 0xfffffffe);
+            assert.strictEqual(sps.vuiParameters.fixed_frame_rate_flag, true);
+        });
+
+        it("should ignore invalid VUI parameters", () => {
+            const sps = sequenceParameterSet(
+                // aspect_ratio_info_present_flag, then truncated `aspect_ratio_idc`
+                "1",
+                u(0xff, 4),
+            );
+            assert.strictEqual(
+                h264ParseSequenceParameterSet(sps).vuiParameters,
+                undefined,
+            );
+
+            const configuration = h264ParseConfiguration(
+                new Uint8Array([
+                    ...[0, 0, 0, 1],
+                    ...sps,
+                    ...[0, 0, 0, 1],
+                    ...pictureParameterSet(),
+                ]),
+            );
+            assert.strictEqual(configuration.croppedWidth, 1280);
+            assert.strictEqual(configuration.croppedHeight, 720);
+        });
+    });
+
+    describe("h264ParsePictureParameterSet", () => {
+        it("should parse High profile fields", () => {
+            const pps = h264ParsePictureParameterSet(
+                new Uint8Array([0x68, 0xeb, 0xe3, 0xcb, 0x22, 0xc0]),
+            );
+
+            assert.strictEqual(pps.transform_8x8_mode_flag, true);
+            assert.strictEqual(pps.pic_scaling_matrix_present_flag, false);
+            assert.deepStrictEqual(pps.pic_scaling_list_present_flag, []);
+            assert.strictEqual(pps.second_chroma_qp_index_offset, -2);
+        });
+
+        it("should use default values when fields are not present", () => {
+            const pps = h264ParsePictureParameterSet(pictureParameterSet());
+
+            assert.strictEqual(pps.transform_8x8_mode_flag, false);
+            assert.strictEqual(pps.pic_scaling_matrix_present_flag, false);
+            assert.strictEqual(pps.second_chroma_qp_index_offset, -1);
+        });
+
+        it("should skip scaling lists", () => {
+            const flags = Array.from({ length: 12 }, (_, i) => i % 11 === 0);
+            const pps = h264ParsePictureParameterSet(
+                pictureParameterSet(
+                    // transform_8x8_mode_flag
+                    "1",
+                    // pic_scaling_matrix_present_flag
+                    "1",
+                    // `delta_scale` of -8 ends the list
+                    ...flags.map((flag) => (flag ? "1" + se(-8) : "0")),
+                    // second_chroma_qp_index_offset
+                    se(3),
+                ),
+                // 4:4:4 has six 8x8 lists
+                new Map([[0, { chroma_format_idc: 3 }]]),
+            );
+
+            assert.strictEqual(pps.transform_8x8_mode_flag, true);
+            assert.strictEqual(pps.pic_scaling_matrix_present_flag, true);
+            assert.deepStrictEqual(pps.pic_scaling_list_present_flag, flags);
+            assert.strictEqual(pps.second_chroma_qp_index_offset, 3);
+        });
+    });
+});
@@ -47,6 +47,22 @@ export const AndroidAvcLevel = {
 // Because this module parses H.264 Annex B format,
 // it's named "h264" instead of "avc".
 
+// 7.3.2.1.1.1 Scaling list syntax
+function h264SkipScalingList(
+    reader: NaluSodbBitReader,
+    sizeOfScalingList: number,
+) {
+    let lastScale = 8;
+    let nextScale = 8;
+    for (let j = 0; j < sizeOfScalingList; j += 1) {
+        if (nextScale !== 0) {
+            const delta_scale = reader.decodeSignedExponentialGolombNumber();
+            nextScale = (lastScale + delta_scale + 256) % 256;
+        }
+        lastScale = nextScale === 0 ? lastScale : nextScale;
+    }
+}
+
 // 7.3.2.1.1 Sequence parameter set data syntax
 // Variable names in this method uses the snake_case convention as in the spec for easier referencing.
 export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
@@ -84,6 +100,8 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
     const level_idc = reader.read(8);
     const seq_parameter_set_id = reader.decodeExponentialGolombNumber();
 
+    let chroma_format_idc = 1;
+    let separate_colour_plane_flag = false;
     if (
         profile_idc === 100 ||
         profile_idc === 110 ||
@@ -98,10 +116,9 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
         profile_idc === 139 ||
         profile_idc === 134
     ) {
-        const chroma_format_idc = reader.decodeExponentialGolombNumber();
+        chroma_format_idc = reader.decodeExponentialGolombNumber();
         if (chroma_format_idc === 3) {
-            // separate_colour_plane_flag
-            reader.next();
+            separate_colour_plane_flag = !!reader.next();
         }
 
         // bit_depth_luma_minus8
@@ -117,45 +134,39 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
             const seq_scaling_list_present_flag: boolean[] = [];
             for (let i = 0; i < (chroma_format_idc !== 3 ? 8 : 12); i += 1) {
                 seq_scaling_list_present_flag[i] = !!reader.next();
-                if (seq_scaling_list_present_flag[i])
-                    if (i < 6) {
-                        // TODO
-                        // scaling_list( ScalingList4x4[ i ], 16,
-                        //               UseDefaultScalingMatrix4x4Flag[ i ])
-                    } else {
-                        // TODO
-                        // scaling_list( ScalingList8x8[ i − 6 ], 64,
-                        //               UseDefaultScalingMatrix8x8Flag[ i − 6 ] )
-                    }
+                if (seq_scaling_list_present_flag[i]) {
+                    // Values are not used, but they need to be skipped
+                    h264SkipScalingList(reader, i < 6 ? 16 : 64);
+                }
             }
         }
     }
 
-    // log2_max_frame_num_minus4
-    reader.decodeExponentialGolombNumber();
+    const log2_max_frame_num_minus4 = reader.decodeExponentialGolombNumber();
     const pic_order_cnt_type = reader.decodeExponentialGolombNumber();
+    let log2_max_pic_order_cnt_lsb_minus4 = 0;
+    let delta_pic_order_always_zero_flag = false;
+    let offset_for_non_ref_pic = 0;
+    let offset_for_top_to_bottom_field = 0;
+    const offset_for_ref_frame: number[] = [];
     if (pic_order_cnt_type === 0) {
-        // log2_max_pic_order_cnt_lsb_minus4
-        reader.decodeExponentialGolombNumber();
+        log2_max_pic_order_cnt_lsb_minus4 =
+            reader.decodeExponentialGolombNumber();
     } else if (pic_order_cnt_type === 1) {
-        // delta_pic_order_always_zero_flag
-        reader.next();
-        // offset_for_non_ref_pic
-        reader.decodeExponentialGolombNumber();
-        // offset_for_top_to_bottom_field
-        reader.decodeExponentialGolombNumber();
+        delta_pic_order_always_zero_flag = !!reader.next();
+        offset_for_non_ref_pic = reader.decodeSignedExponentialGolombNumber();
+        offset_for_top_to_bottom_field =
+            reader.decodeSignedExponentialGolombNumber();
         const num_ref_frames_in_pic_order_cnt_cycle =
             reader.decodeExponentialGolombNumber();
-        const offset_for_ref_frame: number[] = [];
         for (let i = 0; i < num_ref_frames_in_pic_order_cnt_cycle; i += 1) {
-            offset_for_ref_frame[i] = reader.decodeExponentialGolombNumber();
+            offset_for_ref_frame[i] =
+                reader.decodeSignedExponentialGolombNumber();
         }
     }
 
-    // max_num_ref_frames
-    reader.decodeExponentialGolombNumber();
-    // gaps_in_frame_num_value_allowed_flag
-    reader.next();
+    const max_num_ref_frames = reader.decodeExponentialGolombNumber();
+    const gaps_in_frame_num_value_allowed_flag = !!reader.next();
     const pic_width_in_mbs_minus1 = reader.decodeExponentialGolombNumber();
     const pic_height_in_map_units_minus1 =
         reader.decodeExponentialGolombNumber();
@@ -187,9 +198,15 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
     }
 
     const vui_parameters_present_flag = !!reader.next();
+    let vuiParameters: H264VuiParameters | undefined;
     if (vui_parameters_present_flag) {
-        // TODO
-        // vui_parameters( )
+        // VUI is only used by SEI parsing, so an encoder writing invalid VUI
+        // shouldn't prevent getting the video configuration.
+        try {
+            vuiParameters = h264ParseVuiParameters(reader);
+        } catch {
+            vuiParameters = undefined;
+        }
     }
 
     return {
@@ -203,6 +220,17 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
         constraint_set5_flag,
         level_idc,
         seq_parameter_set_id,
+        chroma_format_idc,
+        separate_colour_plane_flag,
+        log2_max_frame_num_minus4,
+        pic_order_cnt_type,
+        log2_max_pic_order_cnt_lsb_minus4,
+        delta_pic_order_always_zero_flag,
+        offset_for_non_ref_pic,
+        offset_for_top_to_bottom_field,
+        offset_for_ref_frame,
+        max_num_ref_frames,
+        gaps_in_frame_num_value_allowed_flag,
         pic_width_in_mbs_minus1,
         pic_height_in_map_units_minus1,
         frame_mbs_only_flag,
@@ -211,6 +239,8 @@ export function h264ParseSequenceParameterSet(nalu: Uint8Array) {
         frame_crop_right_offset,
         frame_crop_top_offset,
         frame_crop_bottom_offset,
+        vui_parameters_present_flag,
+        vuiParameters,
     };
 }
 
@@ -315,3 +345,467 @@ export function h264ParseConfiguration(data: Uint8Array): H264Configuration {
         croppedHeight,
     };
 }
+
+export type H264SequenceParameterSet = ReturnType<
+    typeof h264ParseSequenceParameterSet
+>;
+
+/**
+ * E.1.1 VUI parameters syntax
+ */
+export function h264ParseVuiParameters(reader: NaluSodbBitReader) {
+    const aspect_ratio_info_present_flag = !!reader.next();
+    let aspect_ratio_idc: number | undefined;
+    let sar_width: number | undefined;
+    let sar_height: number | undefined;
+    if (aspect_ratio_info_present_flag) {
+        aspect_ratio_idc = reader.read(8);
+        // Extended_SAR
+        if (aspect_ratio_idc === 255) {
+            sar_width = reader.read(16);
+            sar_height = reader.read(16);
+        }
+    }
+
+    const overscan_info_present_flag = !!reader.next();
+    let overscan_appropriate_flag: boolean | undefined;
+    if (overscan_info_present_flag) {
+        overscan_appropriate_flag = !!reader.next();
+    }
+
+    const video_signal_type_present_flag = !!reader.next();
+    let video_format: number | undefined;
+    let video_full_range_flag: boolean | undefined;
+    let colour_description_present_flag: boolean | undefined;
+    let colour_primaries: number | undefined;
+    let transfer_characteristics: number | undefined;
+    let matrix_coefficients: number | undefined;
+    if (video_signal_type_present_flag) {
+        video_format = reader.read(3);
+        video_full_range_flag = !!reader.next();
+        colour_description_present_flag = !!reader.next();
+        if (colour_description_present_flag) {
+            colour_primaries = reader.read(8);
+            transfer_characteristics = reader.read(8);
+            matrix_coefficients = reader.read(8);
+        }
+    }
+
+    const chroma_loc_info_present_flag = !!reader.next();
+    let chroma_sample_loc_type_top_field: number | undefined;
+    let chroma_sample_loc_type_bottom_field: number | undefined;
+    if (chroma_loc_info_present_flag) {
+        chroma_sample_loc_type_top_field =
+            reader.decodeExponentialGolombNumber();
+        chroma_sample_loc_type_bottom_field =
+            reader.decodeExponentialGolombNumber();
+    }
+
+    const timing_info_present_flag = !!reader.next();
+    let num_units_in_tick: number | undefined;
+    let time_scale: number | undefined;
+    let fixed_frame_rate_flag: boolean | undefined;
+    if (timing_info_present_flag) {
+        // `read(32)` uses bitwise operators, which overflow to negative values
+        num_units_in_tick = reader.read(16) * 0x10000 + reader.read(16);
+        time_scale = reader.read(16) * 0x10000 + reader.read(16);
+        fixed_frame_rate_flag = !!reader.next();
+    }
+
+    const nal_hrd_parameters_present_flag = !!reader.next();
+    let nalHrdParameters: H264HrdParameters | undefined;
+    if (nal_hrd_parameters_present_flag) {
+        nalHrdParameters = h264ParseHrdParameters(reader);
+    }
+
+    const vcl_hrd_parameters_present_flag = !!reader.next();
+    let vclHrdParameters: H264HrdParameters | undefined;
+    if (vcl_hrd_parameters_present_flag) {
+        vclHrdParameters = h264ParseHrdParameters(reader);
+    }
+
+    let low_delay_hrd_flag: boolean | undefined;
+    if (nal_hrd_parameters_present_flag || vcl_hrd_parameters_present_flag) {
+        low_delay_hrd_flag = !!reader.next();
+    }
+
+    const pic_struct_present_flag = !!reader.next();
+
+    const bitstream_restriction_flag = !!reader.next();
+    let motion_vectors_over_pic_boundaries_flag: boolean | undefined;
+    let max_bytes_per_pic_denom: number | undefined;
+    let max_bits_per_mb_denom: number | undefined;
+    let log2_max_mv_length_horizontal: number | undefined;
+    let log2_max_mv_length_vertical: number | undefined;
+    let max_num_reorder_frames: number | undefined;
+    let max_dec_frame_buffering: number | undefined;
+    if (bitstream_restriction_flag) {
+        motion_vectors_over_pic_boundaries_flag = !!reader.next();
+        max_bytes_per_pic_denom = reader.decodeExponentialGolombNumber();
+        max_bits_per_mb_denom = reader.decodeExponentialGolombNumber();
+        log2_max_mv_length_horizontal = reader.decodeExponentialGolombNumber();
+        log2_max_mv_length_vertical = reader.decodeExponentialGolombNumber();
+        max_num_reorder_frames = reader.decodeExponentialGolombNumber();
+        max_dec_frame_buffering = reader.decodeExponentialGolombNumber();
+    }
+
+    return {
+        aspect_ratio_info_present_flag,
+        aspect_ratio_idc,
+        sar_width,
+        sar_height,
+
+        overscan_info_present_flag,
+        overscan_appropriate_flag,
+
+        video_signal_type_present_flag,
+        video_format,
+        video_full_range_flag,
+        colour_description_present_flag,
+        colour_primaries,
+        transfer_characteristics,
+        matrix_coefficients,
+
+        chroma_loc_info_present_flag,
+        chroma_sample_loc_type_top_field,
+        chroma_sample_loc_type_bottom_field,
+
+        timing_info_present_flag,
+        num_units_in_tick,
+        time_scale,
+        fixed_frame_rate_flag,
+
+        nal_hrd_parameters_present_flag,
+        nalHrdParameters,
+        vcl_hrd_parameters_present_flag,
+        vclHrdParameters,
+        low_delay_hrd_flag,
+        pic_struct_present_flag,
+
+        bitstream_restriction_flag,
+        motion_vectors_over_pic_boundaries_flag,
+        max_bytes_per_pic_denom,
+        max_bits_per_mb_denom,
+        log2_max_mv_length_horizontal,
+        log2_max_mv_length_vertical,
+        max_num_reorder_frames,
+        max_dec_frame_buffering,
+    };
+}
+
+export type H264VuiParameters = ReturnType<typeof h264ParseVuiParameters>;
+
+/**
+ * E.1.2 HRD parameters syntax
+ */
+export function h264ParseHrdParameters(reader: NaluSodbBitReader) {
+    const cpb_cnt_minus1 = reader.decodeExponentialGolombNumber();
+    const bit_rate_scale = reader.read(4);
+    const cpb_size_scale = reader.read(4);
+
+    const bit_rate_value_minus1: number[] = [];
+    const cpb_size_value_minus1: number[] = [];
+    const cbr_flag: boolean[] = [];
+    for (let i = 0; i <= cpb_cnt_minus1; i += 1) {
+        bit_rate_value_minus1[i] = reader.decodeExponentialGolombNumber();
+        cpb_size_value_minus1[i] = reader.decodeExponentialGolombNumber();
+        cbr_flag[i] = !!reader.next();
+    }
+
+    const initial_cpb_removal_delay_length_minus1 = reader.read(5);
+    const cpb_removal_delay_length_minus1 = reader.read(5);
+    const dpb_output_delay_length_minus1 = reader.read(5);
+    const time_offset_length = reader.read(5);
+
+    return {
+        cpb_cnt_minus1,
+        bit_rate_scale,
+        cpb_size_scale,
+        bit_rate_value_minus1,
+        cpb_size_value_minus1,
+        cbr_flag,
+        initial_cpb_removal_delay_length_minus1,
+        cpb_removal_delay_length_minus1,
+        dpb_output_delay_length_minus1,
+        time_offset_length,
+    };
+}
+
+export type H264HrdParameters = ReturnType<typeof h264ParseHrdParameters>;
+
+// 7.3.2.2 Picture parameter set RBSP syntax
+/**
+ * Parses a picture parameter set.
+ *
+ * Like `h264ParseSequenceParameterSet`, values of scaling lists are skipped,
+ * only their present flags are returned.
+ *
+ * @param sequenceParameterSets
+ * Known sequence parameter sets. The number of scaling lists depends on
+ * `chroma_format_idc` of the referenced one, and 4:2:0 is assumed if not found.
+ */
+export function h264ParsePictureParameterSet(
+    nalu: Uint8Array,
+    sequenceParameterSets?: ReadonlyMap<
+        number,
+        Pick<H264SequenceParameterSet, "chroma_format_idc">
+    >,
+) {
+    const reader = new NaluSodbBitReader(nalu);
+    if (reader.next() !== 0) {
+        throw new Error("Invalid data");
+    }
+
+    // nal_ref_idc
+    reader.read(2);
+    const nal_unit_type = reader.read(5);
+    if (nal_unit_type !== 8) {
+        throw new Error("Invalid data");
+    }
+
+    const pic_parameter_set_id = reader.decodeExponentialGolombNumber();
+    const seq_parameter_set_id = reader.decodeExponentialGolombNumber();
+    const entropy_coding_mode_flag = !!reader.next();
+    const bottom_field_pic_order_in_frame_present_flag = !!reader.next();
+
+    const num_slice_groups_minus1 = reader.decodeExponentialGolombNumber();
+    let slice_group_map_type = 0;
+    if (num_slice_groups_minus1 > 0) {
+        slice_group_map_type = reader.decodeExponentialGolombNumber();
+        switch (slice_group_map_type) {
+            case 0:
+                for (let i = 0; i <= num_slice_groups_minus1; i += 1) {
+                    // run_length_minus1
+                    reader.decodeExponentialGolombNumber();
+                }
+                break;
+            case 2:
+                for (let i = 0; i < num_slice_groups_minus1; i += 1) {
+                    // top_left
+                    reader.decodeExponentialGolombNumber();
+                    // bottom_right
+                    reader.decodeExponentialGolombNumber();
+                }
+                break;
+            case 3:
+            case 4:
+            case 5:
+                // slice_group_change_direction_flag
+                reader.next();
+                // slice_group_change_rate_minus1
+                reader.decodeExponentialGolombNumber();
+                break;
+            case 6: {
+                const pic_size_in_map_units_minus1 =
+                    reader.decodeExponentialGolombNumber();
+                const length = Math.ceil(
+                    Math.log2(num_slice_groups_minus1 + 1),
+                );
+                for (let i = 0; i <= pic_size_in_map_units_minus1; i += 1) {
+                    // slice_group_id
+                    reader.read(length);
+                }
+                break;
+            }
+        }
+    }
+
+    const num_ref_idx_l0_default_active_minus1 =
+        reader.decodeExponentialGolombNumber();
+    const num_ref_idx_l1_default_active_minus1 =
+        reader.decodeExponentialGolombNumber();
+    const weighted_pred_flag = !!reader.next();
+    const weighted_bipred_idc = reader.read(2);
+    const pic_init_qp_minus26 = reader.decodeSignedExponentialGolombNumber();
+    const pic_init_qs_minus26 = reader.decodeSignedExponentialGolombNumber();
+    const chroma_qp_index_offset = reader.decodeSignedExponentialGolombNumber();
+    const deblocking_filter_control_present_flag = !!reader.next();
+    const constrained_intra_pred_flag = !!reader.next();
+    const redundant_pic_cnt_present_flag = !!reader.next();
+
+    let transform_8x8_mode_flag = false;
+    let pic_scaling_matrix_present_flag = false;
+    const pic_scaling_list_present_flag: boolean[] = [];
+    let second_chroma_qp_index_offset = chroma_qp_index_offset;
+    // more_rbsp_data()
+    if (!reader.ended) {
+        transform_8x8_mode_flag = !!reader.next();
+        pic_scaling_matrix_present_flag = !!reader.next();
+        if (pic_scaling_matrix_present_flag) {
+            const chroma_format_idc =
+                sequenceParameterSets?.get(seq_parameter_set_id)
+                    ?.chroma_format_idc ?? 1;
+            const count =
+                6 +
+                (transform_8x8_mode_flag
+                    ? chroma_format_idc !== 3
+                        ? 2
+                        : 6
+                    : 0);
+            for (let i = 0; i < count; i += 1) {
+                pic_scaling_list_present_flag[i] = !!reader.next();
+                if (pic_scaling_list_present_flag[i]) {
+                    h264SkipScalingList(reader, i < 6 ? 16 : 64);
+                }
+            }
+        }
+        second_chroma_qp_index_offset =
+            reader.decodeSignedExponentialGolombNumber();
+    }
+
+    return {
+        pic_parameter_set_id,
+        seq_parameter_set_id,
+        entropy_coding_mode_flag,
+        bottom_field_pic_order_in_frame_present_flag,
+        num_slice_groups_minus1,
+        slice_group_map_type,
+        num_ref_idx_l0_default_active_minus1,
+        num_ref_idx_l1_default_active_minus1,
+        weighted_pred_flag,
+        weighted_bipred_idc,
+        pic_init_qp_minus26,
+        pic_init_qs_minus26,
+        chroma_qp_index_offset,
+        deblocking_filter_control_present_flag,
+        constrained_intra_pred_flag,
+        redundant_pic_cnt_present_flag,
+        transform_8x8_mode_flag,
+        pic_scaling_matrix_present_flag,
+        pic_scaling_list_present_flag,
+        second_chroma_qp_index_offset,
+    };
+}
+
+export type H264PictureParameterSet = ReturnType<
+    typeof h264ParsePictureParameterSet
+>;
+
+/**
+ * Table 7-6 Name association to slice_type
+ *
+ * `slice_type` values 5 to 9 have the same meaning as 0 to 4,
+ * and also indicate all slices in the picture have the same type.
+ */
+export const H264SliceType = {
+    P: 0,
+    B: 1,
+    I: 2,
+    SP: 3,
+    SI: 4,
+} as const;
+
+export type H264SliceType = (typeof H264SliceType)[keyof typeof H264SliceType];
+
+// 7.3.3 Slice header syntax
+// Only parses fields until `redundant_pic_cnt`,
+// which are enough to identify the picture and its order.
+export function h264ParseSliceHeader(
+    nalu: Uint8Array,
+    sequenceParameterSets: ReadonlyMap<number, H264SequenceParameterSet>,
+    pictureParameterSets: ReadonlyMap<number, H264PictureParameterSet>,
+) {
+    const reader = new NaluSodbBitReader(nalu);
+    if (reader.next() !== 0) {
+        throw new Error("Invalid data");
+    }
+
+    const nal_ref_idc = reader.read(2);
+    const nal_unit_type = reader.read(5);
+    // Only non-partitioned slices are supported
+    if (nal_unit_type !== 1 && nal_unit_type !== 5) {
+        throw new Error("Invalid data");
+    }
+    const IdrPicFlag = nal_unit_type === 5;
+
+    const first_mb_in_slice = reader.decodeExponentialGolombNumber();
+    const slice_type = reader.decodeExponentialGolombNumber();
+    const pic_parameter_set_id = reader.decodeExponentialGolombNumber();
+
+    const pictureParameterSet = pictureParameterSets.get(pic_parameter_set_id);
+    if (!pictureParameterSet) {
+        throw new Error("Missing picture parameter set");
+    }
+    const sequenceParameterSet = sequenceParameterSets.get(
+        pictureParameterSet.seq_parameter_set_id,
+    );
+    if (!sequenceParameterSet) {
+        throw new Error("Missing sequence parameter set");
+    }
+
+    let colour_plane_id = 0;
+    if (sequenceParameterSet.separate_colour_plane_flag) {
+        colour_plane_id = reader.read(2);
+    }
+
+    const frame_num = reader.read(
+        sequenceParameterSet.log2_max_frame_num_minus4 + 4,
+    );
+
+    let field_pic_flag = false;
+    let bottom_field_flag = false;
+    if (!sequenceParameterSet.frame_mbs_only_flag) {
+        field_pic_flag = !!reader.next();
+        if (field_pic_flag) {
+            bottom_field_flag = !!reader.next();
+        }
+    }
+
+    let idr_pic_id = 0;
+    if (IdrPicFlag) {
+        idr_pic_id = reader.decodeExponentialGolombNumber();
+    }
+
+    let pic_order_cnt_lsb = 0;
+    let delta_pic_order_cnt_bottom = 0;
+    const delta_pic_order_cnt: [number, number] = [0, 0];
+    if (sequenceParameterSet.pic_order_cnt_type === 0) {
+        pic_order_cnt_lsb = reader.read(
+            sequenceParameterSet.log2_max_pic_order_cnt_lsb_minus4 + 4,
+        );
+        if (
+            pictureParameterSet.bottom_field_pic_order_in_frame_present_flag &&
+            !field_pic_flag
+        ) {
+            delta_pic_order_cnt_bottom =
+                reader.decodeSignedExponentialGolombNumber();
+        }
+    }
+    if (
+        sequenceParameterSet.pic_order_cnt_type === 1 &&
+        !sequenceParameterSet.delta_pic_order_always_zero_flag
+    ) {
+        delta_pic_order_cnt[0] = reader.decodeSignedExponentialGolombNumber();
+        if (
+            pictureParameterSet.bottom_field_pic_order_in_frame_present_flag &&
+            !field_pic_flag
+        ) {
+            delta_pic_order_cnt[1] =
+                reader.decodeSignedExponentialGolombNumber();
+        }
+    }
+
+    let redundant_pic_cnt = 0;
+    if (pictureParameterSet.redundant_pic_cnt_present_flag) {
+        redundant_pic_cnt = reader.decodeExponentialGolombNumber();
+    }
+
+    return {
+        nal_ref_idc,
+        nal_unit_type,
+        first_mb_in_slice,
+        slice_type,
+        pic_parameter_set_id,
+        colour_plane_id,
+        frame_num,
+        field_pic_flag,
+        bottom_field_flag,
+        idr_pic_id,
+        pic_order_cnt_lsb,
+        delta_pic_order_cnt_bottom,
+        delta_pic_order_cnt,
+        redundant_pic_cnt,
+    };
+}
+
+export type H264SliceHeader = ReturnType<typeof h264ParseSliceHeader>;
@@ -478,6 +478,276 @@ export function h265ParseSequenceParameterSet(nalu: Uint8Array) {
     };
 }
 
+export type H265SequenceParameterSet = ReturnType<
+    typeof h265ParseSequenceParameterSet
+>;
+
+/**
+ * 7.3.2.3.1 General picture parameter set RBSP syntax
+ *
+ * Extensions are not parsed.
+ */
+export function h265ParsePictureParameterSet(nalu: Uint8Array) {
+    const reader = new NaluSodbBitReader(nalu);
+
+    const pps_pic_parameter_set_id = reader.decodeExponentialGolombNumber();
+    const pps_seq_parameter_set_id = reader.decodeExponentialGolombNumber();
+    const dependent_slice_segments_enabled_flag = !!reader.next();
+    const output_flag_present_flag = !!reader.next();
+    const num_extra_slice_header_bits = reader.read(3);
+    const sign_data_hiding_enabled_flag = !!reader.next();
+    const cabac_init_present_flag = !!reader.next();
+    const num_ref_idx_l0_default_active_minus1 =
+        reader.decodeExponentialGolombNumber();
+    const num_ref_idx_l1_default_active_minus1 =
+        reader.decodeExponentialGolombNumber();
+    const init_qp_minus26 = reader.decodeSignedExponentialGolombNumber();
+    const constrained_intra_pred_flag = !!reader.next();
+    const transform_skip_enabled_flag = !!reader.next();
+
+    const cu_qp_delta_enabled_flag = !!reader.next();
+    let diff_cu_qp_delta_depth = 0;
+    if (cu_qp_delta_enabled_flag) {
+        diff_cu_qp_delta_depth = reader.decodeExponentialGolombNumber();
+    }
+
+    const pps_cb_qp_offset = reader.decodeSignedExponentialGolombNumber();
+    const pps_cr_qp_offset = reader.decodeSignedExponentialGolombNumber();
+    const pps_slice_chroma_qp_offsets_present_flag = !!reader.next();
+    const weighted_pred_flag = !!reader.next();
+    const weighted_bipred_flag = !!reader.next();
+    const transquant_bypass_enabled_flag = !!reader.next();
+    const tiles_enabled_flag = !!reader.next();
+    const entropy_coding_sync_enabled_flag = !!reader.next();
+
+    let num_tile_columns_minus1 = 0;
+    let num_tile_rows_minus1 = 0;
+    let uniform_spacing_flag = true;
+    const column_width_minus1: number[] = [];
+    const row_height_minus1: number[] = [];
+    let loop_filter_across_tiles_enabled_flag = true;
+    if (tiles_enabled_flag) {
+        num_tile_columns_minus1 = reader.decodeExponentialGolombNumber();
+        num_tile_rows_minus1 = reader.decodeExponentialGolombNumber();
+        uniform_spacing_flag = !!reader.next();
+        if (!uniform_spacing_flag) {
+            for (let i = 0; i < num_tile_columns_minus1; i += 1) {
+                column_width_minus1[i] = reader.decodeExponentialGolombNumber();
+            }
+            for (let i = 0; i < num_tile_rows_minus1; i += 1) {
+                row_height_minus1[i] = reader.decodeExponentialGolombNumber();
+            }
+        }
+        loop_filter_across_tiles_enabled_flag = !!reader.next();
+    }
+
+    const pps_loop_filter_across_slices_enabled_flag = !!reader.next();
+    const deblocking_filter_control_present_flag = !!reader.next();
+    let deblocking_filter_override_enabled_flag = false;
+    let pps_deblocking_filter_disabled_flag = false;
+    let pps_beta_offset_div2 = 0;
+    let pps_tc_offset_div2 = 0;
+    if (deblocking_filter_control_present_flag) {
+        deblocking_filter_override_enabled_flag = !!reader.next();
+        pps_deblocking_filter_disabled_flag = !!reader.next();
+        if (!pps_deblocking_filter_disabled_flag) {
+            pps_beta_offset_div2 = reader.decodeSignedExponentialGolombNumber();
+            pps_tc_offset_div2 = reader.decodeSignedExponentialGolombNumber();
+        }
+    }
+
+    const pps_scaling_list_data_present_flag = !!reader.next();
+    let scalingListData: number[][][] | undefined;
+    if (pps_scaling_list_data_present_flag) {
+        scalingListData = h265ParseScalingListData(reader);
+    }
+
+    const lists_modification_present_flag = !!reader.next();
+    const log2_parallel_merge_level_minus2 =
+        reader.decodeExponentialGolombNumber();
+    const slice_segment_header_extension_present_flag = !!reader.next();
+    const pps_extension_present_flag = !!reader.next();
+
+    return {
+        pps_pic_parameter_set_id,
+        pps_seq_parameter_set_id,
+        dependent_slice_segments_enabled_flag,
+        output_flag_present_flag,
+        num_extra_slice_header_bits,
+        sign_data_hiding_enabled_flag,
+        cabac_init_present_flag,
+        num_ref_idx_l0_default_active_minus1,
+        num_ref_idx_l1_default_active_minus1,
+        init_qp_minus26,
+        constrained_intra_pred_flag,
+        transform_skip_enabled_flag,
+        cu_qp_delta_enabled_flag,
+        diff_cu_qp_delta_depth,
+        pps_cb_qp_offset,
+        pps_cr_qp_offset,
+        pps_slice_chroma_qp_offsets_present_flag,
+        weighted_pred_flag,
+        weighted_bipred_flag,
+        transquant_bypass_enabled_flag,
+        tiles_enabled_flag,
+        entropy_coding_sync_enabled_flag,
+        num_tile_columns_minus1,
+        num_tile_rows_minus1,
+        uniform_spacing_flag,
+        column_width_minus1,
+        row_height_minus1,
+        loop_filter_across_tiles_enabled_flag,
+        pps_loop_filter_across_slices_enabled_flag,
+        deblocking_filter_control_present_flag,
+        deblocking_filter_override_enabled_flag,
+        pps_deblocking_filter_disabled_flag,
+        pps_beta_offset_div2,
+        pps_tc_offset_div2,
+        pps_scaling_list_data_present_flag,
+        scalingListData,
+        lists_modification_present_flag,
+        log2_parallel_merge_level_minus2,
+        slice_segment_header_extension_present_flag,
+        pps_extension_present_flag,
+    };
+}
+
+export type H265PictureParameterSet = ReturnType<
+    typeof h265ParsePictureParameterSet
+>;
+
+/**
+ * Table 7-7 Name association to slice_type
+ */
+export const H265SliceType = {
+    B: 0,
+    P: 1,
+    I: 2,
+} as const;
+
+export type H265SliceType = (typeof H265SliceType)[keyof typeof H265SliceType];
+
+/**
+ * 7.3.6.1 General slice segment header syntax
+ *
+ * Only parses fields until `slice_pic_order_cnt_lsb`,
+ * which are enough to identify the picture and its order.
+ *
+ * @param nalu The NAL unit, including the NAL unit header
+ */
+export function h265ParseSliceSegmentHeader(
+    nalu: Uint8Array,
+    sequenceParameterSets: ReadonlyMap<number, H265SequenceParameterSet>,
+    pictureParameterSets: ReadonlyMap<number, H265PictureParameterSet>,
+) {
+    const reader = new NaluSodbBitReader(nalu);
+    if (reader.next() !== 0) {
+        throw new Error("Invalid NALU header");
+    }
+
+    const nal_unit_type = reader.read(6);
+    const nuh_layer_id = reader.read(6);
+    const nuh_temporal_id_plus1 = reader.read(3);
+    // Reserved VCL NAL unit types 22 and 23 are also IRAP pictures
+    if (nal_unit_type > 23 || (nal_unit_type > 9 && nal_unit_type < 16)) {
+        throw new Error("Invalid data");
+    }
+
+    const first_slice_segment_in_pic_flag = !!reader.next();
+    let no_output_of_prior_pics_flag = false;
+    // IRAP pictures
+    if (nal_unit_type >= 16 && nal_unit_type <= 23) {
+        no_output_of_prior_pics_flag = !!reader.next();
+    }
+
+    const slice_pic_parameter_set_id = reader.decodeExponentialGolombNumber();
+    const pictureParameterSet = pictureParameterSets.get(
+        slice_pic_parameter_set_id,
+    );
+    if (!pictureParameterSet) {
+        throw new Error("Missing picture parameter set");
+    }
+    const sequenceParameterSet = sequenceParameterSets.get(
+        pictureParameterSet.pps_seq_parameter_set_id,
+    );
+    if (!sequenceParameterSet) {
+        throw new Error("Missing sequence parameter set");
+    }
+
+    let dependent_slice_segment_flag = false;
+    let slice_segment_address = 0;
+    if (!first_slice_segment_in_pic_flag) {
+        if (pictureParameterSet.dependent_slice_segments_enabled_flag) {
+            dependent_slice_segment_flag = !!reader.next();
+        }
+
+        // 7.4.3.2.1 General sequence parameter set RBSP semantics
+        const MinCbLog2SizeY =
+            sequenceParameterSet.log2_min_luma_coding_block_size_minus3 + 3;
+        const CtbLog2SizeY =
+            MinCbLog2SizeY +
+            sequenceParameterSet.log2_diff_max_min_luma_coding_block_size;
+        const CtbSizeY = 1 << CtbLog2SizeY;
+        const PicWidthInCtbsY = Math.ceil(
+            sequenceParameterSet.pic_width_in_luma_samples / CtbSizeY,
+        );
+        const PicHeightInCtbsY = Math.ceil(
+            sequenceParameterSet.pic_height_in_luma_samples / CtbSizeY,
+        );
+        const PicSizeInCtbsY = PicWidthInCtbsY * PicHeightInCtbsY;
+
+        slice_segment_address = reader.read(
+            Math.ceil(Math.log2(PicSizeInCtbsY)),
+        );
+    }
+
+    let slice_type: number | undefined;
+    let pic_output_flag = true;
+    let colour_plane_id = 0;
+    let slice_pic_order_cnt_lsb = 0;
+    if (!dependent_slice_segment_flag) {
+        // slice_reserved_flag
+        reader.skip(pictureParameterSet.num_extra_slice_header_bits);
+
+        slice_type = reader.decodeExponentialGolombNumber();
+        if (pictureParameterSet.output_flag_present_flag) {
+            pic_output_flag = !!reader.next();
+        }
+        if (sequenceParameterSet.separate_colour_plane_flag) {
+            colour_plane_id = reader.read(2);
+        }
+        // Not IDR_W_RADL or IDR_N_LP
+        if (nal_unit_type !== 19 && nal_unit_type !== 20) {
+            slice_pic_order_cnt_lsb = reader.read(
+                sequenceParameterSet.log2_max_pic_order_cnt_lsb_minus4 + 4,
+            );
+        }
+    }
+
+    return {
+        nal_unit_type,
+        nuh_layer_id,
+        nuh_temporal_id_plus1,
+        first_slice_segment_in_pic_flag,
+        no_output_of_prior_pics_flag,
+        slice_pic_parameter_set_id,
+        dependent_slice_segment_flag,
+        slice_segment_address,
+        /**
+         * `undefined` for dependent slice segments,
+         * which use the value from the previous independent slice segment.
+         */
+        slice_type,
+        pic_output_flag,
+        colour_plane_id,
+        slice_pic_order_cnt_lsb,
+    };
+}
+
+export type H265SliceSegmentHeader = ReturnType<
+    typeof h265ParseSliceSegmentHeader
+>;
+
 /**
  * 7.3.3 Profile, tier and level syntax
  *
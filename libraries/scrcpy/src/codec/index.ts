@@ -1,4 +1,6 @@
 export * from "./av1.js";
+export * from "./frame.js";
 export * from "./h264.js";
 export * from "./h265.js";
 export * from "./nalu.js";
+export * from "./sei.js";
@@ -192,5 +192,31 @@ describe("nalu", () => {
 
             assert.strictEqual(reader.next(), 0);
         });
+
+        it("should skip to byte boundary", () => {
+            const reader = new NaluSodbBitReader(
+                new Uint8Array([0b00000000, 0b00000000, 0b11000000]),
+            );
+            reader.skip(8);
+            reader.skip(3);
+            reader.skip(5);
+            assert.strictEqual(reader.next(), 1);
+            assert.throws(() => reader.next(), /Bit index out of bounds/);
+        });
+    });
+
+    describe("position", () => {
+        it("should not count emulation prevention bytes", () => {
+            const reader = new NaluSodbBitReader(
+                new Uint8Array([0x00, 0x00, 0x03, 0x01, 0xc0]),
+            );
+            assert.strictEqual(reader.position, 0);
+            reader.skip(16);
+            assert.strictEqual(reader.position, 16);
+            assert.strictEqual(reader.read(8), 0x01);
+            assert.strictEqual(reader.position, 24);
+            assert.strictEqual(reader.peek(1), 1);
+            assert.strictEqual(reader.position, 24);
+        });
     });
 });
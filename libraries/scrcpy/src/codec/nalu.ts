@@ -98,6 +98,7 @@ export class NaluSodbBitReader {
     readonly #stopBitIndex: number;
 
     #zeroCount = 0;
+    #emulationPreventionByteCount = 0;
 
     // logical position is `#bytePosition * 8 + (7 - #bitPosition)`
     #bytePosition = 0;
@@ -120,6 +121,16 @@ export class NaluSodbBitReader {
         return this.#bitPosition;
     }
 
+    /**
+     * Number of bits read or skipped, not including emulation prevention bytes.
+     */
+    get position() {
+        return (
+            (this.#bytePosition - this.#emulationPreventionByteCount) * 8 +
+            (7 - this.#bitPosition)
+        );
+    }
+
     get ended() {
         return (
             this.#bytePosition >= this.#byteLength &&
@@ -158,6 +169,7 @@ export class NaluSodbBitReader {
         if (this.#zeroCount === 2 && this.#byte === 3) {
             this.#zeroCount = 0;
             this.#bytePosition += 1;
+            this.#emulationPreventionByteCount += 1;
             // Call `#loadByte` again, because if the next byte is `0x00`,
             // it need to be counted in `#zeroCount` as well.
             this.#loadByte();
@@ -221,7 +233,8 @@ export class NaluSodbBitReader {
     }
 
     skip(length: number) {
-        if (length <= this.#bitPosition + 1) {
+        // If the skip ends at byte boundary, the next byte needs to be loaded
+        if (length < this.#bitPosition + 1) {
             this.#bitPosition -= length;
             this.#checkSkipPosition();
             return;
@@ -259,9 +272,22 @@ export class NaluSodbBitReader {
         return ((1 << length) | this.read(length)) - 1;
     }
 
+    /**
+     * 9.1.1 Mapping process for signed Exp-Golomb codes
+     */
+    decodeSignedExponentialGolombNumber(): number {
+        const value = this.decodeExponentialGolombNumber();
+        if (value & 1) {
+            return (value + 1) / 2;
+        }
+        // Avoid returning `-0`
+        return value === 0 ? 0 : -(value / 2);
+    }
+
     #save() {
         return {
             zeroCount: this.#zeroCount,
+            emulationPreventionByteCount: this.#emulationPreventionByteCount,
             bytePosition: this.#bytePosition,
             bitPosition: this.#bitPosition,
             byte: this.#byte,
@@ -270,11 +296,13 @@ export class NaluSodbBitReader {
 
     #restore(state: {
         zeroCount: number;
+        emulationPreventionByteCount: number;
         bytePosition: number;
         bitPosition: number;
         byte: number;
     }) {
         this.#zeroCount = state.zeroCount;
+        this.#emulationPreventionByteCount = state.emulationPreventionByteCount;
         this.#bytePosition = state.bytePosition;
         this.#bitPosition = state.bitPosition;
         this.#byte = state.byte;
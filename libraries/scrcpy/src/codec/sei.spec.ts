@@ -0,0 +1,294 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { h264ParseSequenceParameterSet } from "./h264.js";
+import { h264ParseSei, h265ParseSei } from "./sei.js";
+import { bytes, rbsp, u, ue } from "./test-utils.spec.js";
+
+/**
+ * Appends `bit_equal_to_one` if the payload is not byte aligned
+ */
+function payload(...fields: string[]) {
+    const bits = fields.join("");
+    return bytes(bits.length % 8 === 0 ? bits : bits + "1");
+}
+
+function message(payloadType: number, data: number[]) {
+    return [payloadType, data.length, ...data];
+}
+
+function seiRbsp(...messages: number[][]) {
+    return [...messages.flat(), 0x80];
+}
+
+/**
+ * Adds emulation prevention bytes
+ */
+function nalu(header: number[], data: number[]) {
+    const result = [...header];
+    let zeroCount = 0;
+    for (const byte of data) {
+        if (zeroCount === 2 && byte <= 3) {
+            result.push(3);
+            zeroCount = 0;
+        }
+        result.push(byte);
+        zeroCount = byte === 0 ? zeroCount + 1 : 0;
+    }
+    return new Uint8Array(result);
+}
+
+const Uuid = Array.from({ length: 16 }, (_, i) => i);
+
+// BT.2020 primaries, D65 white point, 1000 to 0.005 nits
+const MasteringDisplayColourVolume = payload(
+    u(34000, 16),
+    u(16000, 16),
+    u(13250, 16),
+    u(34500, 16),
+    u(7500, 16),
+    u(3000, 16),
+    u(15635, 16),
+    u(16450, 16),
+    u(10_000_000, 32),
+    u(50, 32),
+);
+
+const ContentLightLevelInfo = payload(u(1000, 16), u(400, 16));
+
+describe("h264ParseSei", () => {
+    it("should parse HDR metadata, recovery point and user data", () => {
+        const sei = h264ParseSei(
+            nalu(
+                [0x06],
+                seiRbsp(
+                    message(5, [...Uuid, 0x78, 0x32, 0x36, 0x34]),
+                    message(6, payload(ue(3), "1", "0", "00")),
+                    message(137, MasteringDisplayColourVolume),
+                    message(144, ContentLightLevelInfo),
+                    // Unsupported payload type
+                    message(4, [0xb5, 0x00, 0x3c]),
+                ),
+            ),
+        );
+
+        assert.deepStrictEqual(sei, {
+            pic_timing: undefined,
+            recovery_point: {
+                recovery_frame_cnt: 3,
+                exact_match_flag: true,
+                broken_link_flag: false,
+                changing_slice_group_idc: 0,
+            },
+            mastering_display_colour_volume: {
+                display_primaries_x: [34000, 13250, 7500],
+                display_primaries_y: [16000, 34500, 3000],
+                white_point_x: 15635,
+                white_point_y: 16450,
+                max_display_mastering_luminance: 10_000_000,
+                min_display_mastering_luminance: 50,
+            },
+            content_light_level_info: {
+                max_content_light_level: 1000,
+                max_pic_average_light_level: 400,
+            },
+            user_data_unregistered: [
+                {
+                    uuid_iso_iec_11578: new Uint8Array(Uuid),
+                    user_data_payload_byte: new Uint8Array([
+                        0x78, 0x32, 0x36, 0x34,
+                    ]),
+                },
+            ],
+        });
+    });
+
+    it("should parse pic timing with VUI from SPS", () => {
+        const sps = h264ParseSequenceParameterSet(
+            nalu(
+                [0x67],
+                rbsp(
+                    [
+                        // profile_idc, constraint_set, level_idc
+                        u(66, 8),
+                        u(0, 8),
+                        u(31, 8),
+                        // seq_parameter_set_id, log2_max_frame_num_minus4
+                        ue(0),
+                        ue(0),
+                        // pic_order_cnt_type, max_num_ref_frames
+                        ue(2),
+                        ue(1),
+                        // gaps_in_frame_num_value_allowed_flag
+                        "0",
+                        // pic_width_in_mbs_minus1, pic_height_in_map_units_minus1
+                        ue(79),
+                        ue(44),
+                        // frame_mbs_only_flag, direct_8x8_inference_flag,
+                        // frame_cropping_flag, vui_parameters_present_flag
+                        "1101",
+                        // aspect_ratio_info_present_flag, overscan_info_present_flag
+                        "00",
+                        // video_signal_type_present_flag, video_format,
+                        // video_full_range_flag, colour_description_present_flag
+                        "1",
+                        u(5, 3),
+                        "01",
+                        // colour_primaries, transfer_characteristics, matrix_coefficients
+                        u(9, 8),
+                        u(16, 8),
+                        u(9, 8),
+                        // chroma_loc_info_present_flag, timing_info_present_flag
+                        "01",
+                        u(1, 32),
+                        u(60, 32),
+                        // fixed_frame_rate_flag, nal_hrd_parameters_present_flag
+                        "01",
+                        // cpb_cnt_minus1, bit_rate_scale, cpb_size_scale
+                        ue(0),
+                        u(0, 4),
+                        u(0, 4),
+                        // bit_rate_value_minus1, cpb_size_value_minus1, cbr_flag
+                        ue(0),
+                        ue(0),
+                        "0",
+                        // initial_cpb_removal_delay_length_minus1,
+                        // cpb_removal_delay_length_minus1,
+                        // dpb_output_delay_length_minus1, time_offset_length
+                        u(23, 5),
+                        u(23, 5),
+                        u(23, 5),
+                        u(24, 5),
+                        // vcl_hrd_parameters_present_flag, low_delay_hrd_flag,
+                        // pic_struct_present_flag, bitstream_restriction_flag
+                        "0010",
+                    ].join(""),
+                ),
+            ),
+        );
+
+        assert.strictEqual(sps.vuiParameters?.colour_primaries, 9);
+        assert.strictEqual(sps.vuiParameters.transfer_characteristics, 16);
+        assert.strictEqual(sps.vuiParameters.time_scale, 60);
+        assert.strictEqual(sps.vuiParameters.pic_struct_present_flag, true);
+        assert.strictEqual(
+            sps.vuiParameters.nalHrdParameters?.time_offset_length,
+            24,
+        );
+
+        const sei = h264ParseSei(
+            nalu(
+                [0x06],
+                seiRbsp(
+                    message(
+                        1,
+                        payload(
+                            // cpb_removal_delay, dpb_output_delay
+                            u(2, 24),
+                            u(4, 24),
+                            // pic_struct, clock_timestamp_flag
+                            u(0, 4),
+                            "1",
+                            // ct_type, nuit_field_based_flag, counting_type
+                            u(0, 2),
+                            "0",
+                            u(0, 5),
+                            // full_timestamp_flag, discontinuity_flag, cnt_dropped_flag
+                            "100",
+                            // n_frames, seconds_value, minutes_value, hours_value
+                            u(5, 8),
+                            u(10, 6),
+                            u(2, 6),
+                            u(1, 5),
+                            // time_offset
+                            u(-1, 24),
+                        ),
+                    ),
+                ),
+            ),
+            sps,
+        );
+
+        assert.deepStrictEqual(sei.pic_timing, {
+            cpb_removal_delay: 2,
+            dpb_output_delay: 4,
+            pic_struct: 0,
+            clockTimestamps: [
+                {
+                    ct_type: 0,
+                    nuit_field_based_flag: false,
+                    counting_type: 0,
+                    full_timestamp_flag: true,
+                    discontinuity_flag: false,
+                    cnt_dropped_flag: false,
+                    n_frames: 5,
+                    seconds_value: 10,
+                    minutes_value: 2,
+                    hours_value: 1,
+                    time_offset: -1,
+                },
+            ],
+        });
+    });
+
+    it("should throw if payload is truncated", () => {
+        assert.throws(() =>
+            h264ParseSei(new Uint8Array([0x06, 0x05, 0x20, 0x01, 0x80])),
+        );
+    });
+});
+
+describe("h265ParseSei", () => {
+    it("should parse HDR metadata and recovery point", () => {
+        const sei = h265ParseSei(
+            nalu(
+                // PREFIX_SEI_NUT
+                [0x4e, 0x01],
+                seiRbsp(
+                    message(137, MasteringDisplayColourVolume),
+                    message(144, ContentLightLevelInfo),
+                    // recovery_poc_cnt = -2
+                    message(6, payload(ue(4), "0", "1")),
+                    // Skipped without SPS
+                    message(1, [0x00]),
+                ),
+            ),
+        );
+
+        assert.deepStrictEqual(sei.recovery_point, {
+            recovery_poc_cnt: -2,
+            exact_match_flag: false,
+            broken_link_flag: true,
+        });
+        assert.strictEqual(
+            sei.mastering_display_colour_volume
+                ?.max_display_mastering_luminance,
+            10_000_000,
+        );
+        assert.deepStrictEqual(sei.content_light_level_info, {
+            max_content_light_level: 1000,
+            max_pic_average_light_level: 400,
+        });
+        assert.strictEqual(sei.pic_timing, undefined);
+        assert.deepStrictEqual(sei.user_data_unregistered, []);
+    });
+
+    it("should parse suffix SEI", () => {
+        const sei = h265ParseSei(
+            nalu([0x50, 0x01], seiRbsp(message(5, [...Uuid, 0x01]))),
+        );
+        assert.deepStrictEqual(sei.user_data_unregistered, [
+            {
+                uuid_iso_iec_11578: new Uint8Array(Uuid),
+                user_data_payload_byte: new Uint8Array([0x01]),
+            },
+        ]);
+    });
+
+    it("should reject other NAL unit types", () => {
+        assert.throws(
+            () => h265ParseSei(nalu([0x02, 0x01], seiRbsp())),
+            /Invalid data/,
+        );
+    });
+});
@@ -0,0 +1,537 @@
+import type { H264HrdParameters, H264SequenceParameterSet } from "./h264.js";
+import type { H265SequenceParameterSet } from "./h265.js";
+import { NaluSodbBitReader } from "./nalu.js";
+
+/**
+ * SEI payload types supported by `h264ParseSei` and `h265ParseSei`.
+ *
+ * The values are the same in H.264 and H.265.
+ */
+export const SeiPayloadType = {
+    PicTiming: 1,
+    UserDataUnregistered: 5,
+    RecoveryPoint: 6,
+    MasteringDisplayColourVolume: 137,
+    ContentLightLevelInfo: 144,
+} as const;
+
+export type SeiPayloadType =
+    (typeof SeiPayloadType)[keyof typeof SeiPayloadType];
+
+export interface SeiMessageHeader {
+    payloadType: number;
+    payloadSize: number;
+}
+
+/**
+ * 7.3.2.3.1 Supplemental enhancement information message syntax (H.264)
+ *
+ * 7.3.5 Supplemental enhancement information message syntax (H.265)
+ *
+ * Reads SEI messages until the end of the RBSP.
+ *
+ * When a message is yielded, `reader` is at the start of its payload.
+ * The consumer can read any part of the payload,
+ * the remaining bits will be skipped when the iteration continues.
+ *
+ * @param reader A reader positioned after the NAL unit header
+ */
+export function* seiReadMessages(
+    reader: NaluSodbBitReader,
+): Generator<SeiMessageHeader, void, void> {
+    while (!reader.ended) {
+        let payloadType = 0;
+        let byte: number;
+        do {
+            byte = reader.read(8);
+            payloadType += byte;
+        } while (byte === 0xff);
+
+        let payloadSize = 0;
+        do {
+            byte = reader.read(8);
+            payloadSize += byte;
+        } while (byte === 0xff);
+
+        const end = reader.position + payloadSize * 8;
+        yield { payloadType, payloadSize };
+
+        if (reader.position > end) {
+            throw new Error("Invalid data");
+        }
+        reader.skip(end - reader.position);
+    }
+}
+
+/**
+ * D.2.7 User data unregistered SEI message syntax
+ *
+ * Same syntax in H.264 (D.1.7).
+ */
+export function seiParseUserDataUnregistered(
+    reader: NaluSodbBitReader,
+    payloadSize: number,
+) {
+    if (payloadSize < 16) {
+        throw new Error("Invalid data");
+    }
+
+    const uuid_iso_iec_11578 = reader.readBytes(16);
+    const user_data_payload_byte = reader.readBytes(payloadSize - 16);
+
+    return {
+        uuid_iso_iec_11578,
+        user_data_payload_byte,
+    };
+}
+
+export type SeiUserDataUnregistered = ReturnType<
+    typeof seiParseUserDataUnregistered
+>;
+
+/**
+ * D.2.28 Mastering display colour volume SEI message syntax
+ *
+ * Same syntax in H.264.
+ */
+export function seiParseMasteringDisplayColourVolume(
+    reader: NaluSodbBitReader,
+) {
+    const display_primaries_x: number[] = [];
+    const display_primaries_y: number[] = [];
+    for (let c = 0; c < 3; c += 1) {
+        display_primaries_x[c] = reader.read(16);
+        display_primaries_y[c] = reader.read(16);
+    }
+
+    const white_point_x = reader.read(16);
+    const white_point_y = reader.read(16);
+    // `read(32)` uses bitwise operators, which overflow to negative values
+    const max_display_mastering_luminance =
+        reader.read(16) * 0x10000 + reader.read(16);
+    const min_display_mastering_luminance =
+        reader.read(16) * 0x10000 + reader.read(16);
+
+    return {
+        /**
+         * In increments of 0.00002 (CIE 1931)
+         */
+        display_primaries_x,
+        /**
+         * In increments of 0.00002 (CIE 1931)
+         */
+        display_primaries_y,
+        white_point_x,
+        white_point_y,
+        /**
+         * In units of 0.0001 candelas per square metre
+         */
+        max_display_mastering_luminance,
+        /**
+         * In units of 0.0001 candelas per square metre
+         */
+        min_display_mastering_luminance,
+    };
+}
+
+export type SeiMasteringDisplayColourVolume = ReturnType<
+    typeof seiParseMasteringDisplayColourVolume
+>;
+
+/**
+ * D.2.35 Content light level information SEI message syntax
+ *
+ * Same syntax in H.264.
+ */
+export function seiParseContentLightLevelInfo(reader: NaluSodbBitReader) {
+    const max_content_light_level = reader.read(16);
+    const max_pic_average_light_level = reader.read(16);
+
+    return {
+        /**
+         * In units of candelas per square metre
+         */
+        max_content_light_level,
+        /**
+         * In units of candelas per square metre
+         */
+        max_pic_average_light_level,
+    };
+}
+
+export type SeiContentLightLevelInfo = ReturnType<
+    typeof seiParseContentLightLevelInfo
+>;
+
+/**
+ * Table D-1 Interpretation of pic_struct (H.264)
+ */
+function h264GetNumClockTs(pic_struct: number) {
+    switch (pic_struct) {
+        case 0:
+        case 1:
+        case 2:
+            return 1;
+        case 3:
+        case 4:
+        case 7:
+            return 2;
+        case 5:
+        case 6:
+        case 8:
+            return 3;
+        default:
+            throw new Error("Invalid data");
+    }
+}
+
+function h264SeiParseClockTimestamp(
+    reader: NaluSodbBitReader,
+    time_offset_length: number,
+) {
+    const ct_type = reader.read(2);
+    const nuit_field_based_flag = !!reader.next();
+    const counting_type = reader.read(5);
+    const full_timestamp_flag = !!reader.next();
+    const discontinuity_flag = !!reader.next();
+    const cnt_dropped_flag = !!reader.next();
+    const n_frames = reader.read(8);
+
+    let seconds_value: number | undefined;
+    let minutes_value: number | undefined;
+    let hours_value: number | undefined;
+    if (full_timestamp_flag) {
+        seconds_value = reader.read(6);
+        minutes_value = reader.read(6);
+        hours_value = reader.read(5);
+    } else if (reader.next()) {
+        seconds_value = reader.read(6);
+        if (reader.next()) {
+            minutes_value = reader.read(6);
+            if (reader.next()) {
+                hours_value = reader.read(5);
+            }
+        }
+    }
+
+    let time_offset = 0;
+    if (time_offset_length > 0) {
+        time_offset = reader.read(time_offset_length);
+        // Two's complement
+        if (time_offset >= 2 ** (time_offset_length - 1)) {
+            time_offset -= 2 ** time_offset_length;
+        }
+    }
+
+    return {
+        ct_type,
+        nuit_field_based_flag,
+        counting_type,
+        full_timestamp_flag,
+        discontinuity_flag,
+        cnt_dropped_flag,
+        n_frames,
+        seconds_value,
+        minutes_value,
+        hours_value,
+        time_offset,
+    };
+}
+
+export type H264SeiClockTimestamp = ReturnType<
+    typeof h264SeiParseClockTimestamp
+>;
+
+/**
+ * D.1.3 Picture timing SEI message syntax (H.264)
+ */
+export function h264SeiParsePicTiming(
+    reader: NaluSodbBitReader,
+    sequenceParameterSet: H264SequenceParameterSet,
+) {
+    const vuiParameters = sequenceParameterSet.vuiParameters;
+    // When both exist, they must have the same delay lengths
+    const hrdParameters: H264HrdParameters | undefined =
+        vuiParameters?.nalHrdParameters ?? vuiParameters?.vclHrdParameters;
+
+    let cpb_removal_delay: number | undefined;
+    let dpb_output_delay: number | undefined;
+    // CpbDpbDelaysPresentFlag
+    if (hrdParameters) {
+        cpb_removal_delay = reader.read(
+            hrdParameters.cpb_removal_delay_length_minus1 + 1,
+        );
+        dpb_output_delay = reader.read(
+            hrdParameters.dpb_output_delay_length_minus1 + 1,
+        );
+    }
+
+    let pic_struct: number | undefined;
+    const clockTimestamps: (H264SeiClockTimestamp | undefined)[] = [];
+    if (vuiParameters?.pic_struct_present_flag) {
+        pic_struct = reader.read(4);
+        const NumClockTS = h264GetNumClockTs(pic_struct);
+        for (let i = 0; i < NumClockTS; i += 1) {
+            const clock_timestamp_flag = !!reader.next();
+            if (clock_timestamp_flag) {
+                clockTimestamps[i] = h264SeiParseClockTimestamp(
+                    reader,
+                    // Inferred to be 24 when not present
+                    hrdParameters?.time_offset_length ?? 24,
+                );
+            } else {
+                clockTimestamps[i] = undefined;
+            }
+        }
+    }
+
+    return {
+        cpb_removal_delay,
+        dpb_output_delay,
+        pic_struct,
+        clockTimestamps,
+    };
+}
+
+export type H264SeiPicTiming = ReturnType<typeof h264SeiParsePicTiming>;
+
+/**
+ * D.1.8 Recovery point SEI message syntax (H.264)
+ */
+export function h264SeiParseRecoveryPoint(reader: NaluSodbBitReader) {
+    const recovery_frame_cnt = reader.decodeExponentialGolombNumber();
+    const exact_match_flag = !!reader.next();
+    const broken_link_flag = !!reader.next();
+    const changing_slice_group_idc = reader.read(2);
+
+    return {
+        recovery_frame_cnt,
+        exact_match_flag,
+        broken_link_flag,
+        changing_slice_group_idc,
+    };
+}
+
+export type H264SeiRecoveryPoint = ReturnType<typeof h264SeiParseRecoveryPoint>;
+
+/**
+ * Parses an H.264 SEI NAL unit.
+ *
+ * Only the first message of each type is kept, except `user_data_unregistered`.
+ * Unsupported messages are skipped.
+ *
+ * @param nalu The SEI NAL unit, including the NAL unit header
+ * @param sequenceParameterSet
+ * The active SPS, required to parse `pic_timing`.
+ * If not provided, `pic_timing` messages are skipped.
+ */
+export function h264ParseSei(
+    nalu: Uint8Array,
+    sequenceParameterSet?: H264SequenceParameterSet,
+) {
+    const reader = new NaluSodbBitReader(nalu);
+    if (reader.next() !== 0) {
+        throw new Error("Invalid data");
+    }
+
+    // nal_ref_idc
+    reader.read(2);
+    const nal_unit_type = reader.read(5);
+    if (nal_unit_type !== 6) {
+        throw new Error("Invalid data");
+    }
+
+    let pic_timing: H264SeiPicTiming | undefined;
+    let recovery_point: H264SeiRecoveryPoint | undefined;
+    let mastering_display_colour_volume:
+        | SeiMasteringDisplayColourVolume
+        | undefined;
+    let content_light_level_info: SeiContentLightLevelInfo | undefined;
+    const user_data_unregistered: SeiUserDataUnregistered[] = [];
+
+    for (const { payloadType, payloadSize } of seiReadMessages(reader)) {
+        switch (payloadType) {
+            case SeiPayloadType.PicTiming:
+                if (sequenceParameterSet) {
+                    pic_timing ??= h264SeiParsePicTiming(
+                        reader,
+                        sequenceParameterSet,
+                    );
+                }
+                break;
+            case SeiPayloadType.UserDataUnregistered:
+                user_data_unregistered.push(
+                    seiParseUserDataUnregistered(reader, payloadSize),
+                );
+                break;
+            case SeiPayloadType.RecoveryPoint:
+                recovery_point ??= h264SeiParseRecoveryPoint(reader);
+                break;
+            case SeiPayloadType.MasteringDisplayColourVolume:
+                mastering_display_colour_volume ??=
+                    seiParseMasteringDisplayColourVolume(reader);
+                break;
+            case SeiPayloadType.ContentLightLevelInfo:
+                content_light_level_info ??=
+                    seiParseContentLightLevelInfo(reader);
+                break;
+        }
+    }
+
+    return {
+        pic_timing,
+        recovery_point,
+        mastering_display_colour_volume,
+        content_light_level_info,
+        user_data_unregistered,
+    };
+}
+
+export type H264Sei = ReturnType<typeof h264ParseSei>;
+
+/**
+ * D.2.3 Picture timing SEI message syntax (H.265)
+ *
+ * Decoding unit information is not parsed.
+ */
+export function h265SeiParsePicTiming(
+    reader: NaluSodbBitReader,
+    sequenceParameterSet: H265SequenceParameterSet,
+) {
+    const vuiParameters = sequenceParameterSet.vuiParameters;
+    const hrdParameters = vuiParameters?.vui_hrd_parameters;
+
+    let pic_struct: number | undefined;
+    let source_scan_type: number | undefined;
+    let duplicate_flag: boolean | undefined;
+    if (vuiParameters?.frame_field_info_present_flag) {
+        pic_struct = reader.read(4);
+        source_scan_type = reader.read(2);
+        duplicate_flag = !!reader.next();
+    }
+
+    let au_cpb_removal_delay_minus1: number | undefined;
+    let pic_dpb_output_delay: number | undefined;
+    let pic_dpb_output_du_delay: number | undefined;
+    // CpbDpbDelaysPresentFlag
+    if (
+        hrdParameters?.nal_hrd_parameters_present_flag ||
+        hrdParameters?.vcl_hrd_parameters_present_flag
+    ) {
+        au_cpb_removal_delay_minus1 = reader.read(
+            hrdParameters.au_cpb_removal_delay_length_minus1! + 1,
+        );
+        pic_dpb_output_delay = reader.read(
+            hrdParameters.dpb_output_delay_length_minus1! + 1,
+        );
+        if (hrdParameters.sub_pic_hrd_params_present_flag) {
+            pic_dpb_output_du_delay = reader.read(
+                hrdParameters.dpb_output_delay_du_length_minus1! + 1,
+            );
+        }
+    }
+
+    return {
+        pic_struct,
+        source_scan_type,
+        duplicate_flag,
+        au_cpb_removal_delay_minus1,
+        pic_dpb_output_delay,
+        pic_dpb_output_du_delay,
+    };
+}
+
+export type H265SeiPicTiming = ReturnType<typeof h265SeiParsePicTiming>;
+
+/**
+ * D.2.8 Recovery point SEI message syntax (H.265)
+ */
+export function h265SeiParseRecoveryPoint(reader: NaluSodbBitReader) {
+    const recovery_poc_cnt = reader.decodeSignedExponentialGolombNumber();
+    const exact_match_flag = !!reader.next();
+    const broken_link_flag = !!reader.next();
+
+    return {
+        recovery_poc_cnt,
+        exact_match_flag,
+        broken_link_flag,
+    };
+}
+
+export type H265SeiRecoveryPoint = ReturnType<typeof h265SeiParseRecoveryPoint>;
+
+/**
+ * Parses an H.265 SEI NAL unit (prefix or suffix).
+ *
+ * Only the first message of each type is kept, except `user_data_unregistered`.
+ * Unsupported messages are skipped.
+ *
+ * @param nalu The SEI NAL unit, including the NAL unit header
+ * @param sequenceParameterSet
+ * The active SPS, required to parse `pic_timing`.
+ * If not provided, `pic_timing` messages are skipped.
+ */
+export function h265ParseSei(
+    nalu: Uint8Array,
+    sequenceParameterSet?: H265SequenceParameterSet,
+) {
+    const reader = new NaluSodbBitReader(nalu);
+    if (reader.next() !== 0) {
+        throw new Error("Invalid NALU header");
+    }
+
+    const nal_unit_type = reader.read(6);
+    // PREFIX_SEI_NUT and SUFFIX_SEI_NUT
+    if (nal_unit_type !== 39 && nal_unit_type !== 40) {
+        throw new Error("Invalid data");
+    }
+    // nuh_layer_id, nuh_temporal_id_plus1
+    reader.skip(9);
+
+    let pic_timing: H265SeiPicTiming | undefined;
+    let recovery_point: H265SeiRecoveryPoint | undefined;
+    let mastering_display_colour_volume:
+        | SeiMasteringDisplayColourVolume
+        | undefined;
+    let content_light_level_info: SeiContentLightLevelInfo | undefined;
+    const user_data_unregistered: SeiUserDataUnregistered[] = [];
+
+    for (const { payloadType, payloadSize } of seiReadMessages(reader)) {
+        switch (payloadType) {
+            case SeiPayloadType.PicTiming:
+                if (sequenceParameterSet) {
+                    pic_timing ??= h265SeiParsePicTiming(
+                        reader,
+                        sequenceParameterSet,
+                    );
+                }
+                break;
+            case SeiPayloadType.UserDataUnregistered:
+                user_data_unregistered.push(
+                    seiParseUserDataUnregistered(reader, payloadSize),
+                );
+                break;
+            case SeiPayloadType.RecoveryPoint:
+                recovery_point ??= h265SeiParseRecoveryPoint(reader);
+                break;
+            case SeiPayloadType.MasteringDisplayColourVolume:
+                mastering_display_colour_volume ??=
+                    seiParseMasteringDisplayColourVolume(reader);
+                break;
+            case SeiPayloadType.ContentLightLevelInfo:
+                content_light_level_info ??=
+                    seiParseContentLightLevelInfo(reader);
+                break;
+        }
+    }
+
+    return {
+        pic_timing,
+        recovery_point,
+        mastering_display_colour_volume,
+        content_light_level_info,
+        user_data_unregistered,
+    };
+}
+
+export type H265Sei = ReturnType<typeof h265ParseSei>;
@@ -0,0 +1,45 @@
+// Bit string helpers shared by codec tests.
+// Named `.spec.ts` so it's excluded from the build output.
+
+/**
+ * Encodes `value` as a `length`-bit unsigned integer.
+ *
+ * Negative values are encoded in two's complement.
+ */
+export function u(value: number, length: number) {
+    return (value >>> 0).toString(2).slice(-length).padStart(length, "0");
+}
+
+/**
+ * Encodes an unsigned Exp-Golomb number
+ */
+export function ue(value: number) {
+    const bits = (value + 1).toString(2);
+    return "0".repeat(bits.length - 1) + bits;
+}
+
+/**
+ * Encodes a signed Exp-Golomb number
+ */
+export function se(value: number) {
+    return ue(value > 0 ? value * 2 - 1 : -value * 2);
+}
+
+/**
+ * Converts a bit string to bytes, padding the last byte with zeros
+ */
+export function bytes(bits: string) {
+    const result: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        result.push(parseInt(bits.slice(i, i + 8).padEnd(8, "0"), 2));
+    }
+    return result;
+}
+
+/**
+ * Appends the RBSP stop bit and alignment bits
+ * (same as AV1 `trailing_bits`)
+ */
+export function rbsp(...fields: string[]) {
+    return bytes(fields.join("") + "1");
+}
@@ -0,0 +1,4 @@
+export * from "./matroska.js";
+export * from "./mp4.js";
+export * from "./muxer.js";
+export * from "./track.js";
@@ -0,0 +1,186 @@
+// cspell: ignore EBML
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { ConcatBufferStream, ReadableStream } from "@yume-chan/stream-extra";
+import { decodeUtf8 } from "@yume-chan/struct";
+
+import type { ScrcpyMediaStreamPacket } from "../base/index.js";
+import { ScrcpyAudioCodec, ScrcpyVideoCodecId } from "../base/index.js";
+
+import { ScrcpyMatroskaMuxer } from "./matroska.js";
+
+// 1280x720 High profile
+const Configuration = new Uint8Array([
+    0x00, 0x00, 0x00, 0x01, 0x67, 0x64, 0x00, 0x1f, 0xac, 0xd9, 0x40, 0x50,
+    0x05, 0xbb, 0x01, 0x10, 0x00, 0x00, 0x03, 0x00, 0x10, 0x00, 0x00, 0x03,
+    0x03, 0xc0, 0xf1, 0x83, 0x19, 0x60, 0x00, 0x00, 0x00, 0x01, 0x68, 0xeb,
+    0xe3, 0xcb, 0x22, 0xc0,
+]);
+
+const OpusHead = new Uint8Array([
+    0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64, 0x01, 0x02, 0x38, 0x01,
+    0x80, 0xbb, 0x00, 0x00, 0x00, 0x00, 0x00,
+]);
+
+function createStream(packets: ScrcpyMediaStreamPacket[]) {
+    return new ReadableStream<ScrcpyMediaStreamPacket>({
+        start(controller) {
+            for (const packet of packets) {
+                controller.enqueue(packet);
+            }
+            controller.close();
+        },
+    });
+}
+
+interface Element {
+    id: number;
+    data: Uint8Array;
+}
+
+function readVint(buffer: Uint8Array, offset: number, keepMarker: boolean) {
+    const first = buffer[offset]!;
+    let length = 1;
+    while (!(first & (0x100 >> length))) {
+        length += 1;
+    }
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    for (let i = 1; i < length; i += 1) {
+        value = value * 256 + buffer[offset + i]!;
+    }
+    return { value, length };
+}
+
+function parseElements(buffer: Uint8Array) {
+    const elements: Element[] = [];
+    let offset = 0;
+    while (offset < buffer.length) {
+        const id = readVint(buffer, offset, true);
+        offset += id.length;
+        const size = readVint(buffer, offset, false);
+        offset += size.length;
+
+        // Unknown size
+        const end =
+            size.value === 2 ** 56 - 1 ? buffer.length : offset + size.value;
+        elements.push({ id: id.value, data: buffer.subarray(offset, end) });
+        offset = end;
+    }
+    return elements;
+}
+
+function findElement(elements: Element[], id: number) {
+    const element = elements.find((element) => element.id === id);
+    assert.ok(element, `element ${id.toString(16)} not found`);
+    return element;
+}
+
+describe("ScrcpyMatroskaMuxer", () => {
+    it("should write tracks and clusters", async () => {
+        const video: ScrcpyMediaStreamPacket[] = [
+            { type: "configuration", data: Configuration },
+        ];
+        for (let i = 0; i < 10; i += 1) {
+            video.push({
+                type: "data",
+                keyframe: i % 4 === 0,
+                pts: 1_000_000n + BigInt(i) * 50_000n,
+                data: new Uint8Array([0, 0, 0, 1, 0x65, i]),
+            });
+        }
+
+        const audio: ScrcpyMediaStreamPacket[] = [
+            { type: "configuration", data: OpusHead },
+        ];
+        for (let i = 0; i < 25; i += 1) {
+            audio.push({
+                type: "data",
+                pts: 1_010_000n + BigInt(i) * 20_000n,
+                data: new Uint8Array([0xfc, i]),
+            });
+        }
+
+        const file = await new ScrcpyMatroskaMuxer({
+            video: {
+                codec: ScrcpyVideoCodecId.H264,
+                stream: createStream(video),
+            },
+            audio: {
+                codec: ScrcpyAudioCodec.Opus,
+                stream: createStream(audio),
+            },
+        }).pipeThrough(new ConcatBufferStream());
+
+        const [ebml, segment] = parseElements(file);
+        assert.strictEqual(ebml!.id, 0x1a45dfa3);
+        assert.strictEqual(
+            decodeUtf8(findElement(parseElements(ebml!.data), 0x4282).data),
+            "matroska",
+        );
+
+        assert.strictEqual(segment!.id, 0x18538067);
+        const children = parseElements(segment!.data);
+        assert.deepStrictEqual(
+            children.map((element) => element.id),
+            [0x1549a966, 0x1654ae6b, 0x1f43b675, 0x1f43b675, 0x1f43b675],
+        );
+
+        const tracks = parseElements(children[1]!.data).map((entry) =>
+            parseElements(entry.data),
+        );
+        assert.strictEqual(tracks.length, 2);
+        assert.strictEqual(
+            decodeUtf8(findElement(tracks[0]!, 0x86).data),
+            "V_MPEG4/ISO/AVC",
+        );
+        const videoElement = parseElements(findElement(tracks[0]!, 0xe0).data);
+        assert.deepStrictEqual(
+            findElement(videoElement, 0xb0).data,
+            new Uint8Array([0x05, 0x00]),
+        );
+        assert.deepStrictEqual(
+            findElement(videoElement, 0xba).data,
+            new Uint8Array([0x02, 0xd0]),
+        );
+        assert.strictEqual(
+            decodeUtf8(findElement(tracks[1]!, 0x86).data),
+            "A_OPUS",
+        );
+        assert.deepStrictEqual(findElement(tracks[1]!, 0x63a2).data, OpusHead);
+
+        const cluster = parseElements(children[3]!.data);
+        // Cluster timestamp
+        assert.deepStrictEqual(cluster[0]!.data, new Uint8Array([200]));
+
+        const blocks = cluster.slice(1).map((block) => ({
+            track: block.data[0]! & 0x7f,
+            timestamp: (block.data[1]! << 8) | block.data[2]!,
+            keyframe: !!(block.data[3]! & 0x80),
+        }));
+        assert.deepStrictEqual(blocks.slice(0, 4), [
+            { track: 1, timestamp: 0, keyframe: true },
+            { track: 2, timestamp: 10, keyframe: true },
+            { track: 2, timestamp: 30, keyframe: true },
+            { track: 1, timestamp: 50, keyframe: false },
+        ]);
+    });
+
+    it("should reject raw audio", async () => {
+        await assert.rejects(
+            new ScrcpyMatroskaMuxer({
+                video: {
+                    codec: ScrcpyVideoCodecId.H264,
+                    stream: createStream([]),
+                },
+                audio: {
+                    codec: ScrcpyAudioCodec.Raw,
+                    stream: createStream([]),
+                },
+            }).pipeThrough(new ConcatBufferStream()),
+            /Raw audio/,
+        );
+    });
+});
@@ -0,0 +1,304 @@
+// cspell: ignore Opus
+// cspell: ignore Matroska
+// cspell: ignore EBML
+
+import { PushReadableStream } from "@yume-chan/stream-extra";
+
+import { ScrcpyAudioCodec, ScrcpyVideoCodecId } from "../base/index.js";
+
+import type { ScrcpyMuxerOptions, ScrcpyMuxerWriter } from "./muxer.js";
+import { muxScrcpyStreams } from "./muxer.js";
+import type {
+    ScrcpyMuxerAudioTrackInfo,
+    ScrcpyMuxerSample,
+    ScrcpyMuxerTrackInfo,
+    ScrcpyMuxerVideoTrackInfo,
+} from "./track.js";
+import { ascii, concatBuffers, uint16, uint24, uint8 } from "./utils.js";
+
+// https://www.matroska.org/technical/elements.html
+const ElementId = {
+    Ebml: 0x1a45dfa3,
+    EbmlVersion: 0x4286,
+    EbmlReadVersion: 0x42f7,
+    EbmlMaxIdLength: 0x42f2,
+    EbmlMaxSizeLength: 0x42f3,
+    DocType: 0x4282,
+    DocTypeVersion: 0x4287,
+    DocTypeReadVersion: 0x4285,
+    Segment: 0x18538067,
+    Info: 0x1549a966,
+    TimestampScale: 0x2ad7b1,
+    MuxingApp: 0x4d80,
+    WritingApp: 0x5741,
+    Tracks: 0x1654ae6b,
+    TrackEntry: 0xae,
+    TrackNumber: 0xd7,
+    TrackUid: 0x73c5,
+    TrackType: 0x83,
+    FlagLacing: 0x9c,
+    CodecId: 0x86,
+    CodecPrivate: 0x63a2,
+    CodecDelay: 0x56aa,
+    SeekPreRoll: 0x56bb,
+    Video: 0xe0,
+    PixelWidth: 0xb0,
+    PixelHeight: 0xba,
+    Audio: 0xe1,
+    SamplingFrequency: 0xb5,
+    Channels: 0x9f,
+    Cluster: 0x1f43b675,
+    Timestamp: 0xe7,
+    SimpleBlock: 0xa3,
+} as const;
+
+const MuxingApp = "@yume-chan/scrcpy";
+
+/**
+ * Maximum duration of a cluster in milliseconds,
+ * clusters also start at every video keyframe.
+ *
+ * Block timestamps are relative to the cluster as signed 16-bit integers,
+ * so it must be less than 32767.
+ */
+const MaxClusterDuration = 5000;
+
+// https://www.rfc-editor.org/rfc/rfc8794.html#section-4
+function encodeVint(value: number) {
+    let length = 1;
+    // All ones is reserved for unknown size
+    while (value >= 2 ** (7 * length) - 1) {
+        length += 1;
+    }
+
+    const result = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i -= 1) {
+        result[i] = value % 256;
+        value = Math.floor(value / 256);
+    }
+    result[0]! |= 0x80 >> (length - 1);
+    return result;
+}
+
+function encodeUnsigned(value: number) {
+    const bytes: number[] = [];
+    do {
+        bytes.unshift(value % 256);
+        value = Math.floor(value / 256);
+    } while (value > 0);
+    return new Uint8Array(bytes);
+}
+
+function element(id: number, ...parts: Uint8Array[]) {
+    const body = concatBuffers(parts);
+    return concatBuffers([encodeUnsigned(id), encodeVint(body.length), body]);
+}
+
+function unsignedElement(id: number, value: number) {
+    return element(id, encodeUnsigned(value));
+}
+
+function stringElement(id: number, value: string) {
+    return element(id, ascii(value));
+}
+
+function floatElement(id: number, value: number) {
+    const body = new Uint8Array(8);
+    new DataView(body.buffer).setFloat64(0, value);
+    return element(id, body);
+}
+
+function createVideoTrack(info: ScrcpyMuxerVideoTrackInfo) {
+    let codecId: string;
+    switch (info.codec) {
+        case ScrcpyVideoCodecId.H264:
+            codecId = "V_MPEG4/ISO/AVC";
+            break;
+        case ScrcpyVideoCodecId.H265:
+            codecId = "V_MPEGH/ISO/HEVC";
+            break;
+        case ScrcpyVideoCodecId.AV1:
+            codecId = "V_AV1";
+            break;
+        default:
+            throw new Error("Unsupported video codec");
+    }
+
+    return [
+        unsignedElement(ElementId.TrackType, 1),
+        stringElement(ElementId.CodecId, codecId),
+        element(ElementId.CodecPrivate, info.configuration),
+        element(
+            ElementId.Video,
+            unsignedElement(ElementId.PixelWidth, info.width),
+            unsignedElement(ElementId.PixelHeight, info.height),
+        ),
+    ];
+}
+
+function createAudioTrack(info: ScrcpyMuxerAudioTrackInfo) {
+    const elements = [unsignedElement(ElementId.TrackType, 2)];
+
+    switch (info.codec) {
+        case ScrcpyAudioCodec.Opus:
+            // https://wiki.xiph.org/MatroskaOpus
+            elements.push(
+                stringElement(ElementId.CodecId, "A_OPUS"),
+                element(ElementId.CodecPrivate, info.configuration),
+                unsignedElement(
+                    ElementId.CodecDelay,
+                    Math.round((info.preSkip * 1e9) / 48000),
+                ),
+                unsignedElement(ElementId.SeekPreRoll, 80_000_000),
+            );
+            break;
+        case ScrcpyAudioCodec.Aac:
+            elements.push(
+                stringElement(ElementId.CodecId, "A_AAC"),
+                element(ElementId.CodecPrivate, info.configuration),
+            );
+            break;
+        case ScrcpyAudioCodec.Flac:
+            elements.push(
+                stringElement(ElementId.CodecId, "A_FLAC"),
+                element(
+                    ElementId.CodecPrivate,
+                    ascii("fLaC"),
+                    // last_metadata_block_flag = 1, BLOCK_TYPE = STREAMINFO
+                    uint8(0x80),
+                    uint24(info.configuration.length),
+                    info.configuration,
+                ),
+            );
+            break;
+        default:
+            throw new Error(
+                `Unsupported audio codec ${info.codec.optionValue}`,
+            );
+    }
+
+    elements.push(
+        element(
+            ElementId.Audio,
+            floatElement(ElementId.SamplingFrequency, info.sampleRate),
+            unsignedElement(ElementId.Channels, info.channelCount),
+        ),
+    );
+    return elements;
+}
+
+function getDocType(tracks: readonly ScrcpyMuxerTrackInfo[]) {
+    // WebM only allows VP8, VP9 and AV1 video, and Vorbis and Opus audio
+    return tracks.every((track) =>
+        track.type === "video"
+            ? track.codec === ScrcpyVideoCodecId.AV1
+            : track.codec === ScrcpyAudioCodec.Opus,
+    )
+        ? "webm"
+        : "matroska";
+}
+
+class MatroskaWriter implements ScrcpyMuxerWriter {
+    #tracks: readonly ScrcpyMuxerTrackInfo[] = [];
+    #clusterTimestamp: number | undefined;
+    #blocks: Uint8Array[] = [];
+
+    *writeHeader(tracks: readonly ScrcpyMuxerTrackInfo[]) {
+        this.#tracks = tracks;
+
+        yield element(
+            ElementId.Ebml,
+            unsignedElement(ElementId.EbmlVersion, 1),
+            unsignedElement(ElementId.EbmlReadVersion, 1),
+            unsignedElement(ElementId.EbmlMaxIdLength, 4),
+            unsignedElement(ElementId.EbmlMaxSizeLength, 8),
+            stringElement(ElementId.DocType, getDocType(tracks)),
+            unsignedElement(ElementId.DocTypeVersion, 4),
+            unsignedElement(ElementId.DocTypeReadVersion, 2),
+        );
+
+        // Segment with unknown size, so it can be written progressively
+        yield concatBuffers([
+            encodeUnsigned(ElementId.Segment),
+            new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+        ]);
+
+        yield element(
+            ElementId.Info,
+            // Timestamps are in milliseconds
+            unsignedElement(ElementId.TimestampScale, 1_000_000),
+            stringElement(ElementId.MuxingApp, MuxingApp),
+            stringElement(ElementId.WritingApp, MuxingApp),
+        );
+
+        yield element(
+            ElementId.Tracks,
+            ...tracks.map((info, index) =>
+                element(
+                    ElementId.TrackEntry,
+                    unsignedElement(ElementId.TrackNumber, index + 1),
+                    unsignedElement(ElementId.TrackUid, index + 1),
+                    unsignedElement(ElementId.FlagLacing, 0),
+                    ...(info.type === "video"
+                        ? createVideoTrack(info)
+                        : createAudioTrack(info)),
+                ),
+            ),
+        );
+    }
+
+    *#writeCluster() {
+        if (this.#clusterTimestamp === undefined) {
+            return;
+        }
+
+        yield element(
+            ElementId.Cluster,
+            unsignedElement(ElementId.Timestamp, this.#clusterTimestamp),
+            ...this.#blocks,
+        );
+
+        this.#clusterTimestamp = undefined;
+        this.#blocks = [];
+    }
+
+    *writeSample(index: number, sample: ScrcpyMuxerSample) {
+        const timestamp = Math.round(sample.timestamp / 1000);
+
+        if (
+            this.#clusterTimestamp !== undefined &&
+            ((this.#tracks[index]!.type === "video" && sample.keyframe) ||
+                timestamp - this.#clusterTimestamp > MaxClusterDuration)
+        ) {
+            yield* this.#writeCluster();
+        }
+
+        this.#clusterTimestamp ??= timestamp;
+
+        this.#blocks.push(
+            element(
+                ElementId.SimpleBlock,
+                encodeVint(index + 1),
+                uint16(timestamp - this.#clusterTimestamp),
+                uint8(sample.keyframe ? 0x80 : 0),
+                sample.data,
+            ),
+        );
+    }
+
+    *writeTrailer() {
+        yield* this.#writeCluster();
+    }
+}
+
+/**
+ * Muxes scrcpy video and audio streams into a Matroska file
+ * (or WebM if the codecs are supported), without re-encoding.
+ */
+export class ScrcpyMatroskaMuxer extends PushReadableStream<Uint8Array> {
+    constructor(options: ScrcpyMuxerOptions) {
+        super((controller) =>
+            muxScrcpyStreams(options, new MatroskaWriter(), controller),
+        );
+    }
+}
@@ -0,0 +1,249 @@
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { getUint32BigEndian } from "@yume-chan/no-data-view";
+import { ConcatBufferStream, ReadableStream } from "@yume-chan/stream-extra";
+import { decodeUtf8 } from "@yume-chan/struct";
+
+import type { ScrcpyMediaStreamPacket } from "../base/index.js";
+import { ScrcpyAudioCodec, ScrcpyVideoCodecId } from "../base/index.js";
+
+import { ScrcpyMp4Muxer } from "./mp4.js";
+
+// 1280x720 High profile
+const SequenceParameterSet = new Uint8Array([
+    0x67, 0x64, 0x00, 0x1f, 0xac, 0xd9, 0x40, 0x50, 0x05, 0xbb, 0x01, 0x10,
+    0x00, 0x00, 0x03, 0x00, 0x10, 0x00, 0x00, 0x03, 0x03, 0xc0, 0xf1, 0x83,
+    0x19, 0x60,
+]);
+const PictureParameterSet = new Uint8Array([
+    0x68, 0xeb, 0xe3, 0xcb, 0x22, 0xc0,
+]);
+
+const OpusHead = new Uint8Array([
+    0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64, 0x01, 0x02, 0x38, 0x01,
+    0x80, 0xbb, 0x00, 0x00, 0x00, 0x00, 0x00,
+]);
+
+function annexB(...nalus: Uint8Array[]) {
+    const parts: number[] = [];
+    for (const nalu of nalus) {
+        parts.push(0, 0, 0, 1, ...nalu);
+    }
+    return new Uint8Array(parts);
+}
+
+function createStream(packets: ScrcpyMediaStreamPacket[]) {
+    return new ReadableStream<ScrcpyMediaStreamPacket>({
+        start(controller) {
+            for (const packet of packets) {
+                controller.enqueue(packet);
+            }
+            controller.close();
+        },
+    });
+}
+
+function createVideoPackets(count: number, keyframeInterval: number) {
+    const packets: ScrcpyMediaStreamPacket[] = [
+        {
+            type: "configuration",
+            data: annexB(SequenceParameterSet, PictureParameterSet),
+        },
+    ];
+    for (let i = 0; i < count; i += 1) {
+        packets.push({
+            type: "data",
+            keyframe: i % keyframeInterval === 0,
+            pts: 1_000_000n + BigInt(i) * 50_000n,
+            data: annexB(new Uint8Array([0x65, i, i, i])),
+        });
+    }
+    return packets;
+}
+
+function createAudioPackets(count: number) {
+    const packets: ScrcpyMediaStreamPacket[] = [
+        { type: "configuration", data: OpusHead },
+    ];
+    for (let i = 0; i < count; i += 1) {
+        packets.push({
+            type: "data",
+            pts: 1_000_000n + BigInt(i) * 20_000n,
+            data: new Uint8Array([0xfc, i]),
+        });
+    }
+    return packets;
+}
+
+interface Box {
+    type: string;
+    offset: number;
+    data: Uint8Array;
+}
+
+function parseBoxes(buffer: Uint8Array, offset = 0, end = buffer.length) {
+    const boxes: Box[] = [];
+    while (offset < end) {
+        const size = getUint32BigEndian(buffer, offset);
+        assert.ok(size >= 8, "invalid box size");
+        boxes.push({
+            type: decodeUtf8(buffer.subarray(offset + 4, offset + 8)),
+            offset,
+            data: buffer.subarray(offset + 8, offset + size),
+        });
+        offset += size;
+    }
+    return boxes;
+}
+
+function findBox(boxes: Box[], ...path: string[]): Box {
+    let box: Box | undefined;
+    for (const type of path) {
+        if (box) {
+            boxes = parseBoxes(box.data);
+        }
+        box = boxes.find((box) => box.type === type);
+        assert.ok(box, `box ${type} not found`);
+    }
+    return box!;
+}
+
+describe("ScrcpyMp4Muxer", () => {
+    it("should write header and fragments", async () => {
+        const file = await new ScrcpyMp4Muxer({
+            video: {
+                codec: ScrcpyVideoCodecId.H264,
+                stream: createStream(createVideoPackets(10, 4)),
+            },
+            audio: {
+                codec: ScrcpyAudioCodec.Opus,
+                stream: createStream(createAudioPackets(25)),
+            },
+        }).pipeThrough(new ConcatBufferStream());
+
+        const boxes = parseBoxes(file);
+        assert.deepStrictEqual(
+            boxes.map((box) => box.type),
+            ["ftyp", "moov", "moof", "mdat", "moof", "mdat", "moof", "mdat"],
+        );
+
+        const moov = parseBoxes(boxes[1]!.data);
+        assert.deepStrictEqual(
+            moov.map((box) => box.type),
+            ["mvhd", "trak", "trak", "mvex"],
+        );
+
+        const videoEntry = findBox(
+            [moov[1]!],
+            "trak",
+            "mdia",
+            "minf",
+            "stbl",
+            "stsd",
+        );
+        // entry_count
+        assert.strictEqual(getUint32BigEndian(videoEntry.data, 4), 1);
+        const avc3 = parseBoxes(videoEntry.data, 8)[0]!;
+        assert.strictEqual(avc3.type, "avc3");
+        // width, height
+        assert.strictEqual((avc3.data[24]! << 8) | avc3.data[25]!, 1280);
+        assert.strictEqual((avc3.data[26]! << 8) | avc3.data[27]!, 720);
+        const avcC = parseBoxes(avc3.data, 78)[0]!;
+        assert.strictEqual(avcC.type, "avcC");
+        assert.deepStrictEqual(
+            avcC.data.subarray(8, 8 + SequenceParameterSet.length),
+            SequenceParameterSet,
+        );
+
+        const audioEntry = findBox(
+            [moov[2]!],
+            "trak",
+            "mdia",
+            "minf",
+            "stbl",
+            "stsd",
+        );
+        const opus = parseBoxes(audioEntry.data, 8)[0]!;
+        assert.strictEqual(opus.type, "Opus");
+        const dOps = parseBoxes(opus.data, 28)[0]!;
+        assert.strictEqual(dOps.type, "dOps");
+        // OutputChannelCount, PreSkip, InputSampleRate in big endian
+        assert.deepStrictEqual(
+            dOps.data.subarray(1, 8),
+            new Uint8Array([0x02, 0x01, 0x38, 0x00, 0x00, 0xbb, 0x80]),
+        );
+
+        // Check first fragment samples
+        const moof = boxes[2]!;
+        const trafs = parseBoxes(moof.data).filter(
+            (box) => box.type === "traf",
+        );
+        assert.strictEqual(trafs.length, 2);
+
+        const videoTrun = findBox([trafs[0]!], "traf", "trun");
+        const sampleCount = getUint32BigEndian(videoTrun.data, 4);
+        assert.strictEqual(sampleCount, 4);
+        const dataOffset = getUint32BigEndian(videoTrun.data, 8);
+        // duration
+        assert.strictEqual(getUint32BigEndian(videoTrun.data, 12), 50_000);
+        // First sample is 4-byte length + 4-byte NAL unit
+        assert.strictEqual(getUint32BigEndian(videoTrun.data, 16), 8);
+        assert.deepStrictEqual(
+            file.subarray(
+                moof.offset + dataOffset,
+                moof.offset + dataOffset + 8,
+            ),
+            new Uint8Array([0, 0, 0, 4, 0x65, 0, 0, 0]),
+        );
+
+        const audioTfdt = findBox([trafs[1]!], "traf", "tfdt");
+        assert.strictEqual(getUint32BigEndian(audioTfdt.data, 8), 0);
+        const audioTrun = findBox([trafs[1]!], "traf", "trun");
+        // Samples are written when their durations are known,
+        // so audio samples until 220ms are in the first fragment
+        assert.strictEqual(getUint32BigEndian(audioTrun.data, 4), 12);
+        // 20ms in 48kHz
+        assert.strictEqual(getUint32BigEndian(audioTrun.data, 12), 960);
+    });
+
+    it("should ignore audio without configuration", async () => {
+        const file = await new ScrcpyMp4Muxer({
+            video: {
+                codec: ScrcpyVideoCodecId.H264,
+                stream: createStream(createVideoPackets(2, 10)),
+            },
+            audio: {
+                codec: ScrcpyAudioCodec.Opus,
+                stream: createStream([]),
+            },
+        }).pipeThrough(new ConcatBufferStream());
+
+        const moov = parseBoxes(parseBoxes(file)[1]!.data);
+        assert.deepStrictEqual(
+            moov.map((box) => box.type),
+            ["mvhd", "trak", "mvex"],
+        );
+    });
+
+    it("should reject packets without timestamps", async () => {
+        await assert.rejects(
+            new ScrcpyMp4Muxer({
+                video: {
+                    codec: ScrcpyVideoCodecId.H264,
+                    stream: createStream([
+                        {
+                            type: "configuration",
+                            data: annexB(
+                                SequenceParameterSet,
+                                PictureParameterSet,
+                            ),
+                        },
+                        { type: "data", data: annexB(new Uint8Array([0x65])) },
+                    ]),
+                },
+            }).pipeThrough(new ConcatBufferStream()),
+            /sendFrameMeta/,
+        );
+    });
+});
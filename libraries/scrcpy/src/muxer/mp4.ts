@@ -0,0 +1,544 @@
+// cspell: ignore avcC
+// cspell: ignore hvcC
+// cspell: ignore Opus
+// cspell: ignore stbl stsd stts stsc stsz stco mvex trex moof mfhd traf tfhd tfdt trun mdat
+// cspell: ignore mvhd tkhd mdia mdhd hdlr minf vmhd smhd dinf dref esds dfLa
+
+import { PushReadableStream } from "@yume-chan/stream-extra";
+
+import { ScrcpyAudioCodec, ScrcpyVideoCodecId } from "../base/index.js";
+
+import type { ScrcpyMuxerOptions, ScrcpyMuxerWriter } from "./muxer.js";
+import { muxScrcpyStreams } from "./muxer.js";
+import type {
+    ScrcpyMuxerAudioTrackInfo,
+    ScrcpyMuxerSample,
+    ScrcpyMuxerTrackInfo,
+    ScrcpyMuxerVideoTrackInfo,
+} from "./track.js";
+import {
+    ascii,
+    concatBuffers,
+    uint16,
+    uint24,
+    uint32,
+    uint64,
+    uint8,
+} from "./utils.js";
+
+// ISO/IEC 14496-12 4.2 Object structure
+function box(type: string, ...parts: Uint8Array[]) {
+    const body = concatBuffers(parts);
+    return concatBuffers([uint32(body.length + 8), ascii(type), body]);
+}
+
+function fullBox(
+    type: string,
+    version: number,
+    flags: number,
+    ...parts: Uint8Array[]
+) {
+    return box(type, uint8(version), uint24(flags), ...parts);
+}
+
+const Matrix = concatBuffers(
+    [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32),
+);
+
+const VideoTimescale = 1_000_000;
+const MovieTimescale = 1000;
+
+/**
+ * Maximum duration of a fragment in microseconds,
+ * fragments also start at every video keyframe.
+ */
+const MaxFragmentDuration = 1_000_000;
+
+// ISO/IEC 14496-12 8.8.3.1 sample_flags
+const KeyframeSampleFlags = 0x02000000;
+const NonKeyframeSampleFlags = 0x01010000;
+
+function createVideoSampleEntry(info: ScrcpyMuxerVideoTrackInfo) {
+    let type: string;
+    let configuration: Uint8Array;
+    switch (info.codec) {
+        case ScrcpyVideoCodecId.H264:
+            // `avc3` allows parameter sets in samples
+            type = "avc3";
+            configuration = box("avcC", info.configuration);
+            break;
+        case ScrcpyVideoCodecId.H265:
+            type = "hev1";
+            configuration = box("hvcC", info.configuration);
+            break;
+        case ScrcpyVideoCodecId.AV1:
+            type = "av01";
+            configuration = box("av1C", info.configuration);
+            break;
+        default:
+            throw new Error("Unsupported video codec");
+    }
+
+    // ISO/IEC 14496-12 12.1.3.2 VisualSampleEntry
+    return box(
+        type,
+        new Uint8Array(6),
+        // data_reference_index
+        uint16(1),
+        new Uint8Array(16),
+        uint16(info.width),
+        uint16(info.height),
+        // horizresolution and vertresolution, 72 dpi
+        uint32(0x00480000),
+        uint32(0x00480000),
+        uint32(0),
+        // frame_count
+        uint16(1),
+        // compressorname
+        new Uint8Array(32),
+        // depth
+        uint16(0x0018),
+        uint16(0xffff),
+        configuration,
+    );
+}
+
+// https://opus-codec.org/docs/opus_in_isobmff.html#4.3.2
+function createOpusSpecificBox(head: Uint8Array) {
+    // `OpusHead` uses little endian, while `dOps` uses big endian
+    const channelMappingFamily = head[18]!;
+    return box(
+        "dOps",
+        uint8(0),
+        uint8(head[9]!),
+        uint16(head[10]! | (head[11]! << 8)),
+        uint32(
+            head[12]! |
+                (head[13]! << 8) |
+                (head[14]! << 16) |
+                (head[15]! << 24),
+        ),
+        uint16(head[16]! | (head[17]! << 8)),
+        uint8(channelMappingFamily),
+        channelMappingFamily !== 0 ? head.subarray(19) : new Uint8Array(0),
+    );
+}
+
+// ISO/IEC 14496-1 7.2.2.1 BaseDescriptor
+function descriptor(tag: number, ...parts: Uint8Array[]) {
+    const body = concatBuffers(parts);
+    return concatBuffers([
+        uint8(tag),
+        // Always use 4 bytes for size
+        uint8(0x80 | ((body.length >> 21) & 0x7f)),
+        uint8(0x80 | ((body.length >> 14) & 0x7f)),
+        uint8(0x80 | ((body.length >> 7) & 0x7f)),
+        uint8(body.length & 0x7f),
+        body,
+    ]);
+}
+
+// ISO/IEC 14496-14 5.6 Sample Description Boxes
+function createEsdsBox(audioSpecificConfig: Uint8Array) {
+    return fullBox(
+        "esds",
+        0,
+        0,
+        descriptor(
+            // ES_DescrTag
+            0x03,
+            // ES_ID
+            uint16(0),
+            uint8(0),
+            descriptor(
+                // DecoderConfigDescrTag
+                0x04,
+                // objectTypeIndication: Audio ISO/IEC 14496-3
+                uint8(0x40),
+                // streamType: AudioStream, upStream = 0, reserved = 1
+                uint8((0x05 << 2) | 1),
+                // bufferSizeDB, maxBitrate, avgBitrate
+                uint24(0),
+                uint32(0),
+                uint32(0),
+                // DecSpecificInfoTag
+                descriptor(0x05, audioSpecificConfig),
+            ),
+            // SLConfigDescrTag, predefined = 2 (MP4)
+            descriptor(0x06, uint8(0x02)),
+        ),
+    );
+}
+
+// https://github.com/xiph/flac/blob/master/doc/isoflac.txt
+function createFlacSpecificBox(streamInfo: Uint8Array) {
+    return fullBox(
+        "dfLa",
+        0,
+        0,
+        // last_metadata_block_flag = 1, BLOCK_TYPE = STREAMINFO
+        uint8(0x80),
+        uint24(streamInfo.length),
+        streamInfo,
+    );
+}
+
+function createAudioSampleEntry(info: ScrcpyMuxerAudioTrackInfo) {
+    let type: string;
+    let configuration: Uint8Array;
+    switch (info.codec) {
+        case ScrcpyAudioCodec.Opus:
+            type = "Opus";
+            configuration = createOpusSpecificBox(info.configuration);
+            break;
+        case ScrcpyAudioCodec.Aac:
+            type = "mp4a";
+            configuration = createEsdsBox(info.configuration);
+            break;
+        case ScrcpyAudioCodec.Flac:
+            type = "fLaC";
+            configuration = createFlacSpecificBox(info.configuration);
+            break;
+        default:
+            throw new Error(
+                `Unsupported audio codec ${info.codec.optionValue}`,
+            );
+    }
+
+    // ISO/IEC 14496-12 12.2.3.2 AudioSampleEntry
+    return box(
+        type,
+        new Uint8Array(6),
+        // data_reference_index
+        uint16(1),
+        new Uint8Array(8),
+        uint16(info.channelCount),
+        // samplesize
+        uint16(16),
+        uint32(0),
+        // samplerate in 16.16 fixed point, set to 0 if it doesn't fit
+        uint32((info.sampleRate > 0xffff ? 0 : info.sampleRate) * 0x10000),
+        configuration,
+    );
+}
+
+function createTrackBox(id: number, info: ScrcpyMuxerTrackInfo) {
+    const video = info.type === "video";
+
+    return box(
+        "trak",
+        fullBox(
+            "tkhd",
+            0,
+            // track_enabled | track_in_movie
+            0x000003,
+            // creation_time, modification_time
+            uint32(0),
+            uint32(0),
+            uint32(id),
+            uint32(0),
+            // duration
+            uint32(0),
+            new Uint8Array(8),
+            // layer, alternate_group
+            uint16(0),
+            uint16(0),
+            // volume
+            uint16(video ? 0 : 0x0100),
+            uint16(0),
+            Matrix,
+            // width and height in 16.16 fixed point
+            uint32(video ? info.width * 0x10000 : 0),
+            uint32(video ? info.height * 0x10000 : 0),
+        ),
+        box(
+            "mdia",
+            fullBox(
+                "mdhd",
+                0,
+                0,
+                uint32(0),
+                uint32(0),
+                uint32(video ? VideoTimescale : info.sampleRate),
+                uint32(0),
+                // language: `und`
+                uint16(0x55c4),
+                uint16(0),
+            ),
+            fullBox(
+                "hdlr",
+                0,
+                0,
+                uint32(0),
+                ascii(video ? "vide" : "soun"),
+                new Uint8Array(12),
+                ascii(video ? "VideoHandler\0" : "SoundHandler\0"),
+            ),
+            box(
+                "minf",
+                video
+                    ? fullBox("vmhd", 0, 1, new Uint8Array(8))
+                    : fullBox("smhd", 0, 0, new Uint8Array(4)),
+                box(
+                    "dinf",
+                    fullBox(
+                        "dref",
+                        0,
+                        0,
+                        uint32(1),
+                        // self-contained
+                        fullBox("url ", 0, 1),
+                    ),
+                ),
+                box(
+                    "stbl",
+                    fullBox(
+                        "stsd",
+                        0,
+                        0,
+                        uint32(1),
+                        video
+                            ? createVideoSampleEntry(info)
+                            : createAudioSampleEntry(info),
+                    ),
+                    // All samples are in fragments
+                    fullBox("stts", 0, 0, uint32(0)),
+                    fullBox("stsc", 0, 0, uint32(0)),
+                    fullBox("stsz", 0, 0, uint32(0), uint32(0)),
+                    fullBox("stco", 0, 0, uint32(0)),
+                ),
+            ),
+        ),
+    );
+}
+
+interface Mp4FragmentSample {
+    duration: number;
+    keyframe: boolean;
+    data: Uint8Array;
+}
+
+interface Mp4Track {
+    info: ScrcpyMuxerTrackInfo;
+    timescale: number;
+    /**
+     * The last sample, waiting for the next one to calculate its duration.
+     */
+    pending: { time: number; sample: ScrcpyMuxerSample } | undefined;
+    lastDuration: number;
+    /**
+     * Decode time of the first sample in current fragment.
+     */
+    baseTime: number;
+    samples: Mp4FragmentSample[];
+}
+
+class Mp4Writer implements ScrcpyMuxerWriter {
+    #tracks: Mp4Track[] = [];
+    #sequenceNumber = 1;
+    #fragmentStart: number | undefined;
+
+    *writeHeader(tracks: readonly ScrcpyMuxerTrackInfo[]) {
+        this.#tracks = tracks.map((info) => ({
+            info,
+            timescale: info.type === "video" ? VideoTimescale : info.sampleRate,
+            pending: undefined,
+            lastDuration: 0,
+            baseTime: 0,
+            samples: [],
+        }));
+
+        yield box(
+            "ftyp",
+            ascii("isom"),
+            // minor_version
+            uint32(0x200),
+            ascii("isom"),
+            ascii("iso6"),
+            ascii("mp41"),
+        );
+
+        yield box(
+            "moov",
+            fullBox(
+                "mvhd",
+                0,
+                0,
+                uint32(0),
+                uint32(0),
+                uint32(MovieTimescale),
+                // duration
+                uint32(0),
+                // rate, volume
+                uint32(0x00010000),
+                uint16(0x0100),
+                new Uint8Array(10),
+                Matrix,
+                new Uint8Array(24),
+                // next_track_ID
+                uint32(tracks.length + 1),
+            ),
+            ...tracks.map((info, index) => createTrackBox(index + 1, info)),
+            box(
+                "mvex",
+                ...tracks.map((_, index) =>
+                    fullBox(
+                        "trex",
+                        0,
+                        0,
+                        uint32(index + 1),
+                        // default_sample_description_index
+                        uint32(1),
+                        // default_sample_duration, default_sample_size, default_sample_flags
+                        uint32(0),
+                        uint32(0),
+                        uint32(0),
+                    ),
+                ),
+            ),
+        );
+    }
+
+    #shouldStartFragment(track: Mp4Track, sample: ScrcpyMuxerSample) {
+        if (this.#fragmentStart === undefined) {
+            return false;
+        }
+
+        if (track.info.type === "video" && sample.keyframe) {
+            // Don't split audio samples before the first keyframe
+            // into a separate fragment
+            return track.samples.length > 0;
+        }
+
+        return sample.timestamp - this.#fragmentStart >= MaxFragmentDuration;
+    }
+
+    *#append(track: Mp4Track, duration: number) {
+        const { time, sample } = track.pending!;
+
+        if (this.#shouldStartFragment(track, sample)) {
+            yield* this.#writeFragment();
+        }
+
+        if (this.#fragmentStart === undefined) {
+            this.#fragmentStart = sample.timestamp;
+        }
+        if (track.samples.length === 0) {
+            track.baseTime = time;
+        }
+
+        track.samples.push({
+            duration,
+            keyframe: sample.keyframe,
+            data: sample.data,
+        });
+        track.lastDuration = duration;
+    }
+
+    *writeSample(index: number, sample: ScrcpyMuxerSample) {
+        const track = this.#tracks[index]!;
+        const time = Math.round((sample.timestamp * track.timescale) / 1e6);
+
+        if (track.pending) {
+            yield* this.#append(track, Math.max(0, time - track.pending.time));
+        }
+
+        track.pending = { time, sample };
+    }
+
+    #createMovieFragment(dataOffsets: readonly number[]) {
+        return box(
+            "moof",
+            fullBox("mfhd", 0, 0, uint32(this.#sequenceNumber)),
+            ...this.#tracks.flatMap((track, index) => {
+                if (track.samples.length === 0) {
+                    return [];
+                }
+
+                return [
+                    box(
+                        "traf",
+                        // default-base-is-moof
+                        fullBox("tfhd", 0, 0x020000, uint32(index + 1)),
+                        fullBox("tfdt", 1, 0, uint64(track.baseTime)),
+                        fullBox(
+                            "trun",
+                            0,
+                            // data-offset-present | sample-duration-present |
+                            // sample-size-present | sample-flags-present
+                            0x000701,
+                            uint32(track.samples.length),
+                            uint32(dataOffsets[index]!),
+                            ...track.samples.flatMap((sample) => [
+                                uint32(sample.duration),
+                                uint32(sample.data.length),
+                                uint32(
+                                    sample.keyframe
+                                        ? KeyframeSampleFlags
+                                        : NonKeyframeSampleFlags,
+                                ),
+                            ]),
+                        ),
+                    ),
+                ];
+            }),
+        );
+    }
+
+    *#writeFragment() {
+        if (this.#tracks.every((track) => track.samples.length === 0)) {
+            return;
+        }
+
+        // Size of `moof` doesn't depend on data offsets,
+        // so create it once to get its size.
+        const moofSize = this.#createMovieFragment(
+            this.#tracks.map(() => 0),
+        ).length;
+
+        const dataOffsets: number[] = [];
+        // `mdat` header
+        let offset = moofSize + 8;
+        for (const track of this.#tracks) {
+            dataOffsets.push(offset);
+            for (const sample of track.samples) {
+                offset += sample.data.length;
+            }
+        }
+
+        yield this.#createMovieFragment(dataOffsets);
+        yield concatBuffers([uint32(offset - moofSize), ascii("mdat")]);
+        for (const track of this.#tracks) {
+            for (const sample of track.samples) {
+                yield sample.data;
+            }
+            track.samples = [];
+        }
+
+        this.#sequenceNumber += 1;
+        this.#fragmentStart = undefined;
+    }
+
+    *writeTrailer() {
+        for (const track of this.#tracks) {
+            if (track.pending) {
+                // Assume the last sample has the same duration as the previous one
+                yield* this.#append(track, track.lastDuration);
+                track.pending = undefined;
+            }
+        }
+        yield* this.#writeFragment();
+    }
+}
+
+/**
+ * Muxes scrcpy video and audio streams into a fragmented MP4 file,
+ * without re-encoding.
+ */
+export class ScrcpyMp4Muxer extends PushReadableStream<Uint8Array> {
+    constructor(options: ScrcpyMuxerOptions) {
+        super((controller) =>
+            muxScrcpyStreams(options, new Mp4Writer(), controller),
+        );
+    }
+}
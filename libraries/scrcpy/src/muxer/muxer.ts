@@ -0,0 +1,176 @@
+import type {
+    PushReadableStreamController,
+    ReadableStream,
+    ReadableStreamDefaultReader,
+} from "@yume-chan/stream-extra";
+
+import type {
+    ScrcpyAudioCodec,
+    ScrcpyMediaStreamPacket,
+    ScrcpyVideoCodecId,
+} from "../base/index.js";
+
+import type { ScrcpyMuxerSample, ScrcpyMuxerTrackInfo } from "./track.js";
+import { ScrcpyMuxerAudioTrack, ScrcpyMuxerVideoTrack } from "./track.js";
+
+export interface ScrcpyMuxerVideoInput {
+    codec: ScrcpyVideoCodecId;
+    /**
+     * Video packets, must have `pts` (`sendFrameMeta` must not be disabled).
+     */
+    stream: ReadableStream<ScrcpyMediaStreamPacket>;
+}
+
+export interface ScrcpyMuxerAudioInput {
+    /**
+     * Opus, AAC or FLAC. Raw audio is not supported.
+     */
+    codec: ScrcpyAudioCodec;
+    stream: ReadableStream<ScrcpyMediaStreamPacket>;
+}
+
+export interface ScrcpyMuxerOptions {
+    video: ScrcpyMuxerVideoInput;
+    audio?: ScrcpyMuxerAudioInput | undefined;
+}
+
+export interface ScrcpyMuxerWriter {
+    writeHeader(tracks: readonly ScrcpyMuxerTrackInfo[]): Iterable<Uint8Array>;
+
+    /**
+     * Writes a sample, samples are sorted by timestamp across all tracks.
+     *
+     * @param track Index of the track in `tracks` of `writeHeader`
+     * @param sample The sample, `timestamp` is relative to the first sample
+     */
+    writeSample(track: number, sample: ScrcpyMuxerSample): Iterable<Uint8Array>;
+
+    writeTrailer(): Iterable<Uint8Array>;
+}
+
+interface MuxerInput {
+    track: ScrcpyMuxerVideoTrack | ScrcpyMuxerAudioTrack;
+    reader: ReadableStreamDefaultReader<ScrcpyMediaStreamPacket>;
+    queue: ScrcpyMuxerSample[];
+    ended: boolean;
+}
+
+/**
+ * Reads packets from all inputs, and writes them using `writer` in timestamp order.
+ */
+export async function muxScrcpyStreams(
+    options: ScrcpyMuxerOptions,
+    writer: ScrcpyMuxerWriter,
+    controller: PushReadableStreamController<Uint8Array>,
+): Promise<void> {
+    // Validate codecs before locking the streams
+    const videoTrack = new ScrcpyMuxerVideoTrack(options.video.codec);
+    const audioTrack =
+        options.audio && new ScrcpyMuxerAudioTrack(options.audio.codec);
+
+    const inputs: MuxerInput[] = [
+        {
+            track: videoTrack,
+            reader: options.video.stream.getReader(),
+            queue: [],
+            ended: false,
+        },
+    ];
+    if (options.audio) {
+        inputs.push({
+            track: audioTrack!,
+            reader: options.audio.stream.getReader(),
+            queue: [],
+            ended: false,
+        });
+    }
+
+    controller.abortSignal.addEventListener("abort", () => {
+        for (const input of inputs) {
+            void input.reader.cancel();
+        }
+    });
+
+    const write = async (chunks: Iterable<Uint8Array>) => {
+        for (const chunk of chunks) {
+            await controller.enqueue(chunk);
+        }
+    };
+
+    // Tracks ended before receiving configuration are ignored
+    let active: MuxerInput[] | undefined;
+    let origin: number | undefined;
+
+    try {
+        while (!controller.abortSignal.aborted) {
+            if (!active) {
+                if (inputs.every((input) => input.track.info || input.ended)) {
+                    active = inputs.filter((input) => input.track.info);
+                    if (active.length === 0) {
+                        return;
+                    }
+                    await write(
+                        writer.writeHeader(
+                            active.map((input) => input.track.info!),
+                        ),
+                    );
+                }
+            }
+
+            if (active) {
+                // Write samples until one track doesn't have buffered samples
+                while (
+                    active.every(
+                        (input) => input.queue.length > 0 || input.ended,
+                    )
+                ) {
+                    let next: number | undefined;
+                    for (let i = 0; i < active.length; i += 1) {
+                        const head = active[i]!.queue[0];
+                        if (
+                            head &&
+                            (next === undefined ||
+                                head.timestamp <
+                                    active[next]!.queue[0]!.timestamp)
+                        ) {
+                            next = i;
+                        }
+                    }
+
+                    if (next === undefined) {
+                        // All tracks ended
+                        await write(writer.writeTrailer());
+                        return;
+                    }
+
+                    const sample = active[next]!.queue.shift()!;
+                    origin ??= sample.timestamp;
+                    sample.timestamp = Math.max(0, sample.timestamp - origin);
+                    await write(writer.writeSample(next, sample));
+                }
+            }
+
+            // Read from the track blocking the output
+            const input = inputs.find(
+                (input) =>
+                    !input.ended &&
+                    (active ? input.queue.length === 0 : !input.track.info),
+            )!;
+            const result = await input.reader.read();
+            if (result.done) {
+                input.ended = true;
+                continue;
+            }
+
+            const sample = input.track.process(result.value);
+            if (sample) {
+                input.queue.push(sample);
+            }
+        }
+    } catch (e) {
+        for (const input of inputs) {
+            input.reader.cancel(e).catch(() => {});
+        }
+        throw e;
+    }
+}
@@ -0,0 +1,510 @@
+// cspell: ignore avcC
+// cspell: ignore hvcC
+// cspell: ignore Opus
+
+import { getUint16LittleEndian } from "@yume-chan/no-data-view";
+
+import { ScrcpyAudioCodec, ScrcpyVideoCodecId } from "../base/index.js";
+import type { ScrcpyMediaStreamPacket } from "../base/index.js";
+import {
+    Av1,
+    annexBSplitNalu,
+    h264ParseConfiguration,
+    h265ParseConfiguration,
+    h265ParseSequenceParameterSet,
+} from "../codec/index.js";
+
+import { concatBuffers, uint16, uint32, uint8 } from "./utils.js";
+
+export interface ScrcpyMuxerSample {
+    /**
+     * Presentation timestamp in microseconds.
+     */
+    timestamp: number;
+    keyframe: boolean;
+    data: Uint8Array;
+}
+
+export interface ScrcpyMuxerVideoTrackInfo {
+    type: "video";
+    codec: ScrcpyVideoCodecId;
+    width: number;
+    height: number;
+    /**
+     * `AVCDecoderConfigurationRecord`, `HEVCDecoderConfigurationRecord`
+     * or `AV1CodecConfigurationRecord`,
+     * used by both MP4 and Matroska.
+     */
+    configuration: Uint8Array;
+}
+
+export interface ScrcpyMuxerAudioTrackInfo {
+    type: "audio";
+    codec: ScrcpyAudioCodec;
+    sampleRate: number;
+    channelCount: number;
+    /**
+     * `OpusHead` for Opus,
+     * `AudioSpecificConfig` for AAC,
+     * or `STREAMINFO` metadata block for FLAC.
+     */
+    configuration: Uint8Array;
+    /**
+     * Number of samples to discard from the decoder output at the beginning (Opus only).
+     */
+    preSkip: number;
+}
+
+export type ScrcpyMuxerTrackInfo =
+    | ScrcpyMuxerVideoTrackInfo
+    | ScrcpyMuxerAudioTrackInfo;
+
+/**
+ * Converts Annex B (start code prefixed) NAL units to
+ * 4-byte length prefixed format used by MP4 and Matroska.
+ */
+export function annexBToLengthPrefixed(data: Uint8Array): Uint8Array {
+    const parts: Uint8Array[] = [];
+    for (const nalu of annexBSplitNalu(data)) {
+        parts.push(uint32(nalu.length), nalu);
+    }
+    return concatBuffers(parts);
+}
+
+// ISO/IEC 14496-15 5.3.3.1 AVCDecoderConfigurationRecord
+function createAvcConfiguration(
+    sequenceParameterSet: Uint8Array,
+    pictureParameterSet: Uint8Array,
+) {
+    return concatBuffers([
+        uint8(1),
+        // AVCProfileIndication, profile_compatibility, AVCLevelIndication
+        sequenceParameterSet.subarray(1, 4),
+        // lengthSizeMinusOne = 3
+        uint8(0xff),
+        uint8(0xe0 | 1),
+        uint16(sequenceParameterSet.length),
+        sequenceParameterSet,
+        uint8(1),
+        uint16(pictureParameterSet.length),
+        pictureParameterSet,
+    ]);
+}
+
+// ISO/IEC 14496-15 8.3.3.1 HEVCDecoderConfigurationRecord
+function createHevcConfiguration(data: Uint8Array) {
+    const configuration = h265ParseConfiguration(data);
+    const {
+        chroma_format_idc,
+        bit_depth_luma_minus8,
+        bit_depth_chroma_minus8,
+        sps_max_sub_layers_minus1,
+        sps_temporal_id_nesting_flag,
+    } = h265ParseSequenceParameterSet(configuration.sequenceParameterSet.rbsp);
+
+    const arrays = [
+        configuration.videoParameterSet,
+        configuration.sequenceParameterSet,
+        configuration.pictureParameterSet,
+    ].map((nalu) =>
+        concatBuffers([
+            // array_completeness = 1
+            uint8(0x80 | nalu.nal_unit_type),
+            uint16(1),
+            uint16(nalu.data.length),
+            nalu.data,
+        ]),
+    );
+
+    return {
+        configuration,
+        record: concatBuffers([
+            uint8(1),
+            uint8(
+                (configuration.generalProfileSpace << 6) |
+                    (configuration.generalTierFlag ? 0x20 : 0) |
+                    configuration.generalProfileIndex,
+            ),
+            configuration.generalProfileCompatibilitySet,
+            configuration.generalConstraintSet,
+            uint8(configuration.generalLevelIndex),
+            // min_spatial_segmentation_idc = 0
+            uint16(0xf000),
+            // parallelismType = 0
+            uint8(0xfc),
+            uint8(0xfc | chroma_format_idc),
+            uint8(0xf8 | bit_depth_luma_minus8),
+            uint8(0xf8 | bit_depth_chroma_minus8),
+            // avgFrameRate = 0
+            uint16(0),
+            uint8(
+                ((sps_max_sub_layers_minus1 + 1) << 3) |
+                    (sps_temporal_id_nesting_flag ? 0x04 : 0) |
+                    // lengthSizeMinusOne = 3
+                    0x03,
+            ),
+            uint8(arrays.length),
+            ...arrays,
+        ]),
+    };
+}
+
+// AV1 Bitstream & Decoding Process Specification 5.3 OBU syntax
+function* splitAv1Obus(data: Uint8Array) {
+    let offset = 0;
+    while (offset < data.length) {
+        const header = data[offset]!;
+        const type = (header >> 3) & 0xf;
+        const hasExtension = !!(header & 0x04);
+        const hasSize = !!(header & 0x02);
+
+        let position = offset + 1 + (hasExtension ? 1 : 0);
+        let size: number;
+        if (hasSize) {
+            size = 0;
+            for (let i = 0; i < 8; i += 1) {
+                const byte = data[position]!;
+                position += 1;
+                size += (byte & 0x7f) * 2 ** (7 * i);
+                if (!(byte & 0x80)) {
+                    break;
+                }
+            }
+        } else {
+            size = data.length - position;
+        }
+
+        const end = position + size;
+        if (end > data.length) {
+            throw new Error("Invalid data");
+        }
+
+        yield { type, data: data.subarray(offset, end) };
+        offset = end;
+    }
+}
+
+/**
+ * Removes temporal delimiter OBUs,
+ * which are not allowed in MP4 and Matroska samples.
+ */
+function av1RemoveTemporalDelimiters(data: Uint8Array) {
+    const parts: Uint8Array[] = [];
+    for (const obu of splitAv1Obus(data)) {
+        if (obu.type !== Av1.ObuType.TemporalDelimiter) {
+            parts.push(obu.data);
+        }
+    }
+    return parts.length === 1 ? parts[0]! : concatBuffers(parts);
+}
+
+// https://aomediacodec.github.io/av1-isobmff/#av1codecconfigurationbox-section
+function createAv1Configuration(data: Uint8Array) {
+    let sequenceHeaderObu: Uint8Array | undefined;
+    for (const obu of splitAv1Obus(data)) {
+        if (obu.type === Av1.ObuType.SequenceHeader) {
+            sequenceHeaderObu = obu.data;
+            break;
+        }
+    }
+    if (!sequenceHeaderObu) {
+        return undefined;
+    }
+
+    const sequenceHeader = new Av1(sequenceHeaderObu).searchSequenceHeaderObu();
+    if (!sequenceHeader) {
+        return undefined;
+    }
+
+    const {
+        seq_profile,
+        seq_level_idx: [seqLevelIdx = 0],
+        seq_tier: [seqTier = 0],
+        max_frame_width_minus_1,
+        max_frame_height_minus_1,
+        color_config: {
+            BitDepth,
+            twelve_bit,
+            mono_chrome,
+            subsampling_x,
+            subsampling_y,
+            chroma_sample_position,
+        },
+    } = sequenceHeader;
+
+    return {
+        width: max_frame_width_minus_1 + 1,
+        height: max_frame_height_minus_1 + 1,
+        record: concatBuffers([
+            // marker = 1, version = 1
+            uint8(0x81),
+            uint8((seq_profile << 5) | seqLevelIdx),
+            uint8(
+                (seqTier << 7) |
+                    (BitDepth > 8 ? 0x40 : 0) |
+                    (twelve_bit ? 0x20 : 0) |
+                    (mono_chrome ? 0x10 : 0) |
+                    (subsampling_x ? 0x08 : 0) |
+                    (subsampling_y ? 0x04 : 0) |
+                    chroma_sample_position,
+            ),
+            // initial_presentation_delay_present = 0
+            uint8(0),
+            sequenceHeaderObu,
+        ]),
+    };
+}
+
+function requirePts(packet: ScrcpyMediaStreamPacket & { type: "data" }) {
+    if (packet.pts === undefined) {
+        throw new Error(
+            "Packets don't have timestamps, `sendFrameMeta` must be enabled",
+        );
+    }
+    return Number(packet.pts);
+}
+
+export class ScrcpyMuxerVideoTrack {
+    readonly #codec: ScrcpyVideoCodecId;
+
+    #info: ScrcpyMuxerVideoTrackInfo | undefined;
+    get info() {
+        return this.#info;
+    }
+
+    /**
+     * Parameter sets received after the first configuration,
+     * which will be prepended to the next sample.
+     */
+    #inBandConfiguration: Uint8Array | undefined;
+
+    constructor(codec: ScrcpyVideoCodecId) {
+        this.#codec = codec;
+    }
+
+    #configure(data: Uint8Array) {
+        if (this.#info) {
+            // Encoder restarted (for example, when device rotated),
+            // later samples can use different parameter sets.
+            this.#inBandConfiguration = annexBToLengthPrefixed(data);
+            return;
+        }
+
+        switch (this.#codec) {
+            case ScrcpyVideoCodecId.H264: {
+                const {
+                    sequenceParameterSet,
+                    pictureParameterSet,
+                    croppedWidth,
+                    croppedHeight,
+                } = h264ParseConfiguration(data);
+                this.#info = {
+                    type: "video",
+                    codec: this.#codec,
+                    width: croppedWidth,
+                    height: croppedHeight,
+                    configuration: createAvcConfiguration(
+                        sequenceParameterSet,
+                        pictureParameterSet,
+                    ),
+                };
+                break;
+            }
+            case ScrcpyVideoCodecId.H265: {
+                const { configuration, record } = createHevcConfiguration(data);
+                this.#info = {
+                    type: "video",
+                    codec: this.#codec,
+                    width: configuration.croppedWidth,
+                    height: configuration.croppedHeight,
+                    configuration: record,
+                };
+                break;
+            }
+        }
+    }
+
+    process(packet: ScrcpyMediaStreamPacket): ScrcpyMuxerSample | undefined {
+        if (packet.type === "configuration") {
+            this.#configure(packet.data);
+            return undefined;
+        }
+
+        const timestamp = requirePts(packet);
+        const keyframe = packet.keyframe !== false;
+
+        let data: Uint8Array;
+        if (this.#codec === ScrcpyVideoCodecId.AV1) {
+            // AV1 sequence header is in keyframes
+            if (!this.#info) {
+                const configuration = createAv1Configuration(packet.data);
+                if (!configuration) {
+                    return undefined;
+                }
+                this.#info = {
+                    type: "video",
+                    codec: this.#codec,
+                    width: configuration.width,
+                    height: configuration.height,
+                    configuration: configuration.record,
+                };
+            }
+            data = av1RemoveTemporalDelimiters(packet.data);
+        } else {
+            if (!this.#info) {
+                // Can't decode frames before configuration
+                return undefined;
+            }
+
+            data = annexBToLengthPrefixed(packet.data);
+            if (this.#inBandConfiguration) {
+                data = concatBuffers([this.#inBandConfiguration, data]);
+                this.#inBandConfiguration = undefined;
+            }
+        }
+
+        return { timestamp, keyframe, data };
+    }
+}
+
+const OpusHeadMagic = [0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64];
+
+// ISO/IEC 14496-3 1.6.3.4 samplingFrequencyIndex
+const AacSampleRates = [
+    96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+    8000, 7350,
+];
+
+export class ScrcpyMuxerAudioTrack {
+    readonly #codec: ScrcpyAudioCodec;
+
+    #info: ScrcpyMuxerAudioTrackInfo | undefined;
+    get info() {
+        return this.#info;
+    }
+
+    constructor(codec: ScrcpyAudioCodec) {
+        if (codec === ScrcpyAudioCodec.Raw) {
+            throw new Error("Raw audio is not supported");
+        }
+        this.#codec = codec;
+    }
+
+    #configureOpus(data: Uint8Array) {
+        // Search for `OpusHead` in case it's still wrapped in Android's format
+        let start = -1;
+        for (let i = 0; i + OpusHeadMagic.length <= data.length; i += 1) {
+            if (
+                OpusHeadMagic.every((value, index) => data[i + index] === value)
+            ) {
+                start = i;
+                break;
+            }
+        }
+        if (start === -1 || data.length - start < 19) {
+            throw new Error("Invalid Opus configuration");
+        }
+
+        // https://datatracker.ietf.org/doc/html/rfc7845#section-5.1
+        const head = data.subarray(
+            start,
+            start + 19 + (data[start + 18] ? 2 + data[start + 9]! : 0),
+        );
+        return {
+            channelCount: head[9]!,
+            preSkip: getUint16LittleEndian(head, 10),
+            // Opus always decodes at 48kHz
+            sampleRate: 48000,
+            configuration: head,
+        };
+    }
+
+    #configureAac(data: Uint8Array) {
+        // ISO/IEC 14496-3 1.6.2.1 AudioSpecificConfig
+        const frequencyIndex = ((data[0]! & 0x07) << 1) | (data[1]! >> 7);
+        let sampleRate: number;
+        let channelConfiguration: number;
+        if (frequencyIndex === 0xf) {
+            sampleRate =
+                ((data[1]! & 0x7f) << 17) |
+                (data[2]! << 9) |
+                (data[3]! << 1) |
+                (data[4]! >> 7);
+            channelConfiguration = (data[4]! >> 3) & 0x0f;
+        } else {
+            sampleRate = AacSampleRates[frequencyIndex] ?? 48000;
+            channelConfiguration = (data[1]! >> 3) & 0x0f;
+        }
+
+        return {
+            channelCount: channelConfiguration,
+            preSkip: 0,
+            sampleRate,
+            configuration: data,
+        };
+    }
+
+    #configureFlac(data: Uint8Array) {
+        // Skip `fLaC` marker and metadata block header if present
+        if (
+            data[0] === 0x66 &&
+            data[1] === 0x4c &&
+            data[2] === 0x61 &&
+            data[3] === 0x43
+        ) {
+            data = data.subarray(8);
+        }
+        if (data.length < 34) {
+            throw new Error("Invalid FLAC configuration");
+        }
+
+        // https://xiph.org/flac/format.html#metadata_block_streaminfo
+        const streamInfo = data.subarray(0, 34);
+        return {
+            channelCount: ((streamInfo[12]! >> 1) & 0x07) + 1,
+            preSkip: 0,
+            sampleRate:
+                (streamInfo[10]! << 12) |
+                (streamInfo[11]! << 4) |
+                (streamInfo[12]! >> 4),
+            configuration: streamInfo,
+        };
+    }
+
+    process(packet: ScrcpyMediaStreamPacket): ScrcpyMuxerSample | undefined {
+        if (packet.type === "configuration") {
+            if (this.#info) {
+                return undefined;
+            }
+
+            let info: Omit<ScrcpyMuxerAudioTrackInfo, "type" | "codec">;
+            switch (this.#codec) {
+                case ScrcpyAudioCodec.Opus:
+                    info = this.#configureOpus(packet.data);
+                    break;
+                case ScrcpyAudioCodec.Aac:
+                    info = this.#configureAac(packet.data);
+                    break;
+                case ScrcpyAudioCodec.Flac:
+                    info = this.#configureFlac(packet.data);
+                    break;
+                default:
+                    throw new Error(
+                        `Unsupported audio codec ${this.#codec.optionValue}`,
+                    );
+            }
+            this.#info = { type: "audio", codec: this.#codec, ...info };
+            return undefined;
+        }
+
+        if (!this.#info) {
+            return undefined;
+        }
+
+        return {
+            timestamp: requirePts(packet),
+            keyframe: true,
+            data: packet.data,
+        };
+    }
+}
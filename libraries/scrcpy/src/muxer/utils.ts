@@ -0,0 +1,55 @@
+import {
+    setUint16BigEndian,
+    setUint32BigEndian,
+    setUint64BigEndian,
+} from "@yume-chan/no-data-view";
+import { encodeUtf8 } from "@yume-chan/struct";
+
+export function concatBuffers(parts: readonly Uint8Array[]): Uint8Array {
+    let length = 0;
+    for (const part of parts) {
+        length += part.length;
+    }
+
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+export function uint8(value: number): Uint8Array {
+    return new Uint8Array([value]);
+}
+
+export function uint16(value: number): Uint8Array {
+    const result = new Uint8Array(2);
+    setUint16BigEndian(result, 0, value);
+    return result;
+}
+
+export function uint24(value: number): Uint8Array {
+    return new Uint8Array([
+        (value >> 16) & 0xff,
+        (value >> 8) & 0xff,
+        value & 0xff,
+    ]);
+}
+
+export function uint32(value: number): Uint8Array {
+    const result = new Uint8Array(4);
+    setUint32BigEndian(result, 0, value >>> 0);
+    return result;
+}
+
+export function uint64(value: number | bigint): Uint8Array {
+    const result = new Uint8Array(8);
+    setUint64BigEndian(result, 0, BigInt(value));
+    return result;
+}
+
+export function ascii(value: string): Uint8Array {
+    return encodeUtf8(value);
+}